@@ -0,0 +1,364 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import Link from 'next/link'
+import type { TwoFactorEnrollment } from '@/lib/two-factor'
+import { twoFactorCodeSchema } from '@/lib/validation/auth'
+import { formError } from '@/lib/validation/errors'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  backupCodesRemaining: number
+}
+
+interface Session {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+export default function AccountPage() {
+  const { user, isAuthenticated, isLoading: authLoading, logout, token } = useAuth()
+  const router = useRouter()
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/')
+    }
+  }, [isAuthenticated, authLoading, router])
+
+  useEffect(() => {
+    if (isAuthenticated && token) {
+      fetchData()
+    }
+  }, [isAuthenticated, token])
+
+  const fetchData = async () => {
+    try {
+      const [twoFactorRes, sessionsRes] = await Promise.all([
+        fetch('/api/auth/two-factor', {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        fetch('/api/auth/sessions', {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      ])
+
+      if (!twoFactorRes.ok || !sessionsRes.ok) {
+        throw new Error('Failed to load account')
+      }
+
+      setTwoFactor(await twoFactorRes.json())
+      const sessionsData = await sessionsRes.json()
+      setSessions(sessionsData.sessions || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startSetup = async () => {
+    setIsSubmitting(true)
+    setError('')
+    try {
+      const response = await fetch('/api/auth/two-factor/setup', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to start setup')
+      }
+
+      const data = await response.json()
+      setEnrollment(data.enrollment)
+      setCode('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Enabling, disabling and new backup codes all confirm with a current code
+  const submitCode = async (action: 'enable' | 'disable' | 'backup-codes') => {
+    const invalid = formError(twoFactorCodeSchema, { code })
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    if (action === 'disable' && !confirm('Turn off two-factor authentication?')) return
+
+    setIsSubmitting(true)
+    setError('')
+    try {
+      const response = await fetch(
+        action === 'backup-codes' ? '/api/auth/two-factor/backup-codes' : '/api/auth/two-factor',
+        {
+          method: action === 'disable' ? 'DELETE' : 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ code }),
+        },
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update two-factor')
+      }
+
+      const data = await response.json()
+      setBackupCodes(data.backupCodes ?? null)
+      setEnrollment(null)
+      setCode('')
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update two-factor')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const revokeSession = async (session: Session) => {
+    if (session.current) {
+      logout()
+      return
+    }
+
+    setError('')
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to sign out session')
+      }
+
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session')
+    }
+  }
+
+  if (authLoading || !user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-brand-cream">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-brand-cream">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-brand-rule">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-brand-ink">Account</h1>
+            <p className="text-sm text-brand-ink-mute mt-1">
+              {user.name} &middot; {user.email}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Link
+              href="/dashboard"
+              className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+            >
+              Dashboard
+            </Link>
+            <button
+              onClick={logout}
+              className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Two-Factor */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-brand-ink mb-2">Two-Factor Authentication</h2>
+          {isLoading || !twoFactor ? (
+            <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-brand-ink-mute">
+                {twoFactor.enabled
+                  ? `On. Signing in asks for a code from your authenticator app. ${twoFactor.backupCodesRemaining} backup code${twoFactor.backupCodesRemaining === 1 ? '' : 's'} left.`
+                  : 'Off. Turn it on to ask for a code from an authenticator app whenever you sign in.'}
+                {twoFactor.required && ' Your role requires it.'}
+              </p>
+
+              {backupCodes && (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm font-medium text-amber-900 mb-3">
+                    Your backup codes. Each signs you in once if you lose your phone — store them somewhere safe,
+                    they won&apos;t be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm text-brand-ink">
+                    {backupCodes.map((backupCode) => (
+                      <div key={backupCode}>{backupCode}</div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setBackupCodes(null)}
+                    className="mt-4 px-4 py-2 border border-brand-rule text-brand-ink-soft text-sm font-medium rounded-lg hover:bg-brand-cream-deep"
+                  >
+                    I&apos;ve saved them
+                  </button>
+                </div>
+              )}
+
+              {enrollment && (
+                <div className="text-center">
+                  <p className="text-sm text-brand-ink-soft mb-3">
+                    Scan this with an authenticator app, then enter the 6-digit code it shows.
+                  </p>
+                  <Image
+                    src={enrollment.qrCode}
+                    alt="Two-factor QR code"
+                    width={192}
+                    height={192}
+                    unoptimized
+                    className="mx-auto border border-brand-rule rounded"
+                  />
+                  <p className="mt-2 text-xs text-brand-ink-mute">
+                    Can&apos;t scan it? Enter this key: <span className="font-mono">{enrollment.secret}</span>
+                  </p>
+                </div>
+              )}
+
+              {(enrollment || twoFactor.enabled) && (
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-brand-ink-soft mb-2">
+                    {enrollment ? 'Code from your app' : 'Current code (or a backup code)'}
+                  </label>
+                  <input
+                    id="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full max-w-xs px-4 py-2 border border-brand-rule rounded-lg font-mono tracking-widest"
+                    placeholder="123456"
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-3">
+                {!twoFactor.enabled && !enrollment && (
+                  <button
+                    onClick={startSetup}
+                    disabled={isSubmitting}
+                    className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Starting...' : 'Set Up Two-Factor'}
+                  </button>
+                )}
+                {enrollment && (
+                  <button
+                    onClick={() => submitCode('enable')}
+                    disabled={isSubmitting}
+                    className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Verifying...' : 'Turn On'}
+                  </button>
+                )}
+                {twoFactor.enabled && (
+                  <>
+                    <button
+                      onClick={() => submitCode('backup-codes')}
+                      disabled={isSubmitting}
+                      className="px-4 py-2 border border-brand-rule text-brand-ink-soft font-medium rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                    >
+                      New Backup Codes
+                    </button>
+                    {!twoFactor.required && (
+                      <button
+                        onClick={() => submitCode('disable')}
+                        disabled={isSubmitting}
+                        className="px-4 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Turn Off
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Sessions */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-brand-ink mb-2">Signed-In Sessions</h2>
+          <p className="text-sm text-brand-ink-mute mb-4">
+            Every browser signed in to your account. Sign out any you don&apos;t recognize.
+          </p>
+          {isLoading ? (
+            <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <div className="font-medium text-brand-ink">
+                      {session.userAgent || 'Unknown browser'}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                          This browser
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-brand-ink-mute">
+                      {session.ipAddress || 'Unknown IP'} &middot; signed in{' '}
+                      {new Date(session.createdAt).toLocaleDateString()} &middot; last active{' '}
+                      {new Date(session.lastUsedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => revokeSession(session)}
+                    className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep whitespace-nowrap"
+                  >
+                    Sign Out
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -4,6 +4,21 @@ import { useEffect, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import type { Role } from '@prisma/client'
+import { ADJUSTMENT_REASONS } from '@/lib/inventory/adjustments'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { approvalRulesSchema } from '@/lib/validation/admin'
+import { formError } from '@/lib/validation/errors'
+import {
+  cycleCountSchema,
+  productionSchema,
+  stockLocationSchema,
+  stockTransferSchema,
+  updatePartSchema,
+} from '@/lib/validation/inventory'
+import { purchaseOrderSchema } from '@/lib/validation/purchase-orders'
+import { releaseScheduleSchema } from '@/lib/validation/releases'
+import { createUserSchema, updateUserSchema } from '@/lib/validation/users'
 
 interface Part {
   id: string
@@ -14,6 +29,84 @@ interface Part {
   pricePerUnit: string
   currentPallets: number
   currentBoxes: number
+  reserved?: { totalBoxes: number; pallets: number; boxes: number }
+  available?: { totalBoxes: number; pallets: number; boxes: number }
+  reorderPointUnits: number | null
+  criticalPointUnits: number | null
+  thresholds?: { reorderPointUnits: number; criticalPointUnits: number }
+  status?: 'good' | 'low' | 'critical'
+  unitsPerDay?: number
+  projectedStockoutDate?: string | null
+  stockByLocation?: Array<{
+    stockLocationId: string
+    code: string
+    name: string
+    totalBoxes: number
+    pallets: number
+    boxes: number
+  }>
+}
+
+interface StockLocation {
+  id: string
+  code: string
+  name: string
+  address: string
+  city: string
+  state: string
+  zip: string
+  vendorName: string | null
+  isDefault: boolean
+  stock: Array<{
+    partId: string
+    partNumber: string
+    description: string
+    totalBoxes: number
+    pallets: number
+    boxes: number
+  }>
+}
+
+interface StockTransfer {
+  id: string
+  transferNumber: string
+  pallets: number
+  boxes: number
+  totalBoxes: number
+  carrier: string | null
+  shipDate: string | null
+  notes: string | null
+  createdAt: string
+  part: {
+    partNumber: string
+    description: string
+  }
+  fromLocation: { code: string; name: string }
+  toLocation: { code: string; name: string }
+  user: {
+    name: string
+  }
+}
+
+interface PartForecast {
+  partId: string
+  partNumber: string
+  description: string
+  monthlyUsage: Array<{ month: string; units: number }>
+  seasonality: number[]
+  baselineMonthlyUnits: number
+  projectedMonths: Array<{ month: string; units: number }>
+  projectedUnits: number
+  projectedPallets: number
+  onHandUnits: number
+  projectedOnHandUnits: number
+  runsOutInWindow: boolean
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function formatMonth(month: string): string {
+  return `${MONTH_LABELS[Number(month.slice(5)) - 1]} ${month.slice(2, 4)}`
 }
 
 interface Production {
@@ -21,8 +114,12 @@ interface Production {
   pallets: number
   boxes: number
   totalUnits: number
+  lotNumber: string | null
+  manufactureDate: string
+  remainingBoxes: number
   notes: string | null
   createdAt: string
+  stockLocation: { code: string; name: string } | null
   part: {
     partNumber: string
     description: string
@@ -37,7 +134,11 @@ interface Release {
   releaseNumber: string
   pallets: number
   totalUnits: number
+  status: string
   createdAt: string
+  customerPONumber: string
+  shipDate: string | null
+  approvalReasons: string[]
   part: {
     partNumber: string
     description: string
@@ -51,9 +152,140 @@ interface Release {
   user: {
     name: string
   }
+  lines?: Array<{
+    totalUnits: number
+    unitPrice: number
+    part: { partNumber: string }
+  }>
+}
+
+interface InventoryCount {
+  id: string
+  countedPallets: number
+  countedBoxes: number
+  countedTotalBoxes: number
+  expectedBoxes: number
+  varianceBoxes: number
+  reasonCode: string
+  notes: string | null
+  createdAt: string
+  stockLocation: { code: string; name: string } | null
+  part: {
+    partNumber: string
+    description: string
+    unitsPerBox: number
+  }
+  user: {
+    name: string
+  }
+}
+
+// Multi-part releases are valued line by line at the price captured on each line
+function releaseValue(release: Release): number {
+  if (release.lines && release.lines.length > 0) {
+    return release.lines.reduce((sum, line) => sum + line.totalUnits * line.unitPrice, 0)
+  }
+  return release.totalUnits * parseFloat(release.part.pricePerUnit)
+}
+
+interface ApprovalRule {
+  type: string
+  threshold: number
+  enabled: boolean
+  label: string
+  unit: string
+}
+
+interface ReleaseSchedule {
+  id: string
+  name: string
+  pallets: number
+  customerPONumber: string
+  skidType: 'WOOD' | 'HEAT_TREATED'
+  notes: string | null
+  intervalWeeks: number
+  startDate: string
+  endDate: string | null
+  active: boolean
+  part: { partNumber: string; description: string }
+  stockLocation: { name: string } | null
+  user: { name: string }
+  releases: Array<{ id: string; releaseNumber: string; scheduledFor: string; status: string }>
+  upcoming: Array<{ date: string; shipDate: string; skipped: boolean }>
+}
+
+interface PurchaseOrder {
+  id: string
+  number: string
+  expiresAt: string | null
+  notes: string | null
+  expired: boolean
+  remainingValue: number
+  lines: Array<{
+    id: string
+    partId: string
+    authorizedUnits: number
+    releasedUnits: number
+    remainingUnits: number
+    unitPrice: number
+    part: { partNumber: string; description: string }
+  }>
+}
+
+interface ManagedUser {
+  id: string
+  email: string
+  name: string
+  role: Role
+  active: boolean
+  vendorLocationId: string | null
+  vendorLocation: { name: string } | null
+  totpEnabledAt: string | null
+  createdAt: string
+}
+
+const EMPTY_USER = {
+  name: '',
+  email: '',
+  role: 'CUSTOMER' as Role,
+  password: '',
+  vendorLocationId: '',
+}
+
+type PurchaseOrderForm = {
+  number: string
+  expiresAt: string
+  notes: string
+  lines: Array<{ partId: string; authorizedUnits: number; unitPrice: string }>
+}
+
+const EMPTY_PURCHASE_ORDER: PurchaseOrderForm = {
+  number: '',
+  expiresAt: '',
+  notes: '',
+  lines: [{ partId: '', authorizedUnits: 0, unitPrice: '' }],
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// "Every other Tuesday" — the cadence in words, from the start date's weekday
+function scheduleCadence(schedule: Pick<ReleaseSchedule, 'intervalWeeks' | 'startDate'>): string {
+  const weekday = WEEKDAYS[new Date(`${schedule.startDate}T00:00:00Z`).getUTCDay()]
+  if (schedule.intervalWeeks === 1) return `Every ${weekday}`
+  if (schedule.intervalWeeks === 2) return `Every other ${weekday}`
+  return `Every ${schedule.intervalWeeks} weeks on ${weekday}`
+}
+
+function formatScheduleDate(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
 }
 
-type TabType = 'production' | 'billing' | 'inventory'
+type TabType = 'approvals' | 'schedules' | 'purchase-orders' | 'production' | 'counts' | 'locations' | 'billing' | 'inventory' | 'users'
 
 export default function AdminPage() {
   const { user, isAuthenticated, isLoading: authLoading, token, logout } = useAuth()
@@ -62,6 +294,18 @@ export default function AdminPage() {
   const [parts, setParts] = useState<Part[]>([])
   const [productions, setProductions] = useState<Production[]>([])
   const [releases, setReleases] = useState<Release[]>([])
+  const [pendingReleases, setPendingReleases] = useState<Release[]>([])
+  const [approvalRules, setApprovalRules] = useState<ApprovalRule[]>([])
+  const [isRulesSubmitting, setIsRulesSubmitting] = useState(false)
+  const [decidingReleaseId, setDecidingReleaseId] = useState<string | null>(null)
+  const [schedules, setSchedules] = useState<ReleaseSchedule[]>([])
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [counts, setCounts] = useState<InventoryCount[]>([])
+  const [stockLocations, setStockLocations] = useState<StockLocation[]>([])
+  const [transfers, setTransfers] = useState<StockTransfer[]>([])
+  const [forecasts, setForecasts] = useState<PartForecast[]>([])
+  const [forecastDays, setForecastDays] = useState(90)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
 
@@ -70,16 +314,80 @@ export default function AdminPage() {
   const [pallets, setPallets] = useState(10)
   const [boxes, setBoxes] = useState(0)
   const [notes, setNotes] = useState('')
+  const [lotNumber, setLotNumber] = useState('')
+  const [manufactureDate, setManufactureDate] = useState(new Date().toISOString().split('T')[0])
+  const [productionLocationId, setProductionLocationId] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  // Cycle count form
+  const [countPartId, setCountPartId] = useState('')
+  const [countedPallets, setCountedPallets] = useState(0)
+  const [countedBoxes, setCountedBoxes] = useState(0)
+  const [countReason, setCountReason] = useState('CYCLE_COUNT')
+  const [countNotes, setCountNotes] = useState('')
+  const [countLocationId, setCountLocationId] = useState('')
+  const [isCountSubmitting, setIsCountSubmitting] = useState(false)
+
+  // Stock transfer form state
+  const [transferPartId, setTransferPartId] = useState('')
+  const [transferFromId, setTransferFromId] = useState('')
+  const [transferToId, setTransferToId] = useState('')
+  const [transferPallets, setTransferPallets] = useState(0)
+  const [transferBoxes, setTransferBoxes] = useState(0)
+  const [transferCarrier, setTransferCarrier] = useState('')
+  const [transferShipDate, setTransferShipDate] = useState('')
+  const [transferNotes, setTransferNotes] = useState('')
+  const [isTransferSubmitting, setIsTransferSubmitting] = useState(false)
+
+  // New stock location form state
+  const [newLocation, setNewLocation] = useState({
+    code: '',
+    name: '',
+    address: '',
+    city: '',
+    state: '',
+    zip: '',
+    phone: '',
+    vendorName: '',
+  })
+  const [isLocationSubmitting, setIsLocationSubmitting] = useState(false)
+
   // Edit part modal
   const [editingPart, setEditingPart] = useState<Part | null>(null)
   const [editBoxesPerPallet, setEditBoxesPerPallet] = useState(0)
   const [editUnitsPerBox, setEditUnitsPerBox] = useState(0)
   const [editPricePerUnit, setEditPricePerUnit] = useState('')
   const [editDescription, setEditDescription] = useState('')
+  const [editReorderPoint, setEditReorderPoint] = useState('')
+  const [editCriticalPoint, setEditCriticalPoint] = useState('')
   const [isEditSubmitting, setIsEditSubmitting] = useState(false)
 
+  // Release schedule form state
+  const [newSchedule, setNewSchedule] = useState({
+    name: '',
+    partId: '',
+    pallets: 1,
+    customerPONumber: '',
+    skidType: 'WOOD' as 'WOOD' | 'HEAT_TREATED',
+    stockLocationId: '',
+    intervalWeeks: 1,
+    startDate: '',
+    endDate: '',
+    notes: '',
+  })
+  const [isScheduleSubmitting, setIsScheduleSubmitting] = useState(false)
+  const [updatingScheduleId, setUpdatingScheduleId] = useState<string | null>(null)
+
+  // Purchase order form state (editingPurchaseOrderId set = editing that PO)
+  const [purchaseOrderForm, setPurchaseOrderForm] = useState<PurchaseOrderForm>(EMPTY_PURCHASE_ORDER)
+  const [editingPurchaseOrderId, setEditingPurchaseOrderId] = useState<string | null>(null)
+  const [isPurchaseOrderSubmitting, setIsPurchaseOrderSubmitting] = useState(false)
+
+  // New user form state
+  const [newUser, setNewUser] = useState(EMPTY_USER)
+  const [isUserSubmitting, setIsUserSubmitting] = useState(false)
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null)
+
   useEffect(() => {
     if (!authLoading && (!isAuthenticated || user?.role !== 'ADMIN')) {
       router.push('/dashboard')
@@ -92,34 +400,75 @@ export default function AdminPage() {
     }
   }, [isAuthenticated, token, user])
 
+  // Approval-request emails link to /admin?tab=approvals
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('tab') === 'approvals') {
+      setActiveTab('approvals')
+    }
+  }, [])
+
+  // Each endpoint loads on its own, so one that fails only leaves its own
+  // section empty instead of blanking the whole dashboard
   const fetchData = async () => {
-    try {
-      const [partsRes, productionsRes, releasesRes] = await Promise.all([
-        fetch('/api/parts', {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
-        fetch('/api/production', {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
-        fetch('/api/releases', {
+    const failed: string[] = []
+    const load = async (url: string) => {
+      try {
+        const response = await fetch(url, {
           headers: { Authorization: `Bearer ${token}` },
-        }),
-      ])
+        })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        return await response.json()
+      } catch (err) {
+        console.error(`Failed to load ${url}:`, err)
+        failed.push(url)
+        return null
+      }
+    }
 
-      const [partsData, productionsData, releasesData] = await Promise.all([
-        partsRes.json(),
-        productionsRes.json(),
-        releasesRes.json(),
+    const [partsData, productionsData, releasesData, countsData, locationsData, transfersData, forecastData, rulesData, schedulesData, purchaseOrdersData, usersData] =
+      await Promise.all([
+        load('/api/parts'),
+        load('/api/production'),
+        load('/api/releases'),
+        load('/api/adjustments'),
+        load('/api/stock-locations'),
+        load('/api/stock-transfers'),
+        load('/api/forecast'),
+        load('/api/approval-rules'),
+        load('/api/release-schedules'),
+        load('/api/purchase-orders'),
+        load('/api/users'),
       ])
 
-      setParts(partsData.parts || [])
-      setProductions(productionsData.productions || [])
-      setReleases(releasesData.releases || [])
-    } catch (err) {
-      setError('Failed to load data')
-    } finally {
-      setIsLoading(false)
+    if (partsData) setParts(partsData.parts || [])
+    if (productionsData) setProductions(productionsData.productions || [])
+    if (releasesData) {
+      // Cancelled releases and releases awaiting approval aren't billed, so
+      // they stay out of the report
+      const allReleases: Release[] = releasesData.releases || []
+      setReleases(
+        allReleases.filter((r) => r.status !== 'CANCELLED' && r.status !== 'PENDING_APPROVAL')
+      )
+      setPendingReleases(allReleases.filter((r) => r.status === 'PENDING_APPROVAL'))
+    }
+    if (rulesData) setApprovalRules(rulesData.rules || [])
+    if (schedulesData) setSchedules(schedulesData.schedules || [])
+    if (purchaseOrdersData) setPurchaseOrders(purchaseOrdersData.purchaseOrders || [])
+    if (usersData) setUsers(usersData.users || [])
+    if (countsData) setCounts(countsData.counts || [])
+    if (locationsData) setStockLocations(locationsData.locations || [])
+    if (transfersData) setTransfers(transfersData.transfers || [])
+    if (forecastData) {
+      setForecasts(forecastData.forecasts || [])
+      setForecastDays(forecastData.windowDays || 90)
+    }
+
+    if (failed.length > 0) {
+      setError(`Failed to load ${failed.join(', ')}`)
     }
+    setIsLoading(false)
   }
 
   const openEditModal = (part: Part) => {
@@ -128,6 +477,8 @@ export default function AdminPage() {
     setEditUnitsPerBox(part.unitsPerBox)
     setEditPricePerUnit(part.pricePerUnit)
     setEditDescription(part.description)
+    setEditReorderPoint(part.reorderPointUnits?.toString() ?? '')
+    setEditCriticalPoint(part.criticalPointUnits?.toString() ?? '')
   }
 
   const closeEditModal = () => {
@@ -138,6 +489,22 @@ export default function AdminPage() {
     e.preventDefault()
     if (!editingPart) return
 
+    const payload = {
+      partId: editingPart.id,
+      boxesPerPallet: editBoxesPerPallet,
+      unitsPerBox: editUnitsPerBox,
+      pricePerUnit: parseFloat(editPricePerUnit),
+      description: editDescription,
+      // Blank reverts to the default share of the annual order
+      reorderPointUnits: editReorderPoint ? parseInt(editReorderPoint) : null,
+      criticalPointUnits: editCriticalPoint ? parseInt(editCriticalPoint) : null,
+    }
+    const invalid = formError(updatePartSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
     setIsEditSubmitting(true)
     setError('')
 
@@ -148,13 +515,7 @@ export default function AdminPage() {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          partId: editingPart.id,
-          boxesPerPallet: editBoxesPerPallet,
-          unitsPerBox: editUnitsPerBox,
-          pricePerUnit: parseFloat(editPricePerUnit),
-          description: editDescription,
-        }),
+        body: JSON.stringify(payload),
       })
 
       if (!response.ok) {
@@ -174,6 +535,22 @@ export default function AdminPage() {
 
   const handleAddProduction = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const payload = {
+      partId: selectedPartId,
+      pallets,
+      boxes,
+      notes,
+      lotNumber: lotNumber || undefined,
+      manufactureDate,
+      stockLocationId: productionLocationId || undefined,
+    }
+    const invalid = formError(productionSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
     setIsSubmitting(true)
     setError('')
 
@@ -184,12 +561,7 @@ export default function AdminPage() {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          partId: selectedPartId,
-          pallets,
-          boxes,
-          notes,
-        }),
+        body: JSON.stringify(payload),
       })
 
       if (!response.ok) {
@@ -202,6 +574,8 @@ export default function AdminPage() {
       setPallets(10)
       setBoxes(0)
       setNotes('')
+      setLotNumber('')
+      setManufactureDate(new Date().toISOString().split('T')[0])
 
       // Refresh data
       await fetchData()
@@ -212,102 +586,1815 @@ export default function AdminPage() {
     }
   }
 
-  if (authLoading || !user || user.role !== 'ADMIN') {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-brand-cream">
-        <div className="text-lg">Loading...</div>
-      </div>
-    )
+  const handlePostCount = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      partId: countPartId,
+      countedPallets,
+      countedBoxes,
+      reasonCode: countReason,
+      notes: countNotes || undefined,
+      stockLocationId: countLocationId || undefined,
+    }
+    const invalid = formError(cycleCountSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsCountSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/adjustments', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to post count')
+      }
+
+      // Reset form
+      setCountPartId('')
+      setCountedPallets(0)
+      setCountedBoxes(0)
+      setCountReason('CYCLE_COUNT')
+      setCountNotes('')
+
+      // Refresh data
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post count')
+    } finally {
+      setIsCountSubmitting(false)
+    }
   }
 
-  const selectedPart = parts.find((p) => p.id === selectedPartId)
+  const handleCreateTransfer = async (e: React.FormEvent) => {
+    e.preventDefault()
 
-  return (
-    <div className="min-h-screen bg-brand-cream">
-      {/* Header */}
-      <header className="bg-white shadow-sm border-b border-brand-rule">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex justify-between items-center">
-            <div>
-              <h1 className="text-2xl font-bold text-brand-ink">Admin Dashboard</h1>
-              <p className="text-sm text-brand-ink-mute mt-1">JD Graphic - Management Portal</p>
-            </div>
-            <div className="flex items-center space-x-4">
-              <Link href="/dashboard" className="text-brand-rust hover:text-brand-rust-dark font-medium">
-                Customer View
-              </Link>
-              <button
-                onClick={logout}
-                className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
-              >
-                Logout
-              </button>
-            </div>
-          </div>
-        </div>
-      </header>
+    const payload = {
+      partId: transferPartId,
+      fromLocationId: transferFromId,
+      toLocationId: transferToId,
+      pallets: transferPallets,
+      boxes: transferBoxes,
+      carrier: transferCarrier || undefined,
+      shipDate: transferShipDate || undefined,
+      notes: transferNotes || undefined,
+    }
+    const invalid = formError(stockTransferSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
 
-      {/* Tabs */}
-      <div className="bg-white border-b border-brand-rule">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <nav className="flex space-x-8" aria-label="Tabs">
-            <button
-              onClick={() => setActiveTab('production')}
-              className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'production'
-                  ? 'border-brand-rust text-brand-rust'
-                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
-              }`}
-            >
-              Production Management
-            </button>
-            <button
-              onClick={() => setActiveTab('billing')}
-              className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'billing'
-                  ? 'border-brand-rust text-brand-rust'
-                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
-              }`}
-            >
-              Billing & Reports
-            </button>
-            <button
-              onClick={() => setActiveTab('inventory')}
-              className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'inventory'
-                  ? 'border-brand-rust text-brand-rust'
-                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
-              }`}
-            >
-              Current Inventory
-            </button>
-          </nav>
-        </div>
-      </div>
+    setIsTransferSubmitting(true)
+    setError('')
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {error && (
-          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
-            {error}
+    try {
+      const response = await fetch('/api/stock-transfers', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to create transfer')
+      }
+
+      // Reset form
+      setTransferPartId('')
+      setTransferPallets(0)
+      setTransferBoxes(0)
+      setTransferCarrier('')
+      setTransferShipDate('')
+      setTransferNotes('')
+
+      // Refresh data
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create transfer')
+    } finally {
+      setIsTransferSubmitting(false)
+    }
+  }
+
+  const handleAddLocation = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = formError(stockLocationSchema, newLocation)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsLocationSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/stock-locations', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newLocation),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to add location')
+      }
+
+      setNewLocation({ code: '', name: '', address: '', city: '', state: '', zip: '', phone: '', vendorName: '' })
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add location')
+    } finally {
+      setIsLocationSubmitting(false)
+    }
+  }
+
+  const handleSaveApprovalRules = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      rules: approvalRules.map(({ type, threshold, enabled }) => ({ type, threshold, enabled })),
+    }
+    const invalid = formError(approvalRulesSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsRulesSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/approval-rules', {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save approval rules')
+      }
+
+      const data = await response.json()
+      setApprovalRules(data.rules || [])
+      alert('Approval rules saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save approval rules')
+    } finally {
+      setIsRulesSubmitting(false)
+    }
+  }
+
+  const decideRelease = async (release: Release, decision: 'approve' | 'reject') => {
+    let reason: string | null = null
+    if (decision === 'reject') {
+      reason = prompt(`Reject release ${release.releaseNumber}?\n\nIts stock will be released. Reason for rejecting:`)
+      if (reason === null) return
+      if (!reason.trim()) {
+        alert('A rejection reason is required')
+        return
+      }
+    } else if (
+      !confirm(`Approve release ${release.releaseNumber}?\n\nPaperwork will be generated and EPG and Three Z will be notified.`)
+    ) {
+      return
+    }
+
+    setDecidingReleaseId(release.id)
+    setError('')
+    try {
+      const response = await fetch(`/api/releases/${release.id}/${decision}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(reason ? { reason: reason.trim() } : {}),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${decision} release`)
+      }
+
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${decision} release`)
+    } finally {
+      setDecidingReleaseId(null)
+    }
+  }
+
+  const handleCreateSchedule = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = formError(releaseScheduleSchema, newSchedule)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsScheduleSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/release-schedules', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newSchedule),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to create schedule')
+      }
+
+      setNewSchedule({
+        name: '',
+        partId: '',
+        pallets: 1,
+        customerPONumber: '',
+        skidType: 'WOOD',
+        stockLocationId: '',
+        intervalWeeks: 1,
+        startDate: '',
+        endDate: '',
+        notes: '',
+      })
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule')
+    } finally {
+      setIsScheduleSubmitting(false)
+    }
+  }
+
+  // Skip/un-skip one occurrence, pause/resume, or delete a schedule
+  const updateSchedule = async (
+    schedule: ReleaseSchedule,
+    action: { skip: string; skipped: boolean } | { active: boolean } | 'delete',
+  ) => {
+    if (action === 'delete' && !confirm(`Delete schedule "${schedule.name}"?\n\nReleases it already created are kept.`)) {
+      return
+    }
+
+    setUpdatingScheduleId(schedule.id)
+    setError('')
+    try {
+      const response =
+        action === 'delete'
+          ? await fetch(`/api/release-schedules/${schedule.id}`, {
+              method: 'DELETE',
+              headers: { Authorization: `Bearer ${token}` },
+            })
+          : await fetch(
+              'skip' in action
+                ? `/api/release-schedules/${schedule.id}/skip`
+                : `/api/release-schedules/${schedule.id}`,
+              {
+                method: 'skip' in action ? 'POST' : 'PATCH',
+                headers: {
+                  Authorization: `Bearer ${token}`,
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(
+                  'skip' in action ? { date: action.skip, skipped: action.skipped } : action
+                ),
+              }
+            )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update schedule')
+      }
+
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule')
+    } finally {
+      setUpdatingScheduleId(null)
+    }
+  }
+
+  const editPurchaseOrder = (po: PurchaseOrder) => {
+    setEditingPurchaseOrderId(po.id)
+    setPurchaseOrderForm({
+      number: po.number,
+      expiresAt: po.expiresAt ? po.expiresAt.split('T')[0] : '',
+      notes: po.notes ?? '',
+      lines: po.lines.map((l) => ({
+        partId: l.partId,
+        authorizedUnits: l.authorizedUnits,
+        unitPrice: l.unitPrice.toString(),
+      })),
+    })
+  }
+
+  const resetPurchaseOrderForm = () => {
+    setEditingPurchaseOrderId(null)
+    setPurchaseOrderForm(EMPTY_PURCHASE_ORDER)
+  }
+
+  const handleSavePurchaseOrder = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+        ...purchaseOrderForm,
+        lines: purchaseOrderForm.lines.map((l) => ({ ...l, unitPrice: parseFloat(l.unitPrice) })),
+      }
+    const invalid = formError(purchaseOrderSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsPurchaseOrderSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(
+        editingPurchaseOrderId ? `/api/purchase-orders/${editingPurchaseOrderId}` : '/api/purchase-orders',
+        {
+          method: editingPurchaseOrderId ? 'PUT' : 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload),
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save purchase order')
+      }
+
+      resetPurchaseOrderForm()
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save purchase order')
+    } finally {
+      setIsPurchaseOrderSubmitting(false)
+    }
+  }
+
+  const deletePurchaseOrder = async (po: PurchaseOrder) => {
+    if (!confirm(`Delete PO ${po.number}?`)) return
+
+    setError('')
+    try {
+      const response = await fetch(`/api/purchase-orders/${po.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to delete purchase order')
+      }
+
+      if (editingPurchaseOrderId === po.id) resetPurchaseOrderForm()
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete purchase order')
+    }
+  }
+
+  const openTransferPaperwork = (transferId: string) => {
+    if (!token) return
+    window.open(`/api/stock-transfers/${transferId}/paperwork?token=${encodeURIComponent(token)}`, '_blank')
+  }
+
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = formError(createUserSchema, newUser)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsUserSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newUser),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to add user')
+      }
+
+      setNewUser(EMPTY_USER)
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add user')
+    } finally {
+      setIsUserSubmitting(false)
+    }
+  }
+
+  // Change a user's role or vendor location, deactivate / reactivate them,
+  // force-reset their password, or turn off their two-factor
+  const updateUser = async (
+    account: ManagedUser,
+    action:
+      | { role: Role }
+      | { vendorLocationId: string }
+      | { active: boolean }
+      | { resetTwoFactor: true }
+      | 'reset-password',
+  ) => {
+    let payload: Record<string, unknown>
+    if (action === 'reset-password') {
+      const password = prompt(
+        `New temporary password for ${account.name} (at least 8 characters).\n\nTheir current password stops working and they are signed out. Give them the new one directly.`,
+      )
+      if (password === null) return
+      payload = { password }
+    } else if ('role' in action && action.role === 'VENDOR' && !account.vendorLocationId) {
+      // A vendor needs a location to see releases for; start with the first
+      // vendor-held one and let the admin change it on the row
+      payload = {
+        ...action,
+        vendorLocationId: stockLocations.find((l) => l.vendorName)?.id ?? stockLocations[0]?.id,
+      }
+    } else {
+      if (
+        'active' in action &&
+        !action.active &&
+        !confirm(`Deactivate ${account.name}?\n\nThey are signed out and can't sign in until reactivated.`)
+      ) {
+        return
+      }
+      if (
+        'resetTwoFactor' in action &&
+        !confirm(
+          `Turn off two-factor for ${account.name}?\n\nOnly do this once you're sure it's them — e.g. they lost their phone and backup codes.`,
+        )
+      ) {
+        return
+      }
+      payload = action
+    }
+
+    const invalid = formError(updateUserSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setUpdatingUserId(account.id)
+    setError('')
+    try {
+      const response = await fetch(`/api/users/${account.id}`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update user')
+      }
+
+      if (action === 'reset-password') {
+        alert(`Password reset for ${account.name}`)
+      }
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user')
+    } finally {
+      setUpdatingUserId(null)
+    }
+  }
+
+  // Revoke every session a user has; they must sign in again everywhere
+  const signOutUser = async (account: ManagedUser) => {
+    if (!confirm(`Sign ${account.name} out of every browser and device?`)) return
+
+    setUpdatingUserId(account.id)
+    setError('')
+    try {
+      const response = await fetch(`/api/users/${account.id}/sessions`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to sign user out')
+      }
+
+      const data = await response.json()
+      alert(`${account.name} was signed out of ${data.revoked} session${data.revoked === 1 ? '' : 's'}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign user out')
+    } finally {
+      setUpdatingUserId(null)
+    }
+  }
+
+  if (authLoading || !user || user.role !== 'ADMIN') {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-brand-cream">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  const selectedPart = parts.find((p) => p.id === selectedPartId)
+  const countPart = parts.find((p) => p.id === countPartId)
+  // Counts are against one location's stock (the default when none is picked)
+  const countLocation =
+    stockLocations.find((l) => l.id === countLocationId) ?? stockLocations.find((l) => l.isDefault)
+  const countLocationStock = countPart?.stockByLocation?.find(
+    (s) => s.stockLocationId === countLocation?.id
+  )
+  const countExpectedBoxes = countLocationStock?.totalBoxes ?? 0
+  const countVariance = countPart
+    ? countedPallets * countPart.boxesPerPallet + countedBoxes - countExpectedBoxes
+    : 0
+
+  return (
+    <div className="min-h-screen bg-brand-cream">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-brand-rule">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-brand-ink">Admin Dashboard</h1>
+              <p className="text-sm text-brand-ink-mute mt-1">JD Graphic - Management Portal</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard" className="text-brand-rust hover:text-brand-rust-dark font-medium">
+                Customer View
+              </Link>
+              <Link href="/account" className="text-brand-rust hover:text-brand-rust-dark font-medium">
+                Account
+              </Link>
+              <button
+                onClick={logout}
+                className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Tabs */}
+      <div className="bg-white border-b border-brand-rule">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <nav className="flex space-x-8" aria-label="Tabs">
+            <button
+              onClick={() => setActiveTab('approvals')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'approvals'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Approvals
+              {pendingReleases.length > 0 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                  {pendingReleases.length}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab('schedules')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'schedules'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Schedules
+            </button>
+            <button
+              onClick={() => setActiveTab('purchase-orders')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'purchase-orders'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Purchase Orders
+            </button>
+            <button
+              onClick={() => setActiveTab('production')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'production'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Production Management
+            </button>
+            <button
+              onClick={() => setActiveTab('counts')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'counts'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Cycle Counts
+            </button>
+            <button
+              onClick={() => setActiveTab('locations')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'locations'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Stock Locations
+            </button>
+            <button
+              onClick={() => setActiveTab('billing')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'billing'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Billing & Reports
+            </button>
+            <button
+              onClick={() => setActiveTab('inventory')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'inventory'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Current Inventory
+            </button>
+            <button
+              onClick={() => setActiveTab('users')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'users'
+                  ? 'border-brand-rust text-brand-rust'
+                  : 'border-transparent text-brand-ink-mute hover:text-brand-ink-soft hover:border-brand-rule'
+              }`}
+            >
+              Users
+            </button>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Approvals Tab */}
+        {activeTab === 'approvals' && (
+          <div className="space-y-6">
+            {/* Releases awaiting approval */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Awaiting Approval</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : pendingReleases.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No releases awaiting approval</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Release #
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Part
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Quantity
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Ship Date
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Held Because
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {pendingReleases.map((release) => (
+                        <tr key={release.id}>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div className="font-medium">{release.releaseNumber}</div>
+                            <div className="text-xs text-brand-ink-mute">
+                              PO {release.customerPONumber} • {release.user.name}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {release.lines && release.lines.length > 0
+                              ? release.lines.map((line) => `#${line.part.partNumber}`).join(', ')
+                              : `#${release.part.partNumber}`}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {release.pallets} pallets
+                            <div className="text-xs text-brand-ink-mute">
+                              {release.totalUnits.toLocaleString()} units
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {release.shipDate ? new Date(release.shipDate).toLocaleDateString() : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-xs text-brand-ink-soft">
+                            {release.approvalReasons.map((reason) => (
+                              <div key={reason}>{reason}</div>
+                            ))}
+                          </td>
+                          <td className="px-4 py-3 text-sm whitespace-nowrap space-x-2">
+                            <button
+                              onClick={() => decideRelease(release, 'approve')}
+                              disabled={decidingReleaseId !== null}
+                              className="px-3 py-1.5 bg-emerald-600 text-white text-xs font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                            >
+                              {decidingReleaseId === release.id ? 'Working...' : 'Approve'}
+                            </button>
+                            <button
+                              onClick={() => decideRelease(release, 'reject')}
+                              disabled={decidingReleaseId !== null}
+                              className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-lg hover:bg-red-700 disabled:opacity-50"
+                            >
+                              Reject
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Approval rules */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-2">Approval Rules</h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                A customer release that trips any enabled rule waits here for an admin. Its stock is
+                reserved, but no paperwork, emails or integration jobs go out until it&apos;s approved.
+              </p>
+              <form onSubmit={handleSaveApprovalRules} className="space-y-4">
+                {approvalRules.map((rule, i) => (
+                  <div key={rule.type} className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 w-80 text-sm font-medium text-brand-ink-soft">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) =>
+                          setApprovalRules(
+                            approvalRules.map((r, j) => (j === i ? { ...r, enabled: e.target.checked } : r))
+                          )
+                        }
+                      />
+                      {rule.label}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={rule.threshold}
+                      onChange={(e) =>
+                        setApprovalRules(
+                          approvalRules.map((r, j) =>
+                            j === i ? { ...r, threshold: parseFloat(e.target.value) || 0 } : r
+                          )
+                        )
+                      }
+                      className="w-32 px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                    <span className="text-sm text-brand-ink-mute">{rule.unit}</span>
+                  </div>
+                ))}
+                <button
+                  type="submit"
+                  disabled={isRulesSubmitting}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isRulesSubmitting ? 'Saving...' : 'Save Rules'}
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* Release Schedules Tab */}
+        {activeTab === 'schedules' && (
+          <div className="space-y-6">
+            {/* New schedule */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-2">New Recurring Release</h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                On each occurrence a release is created automatically, shipping to EPG the next business
+                day, exactly as if you had submitted it on the release form.
+              </p>
+              <form onSubmit={handleCreateSchedule} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Name</label>
+                    <input
+                      type="text"
+                      value={newSchedule.name}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, name: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                      placeholder="e.g. Biweekly 4-up labels"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Part Number</label>
+                    <select
+                      value={newSchedule.partId}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, partId: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Select a part...</option>
+                      {parts.map((part) => (
+                        <option key={part.id} value={part.id}>
+                          #{part.partNumber} - {part.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Pallets</label>
+                    <input
+                      type="number"
+                      value={newSchedule.pallets}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, pallets: parseInt(e.target.value) || 0 })}
+                      min={1}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Customer PO#</label>
+                    <input
+                      type="text"
+                      value={newSchedule.customerPONumber}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, customerPONumber: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Skid Type</label>
+                    <select
+                      value={newSchedule.skidType}
+                      onChange={(e) =>
+                        setNewSchedule({ ...newSchedule, skidType: e.target.value as 'WOOD' | 'HEAT_TREATED' })
+                      }
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="WOOD">Wood</option>
+                      <option value="HEAT_TREATED">Heat Treated</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Ship From</label>
+                    <select
+                      value={newSchedule.stockLocationId}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, stockLocationId: e.target.value })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Default location</option>
+                      {stockLocations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name} ({location.code})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Repeat</label>
+                    <select
+                      value={newSchedule.intervalWeeks}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, intervalWeeks: parseInt(e.target.value) })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value={1}>Every week</option>
+                      <option value={2}>Every other week</option>
+                      <option value={3}>Every 3 weeks</option>
+                      <option value={4}>Every 4 weeks</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">First Release</label>
+                    <input
+                      type="date"
+                      value={newSchedule.startDate}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, startDate: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                    {newSchedule.startDate && (
+                      <p className="mt-1 text-xs text-brand-ink-mute">{scheduleCadence(newSchedule)}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      End Date (Optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={newSchedule.endDate}
+                      onChange={(e) => setNewSchedule({ ...newSchedule, endDate: e.target.value })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-brand-ink-soft mb-2">Notes (Optional)</label>
+                  <textarea
+                    value={newSchedule.notes}
+                    onChange={(e) => setNewSchedule({ ...newSchedule, notes: e.target.value })}
+                    rows={2}
+                    className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    placeholder="Added to every release this schedule creates..."
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isScheduleSubmitting}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isScheduleSubmitting ? 'Saving...' : 'Create Schedule'}
+                </button>
+              </form>
+            </div>
+
+            {/* Existing schedules with upcoming occurrences */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Recurring Releases</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : schedules.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No recurring releases yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {schedules.map((schedule) => (
+                    <div
+                      key={schedule.id}
+                      className={`border border-brand-rule rounded-lg p-4 ${schedule.active ? '' : 'opacity-60'}`}
+                    >
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <div className="font-semibold text-brand-ink">
+                            {schedule.name}
+                            {!schedule.active && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                                PAUSED
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-sm text-brand-ink-soft">
+                            {scheduleCadence(schedule)} • #{schedule.part.partNumber} • {schedule.pallets} pallets •
+                            PO {schedule.customerPONumber}
+                          </div>
+                          <div className="text-xs text-brand-ink-mute">
+                            From {schedule.stockLocation?.name ?? 'default location'} • created by{' '}
+                            {schedule.user.name}
+                            {schedule.endDate && <> • ends {formatScheduleDate(schedule.endDate)}</>}
+                          </div>
+                          {schedule.releases.length > 0 && (
+                            <div className="text-xs text-brand-ink-mute mt-1">
+                              Latest:{' '}
+                              {schedule.releases
+                                .map((r) => `${r.releaseNumber} (${formatScheduleDate(r.scheduledFor)})`)
+                                .join(', ')}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-2 whitespace-nowrap">
+                          <button
+                            onClick={() => updateSchedule(schedule, { active: !schedule.active })}
+                            disabled={updatingScheduleId !== null}
+                            className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                          >
+                            {schedule.active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button
+                            onClick={() => updateSchedule(schedule, 'delete')}
+                            disabled={updatingScheduleId !== null}
+                            className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-lg hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                      {schedule.upcoming.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {schedule.upcoming.map((occurrence) => (
+                            <div
+                              key={occurrence.date}
+                              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border ${
+                                occurrence.skipped
+                                  ? 'border-brand-rule text-brand-ink-mute'
+                                  : 'border-brand-rust/30 bg-brand-rust-soft text-brand-ink'
+                              }`}
+                              title={`Ships ${formatScheduleDate(occurrence.shipDate)}`}
+                            >
+                              <span className={occurrence.skipped ? 'line-through' : ''}>
+                                {formatScheduleDate(occurrence.date)}
+                              </span>
+                              <button
+                                onClick={() =>
+                                  updateSchedule(schedule, { skip: occurrence.date, skipped: !occurrence.skipped })
+                                }
+                                disabled={updatingScheduleId !== null}
+                                className="text-brand-rust hover:text-brand-rust-dark font-medium disabled:opacity-50"
+                              >
+                                {occurrence.skipped ? 'Unskip' : 'Skip'}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Purchase Orders Tab */}
+        {activeTab === 'purchase-orders' && (
+          <div className="space-y-6">
+            {/* Add / edit a blanket PO */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-2">
+                {editingPurchaseOrderId ? `Edit PO ${purchaseOrderForm.number}` : 'Add Blanket PO'}
+              </h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                Releases with this PO# draw against its authorized quantities and bill at its prices. A
+                release that would exceed the remaining balance, or uses an expired PO, is refused.
+              </p>
+              <form onSubmit={handleSavePurchaseOrder} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">PO #</label>
+                    <input
+                      type="text"
+                      value={purchaseOrderForm.number}
+                      onChange={(e) => setPurchaseOrderForm({ ...purchaseOrderForm, number: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Expires (Optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={purchaseOrderForm.expiresAt}
+                      onChange={(e) => setPurchaseOrderForm({ ...purchaseOrderForm, expiresAt: e.target.value })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Notes (Optional)</label>
+                    <input
+                      type="text"
+                      value={purchaseOrderForm.notes}
+                      onChange={(e) => setPurchaseOrderForm({ ...purchaseOrderForm, notes: e.target.value })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-brand-ink-soft">Parts</label>
+                  {purchaseOrderForm.lines.map((line, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <select
+                        value={line.partId}
+                        onChange={(e) =>
+                          setPurchaseOrderForm({
+                            ...purchaseOrderForm,
+                            lines: purchaseOrderForm.lines.map((l, j) =>
+                              j === i ? { ...l, partId: e.target.value } : l
+                            ),
+                          })
+                        }
+                        required
+                        className="flex-1 px-4 py-2 border border-brand-rule rounded-lg"
+                      >
+                        <option value="">Select a part...</option>
+                        {parts.map((part) => (
+                          <option key={part.id} value={part.id}>
+                            #{part.partNumber} - {part.description}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        value={line.authorizedUnits}
+                        onChange={(e) =>
+                          setPurchaseOrderForm({
+                            ...purchaseOrderForm,
+                            lines: purchaseOrderForm.lines.map((l, j) =>
+                              j === i ? { ...l, authorizedUnits: parseInt(e.target.value) || 0 } : l
+                            ),
+                          })
+                        }
+                        min={1}
+                        required
+                        className="w-40 px-4 py-2 border border-brand-rule rounded-lg"
+                        placeholder="Units"
+                      />
+                      <input
+                        type="number"
+                        step="0.0001"
+                        min={0}
+                        value={line.unitPrice}
+                        onChange={(e) =>
+                          setPurchaseOrderForm({
+                            ...purchaseOrderForm,
+                            lines: purchaseOrderForm.lines.map((l, j) =>
+                              j === i ? { ...l, unitPrice: e.target.value } : l
+                            ),
+                          })
+                        }
+                        required
+                        className="w-32 px-4 py-2 border border-brand-rule rounded-lg"
+                        placeholder="$/unit"
+                      />
+                      {purchaseOrderForm.lines.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setPurchaseOrderForm({
+                              ...purchaseOrderForm,
+                              lines: purchaseOrderForm.lines.filter((_, j) => j !== i),
+                            })
+                          }
+                          className="px-2 text-brand-ink-mute hover:text-red-600"
+                          aria-label="Remove part"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPurchaseOrderForm({
+                        ...purchaseOrderForm,
+                        lines: [...purchaseOrderForm.lines, { partId: '', authorizedUnits: 0, unitPrice: '' }],
+                      })
+                    }
+                    className="text-sm text-brand-rust hover:text-brand-rust-dark font-medium"
+                  >
+                    + Add part
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={isPurchaseOrderSubmitting}
+                    className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                  >
+                    {isPurchaseOrderSubmitting ? 'Saving...' : editingPurchaseOrderId ? 'Save PO' : 'Add PO'}
+                  </button>
+                  {editingPurchaseOrderId && (
+                    <button
+                      type="button"
+                      onClick={resetPurchaseOrderForm}
+                      className="px-6 py-3 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </div>
+
+            {/* PO balances */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Blanket POs</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : purchaseOrders.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No blanket POs yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          PO #
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Part
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Authorized
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Released
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Remaining
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Price
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {purchaseOrders.map((po) =>
+                        po.lines.map((line, i) => (
+                          <tr key={line.id} className={po.expired ? 'opacity-60' : ''}>
+                            {i === 0 && (
+                              <td rowSpan={po.lines.length} className="px-4 py-3 text-sm text-brand-ink align-top">
+                                <div className="font-medium">{po.number}</div>
+                                <div className="text-xs text-brand-ink-mute">
+                                  {po.expired
+                                    ? 'Expired'
+                                    : po.expiresAt
+                                      ? `Expires ${new Date(po.expiresAt).toLocaleDateString()}`
+                                      : 'No expiry'}
+                                </div>
+                                <div className="text-xs text-brand-ink-mute">
+                                  ${po.remainingValue.toFixed(2)} remaining
+                                </div>
+                              </td>
+                            )}
+                            <td className="px-4 py-3 text-sm text-brand-ink">
+                              <div>#{line.part.partNumber}</div>
+                              <div className="text-xs text-brand-ink-mute">{line.part.description}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-brand-ink">
+                              {line.authorizedUnits.toLocaleString()}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-brand-ink">
+                              {line.releasedUnits.toLocaleString()}
+                            </td>
+                            <td
+                              className={`px-4 py-3 text-sm font-semibold ${
+                                line.remainingUnits <= line.authorizedUnits * 0.1 ? 'text-red-600' : 'text-brand-ink'
+                              }`}
+                            >
+                              {line.remainingUnits.toLocaleString()}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-brand-ink">${line.unitPrice.toFixed(4)}</td>
+                            {i === 0 && (
+                              <td
+                                rowSpan={po.lines.length}
+                                className="px-4 py-3 text-sm whitespace-nowrap space-x-2 align-top"
+                              >
+                                <button
+                                  onClick={() => editPurchaseOrder(po)}
+                                  className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => deletePurchaseOrder(po)}
+                                  className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-lg hover:bg-red-700"
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            )}
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Production Management Tab */}
+        {activeTab === 'production' && (
+          <div className="space-y-6">
+            {/* Add Production Form */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Add Production Run</h2>
+              <form onSubmit={handleAddProduction} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Part Number
+                    </label>
+                    <select
+                      value={selectedPartId}
+                      onChange={(e) => setSelectedPartId(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Select a part...</option>
+                      {parts.map((part) => (
+                        <option key={part.id} value={part.id}>
+                          #{part.partNumber} - {part.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Pallets
+                    </label>
+                    <input
+                      type="number"
+                      value={pallets}
+                      onChange={(e) => setPallets(parseInt(e.target.value) || 0)}
+                      min={0}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Loose Boxes (Optional)
+                    </label>
+                    <input
+                      type="number"
+                      value={boxes}
+                      onChange={(e) => setBoxes(parseInt(e.target.value) || 0)}
+                      min={0}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Lot # (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={lotNumber}
+                      onChange={(e) => setLotNumber(e.target.value)}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                      placeholder="Auto-assigned if blank"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Manufacture Date
+                    </label>
+                    <input
+                      type="date"
+                      value={manufactureDate}
+                      onChange={(e) => setManufactureDate(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Location
+                    </label>
+                    <select
+                      value={productionLocationId}
+                      onChange={(e) => setProductionLocationId(e.target.value)}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Default location</option>
+                      {stockLocations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name} ({location.code})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {selectedPart && (
+                    <div className="bg-brand-rust-soft p-4 rounded-lg">
+                      <p className="text-sm text-brand-ink-soft font-medium">Calculation:</p>
+                      <p className="text-sm text-brand-ink-mute">
+                        {pallets} pallets + {boxes} boxes
+                      </p>
+                      <p className="text-sm text-brand-ink-mute">
+                        = {pallets * selectedPart.boxesPerPallet + boxes} total boxes
+                      </p>
+                      <p className="text-sm font-semibold text-brand-ink">
+                        = {((pallets * selectedPart.boxesPerPallet + boxes) * selectedPart.unitsPerBox).toLocaleString()} units
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                    Notes (Optional)
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    placeholder="Production run notes..."
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Adding...' : 'Add to Inventory'}
+                </button>
+              </form>
+            </div>
+
+            {/* Production History */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Production History</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : productions.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No production runs yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Date
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Part
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Quantity
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Lot
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Added By
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Notes
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {productions.map((prod) => (
+                        <tr key={prod.id}>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {new Date(prod.createdAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div>#{prod.part.partNumber}</div>
+                            <div className="text-xs text-brand-ink-mute">{prod.part.description}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div>{prod.pallets} pallets</div>
+                            <div className="text-xs text-brand-ink-mute">
+                              {prod.totalUnits.toLocaleString()} units
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div>{prod.lotNumber || '-'}</div>
+                            <div className="text-xs text-brand-ink-mute">
+                              MFG {new Date(prod.manufactureDate).toLocaleDateString()} · {prod.remainingBoxes.toLocaleString()} boxes left
+                            </div>
+                            {prod.stockLocation && (
+                              <div className="text-xs text-brand-ink-mute">at {prod.stockLocation.name}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{prod.user.name}</td>
+                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{prod.notes || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Cycle Counts Tab */}
+        {activeTab === 'counts' && (
+          <div className="space-y-6">
+            {/* Post Count Form */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Post Cycle Count</h2>
+              <form onSubmit={handlePostCount} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Part Number
+                    </label>
+                    <select
+                      value={countPartId}
+                      onChange={(e) => setCountPartId(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Select a part...</option>
+                      {parts.map((part) => (
+                        <option key={part.id} value={part.id}>
+                          #{part.partNumber} - {part.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Reason
+                    </label>
+                    <select
+                      value={countReason}
+                      onChange={(e) => setCountReason(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      {Object.entries(ADJUSTMENT_REASONS).map(([code, label]) => (
+                        <option key={code} value={code}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Location
+                    </label>
+                    <select
+                      value={countLocationId}
+                      onChange={(e) => setCountLocationId(e.target.value)}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Default location</option>
+                      {stockLocations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name} ({location.code})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Counted Pallets
+                    </label>
+                    <input
+                      type="number"
+                      value={countedPallets}
+                      onChange={(e) => setCountedPallets(parseInt(e.target.value) || 0)}
+                      min={0}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Counted Loose Boxes
+                    </label>
+                    <input
+                      type="number"
+                      value={countedBoxes}
+                      onChange={(e) => setCountedBoxes(parseInt(e.target.value) || 0)}
+                      min={0}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  {countPart && (
+                    <div className="bg-brand-rust-soft p-4 rounded-lg md:col-span-2">
+                      <p className="text-sm text-brand-ink-soft font-medium">Variance:</p>
+                      <p className="text-sm text-brand-ink-mute">
+                        System{countLocation ? ` at ${countLocation.name}` : ''}:{' '}
+                        {countLocationStock?.pallets ?? 0} pallets + {countLocationStock?.boxes ?? 0} boxes
+                        = {countExpectedBoxes.toLocaleString()} boxes
+                      </p>
+                      <p className="text-sm text-brand-ink-mute">
+                        Counted: {countedPallets} pallets + {countedBoxes} boxes
+                        = {(countedPallets * countPart.boxesPerPallet + countedBoxes).toLocaleString()} boxes
+                      </p>
+                      <p
+                        className={`text-sm font-semibold ${
+                          countVariance === 0 ? 'text-brand-ink' : countVariance > 0 ? 'text-green-700' : 'text-red-700'
+                        }`}
+                      >
+                        {countVariance > 0 ? '+' : ''}{countVariance.toLocaleString()} boxes
+                        ({countVariance > 0 ? '+' : ''}{(countVariance * countPart.unitsPerBox).toLocaleString()} units)
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                    Notes {countReason === 'OTHER' ? '' : '(Optional)'}
+                  </label>
+                  <textarea
+                    value={countNotes}
+                    onChange={(e) => setCountNotes(e.target.value)}
+                    rows={2}
+                    required={countReason === 'OTHER'}
+                    className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    placeholder="Who counted, where, anything unusual..."
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isCountSubmitting || !countPart}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isCountSubmitting ? 'Posting...' : 'Post Count'}
+                </button>
+              </form>
+            </div>
+
+            {/* Count History */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Count History</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : counts.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No cycle counts yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Date
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Part
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Counted
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Variance
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Reason
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Counted By
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {counts.map((count) => (
+                        <tr key={count.id}>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {new Date(count.createdAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div>#{count.part.partNumber}</div>
+                            <div className="text-xs text-brand-ink-mute">{count.part.description}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div>{count.countedPallets} pallets + {count.countedBoxes} boxes</div>
+                            <div className="text-xs text-brand-ink-mute">
+                              expected {count.expectedBoxes.toLocaleString()} boxes
+                              {count.stockLocation && ` at ${count.stockLocation.name}`}
+                            </div>
+                          </td>
+                          <td
+                            className={`px-4 py-3 text-sm font-medium ${
+                              count.varianceBoxes === 0
+                                ? 'text-brand-ink'
+                                : count.varianceBoxes > 0
+                                  ? 'text-green-700'
+                                  : 'text-red-700'
+                            }`}
+                          >
+                            {count.varianceBoxes > 0 ? '+' : ''}{count.varianceBoxes.toLocaleString()} boxes
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink-mute">
+                            <div>{ADJUSTMENT_REASONS[count.reasonCode as keyof typeof ADJUSTMENT_REASONS] || count.reasonCode}</div>
+                            {count.notes && <div className="text-xs">{count.notes}</div>}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{count.user.name}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
           </div>
         )}
 
-        {/* Production Management Tab */}
-        {activeTab === 'production' && (
+        {/* Stock Locations Tab */}
+        {activeTab === 'locations' && (
           <div className="space-y-6">
-            {/* Add Production Form */}
+            {/* On Hand by Location */}
             <div className="bg-white rounded-lg shadow-sm p-6">
-              <h2 className="text-xl font-semibold text-brand-ink mb-6">Add Production Run</h2>
-              <form onSubmit={handleAddProduction} className="space-y-4">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">On Hand by Location</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : stockLocations.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No stock locations yet</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {stockLocations.map((location) => (
+                    <div key={location.id} className="border border-brand-rule rounded-lg p-4">
+                      <div className="flex justify-between items-start mb-3">
+                        <div>
+                          <h3 className="font-semibold text-brand-ink">{location.name}</h3>
+                          <p className="text-xs text-brand-ink-mute">
+                            {location.address}, {location.city}, {location.state} {location.zip}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <span className="text-xs font-medium text-brand-ink-mute">{location.code}</span>
+                          {location.isDefault && (
+                            <div className="text-xs font-semibold text-brand-rust">Default</div>
+                          )}
+                        </div>
+                      </div>
+                      {location.stock.length === 0 ? (
+                        <p className="text-sm text-brand-ink-mute">No stock</p>
+                      ) : (
+                        <table className="w-full">
+                          <tbody className="divide-y divide-gray-200">
+                            {location.stock.map((s) => (
+                              <tr key={s.partId}>
+                                <td className="py-2 text-sm text-brand-ink">#{s.partNumber}</td>
+                                <td className="py-2 text-sm text-brand-ink text-right">
+                                  {s.pallets} pallets + {s.boxes} boxes
+                                  <div className="text-xs text-brand-ink-mute">
+                                    {s.totalBoxes.toLocaleString()} boxes
+                                  </div>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Transfer Form */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Transfer Stock</h2>
+              <form onSubmit={handleCreateTransfer} className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-brand-ink-soft mb-2">
                       Part Number
                     </label>
                     <select
-                      value={selectedPartId}
-                      onChange={(e) => setSelectedPartId(e.target.value)}
+                      value={transferPartId}
+                      onChange={(e) => setTransferPartId(e.target.value)}
                       required
                       className="w-full px-4 py-2 border border-brand-rule rounded-lg"
                     >
@@ -319,14 +2406,64 @@ export default function AdminPage() {
                       ))}
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Carrier (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={transferCarrier}
+                      onChange={(e) => setTransferCarrier(e.target.value)}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                      placeholder="XPO"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      From
+                    </label>
+                    <select
+                      value={transferFromId}
+                      onChange={(e) => setTransferFromId(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Select a location...</option>
+                      {stockLocations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name} ({location.code})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      To
+                    </label>
+                    <select
+                      value={transferToId}
+                      onChange={(e) => setTransferToId(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      <option value="">Select a location...</option>
+                      {stockLocations
+                        .filter((location) => location.id !== transferFromId)
+                        .map((location) => (
+                          <option key={location.id} value={location.id}>
+                            {location.name} ({location.code})
+                          </option>
+                        ))}
+                    </select>
+                  </div>
                   <div>
                     <label className="block text-sm font-medium text-brand-ink-soft mb-2">
                       Pallets
                     </label>
                     <input
                       type="number"
-                      value={pallets}
-                      onChange={(e) => setPallets(parseInt(e.target.value) || 0)}
+                      value={transferPallets}
+                      onChange={(e) => setTransferPallets(parseInt(e.target.value) || 0)}
                       min={0}
                       required
                       className="w-full px-4 py-2 border border-brand-rule rounded-lg"
@@ -338,63 +2475,57 @@ export default function AdminPage() {
                     </label>
                     <input
                       type="number"
-                      value={boxes}
-                      onChange={(e) => setBoxes(parseInt(e.target.value) || 0)}
+                      value={transferBoxes}
+                      onChange={(e) => setTransferBoxes(parseInt(e.target.value) || 0)}
                       min={0}
                       className="w-full px-4 py-2 border border-brand-rule rounded-lg"
                     />
                   </div>
-                  {selectedPart && (
-                    <div className="bg-brand-rust-soft p-4 rounded-lg">
-                      <p className="text-sm text-brand-ink-soft font-medium">Calculation:</p>
-                      <p className="text-sm text-brand-ink-mute">
-                        {pallets} pallets + {boxes} boxes
-                      </p>
-                      <p className="text-sm text-brand-ink-mute">
-                        = {pallets * selectedPart.boxesPerPallet + boxes} total boxes
-                      </p>
-                      <p className="text-sm font-semibold text-brand-ink">
-                        = {((pallets * selectedPart.boxesPerPallet + boxes) * selectedPart.unitsPerBox).toLocaleString()} units
-                      </p>
-                    </div>
-                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Ship Date (Optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={transferShipDate}
+                      onChange={(e) => setTransferShipDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-brand-ink-soft mb-2">
                     Notes (Optional)
                   </label>
                   <textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
+                    value={transferNotes}
+                    onChange={(e) => setTransferNotes(e.target.value)}
                     rows={2}
                     className="w-full px-4 py-2 border border-brand-rule rounded-lg"
-                    placeholder="Production run notes..."
                   />
                 </div>
                 <button
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isTransferSubmitting}
                   className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
                 >
-                  {isSubmitting ? 'Adding...' : 'Add to Inventory'}
+                  {isTransferSubmitting ? 'Transferring...' : 'Create Transfer'}
                 </button>
               </form>
             </div>
 
-            {/* Production History */}
+            {/* Transfer History */}
             <div className="bg-white rounded-lg shadow-sm p-6">
-              <h2 className="text-xl font-semibold text-brand-ink mb-6">Production History</h2>
-              {isLoading ? (
-                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
-              ) : productions.length === 0 ? (
-                <p className="text-center py-8 text-brand-ink-mute">No production runs yet</p>
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Transfer History</h2>
+              {transfers.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No transfers yet</p>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="w-full">
                     <thead className="bg-gray-50">
                       <tr>
                         <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
-                          Date
+                          Transfer
                         </th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
                           Part
@@ -403,31 +2534,50 @@ export default function AdminPage() {
                           Quantity
                         </th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
-                          Added By
+                          Route
                         </th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
-                          Notes
+                          By
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Paperwork
                         </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
-                      {productions.map((prod) => (
-                        <tr key={prod.id}>
+                      {transfers.map((transfer) => (
+                        <tr key={transfer.id}>
                           <td className="px-4 py-3 text-sm text-brand-ink">
-                            {new Date(prod.createdAt).toLocaleDateString()}
+                            <div>{transfer.transferNumber}</div>
+                            <div className="text-xs text-brand-ink-mute">
+                              {new Date(transfer.createdAt).toLocaleDateString()}
+                            </div>
                           </td>
                           <td className="px-4 py-3 text-sm text-brand-ink">
-                            <div>#{prod.part.partNumber}</div>
-                            <div className="text-xs text-brand-ink-mute">{prod.part.description}</div>
+                            <div>#{transfer.part.partNumber}</div>
+                            <div className="text-xs text-brand-ink-mute">{transfer.part.description}</div>
                           </td>
                           <td className="px-4 py-3 text-sm text-brand-ink">
-                            <div>{prod.pallets} pallets</div>
+                            <div>{transfer.pallets} pallets + {transfer.boxes} boxes</div>
                             <div className="text-xs text-brand-ink-mute">
-                              {prod.totalUnits.toLocaleString()} units
+                              {transfer.totalBoxes.toLocaleString()} boxes
                             </div>
                           </td>
-                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{prod.user.name}</td>
-                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{prod.notes || '-'}</td>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            {transfer.fromLocation.code} → {transfer.toLocation.code}
+                            {transfer.notes && (
+                              <div className="text-xs text-brand-ink-mute">{transfer.notes}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink-mute">{transfer.user.name}</td>
+                          <td className="px-4 py-3 text-sm">
+                            <button
+                              onClick={() => openTransferPaperwork(transfer.id)}
+                              className="text-brand-rust hover:text-brand-rust-dark font-medium"
+                            >
+                              Packing Slip + BOL
+                            </button>
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -435,6 +2585,48 @@ export default function AdminPage() {
                 </div>
               )}
             </div>
+
+            {/* Add Location Form */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Add Stock Location</h2>
+              <form onSubmit={handleAddLocation} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(
+                    [
+                      ['code', 'Code', true, 'THREEZ'],
+                      ['name', 'Name (ship-from on paperwork)', true, ''],
+                      ['address', 'Address', true, ''],
+                      ['city', 'City', true, ''],
+                      ['state', 'State', true, ''],
+                      ['zip', 'ZIP', true, ''],
+                      ['phone', 'Phone (Optional)', false, ''],
+                      ['vendorName', 'Vendor Name (Optional)', false, 'ThreeZ'],
+                    ] as const
+                  ).map(([field, label, required, placeholder]) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                        {label}
+                      </label>
+                      <input
+                        type="text"
+                        value={newLocation[field]}
+                        onChange={(e) => setNewLocation({ ...newLocation, [field]: e.target.value })}
+                        required={required}
+                        placeholder={placeholder}
+                        className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="submit"
+                  disabled={isLocationSubmitting}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isLocationSubmitting ? 'Adding...' : 'Add Location'}
+                </button>
+              </form>
+            </div>
           </div>
         )}
 
@@ -478,7 +2670,8 @@ export default function AdminPage() {
                       </thead>
                       <tbody className="divide-y divide-gray-200">
                         {releases.map((release) => {
-                          const totalValue = release.totalUnits * parseFloat(release.part.pricePerUnit)
+                          const totalValue = releaseValue(release)
+                          const isMultiPart = (release.lines?.length ?? 0) > 1
                           return (
                             <tr key={release.id}>
                               <td className="px-4 py-3 text-sm text-brand-ink">
@@ -488,14 +2681,20 @@ export default function AdminPage() {
                                 {release.releaseNumber}
                               </td>
                               <td className="px-4 py-3 text-sm text-brand-ink">
-                                <div>#{release.part.partNumber}</div>
-                                <div className="text-xs text-brand-ink-mute">{release.part.description}</div>
+                                <div>
+                                  {isMultiPart
+                                    ? release.lines!.map((line) => `#${line.part.partNumber}`).join(', ')
+                                    : `#${release.part.partNumber}`}
+                                </div>
+                                <div className="text-xs text-brand-ink-mute">
+                                  {isMultiPart ? `${release.lines!.length} parts` : release.part.description}
+                                </div>
                               </td>
                               <td className="px-4 py-3 text-sm text-brand-ink">
                                 {release.totalUnits.toLocaleString()} units
                               </td>
                               <td className="px-4 py-3 text-sm text-brand-ink">
-                                ${parseFloat(release.part.pricePerUnit).toFixed(4)}
+                                {isMultiPart ? 'Per line' : `$${parseFloat(release.part.pricePerUnit).toFixed(4)}`}
                               </td>
                               <td className="px-4 py-3 text-sm text-right font-semibold text-brand-ink">
                                 ${totalValue.toFixed(2)}
@@ -533,7 +2732,7 @@ export default function AdminPage() {
                         <p className="text-2xl font-bold text-brand-ink">
                           ${releases
                             .reduce(
-                              (sum, r) => sum + r.totalUnits * parseFloat(r.part.pricePerUnit),
+                              (sum, r) => sum + releaseValue(r),
                               0
                             )
                             .toFixed(2)}
@@ -612,6 +2811,34 @@ export default function AdminPage() {
                     placeholder="0.0000"
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-1">
+                      Reorder Point (units)
+                    </label>
+                    <input
+                      type="number"
+                      value={editReorderPoint}
+                      onChange={(e) => setEditReorderPoint(e.target.value)}
+                      min={0}
+                      className="w-full px-3 py-2 border border-brand-rule rounded-lg"
+                      placeholder={editingPart.thresholds?.reorderPointUnits.toString() ?? '30% of annual'}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-1">
+                      Critical Point (units)
+                    </label>
+                    <input
+                      type="number"
+                      value={editCriticalPoint}
+                      onChange={(e) => setEditCriticalPoint(e.target.value)}
+                      min={0}
+                      className="w-full px-3 py-2 border border-brand-rule rounded-lg"
+                      placeholder={editingPart.thresholds?.criticalPointUnits.toString() ?? '15% of annual'}
+                    />
+                  </div>
+                </div>
                 <div className="bg-brand-rust-soft p-3 rounded-lg text-sm">
                   <p className="font-medium text-brand-ink mb-1">Units per Pallet Calculation:</p>
                   <p className="text-brand-rust-dark">
@@ -693,10 +2920,51 @@ export default function AdminPage() {
                             {((part.currentPallets * part.boxesPerPallet + part.currentBoxes) * part.unitsPerBox).toLocaleString()}
                           </span>
                         </div>
+                        {part.reserved && part.available && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-brand-ink-mute">Reserved (unshipped):</span>
+                              <span className="font-semibold">
+                                {part.reserved.pallets} pallets + {part.reserved.boxes} boxes
+                              </span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-brand-ink-mute">Available:</span>
+                              <span className="font-semibold">
+                                {part.available.pallets} pallets + {part.available.boxes} boxes
+                              </span>
+                            </div>
+                          </>
+                        )}
                         <div className="flex justify-between">
                           <span className="text-brand-ink-mute">Unit Price:</span>
                           <span className="font-semibold">${part.pricePerUnit}</span>
                         </div>
+                        {part.thresholds && (
+                          <div className="flex justify-between">
+                            <span className="text-brand-ink-mute">Reorder / Critical:</span>
+                            <span className="font-semibold">
+                              {part.thresholds.reorderPointUnits.toLocaleString()} /{' '}
+                              {part.thresholds.criticalPointUnits.toLocaleString()} units
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-brand-ink-mute">Projected Stockout:</span>
+                          <span
+                            className={`font-semibold ${
+                              part.status === 'critical'
+                                ? 'text-red-700'
+                                : part.status === 'low'
+                                  ? 'text-yellow-700'
+                                  : ''
+                            }`}
+                          >
+                            {part.projectedStockoutDate
+                              ? new Date(part.projectedStockoutDate).toLocaleDateString()
+                              : '-'}
+                          </span>
+                        </div>
                         <div className="flex justify-between pt-2 border-t">
                           <span className="text-brand-ink-soft font-medium">Inventory Value:</span>
                           <span className="font-bold text-brand-rust">
@@ -713,6 +2981,334 @@ export default function AdminPage() {
                 </div>
               )}
             </div>
+
+            {/* Demand Forecast */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-1">Demand Forecast</h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                Projected releases over the next {forecastDays} days from release history, adjusted for
+                seasonality.
+              </p>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : forecasts.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No release history yet</p>
+              ) : (
+                <div className="space-y-6">
+                  {forecasts.map((forecast) => {
+                    const recent = forecast.monthlyUsage.slice(-12)
+                    const peak = Math.max(1, ...recent.map((m) => m.units))
+                    return (
+                      <div key={forecast.partId} className="border border-brand-rule rounded-lg p-6">
+                        <div className="flex justify-between items-start mb-4">
+                          <div>
+                            <h3 className="text-lg font-bold text-brand-ink">Part #{forecast.partNumber}</h3>
+                            <p className="text-sm text-brand-ink-mute">{forecast.description}</p>
+                          </div>
+                          {forecast.runsOutInWindow && (
+                            <span className="px-3 py-1 rounded-full text-sm font-medium border bg-red-50 text-red-700 border-red-200">
+                              Reprint needed
+                            </span>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                          <div className="bg-gray-50 p-4 rounded">
+                            <p className="text-sm text-brand-ink-mute mb-1">Avg / Month</p>
+                            <p className="text-xl font-bold text-brand-ink">
+                              {forecast.baselineMonthlyUnits.toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="bg-gray-50 p-4 rounded">
+                            <p className="text-sm text-brand-ink-mute mb-1">Next {forecastDays} Days</p>
+                            <p className="text-xl font-bold text-brand-ink">
+                              {forecast.projectedUnits.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-brand-ink-mute">~{forecast.projectedPallets} pallets</p>
+                          </div>
+                          <div className="bg-gray-50 p-4 rounded">
+                            <p className="text-sm text-brand-ink-mute mb-1">On Hand</p>
+                            <p className="text-xl font-bold text-brand-ink">
+                              {forecast.onHandUnits.toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="bg-gray-50 p-4 rounded">
+                            <p className="text-sm text-brand-ink-mute mb-1">Left After {forecastDays} Days</p>
+                            <p
+                              className={`text-xl font-bold ${
+                                forecast.projectedOnHandUnits < 0 ? 'text-red-700' : 'text-brand-ink'
+                              }`}
+                            >
+                              {forecast.projectedOnHandUnits.toLocaleString()}
+                            </p>
+                          </div>
+                        </div>
+                        {recent.length > 0 && (
+                          <div>
+                            <p className="text-sm text-brand-ink-mute mb-2">Monthly usage (last 12 months)</p>
+                            <div className="flex items-end gap-1 h-24">
+                              {recent.map((m) => (
+                                <div key={m.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                                  <div
+                                    className="w-full bg-brand-rust rounded-t"
+                                    style={{ height: `${(m.units / peak) * 100}%` }}
+                                    title={`${formatMonth(m.month)}: ${m.units.toLocaleString()} units`}
+                                  />
+                                  <span className="text-[10px] text-brand-ink-mute mt-1">{formatMonth(m.month)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        <div className="mt-4 pt-4 border-t border-brand-rule grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <p className="text-brand-ink-mute mb-1">Projected by month</p>
+                            {forecast.projectedMonths.map((m) => (
+                              <div key={m.month} className="flex justify-between">
+                                <span className="text-brand-ink-mute">{formatMonth(m.month)}</span>
+                                <span className="font-semibold">{m.units.toLocaleString()} units</span>
+                              </div>
+                            ))}
+                          </div>
+                          <div>
+                            <p className="text-brand-ink-mute mb-1">Seasonality (1.0 = typical month)</p>
+                            <div className="grid grid-cols-6 gap-1">
+                              {forecast.seasonality.map((index, i) => (
+                                <div
+                                  key={MONTH_LABELS[i]}
+                                  className={`text-center rounded px-1 py-0.5 text-xs ${
+                                    index > 1.1 ? 'bg-brand-rust-soft font-semibold' : 'bg-gray-50'
+                                  }`}
+                                >
+                                  {MONTH_LABELS[i]} {index.toFixed(2)}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Users Tab */}
+        {activeTab === 'users' && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-6">Users</h2>
+              {isLoading ? (
+                <div className="text-center py-8 text-brand-ink-mute">Loading...</div>
+              ) : users.length === 0 ? (
+                <p className="text-center py-8 text-brand-ink-mute">No users yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          User
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Role
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Status
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-brand-ink-mute uppercase">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {users.map((account) => (
+                        <tr key={account.id} className={account.active ? '' : 'opacity-60'}>
+                          <td className="px-4 py-3 text-sm text-brand-ink">
+                            <div className="font-medium">{account.name}</div>
+                            <div className="text-xs text-brand-ink-mute">{account.email}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-brand-ink space-y-2">
+                            <select
+                              value={account.role}
+                              onChange={(e) => updateUser(account, { role: e.target.value as Role })}
+                              disabled={updatingUserId !== null || account.id === user.id}
+                              className="w-full px-3 py-1.5 border border-brand-rule rounded-lg text-sm"
+                            >
+                              {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                                <option key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </option>
+                              ))}
+                            </select>
+                            {account.role === 'VENDOR' && (
+                              <select
+                                value={account.vendorLocationId ?? ''}
+                                onChange={(e) => updateUser(account, { vendorLocationId: e.target.value })}
+                                disabled={updatingUserId !== null}
+                                className="w-full px-3 py-1.5 border border-brand-rule rounded-lg text-sm"
+                              >
+                                {stockLocations.map((location) => (
+                                  <option key={location.id} value={location.id}>
+                                    Sees releases from {location.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span
+                              className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                                account.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                              }`}
+                            >
+                              {account.active ? 'ACTIVE' : 'DEACTIVATED'}
+                            </span>
+                            {account.totpEnabledAt && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                                2FA
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm whitespace-nowrap space-x-2">
+                            <button
+                              onClick={() => updateUser(account, 'reset-password')}
+                              disabled={updatingUserId !== null}
+                              className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                            >
+                              Reset Password
+                            </button>
+                            {account.totpEnabledAt && account.id !== user.id && (
+                              <button
+                                onClick={() => updateUser(account, { resetTwoFactor: true })}
+                                disabled={updatingUserId !== null}
+                                className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                              >
+                                Reset 2FA
+                              </button>
+                            )}
+                            {account.id !== user.id && (
+                              <button
+                                onClick={() => signOutUser(account)}
+                                disabled={updatingUserId !== null}
+                                className="px-3 py-1.5 border border-brand-rule text-brand-ink-soft text-xs font-medium rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                              >
+                                Sign Out Everywhere
+                              </button>
+                            )}
+                            {account.id !== user.id && (
+                              <button
+                                onClick={() => updateUser(account, { active: !account.active })}
+                                disabled={updatingUserId !== null}
+                                className={`px-3 py-1.5 text-xs font-medium rounded-lg disabled:opacity-50 ${
+                                  account.active
+                                    ? 'bg-red-600 text-white hover:bg-red-700'
+                                    : 'bg-emerald-600 text-white hover:bg-emerald-700'
+                                }`}
+                              >
+                                {updatingUserId === account.id
+                                  ? 'Working...'
+                                  : account.active
+                                    ? 'Deactivate'
+                                    : 'Reactivate'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Add User Form */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold text-brand-ink mb-2">Add User</h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                Give the new user their temporary password directly.
+              </p>
+              <form onSubmit={handleCreateUser} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Name</label>
+                    <input
+                      type="text"
+                      value={newUser.name}
+                      onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Email</label>
+                    <input
+                      type="email"
+                      value={newUser.email}
+                      onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                      required
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">Role</label>
+                    <select
+                      value={newUser.role}
+                      onChange={(e) => setNewUser({ ...newUser, role: e.target.value as Role })}
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    >
+                      {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {newUser.role === 'VENDOR' && (
+                    <div>
+                      <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                        Vendor Location
+                      </label>
+                      <select
+                        value={newUser.vendorLocationId}
+                        onChange={(e) => setNewUser({ ...newUser, vendorLocationId: e.target.value })}
+                        required
+                        className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                      >
+                        <option value="">Select a location...</option>
+                        {stockLocations.map((location) => (
+                          <option key={location.id} value={location.id}>
+                            {location.name} ({location.code})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                      Temporary Password
+                    </label>
+                    <input
+                      type="text"
+                      value={newUser.password}
+                      onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                      required
+                      minLength={8}
+                      autoComplete="new-password"
+                      className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="submit"
+                  disabled={isUserSubmitting}
+                  className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50"
+                >
+                  {isUserSubmitting ? 'Adding...' : 'Add User'}
+                </button>
+              </form>
+            </div>
           </div>
         )}
       </main>
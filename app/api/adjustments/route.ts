@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { locationOnHandBoxes, resolveStockLocationId } from '@/lib/inventory/locations'
+import { consumeLots } from '@/lib/inventory/lots'
+import { applyInventoryChange } from '@/lib/inventory/stock'
+import { cycleCountSchema } from '@/lib/validation/inventory'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * POST /api/adjustments — post a cycle count for a part (admin only)
+ *   { partId, countedPallets, countedBoxes?, reasonCode, notes?, stockLocationId? }
+ * The count is stored as an InventoryCount and any variance against on-hand
+ * at that location (the default location when omitted) is applied to
+ * inventory as an ADJUSTMENT.
+ *
+ * GET /api/adjustments — cycle count history, newest first
+ */
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, cycleCountSchema)
+    if (!parsed.success) return parsed.response
+    const {
+      partId,
+      countedPallets: pallets,
+      countedBoxes: boxes,
+      reasonCode,
+      notes,
+      stockLocationId,
+    } = parsed.data
+
+    const count = await prisma.$transaction(async (tx) => {
+      const part = await tx.part.findUnique({
+        where: { id: partId },
+      })
+
+      if (!part) {
+        throw new Error('PART_NOT_FOUND')
+      }
+
+      const locationId = await resolveStockLocationId(tx, stockLocationId)
+      const expectedBoxes = await locationOnHandBoxes(tx, partId, locationId)
+
+      const countedTotalBoxes = pallets * part.boxesPerPallet + boxes
+      const varianceBoxes = countedTotalBoxes - expectedBoxes
+
+      const created = await tx.inventoryCount.create({
+        data: {
+          partId,
+          countedPallets: pallets,
+          countedBoxes: boxes,
+          countedTotalBoxes,
+          expectedBoxes,
+          varianceBoxes,
+          reasonCode,
+          stockLocationId: locationId,
+          userId: user.id,
+          notes,
+        },
+        include: {
+          part: true,
+          stockLocation: true,
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+      })
+
+      // Missing stock comes out of the oldest lots first
+      if (varianceBoxes < 0) {
+        await consumeLots(tx, partId, locationId, -varianceBoxes)
+      }
+
+      await applyInventoryChange(tx, {
+        partId,
+        type: 'ADJUSTMENT',
+        boxes: varianceBoxes,
+        userId: user.id,
+        inventoryCountId: created.id,
+        stockLocationId: locationId,
+        reference: reasonCode,
+        notes,
+      })
+
+      return created
+    })
+
+    console.log(
+      `📦 Cycle count ${count.part.partNumber} at ${count.stockLocation?.code}: counted ${count.countedTotalBoxes} boxes, expected ${count.expectedBoxes} (variance ${count.varianceBoxes >= 0 ? '+' : ''}${count.varianceBoxes})`
+    )
+
+    return NextResponse.json({ count })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'PART_NOT_FOUND') {
+      return NextResponse.json(
+        { error: 'Part not found' },
+        { status: 404 }
+      )
+    }
+    if (error instanceof Error && error.message === 'NO_STOCK_LOCATION') {
+      return NextResponse.json(
+        { error: 'No stock location is set up' },
+        { status: 400 }
+      )
+    }
+    console.error('Error posting inventory count:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const counts = await prisma.inventoryCount.findMany({
+      include: {
+        part: true,
+        stockLocation: true,
+        user: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    })
+
+    return NextResponse.json({ counts })
+  } catch (error) {
+    console.error('Error fetching inventory counts:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { reconcilePartInventory } from '@/lib/inventory/ledger'
+import { inventoryLedgerQuerySchema } from '@/lib/validation/inventory'
+import { parseQuery } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/admin/inventory-ledger
+ *   → drift summary for every part (ledger sum vs stored counters)
+ * GET /api/admin/inventory-ledger?partId=<id> (or ?partNumber=<number>)
+ *   → that part's ledger, newest first, with its drift summary
+ */
+export const GET = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const parsed = parseQuery(request, inventoryLedgerQuerySchema)
+    if (!parsed.success) return parsed.response
+    const { partId, partNumber } = parsed.data
+
+    if (!partId && !partNumber) {
+      const parts = await prisma.part.findMany({ orderBy: { partNumber: 'asc' } })
+      const reconciliations = await Promise.all(parts.map(reconcilePartInventory))
+
+      return NextResponse.json({
+        parts: reconciliations,
+        driftCount: reconciliations.filter((r) => r.hasDrift).length,
+      })
+    }
+
+    const part = await prisma.part.findUnique({
+      where: partId ? { id: partId } : { partNumber: partNumber! },
+    })
+
+    if (!part) {
+      return NextResponse.json({ error: 'Part not found' }, { status: 404 })
+    }
+
+    const [reconciliation, transactions] = await Promise.all([
+      reconcilePartInventory(part),
+      prisma.inventoryTransaction.findMany({
+        where: { partId: part.id },
+        include: {
+          stockLocation: true,
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ])
+
+    return NextResponse.json({ part, ...reconciliation, transactions })
+  } catch (error) {
+    console.error('Error fetching inventory ledger:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
@@ -1,16 +1,9 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/with-auth'
 
 // Temporary endpoint to update parts - DELETE AFTER USE
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url)
-  const secret = searchParams.get('secret')
-
-  // Simple protection
-  if (secret !== 'update51boxes2025') {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-  }
-
+export const POST = withAuth({ roles: ['ADMIN'] }, async () => {
   try {
     // Update part 100307705
     const part1 = await prisma.part.update({
@@ -38,7 +31,8 @@ export async function GET(request: Request) {
       ]
     })
   } catch (error) {
-    return NextResponse.json({ error: String(error) }, { status: 500 })
+    console.error('Error updating parts:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
   }
-}
+})
 // Trigger rebuild v2 - fixed import path
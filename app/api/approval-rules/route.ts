@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { APPROVAL_RULE_TYPES, approvalRules } from '@/lib/releases/approval'
+import { approvalRulesSchema } from '@/lib/validation/admin'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/approval-rules — every approval rule type with its threshold and
+ *   whether it's enforced (admin only)
+ * PUT /api/approval-rules — save rules (admin only)
+ *   { rules: [{ type, threshold, enabled }] }
+ */
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const rules = await approvalRules(prisma)
+
+    return NextResponse.json({
+      rules: rules.map((rule) => ({ ...rule, ...APPROVAL_RULE_TYPES[rule.type] })),
+    })
+  } catch (error) {
+    console.error('Error fetching approval rules:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const parsed = await parseBody(request, approvalRulesSchema)
+    if (!parsed.success) return parsed.response
+    const { rules } = parsed.data
+
+    await prisma.$transaction(
+      rules.map((rule) =>
+        prisma.approvalRule.upsert({
+          where: { type: rule.type },
+          create: rule,
+          update: { threshold: rule.threshold, enabled: rule.enabled },
+        })
+      )
+    )
+
+    const saved = await approvalRules(prisma)
+
+    return NextResponse.json({
+      rules: saved.map((rule) => ({ ...rule, ...APPROVAL_RULE_TYPES[rule.type] })),
+    })
+  } catch (error) {
+    console.error('Error saving approval rules:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
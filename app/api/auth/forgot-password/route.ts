@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { sendPasswordResetEmail } from '@/lib/email/sendgrid'
+import { issuePasswordResetToken, PASSWORD_RESET_TTL_MINUTES } from '@/lib/password-reset'
+import { forgotPasswordSchema } from '@/lib/validation/auth'
+import { parseBody } from '@/lib/validation/request'
+
+// Same answer whether or not the email has an account, so this can't be used
+// to find out who does
+const RESET_REQUESTED_MESSAGE = 'If that email has an account, a reset link is on its way.'
+
+/**
+ * POST /api/auth/forgot-password — { email }
+ * Emails an active user a one-time link to /reset-password.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, forgotPasswordSchema)
+    if (!parsed.success) return parsed.response
+    const { email } = parsed.data
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    })
+
+    if (user?.active) {
+      const token = await issuePasswordResetToken(user.id)
+      console.log(`🔑 Password reset requested for ${user.email}`)
+      try {
+        await sendPasswordResetEmail({
+          email: user.email,
+          name: user.name,
+          token,
+          expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+        })
+      } catch (emailError) {
+        console.error('❌ Password reset email failed:', emailError)
+      }
+    }
+
+    return NextResponse.json({ message: RESET_REQUESTED_MESSAGE })
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+}
@@ -1,18 +1,38 @@
+import type { User } from '@prisma/client'
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { comparePassword, generateToken } from '@/lib/auth'
+import { comparePassword, generateChallengeToken, verifyChallengeToken } from '@/lib/auth'
+import { createSession, sessionResponseBody, setRefreshCookie } from '@/lib/sessions'
+import {
+  enableTwoFactor,
+  startTwoFactorEnrollment,
+  twoFactorRequired,
+  verifySecondFactor,
+} from '@/lib/two-factor'
+import { loginSchema, loginStepSchema, loginTwoFactorSchema } from '@/lib/validation/auth'
+import { parseBody, parseInput } from '@/lib/validation/request'
 
+/**
+ * POST /api/auth/login
+ *   { email, password } — signs in, unless the account uses two-factor:
+ *     then { twoFactorRequired, challengeToken } for the second step. A user
+ *     whose role must use two-factor but hasn't enrolled gets
+ *     { twoFactorSetupRequired, challengeToken, enrollment } to scan first.
+ *   { challengeToken, code } — the second step, within 5 minutes. Right after
+ *     enrolling, the response also carries the user's backupCodes.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json()
-
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      )
+    const body = await parseBody(request, loginStepSchema)
+    if (!body.success) return body.response
+    if (body.data.challengeToken !== undefined) {
+      return await twoFactorStep(request, body.data)
     }
 
+    const parsed = parseInput(loginSchema, body.data)
+    if (!parsed.success) return parsed.response
+    const { email, password } = parsed.data
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
@@ -35,23 +55,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    })
+    if (!user.active) {
+      return NextResponse.json(
+        { error: 'This account has been deactivated' },
+        { status: 403 }
+      )
+    }
 
-    // Return user data and token
-    return NextResponse.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      token,
-    })
+    if (user.totpEnabledAt) {
+      return NextResponse.json({ twoFactorRequired: true, challengeToken: generateChallengeToken(user.id) })
+    }
+    if (twoFactorRequired(user.role)) {
+      return NextResponse.json({
+        twoFactorSetupRequired: true,
+        challengeToken: generateChallengeToken(user.id),
+        enrollment: await startTwoFactorEnrollment(user),
+      })
+    }
+
+    return await signIn(request, user)
   } catch (error) {
     console.error('Login error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -61,3 +83,48 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+async function twoFactorStep(request: NextRequest, body: unknown) {
+  const parsed = parseInput(loginTwoFactorSchema, body)
+  if (!parsed.success) return parsed.response
+  const { challengeToken, code } = parsed.data
+
+  const userId = verifyChallengeToken(challengeToken)
+  const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null
+  if (!user || !user.active) {
+    return NextResponse.json(
+      { error: 'Your sign-in has expired. Please sign in again.' },
+      { status: 401 }
+    )
+  }
+
+  // Enrolling as part of signing in: the first code turns two-factor on
+  if (!user.totpEnabledAt) {
+    const backupCodes = await enableTwoFactor(user.id, code)
+    if (!backupCodes) {
+      return NextResponse.json({ error: 'Incorrect code' }, { status: 401 })
+    }
+    console.log(`🔐 ${user.email} enabled two-factor authentication`)
+    return signIn(request, user, { backupCodes })
+  }
+
+  const result = await verifySecondFactor(user.id, code)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  if (result.method === 'backup') {
+    console.log(`🔐 ${user.email} used a backup code`)
+  }
+
+  return signIn(request, user)
+}
+
+// Start a session: access token in the body, refresh token in an httpOnly cookie
+async function signIn(request: NextRequest, user: User, extra: Record<string, unknown> = {}) {
+  const session = await createSession(user, request)
+  console.log(`🔓 ${user.email} signed in`)
+
+  const response = NextResponse.json({ ...sessionResponseBody(user, session.accessToken), ...extra })
+  setRefreshCookie(response, session)
+  return response
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearRefreshCookie, REFRESH_COOKIE, revokeSessionByRefreshToken } from '@/lib/sessions'
+
+/**
+ * POST /api/auth/logout
+ * Revokes this browser's session and clears its refresh cookie. Works
+ * without an access token, so an expired page can still sign out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken)
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearRefreshCookie(response)
+    return response
+  } catch (error) {
+    console.error('Error signing out:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+}
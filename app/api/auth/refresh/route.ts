@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  clearRefreshCookie,
+  REFRESH_COOKIE,
+  refreshSession,
+  sessionResponseBody,
+  setRefreshCookie,
+} from '@/lib/sessions'
+
+/**
+ * POST /api/auth/refresh
+ * Trades the refresh cookie for a new access token (and a new refresh
+ * cookie). 401 with the cookie cleared when the session is over. A request
+ * that lost a rotation race to another tab gets an access token and leaves
+ * the cookie the winner set alone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value
+    const refreshed = refreshToken ? await refreshSession(refreshToken) : null
+
+    if (!refreshed) {
+      const response = NextResponse.json({ error: 'Session expired' }, { status: 401 })
+      clearRefreshCookie(response)
+      return response
+    }
+
+    const response = NextResponse.json(sessionResponseBody(refreshed.user, refreshed.accessToken))
+    if (refreshed.refreshToken) {
+      setRefreshCookie(response, { ...refreshed, refreshToken: refreshed.refreshToken })
+    }
+    return response
+  } catch (error) {
+    console.error('Error refreshing session:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resetPasswordWithToken } from '@/lib/password-reset'
+import { resetPasswordSchema } from '@/lib/validation/auth'
+import { parseBody } from '@/lib/validation/request'
+
+/**
+ * POST /api/auth/reset-password — { token, password }
+ * Sets a new password with the token from a forgot-password email; the token
+ * can't be used again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, resetPasswordSchema)
+    if (!parsed.success) return parsed.response
+    const { token, password } = parsed.data
+
+    const email = await resetPasswordWithToken(token, password)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'This reset link is invalid or has expired. Please request a new one.' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`🔑 Password reset completed for ${email}`)
+
+    return NextResponse.json({ message: 'Your password has been reset. You can sign in now.' })
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * DELETE /api/auth/sessions/[sessionId] — sign one of your own sessions out
+ */
+export const DELETE = withAuth<{ sessionId: string }>({}, async (request, user, { params }) => {
+  try {
+    const { sessionId } = await params
+
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, userId: user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    console.log(`🔒 ${user.email} revoked session ${sessionId}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { activeSessionWhere, sessionSummarySelect } from '@/lib/sessions'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/auth/sessions — the signed-in user's active sessions, newest
+ *   first; `current` marks the one making the request
+ */
+export const GET = withAuth({}, async (request, user) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: activeSessionWhere(user.id),
+      select: sessionSummarySelect,
+      orderBy: { lastUsedAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === user.sessionId })),
+    })
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
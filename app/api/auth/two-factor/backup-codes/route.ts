@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { regenerateBackupCodes, verifySecondFactor } from '@/lib/two-factor'
+import { twoFactorCodeSchema } from '@/lib/validation/auth'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * POST /api/auth/two-factor/backup-codes — replace the signed-in user's
+ *   backup codes { code }; returns the new backupCodes, shown once
+ */
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, twoFactorCodeSchema)
+    if (!parsed.success) return parsed.response
+
+    const result = await verifySecondFactor(user.id, parsed.data.code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const backupCodes = await regenerateBackupCodes(user.id)
+    console.log(`🔐 ${user.email} generated new backup codes`)
+
+    return NextResponse.json({ backupCodes })
+  } catch (error) {
+    console.error('Error generating backup codes:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
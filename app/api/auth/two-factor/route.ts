@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { disableTwoFactor, enableTwoFactor, twoFactorRequired, verifySecondFactor } from '@/lib/two-factor'
+import { twoFactorCodeSchema } from '@/lib/validation/auth'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/auth/two-factor — whether two-factor is on for the signed-in user,
+ *   whether their role requires it, and how many backup codes they have left
+ * POST /api/auth/two-factor — turn it on after /setup
+ *   { code } from the newly set-up app; returns backupCodes, shown once
+ * DELETE /api/auth/two-factor — turn it off { code }; not allowed for a role
+ *   that requires it
+ */
+export const GET = withAuth({}, async (request, user) => {
+  try {
+    const account = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { totpEnabledAt: true, totpBackupCodes: true },
+    })
+
+    return NextResponse.json({
+      enabled: !!account.totpEnabledAt,
+      required: twoFactorRequired(user.role),
+      backupCodesRemaining: account.totpEnabledAt ? account.totpBackupCodes.length : 0,
+    })
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
+
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, twoFactorCodeSchema)
+    if (!parsed.success) return parsed.response
+
+    const backupCodes = await enableTwoFactor(user.id, parsed.data.code)
+    if (!backupCodes) {
+      return NextResponse.json(
+        { error: 'Incorrect code. Check the time on your phone, or start setup again.' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`🔐 ${user.email} enabled two-factor authentication`)
+
+    return NextResponse.json({ backupCodes })
+  } catch (error) {
+    console.error('Error enabling two-factor:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth({}, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, twoFactorCodeSchema)
+    if (!parsed.success) return parsed.response
+
+    if (twoFactorRequired(user.role)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for your role' },
+        { status: 400 }
+      )
+    }
+
+    const result = await verifySecondFactor(user.id, parsed.data.code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await disableTwoFactor(user.id)
+    console.log(`🔓 ${user.email} disabled two-factor authentication`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error disabling two-factor:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
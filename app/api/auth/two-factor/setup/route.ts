@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { startTwoFactorEnrollment } from '@/lib/two-factor'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * POST /api/auth/two-factor/setup — start enrolling: a new secret and the QR
+ *   code to scan with an authenticator app. Confirm with POST
+ *   /api/auth/two-factor.
+ */
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const account = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { totpEnabledAt: true },
+    })
+    if (account.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already on' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ enrollment: await startTwoFactorEnrollment(user) })
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { sendLowStockAlertEmail, type LowStockAlert } from '@/lib/email/sendgrid'
+import { isWorseStatus, partStockHealth, releaseVelocities } from '@/lib/inventory/reorder'
+import { availableBoxes, withStock } from '@/lib/inventory/stock'
+
+/**
+ * Cron endpoint to email JD when a part's available stock drops below its
+ * reorder or critical point. Should be called daily, alongside /api/cron/send-invoices.
+ *
+ * A part is alerted once per drop: Part.stockAlertStatus remembers the level
+ * last emailed, so a part stays quiet while it sits at LOW and only alerts
+ * again if it falls to CRITICAL, or recovers and drops again.
+ *
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('📦 Running low stock cron job')
+
+    const [parts, velocities] = await Promise.all([
+      prisma.part.findMany({ orderBy: { partNumber: 'asc' } }),
+      releaseVelocities(),
+    ])
+
+    const alerts: LowStockAlert[] = []
+    const alertedPartIds: Array<{ id: string; status: LowStockAlert['status'] }> = []
+    let recovered = 0
+
+    for (const part of parts) {
+      const health = partStockHealth(part, velocities)
+
+      if (health.status !== 'GOOD' && isWorseStatus(health.status, part.stockAlertStatus)) {
+        alerts.push({
+          partNumber: part.partNumber,
+          partDescription: part.description,
+          status: health.status,
+          availableUnits: availableBoxes(part) * part.unitsPerBox,
+          availablePallets: withStock(part).available.pallets,
+          ...health.thresholds,
+          unitsPerDay: health.unitsPerDay,
+          projectedStockoutDate: health.projectedStockoutDate,
+        })
+        alertedPartIds.push({ id: part.id, status: health.status })
+      } else if (isWorseStatus(part.stockAlertStatus, health.status)) {
+        // Restocked above the level last alerted; re-arm so the next drop emails
+        await prisma.part.update({
+          where: { id: part.id },
+          data: { stockAlertStatus: health.status },
+        })
+        recovered++
+      }
+    }
+
+    if (alerts.length > 0) {
+      await sendLowStockAlertEmail(alerts)
+
+      const now = new Date()
+      for (const { id, status } of alertedPartIds) {
+        await prisma.part.update({
+          where: { id },
+          data: { stockAlertStatus: status, stockAlertedAt: now },
+        })
+      }
+    }
+
+    console.log(`📊 Low stock cron job completed: ${alerts.length} alerted, ${recovered} recovered`)
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${parts.length} parts`,
+      results: {
+        total: parts.length,
+        alerted: alerts.map((a) => `${a.partNumber} (${a.status})`),
+        recovered,
+      },
+    })
+  } catch (error) {
+    console.error('Error in low stock cron job:', error)
+    return NextResponse.json(
+      { error: 'An error occurred while checking stock levels' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { EPG_LOCATION_NAME } from '@/lib/epg'
+import { can } from '@/lib/permissions'
+import { createRelease } from '@/lib/releases/create'
+import { calendarDay, dueOccurrences, isScheduledOn, scheduledReleaseInput } from '@/lib/releases/schedules'
+
+/**
+ * Cron endpoint to create recurring releases. Should be called daily,
+ * alongside /api/cron/send-invoices.
+ *
+ * Each occurrence of an active schedule that is due (see dueOccurrences —
+ * today's, plus any from the last week a previous run missed or failed) is
+ * submitted through createRelease as the schedule's owner — the same
+ * validation, approval rules, documents and emails as POST /api/releases. A
+ * release is created at most once per occurrence, so re-running the job is
+ * safe. A schedule whose owner has been deactivated or can no longer create
+ * releases is switched off instead.
+ *
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret for security. This job creates releases, so it
+    // doesn't run at all until CRON_SECRET is set
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🔁 Running release schedules cron job')
+
+    const today = calendarDay()
+    const schedules = await prisma.releaseSchedule.findMany({
+      where: { active: true },
+      include: { user: true },
+    })
+
+    const results = {
+      total: 0,
+      created: [] as string[],
+      skipped: schedules.filter((s) => isScheduledOn(s, today) && s.skippedDates.includes(today)).length,
+      deactivated: [] as string[],
+      failed: [] as Array<{ schedule: string; error: string }>,
+    }
+
+    // Only an owner who could submit the release by hand keeps the schedule going
+    const runnable = schedules.filter((s) => s.user.active && can(s.user.role, 'createReleases'))
+    for (const schedule of schedules.filter((s) => !runnable.includes(s))) {
+      await prisma.releaseSchedule.update({
+        where: { id: schedule.id },
+        data: { active: false },
+      })
+      console.warn(`⚠️ Schedule "${schedule.name}" switched off: ${schedule.user.email} can no longer create releases`)
+      results.deactivated.push(schedule.name)
+    }
+
+    const due = runnable.flatMap((schedule) =>
+      dueOccurrences(schedule, today).map((day) => ({ schedule, day })),
+    )
+
+    if (due.length > 0) {
+      const epgLocation = await prisma.shippingLocation.findFirst({
+        where: { name: EPG_LOCATION_NAME },
+      })
+      if (!epgLocation) {
+        throw new Error(`Shipping location "${EPG_LOCATION_NAME}" not found`)
+      }
+
+      for (const { schedule, day } of due) {
+        const existing = await prisma.release.findFirst({
+          where: { scheduleId: schedule.id, scheduledFor: day },
+        })
+        if (existing) continue
+        results.total++
+
+        try {
+          const result = await createRelease(
+            schedule.user,
+            scheduledReleaseInput(schedule, today, epgLocation.id),
+            { scheduleId: schedule.id, scheduledFor: day },
+          )
+          if ('error' in result) {
+            console.error(`❌ Schedule "${schedule.name}" could not create its ${day} release: ${result.error}`)
+            results.failed.push({ schedule: schedule.name, error: result.error })
+          } else {
+            console.log(`✅ Schedule "${schedule.name}" created ${result.release.releaseNumber} for ${day}`)
+            results.created.push(result.release.releaseNumber)
+          }
+        } catch (error) {
+          // A concurrent run already created this occurrence
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            continue
+          }
+          console.error(`❌ Schedule "${schedule.name}" failed:`, error)
+          results.failed.push({ schedule: schedule.name, error: 'An error occurred' })
+        }
+      }
+    }
+
+    console.log(
+      `📊 Release schedules cron job completed: ${results.created.length} created, ${results.failed.length} failed, ${results.deactivated.length} switched off`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `${results.total} scheduled releases due ${today}`,
+      results,
+    })
+  } catch (error) {
+    console.error('Error in release schedules cron job:', error)
+    return NextResponse.json(
+      { error: 'An error occurred while running release schedules' },
+      { status: 500 }
+    )
+  }
+}
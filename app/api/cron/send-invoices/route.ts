@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { sendInvoiceReminderEmail } from '@/lib/email/sendgrid'
+import {
+  releaseLinesInclude,
+  releaseLinesOf,
+  releaseLinesTotal,
+  releasePartSummary,
+} from '@/lib/releases/lines'
+import { sendInvoiceSchema } from '@/lib/validation/integrations'
+import { parseBody } from '@/lib/validation/request'
 
 /**
  * Cron endpoint to send invoices for releases with ship date = today
@@ -32,6 +40,7 @@ export async function GET(request: NextRequest) {
     // Find all releases where:
     // - shipDate is today
     // - invoiceSent is false
+    // - not cancelled or awaiting approval
     const releasesToInvoice = await prisma.release.findMany({
       where: {
         shipDate: {
@@ -39,10 +48,12 @@ export async function GET(request: NextRequest) {
           lt: tomorrow,
         },
         invoiceSent: false,
+        status: { notIn: ['CANCELLED', 'PENDING_APPROVAL'] },
       },
       include: {
         part: true,
         shippingLocation: true,
+        lines: releaseLinesInclude,
       },
     })
 
@@ -57,13 +68,13 @@ export async function GET(request: NextRequest) {
 
     for (const release of releasesToInvoice) {
       try {
-        const invoiceTotal = release.totalUnits * release.part.pricePerUnit
+        const lines = releaseLinesOf(release)
+        const invoiceTotal = releaseLinesTotal(lines)
 
         // Send internal invoice reminder email (to John, Brenda, Crista)
         await sendInvoiceReminderEmail({
           releaseNumber: release.releaseNumber,
-          partNumber: release.part.partNumber,
-          partDescription: release.part.description,
+          ...releasePartSummary(lines),
           pallets: release.pallets,
           boxes: release.boxes,
           totalUnits: release.totalUnits,
@@ -124,20 +135,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { releaseId } = await request.json()
-
-    if (!releaseId) {
-      return NextResponse.json(
-        { error: 'releaseId is required' },
-        { status: 400 }
-      )
-    }
+    const parsed = await parseBody(request, sendInvoiceSchema)
+    if (!parsed.success) return parsed.response
+    const { releaseId } = parsed.data
 
     const release = await prisma.release.findUnique({
       where: { id: releaseId },
       include: {
         part: true,
         shippingLocation: true,
+        lines: releaseLinesInclude,
       },
     })
 
@@ -155,13 +162,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const invoiceTotal = release.totalUnits * release.part.pricePerUnit
+    const lines = releaseLinesOf(release)
+    const invoiceTotal = releaseLinesTotal(lines)
 
     // Send internal invoice reminder email (to John, Brenda, Crista)
     await sendInvoiceReminderEmail({
       releaseNumber: release.releaseNumber,
-      partNumber: release.part.partNumber,
-      partDescription: release.part.description,
+      ...releasePartSummary(lines),
       pallets: release.pallets,
       boxes: release.boxes,
       totalUnits: release.totalUnits,
@@ -1,18 +1,12 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/with-auth'
 
-export async function GET() {
+// Admin-only: reports counts and config flags, never user records
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
   try {
     // Test database connection
     const userCount = await prisma.user.count()
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-      },
-    })
 
     // Get parts with key fields
     const parts = await prisma.part.findMany({
@@ -41,7 +35,6 @@ export async function GET() {
       status: 'ok',
       database: 'connected',
       userCount,
-      users,
       parts,
       shippingLocations,
       env: {
@@ -50,13 +43,10 @@ export async function GET() {
       },
     })
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    const errorStack = error instanceof Error ? error.stack : undefined
+    console.error('Debug check failed:', error)
     return NextResponse.json({
       status: 'error',
       database: 'disconnected',
-      error: errorMessage,
-      stack: errorStack,
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { FORECAST_DAYS, forecastParts } from '@/lib/inventory/forecast'
+import { forecastQuerySchema } from '@/lib/validation/inventory'
+import { parseQuery } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/forecast — per-part monthly usage, seasonality and projected
+ *   release volume for the next 90 days (admin only)
+ * GET /api/forecast?partId=<id> — one part
+ */
+export const GET = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const parsed = parseQuery(request, forecastQuerySchema)
+    if (!parsed.success) return parsed.response
+    const { partId } = parsed.data
+    const forecasts = await forecastParts(partId)
+
+    if (partId && forecasts.length === 0) {
+      return NextResponse.json(
+        { error: 'Part not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ windowDays: FORECAST_DAYS, forecasts })
+  } catch (error) {
+    console.error('Error building forecast:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
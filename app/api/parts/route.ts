@@ -1,65 +1,54 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
-
-export async function PUT(request: NextRequest) {
+import { partStockHealth, releaseVelocities } from '@/lib/inventory/reorder'
+import { availableBoxes, splitBoxes, withStock } from '@/lib/inventory/stock'
+import { can } from '@/lib/permissions'
+import { withoutPartPrices } from '@/lib/releases/access'
+import { updatePartSchema } from '@/lib/validation/inventory'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+export const PUT = withAuth({ roles: ['ADMIN'] }, async (request) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
+    // Only the fields given change. Reorder points are units on hand; null
+    // goes back to the annual-order default. On-hand is stored in boxes, so a
+    // new boxesPerPallet re-derives its pallet/loose split — but open releases
+    // reserve pallets x boxesPerPallet, so it can't change while any are open.
+    const parsed = await parseBody(request, updatePartSchema)
+    if (!parsed.success) return parsed.response
+    const { partId, ...updateData } = parsed.data
+
+    const part = await prisma.part.findUnique({ where: { id: partId } })
+    if (!part) {
+      return NextResponse.json({ error: 'Part not found' }, { status: 404 })
     }
 
-    // Only admins can update parts
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
-
-    const body = await request.json()
-    const { partId, boxesPerPallet, unitsPerBox, pricePerUnit, description } = body
-
-    if (!partId) {
-      return NextResponse.json(
-        { error: 'Part ID is required' },
-        { status: 400 }
-      )
+    if (
+      updateData.boxesPerPallet !== undefined &&
+      updateData.boxesPerPallet !== part.boxesPerPallet
+    ) {
+      const openReleases = await prisma.release.count({
+        where: {
+          status: { notIn: ['SHIPPED', 'CANCELLED'] },
+          OR: [{ partId }, { lines: { some: { partId } } }],
+        },
+      })
+      if (openReleases > 0) {
+        return NextResponse.json(
+          {
+            error: `Boxes per pallet can't change while ${openReleases} open release${openReleases === 1 ? '' : 's'} use this part. Ship or cancel them first.`,
+          },
+          { status: 409 }
+        )
+      }
     }
 
-    // Build update data with only provided fields
-    const updateData: {
-      boxesPerPallet?: number
-      unitsPerBox?: number
-      pricePerUnit?: number
-      description?: string
-    } = {}
-
-    if (boxesPerPallet !== undefined) updateData.boxesPerPallet = boxesPerPallet
-    if (unitsPerBox !== undefined) updateData.unitsPerBox = unitsPerBox
-    if (pricePerUnit !== undefined) updateData.pricePerUnit = pricePerUnit
-    if (description !== undefined) updateData.description = description
-
     const updatedPart = await prisma.part.update({
       where: { id: partId },
       data: updateData,
     })
 
-    return NextResponse.json({ part: updatedPart })
+    return NextResponse.json({ part: withStock(updatedPart) })
   } catch (error) {
     console.error('Error updating part:', error)
     return NextResponse.json(
@@ -67,61 +56,60 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({}, async (request, user) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
     const parts = await prisma.part.findMany({
+      include: {
+        stock: {
+          include: { stockLocation: true },
+          orderBy: { stockLocation: { name: 'asc' } },
+        },
+      },
       orderBy: {
         partNumber: 'asc',
       },
     })
 
-    // Calculate stock status for each part
+    const velocities = await releaseVelocities()
+
+    // On hand, reserved for unshipped releases and available; stock status
+    // against each part's reorder points, and when it runs out at the
+    // trailing release rate
     const partsWithStatus = parts.map((part) => {
-      const totalBoxes = part.currentPallets * part.boxesPerPallet + part.currentBoxes
+      const totalBoxes = part.onHandBoxes
       const totalUnits = totalBoxes * part.unitsPerBox
       const percentOfAnnual = (totalUnits / part.annualOrder) * 100
+      const health = partStockHealth(part, velocities)
 
-      let status: 'good' | 'low' | 'critical'
-      if (percentOfAnnual > 30) {
-        status = 'good'
-      } else if (percentOfAnnual > 15) {
-        status = 'low'
-      } else {
-        status = 'critical'
-      }
+      const { stock, ...rest } = part
 
       return {
-        ...part,
+        ...withStock(rest),
+        // On-hand split by stock location (JD Elk Grove, Three Z, ...)
+        stockByLocation: stock.map((s) => ({
+          stockLocationId: s.stockLocationId,
+          code: s.stockLocation.code,
+          name: s.stockLocation.name,
+          ...splitBoxes(s.onHandBoxes, part.boxesPerPallet),
+          reserved: splitBoxes(s.reservedBoxes, part.boxesPerPallet),
+          available: splitBoxes(availableBoxes(s), part.boxesPerPallet),
+        })),
         pricePerUnit: part.pricePerUnit.toString(), // Convert to string for JSON
         totalBoxes,
         totalUnits,
+        reservedUnits: part.reservedBoxes * part.unitsPerBox,
+        availableUnits: availableBoxes(part) * part.unitsPerBox,
         percentOfAnnual: Math.round(percentOfAnnual),
-        status,
+        ...health,
+        status: health.status.toLowerCase() as 'good' | 'low' | 'critical',
       }
     })
 
-    return NextResponse.json({ parts: partsWithStatus })
+    return NextResponse.json({
+      parts: can(user.role, 'viewPrices') ? partsWithStatus : partsWithStatus.map(withoutPartPrices),
+    })
   } catch (error) {
     console.error('Error fetching parts:', error)
     return NextResponse.json(
@@ -129,4 +117,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,36 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
-
-export async function POST(request: NextRequest) {
+import { resolveStockLocationId } from '@/lib/inventory/locations'
+import { receiveLot } from '@/lib/inventory/lots'
+import { applyInventoryChange } from '@/lib/inventory/stock'
+import { nextSequenceNumber } from '@/lib/sequences'
+import { productionSchema } from '@/lib/validation/inventory'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user || user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 403 }
-      )
-    }
-
-    const { partId, pallets, boxes, notes } = await request.json()
-
-    if (!partId || pallets === undefined) {
-      return NextResponse.json(
-        { error: 'Part ID and pallets are required' },
-        { status: 400 }
-      )
-    }
+    const parsed = await parseBody(request, productionSchema)
+    if (!parsed.success) return parsed.response
+    const {
+      partId,
+      pallets: addedPallets,
+      boxes: addedBoxes,
+      notes,
+      lotNumber,
+      manufactureDate,
+      stockLocationId,
+    } = parsed.data
 
     // Get part details
     const part = await prisma.part.findUnique({
@@ -45,75 +35,81 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate total units
-    const addedPallets = pallets || 0
-    const addedBoxes = boxes || 0
     const totalBoxes = addedPallets * part.boxesPerPallet + addedBoxes
     const totalUnits = totalBoxes * part.unitsPerBox
 
-    // Create production record
-    const production = await prisma.production.create({
-      data: {
+    const madeOn = manufactureDate ? new Date(manufactureDate) : new Date()
+
+    // Create production record, update part inventory and record it in the
+    // ledger together. Production lands at the default location (JD Elk Grove)
+    // unless another is given.
+    const production = await prisma.$transaction(async (tx) => {
+      const locationId = await resolveStockLocationId(tx, stockLocationId)
+
+      // Each run is its own lot; number one from the lot sequence if not given
+      const created = await tx.production.create({
+        data: {
+          partId,
+          pallets: addedPallets,
+          boxes: addedBoxes,
+          totalUnits,
+          lotNumber: lotNumber || (await nextSequenceNumber(tx, 'lot', madeOn)),
+          manufactureDate: madeOn,
+          remainingBoxes: totalBoxes,
+          stockLocationId: locationId,
+          userId: user.id,
+          notes,
+        },
+        include: {
+          part: true,
+          stockLocation: true,
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+      })
+
+      await receiveLot(tx, created.id, locationId, totalBoxes)
+
+      await applyInventoryChange(tx, {
         partId,
-        pallets: addedPallets,
-        boxes: addedBoxes,
-        totalUnits,
+        type: 'PRODUCTION',
+        boxes: totalBoxes,
         userId: user.id,
+        productionId: created.id,
+        stockLocationId: locationId,
+        reference: created.lotNumber,
         notes,
-      },
-      include: {
-        part: true,
-        user: {
-          select: {
-            name: true,
-            email: true,
-          },
-        },
-      },
-    })
+      })
 
-    // Update part inventory
-    await prisma.part.update({
-      where: { id: partId },
-      data: {
-        currentPallets: part.currentPallets + addedPallets,
-        currentBoxes: part.currentBoxes + addedBoxes,
-      },
+      return created
     })
 
     return NextResponse.json({ production })
   } catch (error) {
+    if (error instanceof Error && error.message === 'NO_STOCK_LOCATION') {
+      return NextResponse.json(
+        { error: 'No stock location is set up' },
+        { status: 400 }
+      )
+    }
     console.error('Error creating production:', error)
     return NextResponse.json(
       { error: 'An error occurred' },
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user || user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 403 }
-      )
-    }
-
     const productions = await prisma.production.findMany({
       include: {
         part: true,
+        stockLocation: true,
         user: {
           select: {
             name: true,
@@ -134,4 +130,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
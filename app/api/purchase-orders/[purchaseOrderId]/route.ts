@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { purchaseOrderLinesInclude, withBalances } from '@/lib/releases/purchase-orders'
+import { purchaseOrderSchema } from '@/lib/validation/purchase-orders'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * PUT /api/purchase-orders/[purchaseOrderId] — replace a PO's number, expiry,
+ *   notes and lines (admin only)
+ *   { number, expiresAt?, notes?, lines: [{ partId, authorizedUnits, unitPrice }] }
+ * DELETE /api/purchase-orders/[purchaseOrderId] — delete a PO no release has
+ *   drawn against (admin only)
+ *
+ * Released units stay with their part: a line can't drop below what's already
+ * been released, or be removed once anything has.
+ */
+export const PUT = withAuth<{ purchaseOrderId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { purchaseOrderId } = await params
+      const purchaseOrder = await prisma.purchaseOrder.findUnique({
+        where: { id: purchaseOrderId },
+        include: { lines: purchaseOrderLinesInclude },
+      })
+
+      if (!purchaseOrder) {
+        return NextResponse.json(
+          { error: 'Purchase order not found' },
+          { status: 404 }
+        )
+      }
+
+      const parsed = await parseBody(request, purchaseOrderSchema)
+      if (!parsed.success) return parsed.response
+      const input = parsed.data
+
+      const sameNumber = await prisma.purchaseOrder.findUnique({ where: { number: input.number } })
+      if (sameNumber && sameNumber.id !== purchaseOrderId) {
+        return NextResponse.json(
+          { error: `PO ${input.number} already exists` },
+          { status: 400 }
+        )
+      }
+
+      // Releases already linked keep their customer PO#, so the number is fixed
+      // once anything has been drawn
+      const drawn = purchaseOrder.lines.some((l) => l.releasedUnits > 0)
+      if (drawn && input.number !== purchaseOrder.number) {
+        return NextResponse.json(
+          { error: 'The PO number cannot change once releases have drawn against it' },
+          { status: 400 }
+        )
+      }
+
+      for (const line of purchaseOrder.lines) {
+        const updated = input.lines.find((l) => l.partId === line.partId)
+        if (!updated && line.releasedUnits > 0) {
+          return NextResponse.json(
+            { error: `Part ${line.part.partNumber} has releases against it and can't be removed` },
+            { status: 400 }
+          )
+        }
+        if (updated && updated.authorizedUnits < line.releasedUnits) {
+          return NextResponse.json(
+            {
+              error: `Part ${line.part.partNumber} already has ${line.releasedUnits.toLocaleString()} units released`,
+            },
+            { status: 400 }
+          )
+        }
+      }
+
+      const partCount = await prisma.part.count({
+        where: { id: { in: input.lines.map((l) => l.partId) } },
+      })
+      if (partCount !== input.lines.length) {
+        return NextResponse.json(
+          { error: 'Part not found' },
+          { status: 404 }
+        )
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.purchaseOrderLine.deleteMany({
+          where: { purchaseOrderId, partId: { notIn: input.lines.map((l) => l.partId) } },
+        })
+
+        for (const line of input.lines) {
+          await tx.purchaseOrderLine.upsert({
+            where: { purchaseOrderId_partId: { purchaseOrderId, partId: line.partId } },
+            create: { purchaseOrderId, ...line },
+            update: { authorizedUnits: line.authorizedUnits, unitPrice: line.unitPrice },
+          })
+        }
+
+        return tx.purchaseOrder.update({
+          where: { id: purchaseOrderId },
+          data: {
+            number: input.number,
+            expiresAt: input.expiresAt,
+            notes: input.notes,
+          },
+          include: { lines: purchaseOrderLinesInclude },
+        })
+      })
+
+      return NextResponse.json({ purchaseOrder: withBalances(updated) })
+    } catch (error) {
+      console.error('Error updating purchase order:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
+
+export const DELETE = withAuth<{ purchaseOrderId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { purchaseOrderId } = await params
+      const purchaseOrder = await prisma.purchaseOrder.findUnique({
+        where: { id: purchaseOrderId },
+        include: { _count: { select: { releases: true } } },
+      })
+
+      if (!purchaseOrder) {
+        return NextResponse.json(
+          { error: 'Purchase order not found' },
+          { status: 404 }
+        )
+      }
+
+      if (purchaseOrder._count.releases > 0) {
+        return NextResponse.json(
+          { error: `PO ${purchaseOrder.number} has releases drawn against it and can't be deleted` },
+          { status: 400 }
+        )
+      }
+
+      await prisma.purchaseOrder.delete({ where: { id: purchaseOrderId } })
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { purchaseOrderLinesInclude, withBalances } from '@/lib/releases/purchase-orders'
+import { purchaseOrderSchema } from '@/lib/validation/purchase-orders'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/purchase-orders — every blanket PO with its authorized, released
+ *   and remaining balance per part, newest first (roles with viewPrices)
+ * POST /api/purchase-orders — add a PO (admin only)
+ *   { number, expiresAt?, notes?, lines: [{ partId, authorizedUnits, unitPrice }] }
+ */
+export const GET = withAuth({ permission: 'viewPrices' }, async () => {
+  try {
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      include: { lines: purchaseOrderLinesInclude },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const now = new Date()
+    return NextResponse.json({
+      purchaseOrders: purchaseOrders.map((po) => withBalances(po, now)),
+    })
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, purchaseOrderSchema)
+    if (!parsed.success) return parsed.response
+    const input = parsed.data
+
+    const existing = await prisma.purchaseOrder.findUnique({ where: { number: input.number } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `PO ${input.number} already exists` },
+        { status: 400 }
+      )
+    }
+
+    const partCount = await prisma.part.count({
+      where: { id: { in: input.lines.map((l) => l.partId) } },
+    })
+    if (partCount !== input.lines.length) {
+      return NextResponse.json(
+        { error: 'Part not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only releases created from now on draw against it
+    const purchaseOrder = await prisma.purchaseOrder.create({
+      data: {
+        number: input.number,
+        expiresAt: input.expiresAt,
+        notes: input.notes,
+        lines: { create: input.lines },
+      },
+      include: { lines: purchaseOrderLinesInclude },
+    })
+
+    console.log(`🧾 PO ${purchaseOrder.number} added by ${user.email}`)
+
+    return NextResponse.json({ purchaseOrder: withBalances(purchaseOrder) })
+  } catch (error) {
+    console.error('Error creating purchase order:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseBody } from '@/lib/validation/request'
+import { releaseDraftSchema } from '@/lib/validation/releases'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * The signed-in user's unfinished release form.
+ *
+ * GET /api/release-drafts — the saved draft, or { draft: null }
+ * PUT /api/release-drafts — save the form as it stands
+ *   { step, lines: [{ partId, pallets }], customerPONumber?, shipDate?, ... }
+ * DELETE /api/release-drafts — discard it
+ */
+export const GET = withAuth({ permission: 'createReleases' }, async (request, user) => {
+  try {
+    const draft = await prisma.releaseDraft.findUnique({ where: { userId: user.id } })
+
+    return NextResponse.json({ draft })
+  } catch (error) {
+    console.error('Error fetching release draft:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth({ permission: 'createReleases' }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, releaseDraftSchema)
+    if (!parsed.success) return parsed.response
+    const data = parsed.data
+
+    const draft = await prisma.releaseDraft.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, data },
+      update: { data },
+    })
+
+    return NextResponse.json({ draft })
+  } catch (error) {
+    console.error('Error saving release draft:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth({ permission: 'createReleases' }, async (request, user) => {
+  try {
+    await prisma.releaseDraft.deleteMany({ where: { userId: user.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting release draft:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
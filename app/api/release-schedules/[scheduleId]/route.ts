@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { releaseScheduleInclude, upcomingOccurrences } from '@/lib/releases/schedules'
+import { releaseScheduleSchema, updateReleaseScheduleSchema } from '@/lib/validation/releases'
+import { parseBody, parseInput } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * PATCH /api/release-schedules/[scheduleId] — replace a schedule's settings,
+ *   or pause/resume it with { active } alone (admin only)
+ * DELETE /api/release-schedules/[scheduleId] — delete a schedule (admin only);
+ *   releases it already created are kept
+ */
+export const PATCH = withAuth<{ scheduleId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { scheduleId } = await params
+      const schedule = await prisma.releaseSchedule.findUnique({ where: { id: scheduleId } })
+
+      if (!schedule) {
+        return NextResponse.json(
+          { error: 'Schedule not found' },
+          { status: 404 }
+        )
+      }
+
+      const parsed = await parseBody(request, updateReleaseScheduleSchema)
+      if (!parsed.success) return parsed.response
+      const { active, ...fields } = parsed.data
+
+      let data: Record<string, unknown> = {}
+      if (Object.keys(fields).length > 0) {
+        const parsedFields = parseInput(releaseScheduleSchema, fields)
+        if (!parsedFields.success) return parsedFields.response
+        const input = parsedFields.data
+
+        const part = await prisma.part.findUnique({ where: { id: input.partId } })
+        if (!part) {
+          return NextResponse.json(
+            { error: 'Part not found' },
+            { status: 404 }
+          )
+        }
+        data = { ...input }
+      }
+      if (active !== undefined) {
+        data.active = active
+      }
+
+      const updated = await prisma.releaseSchedule.update({
+        where: { id: scheduleId },
+        data,
+        include: releaseScheduleInclude,
+      })
+
+      return NextResponse.json({
+        schedule: {
+          ...updated,
+          upcoming: updated.active ? upcomingOccurrences(updated) : [],
+        },
+      })
+    } catch (error) {
+      console.error('Error updating release schedule:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
+
+export const DELETE = withAuth<{ scheduleId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { scheduleId } = await params
+      const schedule = await prisma.releaseSchedule.findUnique({ where: { id: scheduleId } })
+
+      if (!schedule) {
+        return NextResponse.json(
+          { error: 'Schedule not found' },
+          { status: 404 }
+        )
+      }
+
+      // Release.scheduleId is SetNull, so created releases survive the delete
+      await prisma.releaseSchedule.delete({ where: { id: scheduleId } })
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('Error deleting release schedule:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  addDays,
+  calendarDay,
+  CATCH_UP_DAYS,
+  isScheduledOn,
+  releaseScheduleInclude,
+  upcomingOccurrences,
+} from '@/lib/releases/schedules'
+import { skipOccurrenceSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * POST /api/release-schedules/[scheduleId]/skip — skip one occurrence, so the
+ * cron creates no release for it (admin only)
+ *   { date: 'YYYY-MM-DD', skipped?: boolean }   skipped: false un-skips it
+ */
+export const POST = withAuth<{ scheduleId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { scheduleId } = await params
+      const parsed = await parseBody(request, skipOccurrenceSchema)
+      if (!parsed.success) return parsed.response
+      const { date, skipped } = parsed.data
+
+      const schedule = await prisma.releaseSchedule.findUnique({ where: { id: scheduleId } })
+
+      if (!schedule) {
+        return NextResponse.json(
+          { error: 'Schedule not found' },
+          { status: 404 }
+        )
+      }
+
+      if (!isScheduledOn(schedule, date)) {
+        return NextResponse.json(
+          { error: `${date} is not an occurrence of this schedule` },
+          { status: 400 }
+        )
+      }
+
+      // A missed occurrence is still created by the cron's catch-up, so it can
+      // be skipped until then; one that already has a release cannot
+      if (date < addDays(calendarDay(), -CATCH_UP_DAYS)) {
+        return NextResponse.json(
+          { error: `Occurrences more than ${CATCH_UP_DAYS} days ago cannot be skipped` },
+          { status: 400 }
+        )
+      }
+
+      const created = await prisma.release.findFirst({
+        where: { scheduleId, scheduledFor: date },
+        select: { releaseNumber: true },
+      })
+      if (created) {
+        return NextResponse.json(
+          { error: `Release ${created.releaseNumber} was already created for ${date}` },
+          { status: 400 }
+        )
+      }
+
+      const skippedDates = schedule.skippedDates.filter((d) => d !== date)
+      if (skipped) {
+        skippedDates.push(date)
+        skippedDates.sort()
+      }
+
+      const updated = await prisma.releaseSchedule.update({
+        where: { id: scheduleId },
+        data: { skippedDates },
+        include: releaseScheduleInclude,
+      })
+
+      return NextResponse.json({
+        schedule: {
+          ...updated,
+          upcoming: updated.active ? upcomingOccurrences(updated) : [],
+        },
+      })
+    } catch (error) {
+      console.error('Error skipping release schedule occurrence:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { releaseScheduleInclude, upcomingOccurrences } from '@/lib/releases/schedules'
+import { releaseScheduleSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/release-schedules — every recurring release schedule with its
+ *   upcoming occurrences (skipped ones flagged) and latest releases
+ * POST /api/release-schedules — create a schedule (admin only)
+ *   { name, partId, pallets, customerPONumber, skidType, stockLocationId?,
+ *     notes?, intervalWeeks, startDate, endDate? }
+ *
+ * Releases a schedule creates are submitted as the admin who created it.
+ */
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const schedules = await prisma.releaseSchedule.findMany({
+      include: releaseScheduleInclude,
+      orderBy: [{ active: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({
+      schedules: schedules.map((schedule) => ({
+        ...schedule,
+        upcoming: schedule.active ? upcomingOccurrences(schedule) : [],
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching release schedules:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, releaseScheduleSchema)
+    if (!parsed.success) return parsed.response
+    const input = parsed.data
+
+    const part = await prisma.part.findUnique({ where: { id: input.partId } })
+    if (!part) {
+      return NextResponse.json(
+        { error: 'Part not found' },
+        { status: 404 }
+      )
+    }
+
+    const schedule = await prisma.releaseSchedule.create({
+      data: { ...input, userId: user.id },
+      include: releaseScheduleInclude,
+    })
+
+    return NextResponse.json({
+      schedule: { ...schedule, upcoming: upcomingOccurrences(schedule) },
+    })
+  } catch (error) {
+    console.error('Error creating release schedule:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseBody } from '@/lib/validation/request'
+import { releaseTemplateSchema } from '@/lib/validation/releases'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * PUT /api/release-templates/[templateId] — replace a template
+ *   { name, lines: [{ partId, pallets }], skidType?, freightTerms?, notes? }
+ * DELETE /api/release-templates/[templateId] — delete a template
+ *
+ * Templates are shared, but only the user who saved one (or an admin) can
+ * change or delete it.
+ */
+export const PUT = withAuth<{ templateId: string }>(
+  { permission: 'createReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { templateId } = await params
+      const template = await prisma.releaseTemplate.findUnique({ where: { id: templateId } })
+
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Template not found' },
+          { status: 404 }
+        )
+      }
+
+      if (user.role !== 'ADMIN' && template.userId !== user.id) {
+        return NextResponse.json(
+          { error: 'Only the user who saved this template can change it' },
+          { status: 403 }
+        )
+      }
+
+      const parsed = await parseBody(request, releaseTemplateSchema)
+      if (!parsed.success) return parsed.response
+      const input = parsed.data
+
+      const sameName = await prisma.releaseTemplate.findUnique({ where: { name: input.name } })
+      if (sameName && sameName.id !== templateId) {
+        return NextResponse.json(
+          { error: `A template named "${input.name}" already exists` },
+          { status: 400 }
+        )
+      }
+
+      const partCount = await prisma.part.count({
+        where: { id: { in: input.lines.map((l) => l.partId) } },
+      })
+      if (partCount !== input.lines.length) {
+        return NextResponse.json(
+          { error: 'Part not found' },
+          { status: 404 }
+        )
+      }
+
+      const updated = await prisma.releaseTemplate.update({
+        where: { id: templateId },
+        data: input,
+        include: { user: { select: { name: true } } },
+      })
+
+      return NextResponse.json({ template: updated })
+    } catch (error) {
+      console.error('Error updating release template:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
+
+export const DELETE = withAuth<{ templateId: string }>(
+  { permission: 'createReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { templateId } = await params
+      const template = await prisma.releaseTemplate.findUnique({ where: { id: templateId } })
+
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Template not found' },
+          { status: 404 }
+        )
+      }
+
+      if (user.role !== 'ADMIN' && template.userId !== user.id) {
+        return NextResponse.json(
+          { error: 'Only the user who saved this template can delete it' },
+          { status: 403 }
+        )
+      }
+
+      await prisma.releaseTemplate.delete({ where: { id: templateId } })
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('Error deleting release template:', error)
+      return NextResponse.json(
+        { error: 'An error occurred' },
+        { status: 500 }
+      )
+    }
+  },
+)
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { parseBody } from '@/lib/validation/request'
+import { releaseTemplateSchema } from '@/lib/validation/releases'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/release-templates — every saved release template, by name
+ * POST /api/release-templates — save a template
+ *   { name, lines: [{ partId, pallets }], skidType?, freightTerms?, notes? }
+ */
+export const GET = withAuth({ permission: 'createReleases' }, async () => {
+  try {
+    const templates = await prisma.releaseTemplate.findMany({
+      include: { user: { select: { name: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Error fetching release templates:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth({ permission: 'createReleases' }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, releaseTemplateSchema)
+    if (!parsed.success) return parsed.response
+    const input = parsed.data
+
+    const existing = await prisma.releaseTemplate.findUnique({ where: { name: input.name } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `A template named "${input.name}" already exists` },
+        { status: 400 }
+      )
+    }
+
+    const partCount = await prisma.part.count({
+      where: { id: { in: input.lines.map((l) => l.partId) } },
+    })
+    if (partCount !== input.lines.length) {
+      return NextResponse.json(
+        { error: 'Part not found' },
+        { status: 404 }
+      )
+    }
+
+    const template = await prisma.releaseTemplate.create({
+      data: { ...input, userId: user.id },
+      include: { user: { select: { name: true } } },
+    })
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error creating release template:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+/**
+ * POST /api/releases/[releaseId]/approve
+ *
+ * Approves a release the approval gate held at PENDING_APPROVAL (admin only).
+ * The release moves to COMPLETED and goes out exactly as an unheld release
+ * would on creation: documents, EPG and Three Z emails, integration jobs. A
+ * release held again after an amendment went out the first time; approving
+ * it only lets it ship.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { dispatchRelease, dispatchReleaseInclude } from '@/lib/releases/dispatch'
+import { withAuth } from '@/lib/with-auth'
+
+export const POST = withAuth<{ releaseId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
+
+      // Only the first of two concurrent approvals matches, so it dispatches once
+      const { count } = await prisma.release.updateMany({
+        where: { id: releaseId, status: 'PENDING_APPROVAL' },
+        data: {
+          status: 'COMPLETED',
+          approvedAt: new Date(),
+          approvedByUserId: user.id,
+        },
+      })
+
+      if (count === 0) {
+        const exists = await prisma.release.findUnique({ where: { id: releaseId }, select: { id: true } })
+        if (!exists) {
+          return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+        }
+        return NextResponse.json({ error: 'Release is not awaiting approval' }, { status: 400 })
+      }
+
+      const release = await prisma.release.findUniqueOrThrow({
+        where: { id: releaseId },
+        include: dispatchReleaseInclude,
+      })
+
+      console.log(`✅ Release ${release.releaseNumber} approved by ${user.email}`)
+
+      if (!release.dispatchedAt) {
+        await dispatchRelease(release)
+      }
+
+      return NextResponse.json({ release })
+    } catch (error) {
+      console.error('Error approving release:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
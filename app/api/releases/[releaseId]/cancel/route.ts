@@ -0,0 +1,162 @@
+/**
+ * POST /api/releases/[releaseId]/cancel
+ *
+ * Cancels a release (admin only). Replaces the old hard DELETE: the release,
+ * its shipments and its ledger history stay, with status=CANCELLED and who
+ * cancelled it and why.
+ *
+ * Body: { reason: string }
+ *
+ * Inventory comes back the way it went out — unshipped boxes are unreserved,
+ * boxes on shipments already marked shipped come back on hand, the unshipped
+ * boxes go back to their lots, and units drawn from a blanket PO are returned.
+ * Then EPG, Three Z and the integrations are told
+ * (lib/releases/cancellation.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { returnLotAllocations } from '@/lib/inventory/lots'
+import { applyInventoryChange, changeReservation } from '@/lib/inventory/stock'
+import { notifyReleaseCancelled } from '@/lib/releases/cancellation'
+import { lineTotalBoxes, releaseLinesInclude, releaseLinesOf } from '@/lib/releases/lines'
+import { returnPurchaseOrderDraws } from '@/lib/releases/purchase-orders'
+import { shipmentPartBoxes } from '@/lib/shipments/inventory'
+import { cancelReleaseSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+export const POST = withAuth<{ releaseId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
+      const parsed = await parseBody(request, cancelReleaseSchema)
+      if (!parsed.success) return parsed.response
+      const { reason } = parsed.data
+
+      const release = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: { part: true, lines: releaseLinesInclude, shipments: true },
+      })
+
+      if (!release) {
+        return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+      }
+
+      if (release.status === 'CANCELLED') {
+        return NextResponse.json({ error: 'Release is already cancelled' }, { status: 400 })
+      }
+
+      // Nothing has been sent for a held release, so it's rejected, not cancelled
+      if (release.status === 'PENDING_APPROVAL') {
+        return NextResponse.json({ error: 'Release is awaiting approval — reject it instead' }, { status: 400 })
+      }
+
+      // Prevent cancelling shipped releases
+      if (release.status === 'SHIPPED') {
+        return NextResponse.json(
+          { error: 'Cannot cancel shipped releases' },
+          { status: 400 }
+        )
+      }
+
+      // Claim the release, restore inventory (reverse the release) one part per
+      // line, and mark it cancelled in the same transaction. The claim is
+      // conditional so a second cancel, or one racing mark-shipped, can't
+      // restore the stock twice
+      const cancelled = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.release.updateMany({
+          where: { id: releaseId, status: { notIn: ['CANCELLED', 'SHIPPED', 'PENDING_APPROVAL'] } },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancelledByUserId: user.id,
+            cancellationReason: reason,
+          },
+        })
+        if (claimed.count === 0) {
+          throw new Error('NOT_CANCELLABLE')
+        }
+
+        // Waits out a mark-shipped already in flight, so its shipment counts below
+        await tx.releaseShipment.updateMany({
+          where: { releaseId },
+          data: { updatedAt: new Date() },
+        })
+
+        const current = await tx.release.findUniqueOrThrow({
+          where: { id: releaseId },
+          include: { part: true, lines: releaseLinesInclude, shipments: true },
+        })
+
+        // Boxes already out the door on shipped shipments; the rest is reserved
+        const shippedShipments = current.shipments.filter((s) => s.status === 'SHIPPED')
+        const shippedBoxes = new Map(
+          shippedShipments.length > 0
+            ? shipmentPartBoxes(current, shippedShipments, current.shipments).map((p) => [p.partId, p.boxes])
+            : [],
+        )
+
+        for (const line of releaseLinesOf(current)) {
+          const shipped = shippedBoxes.get(line.partId) ?? 0
+          await changeReservation(tx, {
+            partId: line.partId,
+            boxes: -(lineTotalBoxes(line) - shipped),
+            stockLocationId: current.stockLocationId,
+          })
+          await applyInventoryChange(tx, {
+            partId: line.partId,
+            type: 'RELEASE_CANCEL',
+            boxes: shipped,
+            userId: user.id,
+            releaseId: current.id,
+            stockLocationId: current.stockLocationId,
+            reference: current.releaseNumber,
+            notes: reason,
+          })
+        }
+
+        // Only the unshipped boxes go back to their lots; the allocations
+        // that shipped stay as the record of which lots went out
+        for (const line of releaseLinesOf(current)) {
+          const shipped = shippedBoxes.get(line.partId) ?? 0
+          await returnLotAllocations(tx, line.id, lineTotalBoxes(line) - shipped)
+        }
+
+        // Its units go back on the blanket PO it drew from
+        await returnPurchaseOrderDraws(tx, current, releaseLinesOf(current))
+
+        return tx.release.findUniqueOrThrow({
+          where: { id: releaseId },
+          include: {
+            part: true,
+            shippingLocation: true,
+            stockLocation: true,
+            lines: releaseLinesInclude,
+            shipments: { orderBy: { shipmentNumber: 'asc' } },
+            user: { select: { name: true, email: true } },
+          },
+        })
+      })
+
+      console.log(
+        `✖ Release ${release.releaseNumber} cancelled by ${user.email}, inventory restored: +${cancelled.pallets} pallets, +${cancelled.boxes} boxes`
+      )
+
+      await notifyReleaseCancelled(cancelled, { reason, cancelledBy: user.name })
+
+      const { customerPackingSlipData: _omit, ...rest } = cancelled
+      return NextResponse.json({ release: rest })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_CANCELLABLE') {
+        return NextResponse.json(
+          { error: 'Release was cancelled, shipped or put on hold by someone else. Please reload.' },
+          { status: 409 }
+        )
+      }
+      console.error('Error cancelling release:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
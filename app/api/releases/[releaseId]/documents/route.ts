@@ -1,35 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
 import { generatePackingSlip, savePackingSlip } from '@/lib/documents/packing-slip'
 import { generateBoxLabels, saveBoxLabels } from '@/lib/documents/box-labels'
+import { buildBoxLabelData, releaseTotalBoxes } from '@/lib/documents/release-document-data'
+import { releaseLinesInclude, releaseLinesOf } from '@/lib/releases/lines'
+import { generateDocumentsSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> }
-) {
+export const POST = withAuth<{ releaseId: string }>({}, async (request, user, { params }) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
     const { releaseId } = await params
-    const { documentType } = await request.json()
+    const parsed = await parseBody(request, generateDocumentsSchema)
+    if (!parsed.success) return parsed.response
+    const { documentType } = parsed.data
 
     // Get release with all related data
     const release = await prisma.release.findUnique({
@@ -37,7 +21,9 @@ export async function POST(
       include: {
         part: true,
         shippingLocation: true,
+        stockLocation: true,
         user: true,
+        lines: releaseLinesInclude,
       },
     })
 
@@ -56,6 +42,14 @@ export async function POST(
       )
     }
 
+    // Paperwork is only produced once an admin approves a held release
+    if (release.status === 'PENDING_APPROVAL') {
+      return NextResponse.json(
+        { error: 'Release is awaiting approval' },
+        { status: 400 }
+      )
+    }
+
     let packingSlipUrl = release.packingSlipUrl
     let boxLabelsUrl = release.boxLabelsUrl
 
@@ -83,21 +77,19 @@ export async function POST(
           zip: '37909',
           country: 'USA',
         },
-        lineItems: [
-          {
-            partNumber: release.part.partNumber,
-            description: release.part.description,
-            unitsPerBox: release.part.unitsPerBox,
-            ordered: release.totalUnits,
-            prevShip: 0,
-            shipped: release.totalUnits,
-            backOrdered: 0,
-          },
-        ],
+        lineItems: releaseLinesOf(release).map((line) => ({
+          partNumber: line.part.partNumber,
+          description: line.part.description,
+          unitsPerBox: line.part.unitsPerBox,
+          ordered: line.totalUnits,
+          prevShip: 0,
+          shipped: line.totalUnits,
+          backOrdered: 0,
+        })),
         shipVia: release.shipVia || 'Averitt Collect',
         freightTerms: release.freightTerms || 'Prepaid',
         paymentTerms: release.paymentTerms || '2% 30, Net 60',
-        cartons: release.cartons || (release.pallets * release.part.boxesPerPallet + release.boxes),
+        cartons: release.cartons || releaseTotalBoxes(release),
         weight: release.weight || 0,
         shippingClass: release.shippingClass || '55',
       }
@@ -107,16 +99,7 @@ export async function POST(
 
     if (documentType === 'box-labels' || documentType === 'all') {
       // Generate box labels
-      const totalBoxes = release.pallets * release.part.boxesPerPallet + release.boxes
-
-      const boxLabelData = {
-        partNumber: release.part.partNumber,
-        description: release.part.description,
-        unitsPerBox: release.part.unitsPerBox,
-        batchNumber: release.batchNumber || 'N/A',
-        manufactureDate: release.shipDate || release.createdAt,
-        totalBoxes,
-      }
+      const boxLabelData = buildBoxLabelData(release)
 
       boxLabelsUrl = await saveBoxLabels(releaseId, boxLabelData)
     }
@@ -144,35 +127,13 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * GET endpoint to retrieve document URLs for a release
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> }
-) {
+export const GET = withAuth<{ releaseId: string }>({}, async (request, user, { params }) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
     const { releaseId } = await params
 
     const release = await prisma.release.findUnique({
@@ -214,4 +175,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
@@ -1,181 +1,179 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { authorizeDocumentRequest, releaseWhereIdOrNumber } from '@/lib/document-access'
+import { NextResponse } from 'next/server'
+import { releaseWhereIdOrNumber } from '@/lib/document-access'
 import { prisma } from '@/lib/db'
 import { generatePackingSlipBuffer } from '@/lib/documents/packing-slip'
 import { generateBoxLabelsBuffer } from '@/lib/documents/box-labels'
 import { generateInvoiceBuffer } from '@/lib/documents/invoice'
+import { buildBoxLabelData, releaseTotalBoxes } from '@/lib/documents/release-document-data'
+import { can } from '@/lib/permissions'
+import { releaseAccessWhere } from '@/lib/releases/access'
+import { releaseLinesInclude, releaseLinesOf, releaseLinesTotal } from '@/lib/releases/lines'
+import { withAuth } from '@/lib/with-auth'
 
 // Using dynamic release.part.boxesPerPallet instead of hardcoded value
 
 /**
  * GET endpoint to download PDFs directly (no filesystem storage needed)
  * Generates PDF on-demand and streams it to the browser
+ *
+ * Any signed-in user — customers are meant to fetch their own release
+ * documents here — or press-planner calling server-to-server with the service
+ * key so staff open this from the job's Files panel.
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string; docType: string }> }
-) {
-  try {
-    // Any authenticated user as before — customers are meant to fetch their own
-    // release documents here — or press-planner calling server-to-server with the
-    // service key so staff open this from the job's Files panel.
-    const denied = await authorizeDocumentRequest(request, { requireAdmin: false })
-    if (denied) return denied
-
-    const { releaseId, docType } = await params
-
-    // Validate document type
-    const validTypes = ['packing-slip', 'box-labels', 'invoice']
-    if (!validTypes.includes(docType)) {
-      return NextResponse.json(
-        { error: 'Invalid document type. Valid types: packing-slip, box-labels, invoice' },
-        { status: 400 }
-      )
-    }
-
-    // Get release with all related data
-    // press-planner addresses releases by number, not by IRA's cuid.
-    const release = await prisma.release.findFirst({
-      where: releaseWhereIdOrNumber(releaseId),
-      include: {
-        part: true,
-        shippingLocation: true,
-        user: true,
-      },
-    })
-
-    if (!release) {
-      return NextResponse.json(
-        { error: 'Release not found' },
-        { status: 404 }
-      )
-    }
-
-    // All authenticated users can download documents
-    // (Customer should have access to all release documents)
-
-    let pdfBuffer: Buffer
-    let filename: string
-
-    if (docType === 'packing-slip') {
-      const packingSlipData = {
-        releaseNumber: release.releaseNumber,
-        ticketNumber: release.ticketNumber || 'N/A',
-        customerPONumber: release.customerPONumber,
-        date: release.createdAt,
-        shipTo: {
-          name: release.shippingLocation.name,
-          address: release.shippingLocation.address,
-          city: release.shippingLocation.city,
-          state: release.shippingLocation.state,
-          zip: release.shippingLocation.zip,
-        },
-        shipFrom: {
-          name: 'Enterprise Print Group',
-          address: '6234 Enterprise Drive',
-          city: 'Knoxville',
-          state: 'TN',
-          zip: '37909',
-          country: 'USA',
-        },
-        lineItems: [
-          {
-            partNumber: release.part.partNumber,
-            description: release.part.description,
-            unitsPerBox: release.part.unitsPerBox,
-            ordered: release.totalUnits,
-            prevShip: 0,
-            shipped: release.totalUnits,
-            backOrdered: 0,
-          },
-        ],
-        shipVia: release.shipVia || 'Averitt Collect',
-        freightTerms: release.freightTerms || 'Prepaid',
-        paymentTerms: release.paymentTerms || '2% 30, Net 60',
-        cartons: release.cartons || (release.pallets * release.part.boxesPerPallet + release.boxes),
-        weight: release.weight || 0,
-        shippingClass: release.shippingClass || '55',
+export const GET = withAuth<{ releaseId: string; docType: string }>(
+  { allowServiceKey: true, allowQueryToken: true },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId, docType } = await params
+
+      // Validate document type
+      const validTypes = ['packing-slip', 'box-labels', 'invoice']
+      if (!validTypes.includes(docType)) {
+        return NextResponse.json(
+          { error: 'Invalid document type. Valid types: packing-slip, box-labels, invoice' },
+          { status: 400 }
+        )
       }
 
-      pdfBuffer = generatePackingSlipBuffer(packingSlipData)
-      filename = `packing-slip-${release.releaseNumber}.pdf`
+      // Invoices carry prices
+      if (docType === 'invoice' && user && !can(user.role, 'viewPrices')) {
+        return NextResponse.json({ error: 'You do not have access to this' }, { status: 403 })
+      }
 
-    } else if (docType === 'box-labels') {
-      const totalBoxes = release.pallets * release.part.boxesPerPallet + release.boxes
+      // Get release with all related data
+      // press-planner addresses releases by number, not by IRA's cuid.
+      const release = await prisma.release.findFirst({
+        where: { ...releaseWhereIdOrNumber(releaseId), ...releaseAccessWhere(user) },
+        include: {
+          part: true,
+          shippingLocation: true,
+          stockLocation: true,
+          user: true,
+          lines: releaseLinesInclude,
+        },
+      })
 
-      const boxLabelData = {
-        partNumber: release.part.partNumber,
-        description: release.part.description,
-        unitsPerBox: release.part.unitsPerBox,
-        batchNumber: release.batchNumber || 'N/A',
-        manufactureDate: release.shipDate || release.createdAt,
-        totalBoxes,
+      if (!release) {
+        return NextResponse.json(
+          { error: 'Release not found' },
+          { status: 404 }
+        )
       }
 
-      pdfBuffer = generateBoxLabelsBuffer(boxLabelData)
-      filename = `box-labels-${release.releaseNumber}.pdf`
-
-    } else if (docType === 'invoice') {
-      const invoiceTotal = release.totalUnits * release.part.pricePerUnit
-
-      const invoiceData = {
-        invoiceNumber: release.releaseNumber,
-        date: release.createdAt,
-        customerPONumber: release.customerPONumber,
-        billTo: {
-          name: 'Enterprise Print Group',
-          address: 'P.O. Box 52870',
-          city: 'Knoxville',
-          state: 'TN',
-          zip: '37950',
-        },
-        billFrom: {
-          name: 'Impact Direct',
-          address: '1550 N Northwest Highway',
-          city: 'Park Ridge',
-          state: 'IL',
-          zip: '60068',
-        },
-        lineItems: [
-          {
-            partNumber: release.part.partNumber,
-            description: release.part.description,
-            quantity: release.totalUnits,
-            unitPrice: release.part.pricePerUnit,
-            total: invoiceTotal,
+      // Customer should have access to all release documents; vendors only
+      // to those of their own releases (releaseAccessWhere)
+
+      let pdfBuffer: Buffer
+      let filename: string
+
+      if (docType === 'packing-slip') {
+        const packingSlipData = {
+          releaseNumber: release.releaseNumber,
+          ticketNumber: release.ticketNumber || 'N/A',
+          customerPONumber: release.customerPONumber,
+          date: release.createdAt,
+          shipTo: {
+            name: release.shippingLocation.name,
+            address: release.shippingLocation.address,
+            city: release.shippingLocation.city,
+            state: release.shippingLocation.state,
+            zip: release.shippingLocation.zip,
+          },
+          shipFrom: {
+            name: 'Enterprise Print Group',
+            address: '6234 Enterprise Drive',
+            city: 'Knoxville',
+            state: 'TN',
+            zip: '37909',
+            country: 'USA',
           },
-        ],
-        subtotal: invoiceTotal,
-        tax: 0,
-        total: invoiceTotal,
-        paymentTerms: release.paymentTerms || '2% 30, Net 60',
+          lineItems: releaseLinesOf(release).map((line) => ({
+            partNumber: line.part.partNumber,
+            description: line.part.description,
+            unitsPerBox: line.part.unitsPerBox,
+            ordered: line.totalUnits,
+            prevShip: 0,
+            shipped: line.totalUnits,
+            backOrdered: 0,
+          })),
+          shipVia: release.shipVia || 'Averitt Collect',
+          freightTerms: release.freightTerms || 'Prepaid',
+          paymentTerms: release.paymentTerms || '2% 30, Net 60',
+          cartons: release.cartons || releaseTotalBoxes(release),
+          weight: release.weight || 0,
+          shippingClass: release.shippingClass || '55',
+        }
+
+        pdfBuffer = generatePackingSlipBuffer(packingSlipData)
+        filename = `packing-slip-${release.releaseNumber}.pdf`
+
+      } else if (docType === 'box-labels') {
+        const boxLabelData = buildBoxLabelData(release)
+
+        pdfBuffer = generateBoxLabelsBuffer(boxLabelData)
+        filename = `box-labels-${release.releaseNumber}.pdf`
+
+      } else if (docType === 'invoice') {
+        const lines = releaseLinesOf(release)
+        const invoiceTotal = releaseLinesTotal(lines)
+
+        const invoiceData = {
+          invoiceNumber: release.releaseNumber,
+          date: release.createdAt,
+          customerPONumber: release.customerPONumber,
+          billTo: {
+            name: 'Enterprise Print Group',
+            address: 'P.O. Box 52870',
+            city: 'Knoxville',
+            state: 'TN',
+            zip: '37950',
+          },
+          billFrom: {
+            name: 'Impact Direct',
+            address: '1550 N Northwest Highway',
+            city: 'Park Ridge',
+            state: 'IL',
+            zip: '60068',
+          },
+          lineItems: lines.map((line) => ({
+            partNumber: line.part.partNumber,
+            description: line.part.description,
+            quantity: line.totalUnits,
+            unitPrice: line.unitPrice,
+            total: line.totalUnits * line.unitPrice,
+          })),
+          subtotal: invoiceTotal,
+          tax: 0,
+          total: invoiceTotal,
+          paymentTerms: release.paymentTerms || '2% 30, Net 60',
+        }
+
+        pdfBuffer = generateInvoiceBuffer(invoiceData)
+        filename = `invoice-${release.releaseNumber}.pdf`
+
+      } else {
+        return NextResponse.json(
+          { error: 'Invalid document type' },
+          { status: 400 }
+        )
       }
 
-      pdfBuffer = generateInvoiceBuffer(invoiceData)
-      filename = `invoice-${release.releaseNumber}.pdf`
+      // Return PDF as binary response (convert Buffer to Uint8Array for TypeScript compatibility)
+      return new NextResponse(new Uint8Array(pdfBuffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Content-Length': pdfBuffer.length.toString(),
+        },
+      })
 
-    } else {
+    } catch (error) {
+      console.error('Error generating document:', error)
       return NextResponse.json(
-        { error: 'Invalid document type' },
-        { status: 400 }
+        { error: 'An error occurred while generating the document' },
+        { status: 500 }
       )
     }
-
-    // Return PDF as binary response (convert Buffer to Uint8Array for TypeScript compatibility)
-    return new NextResponse(new Uint8Array(pdfBuffer), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': pdfBuffer.length.toString(),
-      },
-    })
-
-  } catch (error) {
-    console.error('Error generating document:', error)
-    return NextResponse.json(
-      { error: 'An error occurred while generating the document' },
-      { status: 500 }
-    )
-  }
-}
+  },
+)
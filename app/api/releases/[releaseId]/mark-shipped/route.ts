@@ -2,124 +2,156 @@
  * POST /api/releases/[releaseId]/mark-shipped
  *
  * Marks a release as shipped. Captures FedEx Freight PRO #, optional carrier
- * override, optional ship date (defaults to now). Sets status=SHIPPED, fires
- * the shipment confirmation email to EPG (Alecia + cc Kirk + JD team).
+ * override, optional ship date (defaults to now). Sets status=SHIPPED, moves
+ * the release's reserved stock off on-hand, fires the shipment confirmation
+ * email to EPG (Alecia + cc Kirk + JD team).
  *
  * Per Apr 2026 EPG new process: this is the new "ship event" trigger — replaces
  * the old "customer uploaded packing slip → ready to ship" flow.
+ *
+ * With an Idempotency-Key header, a retried request gets the first response
+ * back instead of shipping (and emailing) twice.
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
 import { sendShipConfirmationEmail } from '@/lib/email/sendgrid'
 import { EPG_DEFAULT_CARRIER } from '@/lib/epg'
+import { withIdempotency } from '@/lib/idempotency'
+import { releaseLinesInclude, releaseLinesOf, releasePartSummary } from '@/lib/releases/lines'
 import { ensureDefaultShipment, syncReleaseStatusFromShipments } from '@/lib/shipments/helpers'
+import { shipShipmentInventory } from '@/lib/shipments/inventory'
+import { markShippedSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> },
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+export const POST = withAuth<{ releaseId: string }>(
+  { permission: 'shipReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
 
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
+      return await withIdempotency(request, user.id, async () => {
+        const parsed = await parseBody(request, markShippedSchema)
+        if (!parsed.success) return parsed.response
+        const { proNumber, carrier, shipDate } = parsed.data
 
-    const { releaseId } = await params
-    const body = await request.json().catch(() => ({}))
-    const { proNumber, carrier, shipDate } = body as {
-      proNumber?: string
-      carrier?: string
-      shipDate?: string
-    }
+        const existing = await prisma.release.findUnique({
+          where: { id: releaseId },
+          include: { part: true, shippingLocation: true, lines: releaseLinesInclude },
+        })
+        if (!existing) {
+          return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+        }
 
-    if (!proNumber || typeof proNumber !== 'string' || proNumber.trim().length === 0) {
-      return NextResponse.json({ error: 'PRO number is required' }, { status: 400 })
-    }
+        if (existing.status === 'CANCELLED') {
+          return NextResponse.json({ error: 'Release is cancelled' }, { status: 400 })
+        }
 
-    const existing = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: { part: true, shippingLocation: true },
-    })
-    if (!existing) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
-    }
+        if (existing.status === 'PENDING_APPROVAL') {
+          return NextResponse.json({ error: 'Release is awaiting approval' }, { status: 400 })
+        }
 
-    const shippedAt = shipDate ? new Date(shipDate) : new Date()
-    const finalCarrier = (carrier && carrier.trim()) || existing.carrier || EPG_DEFAULT_CARRIER
-    const trimmedPro = proNumber.trim()
+        const shippedAt = shipDate ? new Date(shipDate) : new Date()
+        const finalCarrier = carrier || existing.carrier || EPG_DEFAULT_CARRIER
 
-    await ensureDefaultShipment(existing)
+        await ensureDefaultShipment(existing)
 
-    const pendingShipments = await prisma.releaseShipment.findMany({
-      where: { releaseId, status: 'PENDING' },
-    })
-    if (pendingShipments.length === 0) {
-      return NextResponse.json(
-        { error: 'All shipments on this release are already marked shipped' },
-        { status: 400 },
-      )
-    }
+        // Re-read and claim the pending shipments inside the transaction, so two
+        // requests racing each other can't both take the stock
+        await prisma.$transaction(async (tx) => {
+          const allShipments = await tx.releaseShipment.findMany({
+            where: { releaseId },
+            orderBy: { shipmentNumber: 'asc' },
+          })
+          const pendingShipments = allShipments.filter((s) => s.status === 'PENDING')
+          if (pendingShipments.length === 0) {
+            throw new Error('ALREADY_SHIPPED')
+          }
 
-    await prisma.releaseShipment.updateMany({
-      where: { releaseId, status: 'PENDING' },
-      data: {
-        status: 'SHIPPED',
-        proNumber: trimmedPro,
-        carrier: finalCarrier,
-        shippedAt,
-      },
-    })
-
-    await syncReleaseStatusFromShipments(releaseId)
-
-    const updated = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: { part: true, shippingLocation: true, shipments: { orderBy: { shipmentNumber: 'asc' } } },
-    })
-    if (!updated) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
-    }
+          const claimed = await tx.releaseShipment.updateMany({
+            where: {
+              id: { in: pendingShipments.map((s) => s.id) },
+              status: 'PENDING',
+              release: { status: { notIn: ['CANCELLED', 'PENDING_APPROVAL'] } },
+            },
+            data: {
+              status: 'SHIPPED',
+              proNumber,
+              carrier: finalCarrier,
+              shippedAt,
+            },
+          })
+          if (claimed.count !== pendingShipments.length) {
+            throw new Error('NOT_SHIPPABLE')
+          }
 
-    await prisma.release.update({
-      where: { id: releaseId },
-      data: { shippedByUserId: user.id },
-    })
+          await shipShipmentInventory(tx, existing, pendingShipments, allShipments, user.id)
+        })
 
-    // Fire confirmation email — non-blocking on failure (release is already shipped).
-    try {
-      await sendShipConfirmationEmail({
-        releaseNumber: updated.releaseNumber,
-        customerPONumber: updated.customerPONumber,
-        partNumber: updated.part.partNumber,
-        partDescription: updated.part.description,
-        totalUnits: updated.totalUnits,
-        pallets: updated.pallets,
-        boxes: updated.boxes,
-        proNumber: updated.proNumber!,
-        carrier: updated.carrier!,
-        shippedAt: updated.shippedAt!,
-      })
-    } catch (emailError) {
-      console.error('❌ Ship confirmation email failed:', emailError)
-    }
+        await syncReleaseStatusFromShipments(releaseId)
 
-    const { customerPackingSlipData: _omit, ...rest } = updated as typeof updated & {
-      customerPackingSlipData?: unknown
+        const updated = await prisma.release.findUnique({
+          where: { id: releaseId },
+          include: {
+            part: true,
+            shippingLocation: true,
+            lines: releaseLinesInclude,
+            shipments: { orderBy: { shipmentNumber: 'asc' } },
+          },
+        })
+        if (!updated) {
+          return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+        }
+
+        await prisma.release.update({
+          where: { id: releaseId },
+          data: { shippedByUserId: user.id },
+        })
+
+        // Fire confirmation email — non-blocking on failure (release is already shipped).
+        try {
+          await sendShipConfirmationEmail({
+            releaseNumber: updated.releaseNumber,
+            customerPONumber: updated.customerPONumber,
+            ...releasePartSummary(releaseLinesOf(updated)),
+            totalUnits: updated.totalUnits,
+            pallets: updated.pallets,
+            boxes: updated.boxes,
+            proNumber: updated.proNumber!,
+            carrier: updated.carrier!,
+            shippedAt: updated.shippedAt!,
+          })
+        } catch (emailError) {
+          console.error('❌ Ship confirmation email failed:', emailError)
+        }
+
+        const { customerPackingSlipData: _omit, ...rest } = updated as typeof updated & {
+          customerPackingSlipData?: unknown
+        }
+        return NextResponse.json({ release: rest })
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'ALREADY_SHIPPED') {
+        return NextResponse.json(
+          { error: 'All shipments on this release are already marked shipped' },
+          { status: 400 },
+        )
+      }
+      if (error instanceof Error && error.message === 'NOT_SHIPPABLE') {
+        return NextResponse.json(
+          { error: 'Release was shipped, cancelled or put on hold by someone else. Please reload.' },
+          { status: 409 },
+        )
+      }
+      if (error instanceof Error && error.message === 'INSUFFICIENT_INVENTORY') {
+        return NextResponse.json(
+          { error: 'Not enough stock on hand to ship this release' },
+          { status: 409 },
+        )
+      }
+      console.error('Error marking release shipped:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
     }
-    return NextResponse.json({ release: rest })
-  } catch (error) {
-    console.error('Error marking release shipped:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
+  },
+)
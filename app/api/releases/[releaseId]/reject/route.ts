@@ -0,0 +1,103 @@
+/**
+ * POST /api/releases/[releaseId]/reject
+ *
+ * Rejects a release the approval gate held at PENDING_APPROVAL (admin only).
+ *
+ * Body: { reason: string }
+ *
+ * The release is cancelled — its reservation, lot allocations and any blanket
+ * PO draw are returned and the cancellation fields record who rejected it and why. Nothing was sent
+ * for a release held on creation, so no one outside JD is notified; one held
+ * again after an amendment had already gone out, so it's cancelled with them.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { returnLotAllocations } from '@/lib/inventory/lots'
+import { changeReservation } from '@/lib/inventory/stock'
+import { notifyReleaseCancelled } from '@/lib/releases/cancellation'
+import { lineTotalBoxes, releaseLinesInclude, releaseLinesOf } from '@/lib/releases/lines'
+import { returnPurchaseOrderDraws } from '@/lib/releases/purchase-orders'
+import { rejectReleaseSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+export const POST = withAuth<{ releaseId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
+      const parsed = await parseBody(request, rejectReleaseSchema)
+      if (!parsed.success) return parsed.response
+      const { reason } = parsed.data
+
+      const release = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: { part: true, lines: releaseLinesInclude },
+      })
+
+      if (!release) {
+        return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+      }
+
+      if (release.status !== 'PENDING_APPROVAL') {
+        return NextResponse.json({ error: 'Release is not awaiting approval' }, { status: 400 })
+      }
+
+      const rejected = await prisma.$transaction(async (tx) => {
+        // Claim the release first so a concurrent approval can't also go through
+        const { count } = await tx.release.updateMany({
+          where: { id: releaseId, status: 'PENDING_APPROVAL' },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancelledByUserId: user.id,
+            cancellationReason: `Rejected: ${reason}`,
+          },
+        })
+        if (count === 0) throw new Error('NOT_PENDING')
+
+        for (const line of releaseLinesOf(release)) {
+          await changeReservation(tx, {
+            partId: line.partId,
+            boxes: -lineTotalBoxes(line),
+            stockLocationId: release.stockLocationId,
+          })
+        }
+
+        for (const line of release.lines) {
+          await returnLotAllocations(tx, line.id)
+        }
+
+        await returnPurchaseOrderDraws(tx, release, releaseLinesOf(release))
+
+        return tx.release.findUniqueOrThrow({
+          where: { id: releaseId },
+          omit: { customerPackingSlipData: true },
+          include: {
+            part: true,
+            shippingLocation: true,
+            stockLocation: true,
+            lines: releaseLinesInclude,
+            shipments: { orderBy: { shipmentNumber: 'asc' } },
+            user: { select: { name: true, email: true } },
+          },
+        })
+      })
+
+      console.log(`✖ Release ${release.releaseNumber} rejected by ${user.email}: ${reason}`)
+
+      if (release.dispatchedAt) {
+        await notifyReleaseCancelled(release, { reason: `Rejected: ${reason}`, cancelledBy: user.name })
+      }
+
+      return NextResponse.json({ release: rejected })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_PENDING') {
+        return NextResponse.json({ error: 'Release is not awaiting approval' }, { status: 400 })
+      }
+      console.error('Error rejecting release:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
@@ -0,0 +1,60 @@
+/**
+ * GET /api/releases/[releaseId]/revisions
+ *
+ * Amendment history for a release, newest revision first. Each revision lists
+ * the fields it changed with their previous and new values.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { releaseAccessWhere } from '@/lib/releases/access'
+import { revisionFieldLabel, type ReleaseFieldChange } from '@/lib/releases/revisions'
+import { withAuth } from '@/lib/with-auth'
+
+interface RevisionGroup {
+  version: number
+  createdAt: Date
+  user: { name: string }
+  changes: ReleaseFieldChange[]
+}
+
+export const GET = withAuth<{ releaseId: string }>({}, async (request, user, { params }) => {
+  try {
+    const { releaseId } = await params
+
+    const release = await prisma.release.findFirst({
+      where: { id: releaseId, ...releaseAccessWhere(user) },
+      select: { id: true, revision: true },
+    })
+
+    if (!release) {
+      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+    }
+
+    const rows = await prisma.releaseRevision.findMany({
+      where: { releaseId },
+      include: { user: { select: { name: true } } },
+      orderBy: [{ version: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    const revisions: RevisionGroup[] = []
+    for (const row of rows) {
+      let group = revisions[revisions.length - 1]
+      if (!group || group.version !== row.version) {
+        group = { version: row.version, createdAt: row.createdAt, user: row.user, changes: [] }
+        revisions.push(group)
+      }
+      group.changes.push({
+        field: row.field,
+        label: revisionFieldLabel(row.field),
+        previousValue: row.previousValue,
+        newValue: row.newValue,
+      })
+    }
+
+    return NextResponse.json({ revision: release.revision, revisions })
+  } catch (error) {
+    console.error('Error fetching release revisions:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
@@ -1,38 +1,35 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
 import { weightForPalletCount } from '@/lib/documents/release-document-data'
 import { regenerateStoredReleaseDocuments } from '@/lib/documents/regenerate-stored-documents'
+import { allocateLots, returnLotAllocations } from '@/lib/inventory/lots'
+import { applyInventoryChange, changeReservation } from '@/lib/inventory/stock'
+import { sendApprovalRequiredEmail, sendReleaseAmendedEmail } from '@/lib/email/sendgrid'
+import { releaseAccessWhere, releaseForUser } from '@/lib/releases/access'
+import { approvalReasons, approvalRules } from '@/lib/releases/approval'
+import { releaseLinesInclude, releaseLinesOf, releasePartSummary } from '@/lib/releases/lines'
+import { drawPurchaseOrder } from '@/lib/releases/purchase-orders'
+import { diffReleaseFields, recordReleaseRevision } from '@/lib/releases/revisions'
+import { updateReleaseSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
 
 // GET single release by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> }
-) {
+export const GET = withAuth<{ releaseId: string }>({}, async (request, user, { params }) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
     const { releaseId } = await params
 
-    const release = await prisma.release.findUnique({
-      where: { id: releaseId },
+    const release = await prisma.release.findFirst({
+      where: { id: releaseId, ...releaseAccessWhere(user) },
       omit: {
         customerPackingSlipData: true,
       },
       include: {
         part: true,
         shippingLocation: true,
+        stockLocation: true,
+        lines: releaseLinesInclude,
         user: {
           select: {
             name: true,
@@ -46,157 +43,211 @@ export async function GET(
       return NextResponse.json({ error: 'Release not found' }, { status: 404 })
     }
 
-    // All authenticated users can view any release
-    // (Customer should see all release history)
-
-    return NextResponse.json({ release })
+    // Customer should see all release history; vendors only their own
+    // (releaseAccessWhere)
+    return NextResponse.json({ release: releaseForUser(user, release) })
   } catch (error) {
     console.error('Error fetching release:', error)
     return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
   }
-}
-
-// PATCH - Update release (tracking number, ship date, status, skid count)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> }
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    const { releaseId } = await params
-    const body = await request.json()
-
-    // Find the release first
-    const existingRelease = await prisma.release.findUnique({
-      where: { id: releaseId },
-    })
-
-    if (!existingRelease) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
-    }
-
-    // Non-admin users can only update their own releases
-    if (user.role !== 'ADMIN' && existingRelease.userId !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
-    // Build update data - only allow specific fields to be updated
-    const updateData: Record<string, unknown> = {}
-    let palletDelta = 0
-    let newPallets: number | undefined
-
-    if (body.trackingNumber !== undefined) {
-      updateData.trackingNumber = body.trackingNumber
-    }
+})
+
+// PATCH - Update release (tracking number, ship date, skid count). Shipping
+// only happens through mark-shipped, which moves the inventory
+export const PATCH = withAuth<{ releaseId: string }>(
+  { permission: 'createReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
+      const parsed = await parseBody(request, updateReleaseSchema)
+      if (!parsed.success) return parsed.response
+      const body = parsed.data
+
+      // Find the release first
+      const existingRelease = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: { lines: true },
+      })
 
-    if (body.shipDate !== undefined) {
-      updateData.shipDate = body.shipDate ? new Date(body.shipDate) : null
-    }
+      if (!existingRelease) {
+        return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+      }
 
-    if (
-      body.status !== undefined &&
-      ['COMPLETED', 'READY_TO_SHIP', 'SHIPPED'].includes(body.status)
-    ) {
-      updateData.status = body.status
-    }
+      // Non-admin users can only update their own releases
+      if (user.role !== 'ADMIN' && existingRelease.userId !== user.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
 
-    // If tracking number is added, auto-set status to SHIPPED
-    if (body.trackingNumber && !existingRelease.trackingNumber) {
-      updateData.status = 'SHIPPED'
-    }
+      if (existingRelease.status === 'CANCELLED') {
+        return NextResponse.json(
+          { error: 'Cancelled releases cannot be edited' },
+          { status: 400 }
+        )
+      }
 
-    if (body.pallets !== undefined) {
-      const parsedPallets = Number(body.pallets)
-      if (!Number.isInteger(parsedPallets) || parsedPallets < 1) {
+      // A held release changes only by an admin approving or rejecting it
+      if (existingRelease.status === 'PENDING_APPROVAL') {
         return NextResponse.json(
-          { error: 'Skid count must be a whole number of at least 1' },
+          { error: 'Releases awaiting approval cannot be edited' },
           { status: 400 }
         )
       }
 
-      if (parsedPallets !== existingRelease.pallets) {
-        palletDelta = parsedPallets - existingRelease.pallets
-        newPallets = parsedPallets
+      // Build update data - only allow specific fields to be updated
+      const updateData: Record<string, unknown> = {}
+      let palletDelta = 0
+      let newPallets: number | undefined
+
+      if (body.trackingNumber !== undefined) {
+        updateData.trackingNumber = body.trackingNumber
       }
-    }
 
-    let release = await prisma.$transaction(async (tx) => {
-      if (palletDelta !== 0 && newPallets !== undefined) {
-        const part = await tx.part.findUnique({
-          where: { id: existingRelease.partId },
-        })
+      if (body.shipDate !== undefined) {
+        updateData.shipDate = body.shipDate ? new Date(body.shipDate) : null
+      }
 
-        if (!part) {
-          throw new Error('Part not found')
+      if (body.pallets !== undefined) {
+        // Skid edits adjust the one part on the release; a multi-part release
+        // has no single skid count to change.
+        if (existingRelease.lines.length > 1) {
+          return NextResponse.json(
+            { error: 'Skid count can only be edited on single-part releases' },
+            { status: 400 }
+          )
         }
 
-        if (palletDelta > 0 && part.currentPallets < palletDelta) {
-          throw new Error('INSUFFICIENT_INVENTORY')
+        // Skids already on a truck can't be taken off the release
+        if (existingRelease.status === 'PARTIALLY_SHIPPED') {
+          const shipped = await prisma.releaseShipment.aggregate({
+            where: { releaseId, status: 'SHIPPED' },
+            _sum: { pallets: true },
+          })
+          const shippedPallets = shipped._sum.pallets ?? 0
+          if (body.pallets < shippedPallets) {
+            return NextResponse.json(
+              { error: `Skid count can't go below the ${shippedPallets} skids already shipped` },
+              { status: 400 }
+            )
+          }
         }
 
-        const totalBoxesReleased =
-          newPallets * part.boxesPerPallet + existingRelease.boxes
-
-        updateData.pallets = newPallets
-        updateData.totalUnits = totalBoxesReleased * part.unitsPerBox
-        updateData.cartons = totalBoxesReleased
-        updateData.weight = weightForPalletCount(newPallets)
-
-        await tx.part.update({
-          where: { id: part.id },
-          data: {
-            currentPallets: { increment: -palletDelta },
-          },
-        })
+        if (body.pallets !== existingRelease.pallets) {
+          palletDelta = body.pallets - existingRelease.pallets
+          newPallets = body.pallets
+        }
       }
 
-      return tx.release.update({
-        where: { id: releaseId },
-        data: updateData,
-        include: {
-          part: true,
-          shippingLocation: true,
-          user: {
-            select: {
-              name: true,
-              email: true,
+      // More skids or an earlier ship date can trip an approval rule the
+      // release passed when it was created; a release that has started
+      // shipping can't be held, since rejecting it would unreserve stock
+      // that's already gone
+      const newShipDate = updateData.shipDate as Date | null | undefined
+      const recheckApproval =
+        user.role !== 'ADMIN' &&
+        existingRelease.status !== 'SHIPPED' &&
+        existingRelease.status !== 'PARTIALLY_SHIPPED' &&
+        (palletDelta > 0 ||
+          (!!newShipDate && (!existingRelease.shipDate || newShipDate < existingRelease.shipDate)))
+
+      const amended = await prisma.$transaction(async (tx) => {
+        if (palletDelta !== 0 && newPallets !== undefined) {
+          const part = await tx.part.findUnique({
+            where: { id: existingRelease.partId },
+          })
+
+          if (!part) {
+            throw new Error('Part not found')
+          }
+
+          const totalBoxesReleased =
+            newPallets * part.boxesPerPallet + existingRelease.boxes
+
+          updateData.pallets = newPallets
+          updateData.totalUnits = totalBoxesReleased * part.unitsPerBox
+          updateData.cartons = totalBoxesReleased
+          updateData.weight = weightForPalletCount(newPallets)
+
+          // Until it has fully shipped the change is to the release's
+          // reservation; afterwards on-hand itself moves. Either throws
+          // INSUFFICIENT_INVENTORY when adding skids needs more stock than is
+          // available
+          if (existingRelease.status === 'SHIPPED') {
+            await applyInventoryChange(tx, {
+              partId: part.id,
+              type: 'RELEASE_EDIT',
+              boxes: -palletDelta * part.boxesPerPallet,
+              userId: user.id,
+              releaseId,
+              stockLocationId: existingRelease.stockLocationId,
+              reference: existingRelease.releaseNumber,
+              notes: `Skid count ${existingRelease.pallets} → ${newPallets}`,
+            })
+          } else {
+            await changeReservation(tx, {
+              partId: part.id,
+              boxes: palletDelta * part.boxesPerPallet,
+              stockLocationId: existingRelease.stockLocationId,
+            })
+          }
+
+          // Added skids draw from lots FIFO; removed skids go back to their lots
+          const line = existingRelease.lines.find((l) => l.lineNumber === 1)
+          if (line) {
+            if (palletDelta > 0) {
+              await allocateLots(tx, {
+                releaseLineId: line.id,
+                partId: part.id,
+                boxes: palletDelta * part.boxesPerPallet,
+                stockLocationId: existingRelease.stockLocationId,
+              })
+            } else {
+              await returnLotAllocations(tx, line.id, -palletDelta * part.boxesPerPallet)
+            }
+          }
+
+          // A release on a blanket PO draws (or gives back) the unit difference;
+          // throws PO_BALANCE_EXCEEDED when the PO can't cover added skids
+          if (existingRelease.purchaseOrderId) {
+            await drawPurchaseOrder(tx, {
+              purchaseOrderId: existingRelease.purchaseOrderId,
+              partId: part.id,
+              units: totalBoxesReleased * part.unitsPerBox - existingRelease.totalUnits,
+            })
+          }
+
+          await tx.releaseLine.updateMany({
+            where: { releaseId, lineNumber: 1 },
+            data: {
+              pallets: newPallets,
+              totalUnits: totalBoxesReleased * part.unitsPerBox,
             },
-          },
-        },
-      })
-    })
+          })
+        }
 
-    let documentsRegenerated = false
-
-    if (palletDelta !== 0) {
-      console.log(
-        `📦 Release ${existingRelease.releaseNumber} skid count updated: ${existingRelease.pallets} → ${newPallets} (inventory ${palletDelta > 0 ? '-' : '+'}${Math.abs(palletDelta)} pallets)`
-      )
-
-      const regen = await regenerateStoredReleaseDocuments(releaseId, release)
-      if (regen.packingSlipUrl || regen.boxLabelsUrl) {
-        release = await prisma.release.update({
-          where: { id: releaseId },
-          data: {
-            ...(regen.packingSlipUrl ? { packingSlipUrl: regen.packingSlipUrl } : {}),
-            ...(regen.boxLabelsUrl ? { boxLabelsUrl: regen.boxLabelsUrl } : {}),
-            documentsGenerated: new Date().toISOString(),
-          },
+        if (recheckApproval) {
+          const reasons = approvalReasons(await approvalRules(tx), {
+            pallets: newPallets ?? existingRelease.pallets,
+            shipDate: newShipDate ?? existingRelease.shipDate ?? new Date(),
+            lines: await tx.releaseLine.findMany({ where: { releaseId }, include: { part: true } }),
+          })
+          if (reasons.length > 0) {
+            updateData.status = 'PENDING_APPROVAL'
+            updateData.approvalReasons = reasons
+            updateData.approvedAt = null
+            updateData.approvedByUserId = null
+          }
+        }
+
+        // Only if nothing moved the release on (approved, shipped, cancelled)
+        // since it was read above
+        const updated = await tx.release.update({
+          where: { id: releaseId, status: existingRelease.status },
+          data: updateData,
           include: {
             part: true,
             shippingLocation: true,
+            stockLocation: true,
+            lines: releaseLinesInclude,
             user: {
               select: {
                 name: true,
@@ -205,84 +256,118 @@ export async function PATCH(
             },
           },
         })
-        documentsRegenerated = true
-        console.log(
-          `📄 Documents regenerated for ${release.releaseNumber} (${newPallets} skids)`,
-        )
-      }
-    }
-
-    return NextResponse.json({ release, documentsRegenerated })
-  } catch (error) {
-    if (error instanceof Error && error.message === 'INSUFFICIENT_INVENTORY') {
-      return NextResponse.json(
-        { error: 'Insufficient inventory to increase skid count' },
-        { status: 400 }
-      )
-    }
-    console.error('Error updating release:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
 
-// DELETE - Delete release and restore inventory (admin only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> }
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
+        // Every amendment is kept as a versioned diff of the fields it changed
+        const changes = diffReleaseFields(existingRelease, updated)
+        const version = await recordReleaseRevision(tx, releaseId, user.id, changes)
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+        return {
+          release: version ? { ...updated, revision: version } : updated,
+          changes,
+          version,
+        }
+      })
 
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
+      const { changes, version } = amended
+      let release = amended.release
+      let documentsRegenerated = false
 
-    if (!user || user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
+      if (palletDelta !== 0) {
+        console.log(
+          `📦 Release ${existingRelease.releaseNumber} skid count updated: ${existingRelease.pallets} → ${newPallets} (inventory ${palletDelta > 0 ? '-' : '+'}${Math.abs(palletDelta)} pallets)`
+        )
+      }
 
-    const { releaseId } = await params
+      // Skid count and ship date are printed on the paperwork
+      if (changes.some((c) => c.field === 'pallets' || c.field === 'shipDate')) {
+        const regen = await regenerateStoredReleaseDocuments(releaseId, release)
+        if (regen.packingSlipUrl || regen.boxLabelsUrl) {
+          release = await prisma.release.update({
+            where: { id: releaseId },
+            data: {
+              ...(regen.packingSlipUrl ? { packingSlipUrl: regen.packingSlipUrl } : {}),
+              ...(regen.boxLabelsUrl ? { boxLabelsUrl: regen.boxLabelsUrl } : {}),
+              documentsGenerated: new Date().toISOString(),
+            },
+            include: {
+              part: true,
+              shippingLocation: true,
+              stockLocation: true,
+              lines: releaseLinesInclude,
+              user: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          })
+          documentsRegenerated = true
+          console.log(
+            `📄 Documents regenerated for ${release.releaseNumber} (${release.pallets} skids)`,
+          )
+        }
+      }
 
-    // Get the release with part info
-    const release = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: { part: true },
-    })
+      if (release.status === 'PENDING_APPROVAL') {
+        console.log(`⏸ Release ${release.releaseNumber} held for approval: ${release.approvalReasons.join('; ')}`)
+        try {
+          await sendApprovalRequiredEmail({
+            releaseNumber: release.releaseNumber,
+            releaseId: release.id,
+            customerPONumber: release.customerPONumber,
+            ...releasePartSummary(releaseLinesOf(release)),
+            totalUnits: release.totalUnits,
+            pallets: release.pallets,
+            shipDate: release.shipDate?.toISOString() ?? null,
+            requestedBy: user.name,
+            reasons: release.approvalReasons,
+          })
+        } catch (emailError) {
+          console.error('❌ Approval request email failed:', emailError)
+        }
+      }
 
-    if (!release) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
-    }
+      // Tell EPG and Three Z what changed — non-blocking, the amendment is saved.
+      // A release held since creation hasn't been sent to them yet.
+      if (version && release.dispatchedAt) {
+        try {
+          await sendReleaseAmendedEmail({
+            releaseNumber: release.releaseNumber,
+            releaseId: release.id,
+            customerPONumber: release.customerPONumber,
+            ...releasePartSummary(releaseLinesOf(release)),
+            version,
+            amendedBy: user.name,
+            changes,
+          })
+        } catch (emailError) {
+          console.error('❌ Release amended email failed:', emailError)
+        }
+      }
 
-    // Prevent deleting shipped releases
-    if (release.status === 'SHIPPED') {
-      return NextResponse.json(
-        { error: 'Cannot delete shipped releases' },
-        { status: 400 }
-      )
+      return NextResponse.json({ release, documentsRegenerated })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'INSUFFICIENT_INVENTORY') {
+        return NextResponse.json(
+          { error: 'Insufficient inventory to increase skid count' },
+          { status: 400 }
+        )
+      }
+      if (error instanceof Error && error.message === 'PO_BALANCE_EXCEEDED') {
+        return NextResponse.json(
+          { error: 'Not enough left on the blanket PO to increase skid count' },
+          { status: 400 }
+        )
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return NextResponse.json(
+          { error: 'This release changed while you were editing it. Please reload and try again.' },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating release:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
     }
-
-    // Restore inventory (reverse the release)
-    await prisma.part.update({
-      where: { id: release.partId },
-      data: {
-        currentPallets: { increment: release.pallets },
-        currentBoxes: { increment: release.boxes },
-      },
-    })
-
-    // Delete the release
-    await prisma.release.delete({
-      where: { id: releaseId },
-    })
-
-    console.log(`🗑️ Release ${release.releaseNumber} deleted, inventory restored: +${release.pallets} pallets, +${release.boxes} boxes`)
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    console.error('Error deleting release:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
+  },
+)
@@ -1,123 +1,158 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
 import { sendShipConfirmationEmail } from '@/lib/email/sendgrid'
 import { EPG_DEFAULT_CARRIER } from '@/lib/epg'
+import { withIdempotency } from '@/lib/idempotency'
+import { releaseLinesInclude, releaseLinesOf, releasePartSummary } from '@/lib/releases/lines'
 import { syncReleaseStatusFromShipments } from '@/lib/shipments/helpers'
+import { shipShipmentInventory } from '@/lib/shipments/inventory'
+import { markShippedSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
 
-export async function POST(
-  request: NextRequest,
-  {
-    params,
-  }: { params: Promise<{ releaseId: string; shipmentId: string }> },
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+export const POST = withAuth<{ releaseId: string; shipmentId: string }>(
+  { permission: 'shipReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId, shipmentId } = await params
 
-    const user = await getUserFromToken(authHeader.substring(7))
-    if (!user || user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
+      // A retried request with the same Idempotency-Key gets the first response
+      // back instead of a second confirmation email
+      return await withIdempotency(request, user.id, async () => {
+        const parsed = await parseBody(request, markShippedSchema)
+        if (!parsed.success) return parsed.response
+        const { proNumber, carrier, shipDate } = parsed.data
 
-    const { releaseId, shipmentId } = await params
-    const body = await request.json().catch(() => ({}))
-    const { proNumber, carrier, shipDate } = body as {
-      proNumber?: string
-      carrier?: string
-      shipDate?: string
-    }
+        const shipment = await prisma.releaseShipment.findFirst({
+          where: { id: shipmentId, releaseId },
+          include: {
+            release: { include: { part: true, shippingLocation: true, lines: releaseLinesInclude } },
+          },
+        })
 
-    if (!proNumber?.trim()) {
-      return NextResponse.json({ error: 'PRO number is required' }, { status: 400 })
-    }
+        if (!shipment) {
+          return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
+        }
 
-    const shipment = await prisma.releaseShipment.findFirst({
-      where: { id: shipmentId, releaseId },
-      include: {
-        release: { include: { part: true, shippingLocation: true } },
-      },
-    })
+        if (shipment.release.status === 'CANCELLED') {
+          return NextResponse.json({ error: 'Release is cancelled' }, { status: 400 })
+        }
 
-    if (!shipment) {
-      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
-    }
+        if (shipment.release.status === 'PENDING_APPROVAL') {
+          return NextResponse.json({ error: 'Release is awaiting approval' }, { status: 400 })
+        }
 
-    if (shipment.status === 'SHIPPED') {
-      return NextResponse.json({ error: 'Shipment already marked shipped' }, { status: 400 })
-    }
+        if (shipment.status === 'SHIPPED') {
+          return NextResponse.json({ error: 'Shipment already marked shipped' }, { status: 400 })
+        }
 
-    const shippedAt = shipDate ? new Date(shipDate) : new Date()
-    const finalCarrier =
-      (carrier && carrier.trim()) || shipment.carrier || EPG_DEFAULT_CARRIER
-
-    const updatedShipment = await prisma.releaseShipment.update({
-      where: { id: shipmentId },
-      data: {
-        proNumber: proNumber.trim(),
-        carrier: finalCarrier,
-        shippedAt,
-        shipDate: shippedAt,
-        status: 'SHIPPED',
-      },
-    })
-
-    const release = shipment.release
-    const allShipments = await prisma.releaseShipment.findMany({
-      where: { releaseId },
-      orderBy: { shipmentNumber: 'asc' },
-    })
-    const allShipped = allShipments.every((s) => s.status === 'SHIPPED')
-
-    await prisma.release.update({
-      where: { id: releaseId },
-      data: {
-        proNumber: allShipped ? proNumber.trim() : release.proNumber,
-        carrier: finalCarrier,
-        shippedAt: allShipped ? shippedAt : release.shippedAt,
-        shippedByUserId: user.id,
-        trackingNumber: allShipped ? proNumber.trim() : release.trackingNumber,
-        shipDate: release.shipDate ?? shippedAt,
-      },
-    })
-
-    await syncReleaseStatusFromShipments(releaseId)
+        const shippedAt = shipDate ? new Date(shipDate) : new Date()
+        const finalCarrier = carrier || shipment.carrier || EPG_DEFAULT_CARRIER
 
-    try {
-      await sendShipConfirmationEmail({
-        releaseNumber: `${release.releaseNumber} (Shipment ${shipment.shipmentNumber})`,
-        customerPONumber: release.customerPONumber,
-        partNumber: release.part.partNumber,
-        partDescription: release.part.description,
-        totalUnits: shipment.totalUnits,
-        pallets: shipment.pallets,
-        boxes: shipment.boxes,
-        proNumber: proNumber.trim(),
-        carrier: finalCarrier,
-        shippedAt,
+        const release = shipment.release
+
+        // The shipment flips and its stock leaves on-hand together. The flip is
+        // conditional so two requests racing each other can't both take the stock
+        const { updatedShipment, shipmentsBefore } = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.releaseShipment.updateMany({
+            where: {
+              id: shipmentId,
+              releaseId,
+              status: 'PENDING',
+              release: { status: { notIn: ['CANCELLED', 'PENDING_APPROVAL'] } },
+            },
+            data: {
+              proNumber,
+              carrier: finalCarrier,
+              shippedAt,
+              shipDate: shippedAt,
+              status: 'SHIPPED',
+            },
+          })
+          if (claimed.count === 0) {
+            throw new Error('NOT_SHIPPABLE')
+          }
+
+          const shipments = await tx.releaseShipment.findMany({
+            where: { releaseId },
+            orderBy: { shipmentNumber: 'asc' },
+          })
+          const updated = shipments.find((s) => s.id === shipmentId)!
+          // As they stood before this one shipped
+          const before = shipments.map((s) =>
+            s.id === shipmentId ? { ...s, status: 'PENDING' as const } : s,
+          )
+
+          await shipShipmentInventory(tx, release, [updated], before, user.id)
+
+          return { updatedShipment: updated, shipmentsBefore: before }
+        })
+
+        const allShipped = shipmentsBefore.every(
+          (s) => s.id === shipmentId || s.status === 'SHIPPED',
+        )
+
+        await prisma.release.update({
+          where: { id: releaseId },
+          data: {
+            proNumber: allShipped ? proNumber : release.proNumber,
+            carrier: finalCarrier,
+            shippedAt: allShipped ? shippedAt : release.shippedAt,
+            shippedByUserId: user.id,
+            trackingNumber: allShipped ? proNumber : release.trackingNumber,
+            shipDate: release.shipDate ?? shippedAt,
+          },
+        })
+
+        await syncReleaseStatusFromShipments(releaseId)
+
+        try {
+          await sendShipConfirmationEmail({
+            releaseNumber: `${release.releaseNumber} (Shipment ${shipment.shipmentNumber})`,
+            customerPONumber: release.customerPONumber,
+            ...releasePartSummary(releaseLinesOf(release)),
+            totalUnits: shipment.totalUnits,
+            pallets: shipment.pallets,
+            boxes: shipment.boxes,
+            proNumber,
+            carrier: finalCarrier,
+            shippedAt,
+          })
+        } catch (emailError) {
+          console.error('❌ Ship confirmation email failed:', emailError)
+        }
+
+        const updatedRelease = await prisma.release.findUnique({
+          where: { id: releaseId },
+          include: {
+            part: true,
+            shippingLocation: true,
+            lines: releaseLinesInclude,
+            shipments: { orderBy: { shipmentNumber: 'asc' } },
+            user: { select: { name: true, email: true } },
+          },
+        })
+
+        return NextResponse.json({
+          shipment: updatedShipment,
+          release: updatedRelease,
+        })
       })
-    } catch (emailError) {
-      console.error('❌ Ship confirmation email failed:', emailError)
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_SHIPPABLE') {
+        return NextResponse.json(
+          { error: 'Shipment was already shipped, or its release was cancelled or put on hold' },
+          { status: 409 },
+        )
+      }
+      if (error instanceof Error && error.message === 'INSUFFICIENT_INVENTORY') {
+        return NextResponse.json(
+          { error: 'Not enough stock on hand to ship this shipment' },
+          { status: 409 },
+        )
+      }
+      console.error('Error marking shipment shipped:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
     }
-
-    const updatedRelease = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: {
-        part: true,
-        shippingLocation: true,
-        shipments: { orderBy: { shipmentNumber: 'asc' } },
-        user: { select: { name: true, email: true } },
-      },
-    })
-
-    return NextResponse.json({
-      shipment: updatedShipment,
-      release: updatedRelease,
-    })
-  } catch (error) {
-    console.error('Error marking shipment shipped:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
\ No newline at end of file
+  },
+)
@@ -1,79 +1,110 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
+import { releaseLinesInclude } from '@/lib/releases/lines'
 import { syncReleaseStatusFromShipments } from '@/lib/shipments/helpers'
+import { unshipShipmentInventory } from '@/lib/shipments/inventory'
+import { withAuth } from '@/lib/with-auth'
 
 /**
  * POST /api/releases/[releaseId]/shipments/[shipmentId]/unmark-shipped
  *
- * Reverts a shipment from SHIPPED → PENDING (admin only). Clears PRO # on
- * that truck line and recalculates release status (OPEN / PARTIAL).
+ * Reverts a shipment from SHIPPED → PENDING (admin or warehouse). Clears PRO #
+ * on that truck line, puts its stock back on hand as reserved, and
+ * recalculates release status (OPEN / PARTIAL).
  */
-export async function POST(
-  request: NextRequest,
-  {
-    params,
-  }: { params: Promise<{ releaseId: string; shipmentId: string }> },
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+export const POST = withAuth<{ releaseId: string; shipmentId: string }>(
+  { permission: 'shipReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId, shipmentId } = await params
 
-    const user = await getUserFromToken(authHeader.substring(7))
-    if (!user || user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
+      const shipment = await prisma.releaseShipment.findFirst({
+        where: { id: shipmentId, releaseId },
+        include: {
+          release: { include: { part: true, lines: releaseLinesInclude } },
+        },
+      })
 
-    const { releaseId, shipmentId } = await params
+      if (!shipment) {
+        return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
+      }
 
-    const shipment = await prisma.releaseShipment.findFirst({
-      where: { id: shipmentId, releaseId },
-    })
+      if (shipment.release.status === 'CANCELLED') {
+        return NextResponse.json({ error: 'Release is cancelled' }, { status: 400 })
+      }
 
-    if (!shipment) {
-      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
-    }
+      if (shipment.release.status === 'PENDING_APPROVAL') {
+        return NextResponse.json({ error: 'Release is awaiting approval' }, { status: 400 })
+      }
 
-    if (shipment.status !== 'SHIPPED') {
-      return NextResponse.json(
-        { error: 'Only shipped shipments can be reverted' },
-        { status: 400 },
-      )
-    }
+      if (shipment.status !== 'SHIPPED') {
+        return NextResponse.json(
+          { error: 'Only shipped shipments can be reverted' },
+          { status: 400 },
+        )
+      }
 
-    const updatedShipment = await prisma.releaseShipment.update({
-      where: { id: shipmentId },
-      data: {
-        status: 'PENDING',
-        proNumber: null,
-        shippedAt: null,
-      },
-    })
+      const release = shipment.release
+      // Claimed the same way mark-shipped claims it, so two reverts (or a revert
+      // racing a cancel) can't both put the stock back
+      const updatedShipment = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.releaseShipment.updateMany({
+          where: {
+            id: shipmentId,
+            releaseId,
+            status: 'SHIPPED',
+            release: { status: { notIn: ['CANCELLED', 'PENDING_APPROVAL'] } },
+          },
+          data: {
+            status: 'PENDING',
+            proNumber: null,
+            shippedAt: null,
+          },
+        })
+        if (claimed.count === 0) {
+          throw new Error('NOT_REVERTIBLE')
+        }
 
-    await syncReleaseStatusFromShipments(releaseId)
+        const shipments = await tx.releaseShipment.findMany({
+          where: { releaseId },
+          orderBy: { shipmentNumber: 'asc' },
+        })
+        const updated = shipments.find((s) => s.id === shipmentId)!
 
-    const updatedRelease = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: {
-        part: true,
-        shippingLocation: true,
-        shipments: { orderBy: { shipmentNumber: 'asc' } },
-        user: { select: { name: true, email: true } },
-      },
-    })
+        await unshipShipmentInventory(tx, release, [updated], shipments, user.id)
 
-    console.log(
-      `↩️ Release ${updatedRelease?.releaseNumber} shipment ${shipment.shipmentNumber} reverted to PENDING`,
-    )
+        return updated
+      })
 
-    return NextResponse.json({
-      shipment: updatedShipment,
-      release: updatedRelease,
-    })
-  } catch (error) {
-    console.error('Error unmarking shipment shipped:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
\ No newline at end of file
+      await syncReleaseStatusFromShipments(releaseId)
+
+      const updatedRelease = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: {
+          part: true,
+          shippingLocation: true,
+          shipments: { orderBy: { shipmentNumber: 'asc' } },
+          user: { select: { name: true, email: true } },
+        },
+      })
+
+      console.log(
+        `↩️ Release ${updatedRelease?.releaseNumber} shipment ${shipment.shipmentNumber} reverted to PENDING`,
+      )
+
+      return NextResponse.json({
+        shipment: updatedShipment,
+        release: updatedRelease,
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_REVERTIBLE') {
+        return NextResponse.json(
+          { error: 'Shipment was already reverted, or its release was cancelled or put on hold' },
+          { status: 409 },
+        )
+      }
+      console.error('Error unmarking shipment shipped:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
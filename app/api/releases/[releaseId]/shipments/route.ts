@@ -1,28 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
+import { releaseAccessWhere } from '@/lib/releases/access'
+import { releaseLinesInclude } from '@/lib/releases/lines'
 import { ensureDefaultShipment } from '@/lib/shipments/helpers'
+import { withAuth } from '@/lib/with-auth'
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> },
-) {
+export const GET = withAuth<{ releaseId: string }>({}, async (request, user, { params }) => {
   try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const user = await getUserFromToken(authHeader.substring(7))
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
     const { releaseId } = await params
 
-    const release = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: { part: true },
+    const release = await prisma.release.findFirst({
+      where: { id: releaseId, ...releaseAccessWhere(user) },
+      include: { part: true, lines: releaseLinesInclude },
     })
 
     if (!release) {
@@ -43,4 +32,4 @@ export async function GET(
     console.error('Error fetching shipments:', error)
     return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
   }
-}
\ No newline at end of file
+})
@@ -1,13 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import type { ReleaseShipment } from '@prisma/client'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
+import { releaseLinesInclude } from '@/lib/releases/lines'
 import {
   ensureDefaultShipment,
   shipmentTotals,
   syncReleaseStatusFromShipments,
   validatePalletSplits,
 } from '@/lib/shipments/helpers'
+import { splitShipmentSchema } from '@/lib/validation/releases'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
 
 /**
  * POST /api/releases/[releaseId]/split-shipment
@@ -18,125 +21,127 @@ import {
  * Body: { palletSplits: number[] }  — must sum to release.pallets, or to
  * remaining skids if some shipments are already SHIPPED.
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ releaseId: string }> },
-) {
-  try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const user = await getUserFromToken(authHeader.substring(7))
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    const { releaseId } = await params
-    const body = await request.json()
-    const palletSplits: number[] = body.palletSplits
-
-    if (!Array.isArray(palletSplits)) {
-      return NextResponse.json(
-        { error: 'palletSplits array is required' },
-        { status: 400 },
-      )
-    }
-
-    const release = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: { part: true },
-    })
+export const POST = withAuth<{ releaseId: string }>(
+  { permission: 'createReleases' },
+  async (request, user, { params }) => {
+    try {
+      const { releaseId } = await params
+      const parsed = await parseBody(request, splitShipmentSchema)
+      if (!parsed.success) return parsed.response
+      const { palletSplits } = parsed.data
+
+      const release = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: { part: true, lines: releaseLinesInclude },
+      })
+
+      if (!release) {
+        return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+      }
 
-    if (!release) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
-    }
+      if (user.role !== 'ADMIN' && release.userId !== user.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
 
-    if (user.role !== 'ADMIN' && release.userId !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+      if (release.status === 'CANCELLED') {
+        return NextResponse.json({ error: 'Release is cancelled' }, { status: 400 })
+      }
 
-    await ensureDefaultShipment(release)
+      if (release.status === 'PENDING_APPROVAL') {
+        return NextResponse.json({ error: 'Release is awaiting approval' }, { status: 400 })
+      }
 
-    const existing = await prisma.releaseShipment.findMany({
-      where: { releaseId },
-      orderBy: { shipmentNumber: 'asc' },
-    })
+      // Skid splits are sized in one part's boxes-per-pallet; multi-part
+      // releases go out as a single load.
+      if (release.lines.length > 1) {
+        return NextResponse.json(
+          { error: 'Multi-part releases cannot be split into shipments' },
+          { status: 400 },
+        )
+      }
 
-    const shipped = existing.filter((s) => s.status === 'SHIPPED')
-    const shippedPallets = shipped.reduce((sum, s) => sum + s.pallets, 0)
-    const targetPallets =
-      shipped.length > 0 ? release.pallets - shippedPallets : release.pallets
+      await ensureDefaultShipment(release)
 
-    if (targetPallets <= 0) {
-      return NextResponse.json(
-        { error: 'All skids on this release have already shipped' },
-        { status: 400 },
-      )
-    }
+      const existing = await prisma.releaseShipment.findMany({
+        where: { releaseId },
+        orderBy: { shipmentNumber: 'asc' },
+      })
 
-    const validationError = validatePalletSplits(palletSplits, targetPallets)
-    if (validationError) {
-      return NextResponse.json({ error: validationError }, { status: 400 })
-    }
+      const shipped = existing.filter((s) => s.status === 'SHIPPED')
+      const shippedPallets = shipped.reduce((sum, s) => sum + s.pallets, 0)
+      const targetPallets =
+        shipped.length > 0 ? release.pallets - shippedPallets : release.pallets
 
-    const shipments = await prisma.$transaction(async (tx) => {
-      if (shipped.length > 0) {
-        await tx.releaseShipment.deleteMany({
-          where: { releaseId, status: 'PENDING' },
-        })
-      } else {
-        await tx.releaseShipment.deleteMany({ where: { releaseId } })
+      if (targetPallets <= 0) {
+        return NextResponse.json(
+          { error: 'All skids on this release have already shipped' },
+          { status: 400 },
+        )
       }
 
-      const nextNumber =
-        shipped.length > 0
-          ? Math.max(...shipped.map((s) => s.shipmentNumber)) + 1
-          : 1
-
-      const created: ReleaseShipment[] = []
-      for (let i = 0; i < palletSplits.length; i++) {
-        const pallets = palletSplits[i]
-        const totals = shipmentTotals(pallets, 0, release.part)
-        const row = await tx.releaseShipment.create({
-          data: {
-            releaseId,
-            shipmentNumber: nextNumber + i,
-            pallets,
-            boxes: 0,
-            totalUnits: totals.totalUnits,
-            cartons: totals.cartons,
-            weight: totals.weight,
-            status: 'PENDING',
-            carrier: release.carrier,
-            shipDate: release.shipDate,
-          },
-        })
-        created.push(row)
+      const validationError = validatePalletSplits(palletSplits, targetPallets)
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 })
       }
 
-      return [...shipped, ...created]
-    })
-
-    await syncReleaseStatusFromShipments(releaseId)
-
-    const updatedRelease = await prisma.release.findUnique({
-      where: { id: releaseId },
-      include: {
-        part: true,
-        shippingLocation: true,
-        shipments: { orderBy: { shipmentNumber: 'asc' } },
-        user: { select: { name: true, email: true } },
-      },
-    })
-
-    return NextResponse.json({
-      release: updatedRelease,
-      shipments,
-    })
-  } catch (error) {
-    console.error('Error splitting shipment:', error)
-    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
-  }
-}
\ No newline at end of file
+      const shipments = await prisma.$transaction(async (tx) => {
+        if (shipped.length > 0) {
+          await tx.releaseShipment.deleteMany({
+            where: { releaseId, status: 'PENDING' },
+          })
+        } else {
+          await tx.releaseShipment.deleteMany({ where: { releaseId } })
+        }
+
+        const nextNumber =
+          shipped.length > 0
+            ? Math.max(...shipped.map((s) => s.shipmentNumber)) + 1
+            : 1
+
+        const created: ReleaseShipment[] = []
+        for (let i = 0; i < palletSplits.length; i++) {
+          const pallets = palletSplits[i]
+          const totals = shipmentTotals(pallets, 0, release.part)
+          const row = await tx.releaseShipment.create({
+            data: {
+              releaseId,
+              shipmentNumber: nextNumber + i,
+              pallets,
+              boxes: 0,
+              totalUnits: totals.totalUnits,
+              cartons: totals.cartons,
+              weight: totals.weight,
+              status: 'PENDING',
+              carrier: release.carrier,
+              shipDate: release.shipDate,
+            },
+          })
+          created.push(row)
+        }
+
+        return [...shipped, ...created]
+      })
+
+      await syncReleaseStatusFromShipments(releaseId)
+
+      const updatedRelease = await prisma.release.findUnique({
+        where: { id: releaseId },
+        include: {
+          part: true,
+          shippingLocation: true,
+          lines: releaseLinesInclude,
+          shipments: { orderBy: { shipmentNumber: 'asc' } },
+          user: { select: { name: true, email: true } },
+        },
+      })
+
+      return NextResponse.json({
+        release: updatedRelease,
+        shipments,
+      })
+    } catch (error) {
+      console.error('Error splitting shipment:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
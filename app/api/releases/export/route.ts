@@ -2,14 +2,20 @@
  * GET /api/releases/export
  *
  * Returns an .xlsx workbook with one row per release and every Release scalar
- * field flattened (plus part #, description, shipping location, user). Admin-only.
+ * field flattened (plus part #, description, shipping location, user), and a
+ * second "Release Lines" sheet with one row per part on each release, and a
+ * "PO Balances" sheet with one row per part on each blanket PO. Admin and
+ * accounting.
  * Nick filters / pivots in Excel — no server-side filtering.
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import ExcelJS from 'exceljs'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
+import { lotSummary } from '@/lib/inventory/lots'
+import { releaseLinesInclude, releaseLinesOf, releasePartSummary } from '@/lib/releases/lines'
+import { purchaseOrderLinesInclude, withBalances } from '@/lib/releases/purchase-orders'
+import { withAuth } from '@/lib/with-auth'
 
 function fmtDate(d: Date | null | undefined): string {
   if (!d) return ''
@@ -17,30 +23,12 @@ function fmtDate(d: Date | null | undefined): string {
   return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ permission: 'exportReleases', allowQueryToken: true }, async () => {
   try {
-    const authHeader = request.headers.get('authorization')
-    const tokenFromHeader = authHeader?.startsWith('Bearer ')
-      ? authHeader.substring(7)
-      : null
-    const tokenFromQuery = request.nextUrl.searchParams.get('token')
-    const token = tokenFromHeader || tokenFromQuery
-
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const user = await getUserFromToken(token)
-    if (!user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
-
     const releases = await prisma.release.findMany({
       include: {
-        part: { select: { partNumber: true, description: true } },
+        part: true,
+        lines: releaseLinesInclude,
         shippingLocation: { select: { name: true } },
         user: { select: { name: true, email: true } },
       },
@@ -85,6 +73,8 @@ export async function GET(request: NextRequest) {
       { header: 'Invoice Sent', key: 'invoiceSent', width: 12 },
       { header: 'Invoice Sent At', key: 'invoiceSentAt', width: 18 },
       { header: 'Impact Job ID', key: 'impactJobId', width: 14 },
+      { header: 'Cancelled At', key: 'cancelledAt', width: 18 },
+      { header: 'Cancellation Reason', key: 'cancellationReason', width: 32 },
       { header: 'Notes', key: 'notes', width: 40 },
       { header: 'User Name', key: 'userName', width: 20 },
       { header: 'User Email', key: 'userEmail', width: 28 },
@@ -94,12 +84,13 @@ export async function GET(request: NextRequest) {
     sheet.getRow(1).alignment = { vertical: 'middle' }
 
     for (const r of releases) {
+      const { partNumber, partDescription } = releasePartSummary(releaseLinesOf(r))
       sheet.addRow({
         releaseNumber: r.releaseNumber,
         status: r.status,
         createdAt: fmtDate(r.createdAt),
-        partNumber: r.part.partNumber,
-        partDescription: r.part.description,
+        partNumber,
+        partDescription,
         shippingLocationName: r.shippingLocation.name,
         pallets: r.pallets,
         boxes: r.boxes,
@@ -125,6 +116,8 @@ export async function GET(request: NextRequest) {
         invoiceSent: r.invoiceSent ? 'Yes' : 'No',
         invoiceSentAt: fmtDate(r.invoiceSentAt),
         impactJobId: r.impactJobId ?? '',
+        cancelledAt: fmtDate(r.cancelledAt),
+        cancellationReason: r.cancellationReason ?? '',
         notes: r.notes ?? '',
         userName: r.user.name,
         userEmail: r.user.email,
@@ -136,6 +129,99 @@ export async function GET(request: NextRequest) {
       to: { row: 1, column: sheet.columnCount },
     }
 
+    const linesSheet = workbook.addWorksheet('Release Lines', {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    })
+
+    linesSheet.columns = [
+      { header: 'Release #', key: 'releaseNumber', width: 14 },
+      { header: 'Line', key: 'lineNumber', width: 6 },
+      { header: 'Customer PO #', key: 'customerPONumber', width: 18 },
+      { header: 'Part #', key: 'partNumber', width: 16 },
+      { header: 'Part Description', key: 'partDescription', width: 36 },
+      { header: 'Pallets', key: 'pallets', width: 8 },
+      { header: 'Boxes', key: 'boxes', width: 8 },
+      { header: 'Total Units', key: 'totalUnits', width: 12 },
+      { header: 'Unit Price', key: 'unitPrice', width: 12 },
+      { header: 'Line Total', key: 'lineTotal', width: 14 },
+      { header: 'Lots', key: 'lots', width: 40 },
+    ]
+
+    linesSheet.getRow(1).font = { bold: true }
+    linesSheet.getRow(1).alignment = { vertical: 'middle' }
+
+    for (const r of releases) {
+      for (const line of releaseLinesOf(r)) {
+        linesSheet.addRow({
+          releaseNumber: r.releaseNumber,
+          lineNumber: line.lineNumber,
+          customerPONumber: r.customerPONumber,
+          partNumber: line.part.partNumber,
+          partDescription: line.part.description,
+          pallets: line.pallets,
+          boxes: line.boxes,
+          totalUnits: line.totalUnits,
+          unitPrice: line.unitPrice,
+          lineTotal: Math.round(line.totalUnits * line.unitPrice * 100) / 100,
+          lots: lotSummary(line.lotAllocations ?? []),
+        })
+      }
+    }
+
+    linesSheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: linesSheet.columnCount },
+    }
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      include: { lines: purchaseOrderLinesInclude },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const poSheet = workbook.addWorksheet('PO Balances', {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    })
+
+    poSheet.columns = [
+      { header: 'PO #', key: 'number', width: 18 },
+      { header: 'Expires', key: 'expiresAt', width: 18 },
+      { header: 'Expired', key: 'expired', width: 10 },
+      { header: 'Part #', key: 'partNumber', width: 16 },
+      { header: 'Part Description', key: 'partDescription', width: 36 },
+      { header: 'Unit Price', key: 'unitPrice', width: 12 },
+      { header: 'Authorized Units', key: 'authorizedUnits', width: 16 },
+      { header: 'Released Units', key: 'releasedUnits', width: 16 },
+      { header: 'Remaining Units', key: 'remainingUnits', width: 16 },
+      { header: 'Remaining Value', key: 'remainingValue', width: 16 },
+      { header: 'Notes', key: 'notes', width: 40 },
+    ]
+
+    poSheet.getRow(1).font = { bold: true }
+    poSheet.getRow(1).alignment = { vertical: 'middle' }
+
+    for (const po of purchaseOrders.map((p) => withBalances(p))) {
+      for (const line of po.lines) {
+        poSheet.addRow({
+          number: po.number,
+          expiresAt: fmtDate(po.expiresAt),
+          expired: po.expired ? 'Yes' : 'No',
+          partNumber: line.part.partNumber,
+          partDescription: line.part.description,
+          unitPrice: line.unitPrice,
+          authorizedUnits: line.authorizedUnits,
+          releasedUnits: line.releasedUnits,
+          remainingUnits: line.remainingUnits,
+          remainingValue: line.remainingValue,
+          notes: po.notes ?? '',
+        })
+      }
+    }
+
+    poSheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: poSheet.columnCount },
+    }
+
     const buffer = await workbook.xlsx.writeBuffer()
     const today = new Date().toISOString().slice(0, 10)
 
@@ -152,4 +238,4 @@ export async function GET(request: NextRequest) {
     console.error('Error exporting releases to Excel:', error)
     return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
   }
-}
+})
@@ -1,558 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
-import { savePackingSlip, generatePackingSlipBuffer } from '@/lib/documents/packing-slip'
-import { saveBoxLabels, generateBoxLabelsBuffer } from '@/lib/documents/box-labels'
-import { generateOrderAcknowledgementBuffer } from '@/lib/documents/order-acknowledgement'
-import { generateJdShipmentPaperworkBuffer } from '@/lib/documents/jd-shipment-paperwork'
-import { sendReleaseNotification, sendThreeZReleaseNotification } from '@/lib/email/sendgrid'
-import { createImpactJob, isImpactd122Configured } from '@/lib/integrations/impactd122'
-import { createThreezPortalJob, isThreezPortalConfigured } from '@/lib/integrations/threez-portal'
-import { createPressPlannerJob, isPressPlannerConfigured } from '@/lib/integrations/press-planner'
-import {
-  EPG_DEFAULT_CARRIER,
-  EPG_DEFAULT_FREIGHT_TERMS,
-  EPG_SHIP_TO,
-  JD_SHIP_FROM,
-} from '@/lib/epg'
-import { shipmentTotals } from '@/lib/shipments/helpers'
-
-export async function POST(request: NextRequest) {
+import { withIdempotency } from '@/lib/idempotency'
+import { releaseAccessWhere, releaseForUser } from '@/lib/releases/access'
+import { createRelease } from '@/lib/releases/create'
+import { releaseLinesInclude } from '@/lib/releases/lines'
+import { parseBody } from '@/lib/validation/request'
+import { createReleaseSchema } from '@/lib/validation/releases'
+import { withAuth } from '@/lib/with-auth'
+
+export const POST = withAuth({ permission: 'createReleases' }, async (request, user) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
-    const {
-      partId,
-      shippingLocationId,
-      pallets,
-      boxes,
-      notes,
-      customerPONumber,
-      batchNumber,
-      shipVia,
-      freightTerms,
-      paymentTerms,
-      shipDate,
-      etaDeliveryDate,
-      cartons,
-      weight,
-      shippingClass,
-      skidType,
-    } = await request.json()
-
-    if (!partId || !shippingLocationId || !customerPONumber) {
-      return NextResponse.json(
-        { error: 'Part ID, shipping location ID, and Customer PO# are required' },
-        { status: 400 }
-      )
-    }
-
-    if (skidType !== 'WOOD' && skidType !== 'HEAT_TREATED') {
-      return NextResponse.json(
-        { error: 'Skid type is required (WOOD or HEAT_TREATED)' },
-        { status: 400 }
-      )
-    }
-
-    // Apr 2026 EPG new process — every release must ship to EPG Knoxville.
-    // Belt-and-suspenders against any client bypassing the locked-down form.
-    const requestedLocation = await prisma.shippingLocation.findUnique({
-      where: { id: shippingLocationId },
-    })
-    if (!requestedLocation || requestedLocation.name !== EPG_SHIP_TO.name) {
-      return NextResponse.json(
-        { error: 'Releases must ship to the locked EPG location.' },
-        { status: 400 }
-      )
-    }
-
-    // Get part details
-    const part = await prisma.part.findUnique({
-      where: { id: partId },
-    })
-
-    if (!part) {
-      return NextResponse.json(
-        { error: 'Part not found' },
-        { status: 404 }
-      )
-    }
-
-    // Check if there's enough inventory
-    const requestedPallets = pallets || 5
-    const requestedBoxes = boxes || 0
-
-    if (part.currentPallets < requestedPallets ||
-        (part.currentPallets === requestedPallets && part.currentBoxes < requestedBoxes)) {
-      return NextResponse.json(
-        { error: 'Insufficient inventory' },
-        { status: 400 }
-      )
-    }
-
-    // Calculate total units using the part's configured boxes per pallet
-    const totalBoxesReleased = requestedPallets * part.boxesPerPallet + requestedBoxes
-    const totalUnits = totalBoxesReleased * part.unitsPerBox
-
-    // Generate release number (format: REL-YYYYMMDD-XXXX)
-    const now = new Date()
-    const dateStr = now.toISOString().split('T')[0].replace(/-/g, '')
-    const count = await prisma.release.count()
-    const releaseNumber = `REL-${dateStr}-${String(count + 1).padStart(4, '0')}`
-
-    // Auto-generate ticket number if not provided
-    const ticketNumber = `TKT-${String(count + 1).padStart(5, '0')}`
-
-    // Auto-generate batch number if not provided
-    const generatedBatchNumber = batchNumber || `${part.partNumber.slice(-4)}`
-
-    // Create release
-    const release = await prisma.release.create({
-      data: {
-        releaseNumber,
-        partId,
-        shippingLocationId,
-        pallets: requestedPallets,
-        boxes: requestedBoxes,
-        totalUnits,
-        userId: user.id,
-        customerPONumber,
-        ticketNumber,
-        batchNumber: generatedBatchNumber,
-        shipVia: shipVia || EPG_DEFAULT_CARRIER,
-        freightTerms: freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
-        paymentTerms: paymentTerms || '2% 30, Net 60',
-        shipDate: shipDate ? new Date(shipDate) : new Date(),
-        etaDeliveryDate: etaDeliveryDate ? new Date(etaDeliveryDate) : null,
-        cartons: cartons || totalBoxesReleased,
-        weight: weight || 0,
-        shippingClass: shippingClass || '55',
-        skidType,
-        notes,
-        status: 'COMPLETED',
-      },
-      include: {
-        part: true,
-        shippingLocation: true,
-        user: true,
-      },
-    })
-
-    // One default shipment line matching the full EPG release (splittable later)
-    const initialShipmentTotals = shipmentTotals(
-      requestedPallets,
-      requestedBoxes,
-      part,
-    )
-    await prisma.releaseShipment.create({
-      data: {
-        releaseId: release.id,
-        shipmentNumber: 1,
-        pallets: requestedPallets,
-        boxes: requestedBoxes,
-        totalUnits: initialShipmentTotals.totalUnits,
-        cartons: initialShipmentTotals.cartons,
-        weight: initialShipmentTotals.weight,
-        status: 'PENDING',
-        carrier: release.shipVia || EPG_DEFAULT_CARRIER,
-        shipDate: release.shipDate,
-      },
-    })
-
-    // Update part inventory using part's configured boxes per pallet
-    let newPallets = part.currentPallets - requestedPallets
-    let newBoxes = part.currentBoxes - requestedBoxes
-
-    if (newBoxes < 0) {
-      newPallets -= 1
-      newBoxes += part.boxesPerPallet
-    }
-
-    await prisma.part.update({
-      where: { id: partId },
-      data: {
-        currentPallets: newPallets,
-        currentBoxes: newBoxes,
-      },
-    })
-
-    // === AUTO-GENERATE ALL DOCUMENTS ===
-    // Build data objects first (no I/O)
-    // Combine shipping location instructions with release notes for packing slip
-    const shippingInstructions = [
-      release.shippingLocation.instructions,
-      release.notes
-    ].filter(Boolean).join(' | ') || undefined
-
-    // Apr 2026 EPG new process: JD ships from JD Elk Grove to EPG Knoxville on
-    // its own paperwork via FedEx Freight. The legacy EPG-branded packing slip is
-    // still generated for archival/audit, but the email now attaches the JD
-    // packing slip + BOL combo (lib/documents/jd-shipment-paperwork.ts) instead.
-    const packingSlipData = {
-      releaseNumber: release.releaseNumber,
-      ticketNumber: release.ticketNumber || 'N/A',
-      customerPONumber: release.customerPONumber,
-      date: release.createdAt,
-      shipTo: {
-        name: release.shippingLocation.name,
-        address: release.shippingLocation.address,
-        city: release.shippingLocation.city,
-        state: release.shippingLocation.state,
-        zip: release.shippingLocation.zip,
-        instructions: shippingInstructions,
-      },
-      shipFrom: {
-        name: JD_SHIP_FROM.name,
-        address: JD_SHIP_FROM.address,
-        city: JD_SHIP_FROM.city,
-        state: JD_SHIP_FROM.state,
-        zip: JD_SHIP_FROM.zip,
-        country: JD_SHIP_FROM.country,
-      },
-      lineItems: [
-        {
-          partNumber: release.part.partNumber,
-          description: release.part.description,
-          unitsPerBox: release.part.unitsPerBox,
-          ordered: release.totalUnits,
-          prevShip: 0,
-          shipped: release.totalUnits,
-          backOrdered: 0,
-        },
-      ],
-      shipVia: release.shipVia || EPG_DEFAULT_CARRIER,
-      freightTerms: release.freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
-      paymentTerms: release.paymentTerms || '2% 30, Net 60',
-      cartons: release.cartons || (release.pallets * release.part.boxesPerPallet + release.boxes),
-      weight: release.weight || 0,
-      shippingClass: release.shippingClass || '55',
-    }
-
-    const totalBoxes = release.pallets * release.part.boxesPerPallet + release.boxes
-    const boxLabelData = {
-      partNumber: release.part.partNumber,
-      description: release.part.description,
-      unitsPerBox: release.part.unitsPerBox,
-      batchNumber: release.batchNumber || 'N/A',
-      manufactureDate: release.shipDate || release.createdAt,
-      totalBoxes,
-    }
-
-    const orderTotal = release.totalUnits * release.part.pricePerUnit
-    const orderAckData = {
-      orderNumber: release.releaseNumber,
-      date: release.createdAt,
-      customerPONumber: release.customerPONumber,
-      shipDate: release.shipDate || release.createdAt,
-      etaDeliveryDate: release.etaDeliveryDate,
-      shipTo: {
-        name: EPG_SHIP_TO.name,
-        address: EPG_SHIP_TO.address,
-        city: EPG_SHIP_TO.city,
-        state: EPG_SHIP_TO.state,
-        zip: EPG_SHIP_TO.zip,
-      },
-      shipFrom: {
-        name: JD_SHIP_FROM.name,
-        address: JD_SHIP_FROM.address,
-        city: JD_SHIP_FROM.city,
-        state: JD_SHIP_FROM.state,
-        zip: JD_SHIP_FROM.zip,
-      },
-      lineItems: [
-        {
-          partNumber: release.part.partNumber,
-          description: release.part.description,
-          quantity: release.totalUnits,
-          unitPrice: release.part.pricePerUnit,
-          total: orderTotal,
-        },
-      ],
-      subtotal: orderTotal,
-      total: orderTotal,
-      paymentTerms: release.paymentTerms || '2% 30, Net 60',
-    }
-
-    // 1. Try to save documents to storage (optional - non-blocking)
-    let packingSlipUrl: string | null = null
-    let boxLabelsUrl: string | null = null
-
-    try {
-      packingSlipUrl = await savePackingSlip(release.id, packingSlipData)
-      boxLabelsUrl = await saveBoxLabels(release.id, boxLabelData)
-
-      // Update release with document URLs
-      await prisma.release.update({
-        where: { id: release.id },
-        data: {
-          packingSlipUrl,
-          boxLabelsUrl,
-          documentsGenerated: new Date().toISOString(),
-        },
-      })
-      console.log('✅ Documents saved to storage for release:', release.releaseNumber)
-    } catch (saveError) {
-      console.warn('⚠️ Document storage failed (email will still be sent):', saveError)
-      // Continue - email is more important than file storage
-    }
-
-    // 2. Generate PDF buffers (needed for both email and ImpactD122 webhook)
-    const packingSlipBuffer = generatePackingSlipBuffer(packingSlipData)
-    const boxLabelsBuffer = generateBoxLabelsBuffer(boxLabelData)
-    const orderAckBuffer = generateOrderAcknowledgementBuffer(orderAckData)
-
-    // Apr 2026 EPG new process: also generate JD-branded shipment paperwork
-    // (packing slip + BOL combo). This is what JD physically attaches to the
-    // skids when shipping to EPG Knoxville.
-    let jdPaperworkBuffer: Buffer | null = null
-    try {
-      jdPaperworkBuffer = generateJdShipmentPaperworkBuffer({
-        releaseNumber: release.releaseNumber,
-        ticketNumber: release.ticketNumber || 'N/A',
-        customerPONumber: release.customerPONumber,
-        date: release.createdAt,
-        shipDate: release.shipDate ?? null,
-        carrier: release.shipVia || EPG_DEFAULT_CARRIER,
-        freightTerms: release.freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
-        pallets: release.pallets,
-        cartons: release.cartons || (release.pallets * release.part.boxesPerPallet + release.boxes),
-        weight: release.weight ?? 0,
-        shippingClass: release.shippingClass || '55',
-        skidType: release.skidType,
-        notes: release.notes,
-        lineItems: [
-          {
-            partNumber: release.part.partNumber,
-            description: release.part.description,
-            unitsPerBox: release.part.unitsPerBox,
-            ordered: release.totalUnits,
-            shipped: release.totalUnits,
-          },
-        ],
-      })
-    } catch (e) {
-      console.error('⚠️ Failed to generate JD shipment paperwork (continuing):', e)
-    }
-
-    // 3. Send Email Notification with PDF buffers (no filesystem dependency)
-    // JD paperwork (packing slip + BOL) is the primary attachment under the new
-    // process; AOS box labels still ride along so JD applies them per Kirk.
-    try {
-      const releaseAttachments = [
-        ...(jdPaperworkBuffer
-          ? [
-              {
-                filename: `JD-${release.releaseNumber}-paperwork.pdf`,
-                content: jdPaperworkBuffer.toString('base64'),
-              },
-            ]
-          : []),
-        {
-          filename: 'box-labels.pdf',
-          content: boxLabelsBuffer.toString('base64'),
-        },
-      ]
-      await sendReleaseNotification(
-        {
-          releaseNumber: release.releaseNumber,
-          releaseId: release.id,
-          partNumber: release.part.partNumber,
-          partDescription: release.part.description,
-          pallets: release.pallets,
-          boxes: release.boxes,
-          totalUnits: release.totalUnits,
-          customerPONumber: release.customerPONumber,
-          shippingLocation: `${EPG_SHIP_TO.name}, ${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state}`,
-          invoiceTotal: `$${orderTotal.toFixed(2)}`,
-          notes: release.notes || undefined,
-          shipDate: release.shipDate?.toISOString() ?? null,
-          skidType: release.skidType,
-        },
-        releaseAttachments,
-      )
-
-      console.log('✅ Email sent for release:', release.releaseNumber)
-    } catch (emailError) {
-      console.error('❌ Email sending failed:', emailError)
-      // Don't fail the request - release was created successfully
-    }
-
-    // Email 1B: Three Z release notification (box labels attached so they can
-    // apply if Three Z is the one shipping). No more "DO NOT book truck" gate.
-    try {
-      await sendThreeZReleaseNotification(
-        {
-          releaseNumber: release.releaseNumber,
-          releaseId: release.id,
-          partNumber: release.part.partNumber,
-          partDescription: release.part.description,
-          pallets: release.pallets,
-          boxes: release.boxes,
-          totalUnits: release.totalUnits,
-          customerPONumber: release.customerPONumber,
-          shippingLocation: `${EPG_SHIP_TO.name}, ${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state}`,
-          invoiceTotal: `$${orderTotal.toFixed(2)}`,
-          notes: release.notes || undefined,
-          shipDate: release.shipDate?.toISOString() ?? null,
-          skidType: release.skidType,
-        },
-        {
-          filename: 'box-labels.pdf',
-          content: boxLabelsBuffer.toString('base64'),
-        }
-      )
-      console.log('✅ Three Z release email sent for:', release.releaseNumber)
-    } catch (threeZError) {
-      console.error('❌ Three Z release email failed:', threeZError)
-      // Don't fail the request
-    }
-
-    // 4. Create job in impactd122 via webhook
-    if (isImpactd122Configured()) {
-      try {
-        const impactResult = await createImpactJob({
-          // Required webhook fields
-          externalJobId: release.id,
-          jobNo: release.releaseNumber,
-          companyName: 'EPrint Group',
-
-          // Optional fields
-          title: `EPG Release - ${release.part.partNumber}`,
-          customerPONumber: release.customerPONumber,
-          quantity: release.totalUnits,
-          status: 'PO_RECEIVED',
-          createdAt: new Date().toISOString(),
-          specs: {
-            source: 'inventory-release-app',
-            releaseId: release.id,
-            partNumber: release.part.partNumber,
-            partDescription: release.part.description,
-            pallets: release.pallets,
-            boxes: release.boxes,
-            totalUnits: release.totalUnits,
-            shippingLocation: release.shippingLocation.name,
-            shippingAddress: {
-              address: release.shippingLocation.address,
-              city: release.shippingLocation.city,
-              state: release.shippingLocation.state,
-              zip: release.shippingLocation.zip,
-            },
-            ticketNumber: release.ticketNumber,
-            batchNumber: release.batchNumber,
-            manufactureDate: release.manufactureDate?.toISOString(),
-            shipVia: release.shipVia,
-            freightTerms: release.freightTerms,
-            sellPrice: orderTotal,
-
-            // Cost basis and vendor info for PO creation
-            // Default to ThreeZ for all EPrint Group releases (inventory stored at ThreeZ)
-            costBasisPerUnit: release.part.costBasisPerUnit || 0.24,
-            buyCost: release.totalUnits * (release.part.costBasisPerUnit || 0.24),
-            vendorName: release.part.vendorName || 'ThreeZ',
-            paperSource: 'VENDOR',
-
-            // PDFs for ThreeZ email (base64 encoded)
-            packingSlipPdf: packingSlipBuffer.toString('base64'),
-            boxLabelsPdf: boxLabelsBuffer.toString('base64'),
-          },
-        })
-
-        if (impactResult.success && impactResult.jobId) {
-          await prisma.release.update({
-            where: { id: release.id },
-            data: { impactJobId: impactResult.jobId },
-          })
-          console.log('✅ Impact job created:', impactResult.jobId)
-        } else {
-          console.warn('⚠️ Failed to create Impact job:', impactResult.error)
-        }
-      } catch (impactError) {
-        console.error('⚠️ Error creating Impact job:', impactError)
-        // Don't fail the release if impactd122 fails
+    // A retried submit with the same Idempotency-Key gets the first release back
+    return await withIdempotency(request, user.id, async () => {
+      const parsed = await parseBody(request, createReleaseSchema)
+      if (!parsed.success) return parsed.response
+
+      const result = await createRelease(user, parsed.data)
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
       }
-    }
-
-    // 5. Create job in Three Z Job Portal
-    if (isThreezPortalConfigured()) {
-      const releaseDetails = [
-        `Release #: ${release.releaseNumber}`,
-        `Part: ${release.part.partNumber} — ${release.part.description}`,
-        `Customer PO#: ${release.customerPONumber}`,
-        `Quantity: ${release.totalUnits.toLocaleString()} units (${release.pallets} pallets, ${release.boxes} boxes)`,
-        `Ship To: ${release.shippingLocation.name}`,
-        `Ship Via: ${release.shipVia || EPG_DEFAULT_CARRIER}`,
-        release.shipDate ? `Ship Date: ${new Date(release.shipDate).toLocaleDateString('en-US')}` : null,
-        release.notes ? `Notes: ${release.notes}` : null,
-        '',
-        'Source: Inventory Release App',
-      ].filter(Boolean).join('\n')
 
-      createThreezPortalJob({
-        title: `EPG Release — ${release.part.partNumber} — ${release.totalUnits.toLocaleString()} units`,
-        customerName: 'EPrint Group',
-        emailBody: releaseDetails,
-        releaseNumber: release.releaseNumber,
-        quantity: release.totalUnits,
-        sourceJobId: release.id,
-        callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/threez-status`,
-        shipDate: release.shipDate ? new Date(release.shipDate).toISOString() : undefined,
-        carrier: release.shipVia || undefined,
-        source: 'eprint-release',
-        poNumber: release.customerPONumber || undefined,
-      }).catch((err) =>
-        console.error('[threez-portal] Failed for release:', release.releaseNumber, err)
-      )
-    }
-
-    // Ship date string for integrations (YYYY-MM-DD)
-    const shipDateStr = release.shipDate
-      ? new Date(release.shipDate).toISOString().split('T')[0]
-      : new Date().toISOString().split('T')[0]
-
-    // 6. Create job in jd-press-planner (single source of truth — fans out to
-    //    jd-invoicing Sheets via press-planner's Flow 1 fan-out; proofflow is
-    //    skipped because skipProofing=true. Status is flipped to 'complete'
-    //    after creation so this doesn't pollute the production schedule.
-    if (isPressPlannerConfigured()) {
-      createPressPlannerJob({
-        releaseNumber: release.releaseNumber,
-        customerPONumber: release.customerPONumber,
-        partNumber: release.part.partNumber,
-        partDescription: release.part.description,
-        totalUnits: release.totalUnits,
-        pallets: release.pallets,
-        shipDateStr,
-        ticketNumber: release.ticketNumber,
-        batchNumber: release.batchNumber,
-        shippingLocationName: release.shippingLocation.name,
-        shippingLocationCity: release.shippingLocation.city,
-        shippingLocationState: release.shippingLocation.state,
-        shippingLocationAddress: release.shippingLocation.address,
-        shippingLocationZip: release.shippingLocation.zip,
-        shipVia: release.shipVia || EPG_DEFAULT_CARRIER,
-      }).catch((err) =>
-        console.error('[press-planner] Failed for release:', release.releaseNumber, err)
-      )
-    }
-
-    return NextResponse.json({ release })
+      return NextResponse.json({ release: result.release })
+    })
   } catch (error) {
     console.error('Error creating release:', error)
     return NextResponse.json(
@@ -560,41 +29,21 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({}, async (request, user) => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
-    // Get all releases for both admin and customer
-    // Customer should see all release history (same as admin)
-    const whereClause = {}
-
+    // Customer should see all release history (same as admin); vendors only
+    // see the releases shipping from their location
     const releases = await prisma.release.findMany({
-      where: whereClause,
+      where: releaseAccessWhere(user),
       omit: {
         customerPackingSlipData: true,
       },
       include: {
         part: true,
         shippingLocation: true,
+        lines: releaseLinesInclude,
         shipments: { orderBy: { shipmentNumber: 'asc' } },
         user: {
           select: {
@@ -608,7 +57,7 @@ export async function GET(request: NextRequest) {
       },
     })
 
-    return NextResponse.json({ releases })
+    return NextResponse.json({ releases: releases.map((r) => releaseForUser(user, r)) })
   } catch (error) {
     console.error('Error fetching releases:', error)
     return NextResponse.json(
@@ -616,4 +65,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,28 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getUserFromToken } from '@/lib/auth'
+import { withAuth } from '@/lib/with-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({}, async () => {
   try {
-    const authHeader = request.headers.get('authorization')
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    const user = await getUserFromToken(token)
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      )
-    }
-
     const locations = await prisma.shippingLocation.findMany({
       where: { isActive: true },
       orderBy: { name: 'asc' },
@@ -36,4 +17,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { availableBoxes, splitBoxes } from '@/lib/inventory/stock'
+import { stockLocationSchema } from '@/lib/validation/inventory'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/stock-locations — every location stock is held at, with on-hand
+ *   per part
+ * POST /api/stock-locations — add a location (admin only)
+ *   { code, name, address, city, state, zip, country?, phone?, vendorName?, isDefault? }
+ */
+export const GET = withAuth({}, async () => {
+  try {
+    const locations = await prisma.stockLocation.findMany({
+      include: {
+        stock: {
+          include: { part: true },
+          orderBy: { part: { partNumber: 'asc' } },
+        },
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({
+      locations: locations.map(({ stock, ...location }) => ({
+        ...location,
+        stock: stock.map((s) => ({
+          partId: s.partId,
+          partNumber: s.part.partNumber,
+          description: s.part.description,
+          ...splitBoxes(s.onHandBoxes, s.part.boxesPerPallet),
+          reserved: splitBoxes(s.reservedBoxes, s.part.boxesPerPallet),
+          available: splitBoxes(availableBoxes(s), s.part.boxesPerPallet),
+        })),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching stock locations:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const parsed = await parseBody(request, stockLocationSchema)
+    if (!parsed.success) return parsed.response
+    const { code, name, address, city, state, zip, country, phone, vendorName, isDefault } =
+      parsed.data
+
+    const existing = await prisma.stockLocation.findUnique({ where: { code } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Stock location ${code} already exists` },
+        { status: 400 }
+      )
+    }
+
+    // Only one location can be the default
+    const location = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.stockLocation.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.stockLocation.create({
+        data: {
+          code,
+          name,
+          address,
+          city,
+          state,
+          zip,
+          country: country || undefined,
+          phone,
+          vendorName,
+          isDefault,
+        },
+      })
+    })
+
+    return NextResponse.json({ location })
+  } catch (error) {
+    console.error('Error creating stock location:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,83 @@
+/**
+ * GET /api/stock-transfers/[transferId]/paperwork
+ *
+ * Packing slip + BOL for moving stock between locations (e.g. JD Elk Grove →
+ * Three Z). Same JD paperwork as a release, shipped from the transfer's from
+ * location to its to location, numbered by the transfer number.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  EPG_DEFAULT_CARRIER,
+  EPG_DEFAULT_CARRIER_ACCOUNT,
+  EPG_DEFAULT_FREIGHT_TERMS,
+} from '@/lib/epg'
+import { generateJdShipmentPaperwork } from '@/lib/documents/jd-shipment-paperwork'
+import { weightForPalletCount } from '@/lib/documents/release-document-data'
+import { shipFromAddress } from '@/lib/inventory/locations'
+import { withAuth } from '@/lib/with-auth'
+
+// An admin or warehouse user, or press-planner calling server-to-server with
+// the service key so staff open this from the job's Files panel.
+export const GET = withAuth<{ transferId: string }>(
+  { permission: 'shipReleases', allowServiceKey: true, allowQueryToken: true },
+  async (request, user, { params }) => {
+    try {
+      const { transferId } = await params
+
+      const transfer = await prisma.stockTransfer.findFirst({
+        where: { OR: [{ id: transferId }, { transferNumber: transferId }] },
+        include: { part: true, fromLocation: true, toLocation: true },
+      })
+
+      if (!transfer) {
+        return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+      }
+
+      const units = transfer.totalBoxes * transfer.part.unitsPerBox
+
+      const doc = generateJdShipmentPaperwork({
+        releaseNumber: transfer.transferNumber,
+        ticketNumber: transfer.transferNumber,
+        customerPONumber: 'Stock transfer',
+        date: transfer.createdAt,
+        shipDate: transfer.shipDate,
+        carrier: transfer.carrier || EPG_DEFAULT_CARRIER,
+        carrierAccountNumber: EPG_DEFAULT_CARRIER_ACCOUNT,
+        freightTerms: EPG_DEFAULT_FREIGHT_TERMS,
+        pallets: transfer.pallets,
+        cartons: transfer.totalBoxes,
+        weight: weightForPalletCount(transfer.pallets),
+        shippingClass: '55',
+        skidType: 'WOOD',
+        notes: transfer.notes,
+        shipFrom: shipFromAddress(transfer.fromLocation),
+        shipTo: shipFromAddress(transfer.toLocation),
+        lineItems: [
+          {
+            partNumber: transfer.part.partNumber,
+            description: transfer.part.description,
+            unitsPerBox: transfer.part.unitsPerBox,
+            ordered: units,
+            shipped: units,
+          },
+        ],
+      })
+
+      const pdf = Buffer.from(doc.output('arraybuffer'))
+
+      return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="JD-${transfer.transferNumber}-paperwork.pdf"`,
+          'Cache-Control': 'no-store',
+        },
+      })
+    } catch (error) {
+      console.error('Error generating transfer paperwork:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { transferLots } from '@/lib/inventory/lots'
+import { transferInventory } from '@/lib/inventory/stock'
+import { nextSequenceNumber } from '@/lib/sequences'
+import { stockTransferSchema } from '@/lib/validation/inventory'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+const transferInclude = {
+  part: true,
+  fromLocation: true,
+  toLocation: true,
+  user: {
+    select: {
+      name: true,
+      email: true,
+    },
+  },
+} as const
+
+/**
+ * POST /api/stock-transfers — move stock between locations (admin only)
+ *   { partId, fromLocationId, toLocationId, pallets, boxes?, carrier?, shipDate?, notes? }
+ * The part's total on-hand is unchanged; the move is posted to the ledger as a
+ * TRANSFER out of one location and into the other, and lot balances move too. Paperwork for the truck is
+ * at /api/stock-transfers/[transferId]/paperwork.
+ *
+ * GET /api/stock-transfers — transfer history, newest first (admin only)
+ */
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, stockTransferSchema)
+    if (!parsed.success) return parsed.response
+    const {
+      partId,
+      fromLocationId,
+      toLocationId,
+      pallets: movedPallets,
+      boxes: movedBoxes,
+      carrier,
+      shipDate,
+      notes,
+    } = parsed.data
+
+    const [part, fromLocation, toLocation] = await Promise.all([
+      prisma.part.findUnique({ where: { id: partId } }),
+      prisma.stockLocation.findUnique({ where: { id: fromLocationId } }),
+      prisma.stockLocation.findUnique({ where: { id: toLocationId } }),
+    ])
+
+    if (!part) {
+      return NextResponse.json({ error: 'Part not found' }, { status: 404 })
+    }
+    if (!fromLocation || !toLocation) {
+      return NextResponse.json({ error: 'Stock location not found' }, { status: 404 })
+    }
+
+    const totalBoxes = movedPallets * part.boxesPerPallet + movedBoxes
+    const parsedShipDate = shipDate ? new Date(shipDate) : null
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      const transferNumber = await nextSequenceNumber(tx, 'transfer')
+
+      const created = await tx.stockTransfer.create({
+        data: {
+          transferNumber,
+          partId,
+          fromLocationId,
+          toLocationId,
+          pallets: movedPallets,
+          boxes: movedBoxes,
+          totalBoxes,
+          carrier: carrier || null,
+          shipDate: parsedShipDate,
+          userId: user.id,
+          notes,
+        },
+        include: transferInclude,
+      })
+
+      // Throws INSUFFICIENT_INVENTORY when the from location is short
+      await transferInventory(tx, {
+        partId,
+        fromLocationId,
+        toLocationId,
+        boxes: totalBoxes,
+        userId: user.id,
+        stockTransferId: created.id,
+        reference: transferNumber,
+        notes,
+      })
+
+      // The boxes' lots go with them, oldest first
+      await transferLots(tx, { partId, fromLocationId, toLocationId, boxes: totalBoxes })
+
+      return created
+    })
+
+    console.log(
+      `🚚 Transfer ${transfer.transferNumber}: ${transfer.part.partNumber} ${totalBoxes} boxes ${fromLocation.code} → ${toLocation.code}`
+    )
+
+    return NextResponse.json({ transfer })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INSUFFICIENT_INVENTORY') {
+      return NextResponse.json(
+        { error: 'Insufficient inventory at the from location' },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating stock transfer:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
+
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const transfers = await prisma.stockTransfer.findMany({
+      include: transferInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    })
+
+    return NextResponse.json({ transfers })
+  } catch (error) {
+    console.error('Error fetching stock transfers:', error)
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+})
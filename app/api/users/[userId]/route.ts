@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { revokeUserSessions } from '@/lib/sessions'
+import { disableTwoFactor } from '@/lib/two-factor'
+import { userSummarySelect } from '@/lib/users'
+import { updateUserSchema } from '@/lib/validation/users'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * PATCH /api/users/[userId] — change a user's name, role or vendor location,
+ *   deactivate / reactivate them, force-reset their password, or turn off
+ *   their two-factor (admin only)
+ *   { name?, role?, active?, vendorLocationId?, password?, resetTwoFactor? }
+ *
+ * Users are deactivated rather than deleted: their releases, counts and
+ * ledger entries keep pointing at them. Deactivating or resetting the
+ * password signs the user out of every session. Admins can't deactivate or demote themselves, so
+ * there's always someone left to undo it.
+ */
+export const PATCH = withAuth<{ userId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { userId } = await params
+      const parsed = await parseBody(request, updateUserSchema)
+      if (!parsed.success) return parsed.response
+      const input = parsed.data
+
+      const existing = await prisma.user.findUnique({ where: { id: userId } })
+      if (!existing) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      if (userId === user.id && (input.active === false || (input.role && input.role !== 'ADMIN'))) {
+        return NextResponse.json(
+          { error: 'You cannot deactivate or change the role of your own account' },
+          { status: 400 }
+        )
+      }
+
+      const role = input.role ?? existing.role
+      const vendorLocationId =
+        role !== 'VENDOR'
+          ? null
+          : input.vendorLocationId !== undefined
+            ? input.vendorLocationId
+            : existing.vendorLocationId
+      if (role === 'VENDOR') {
+        if (!vendorLocationId) {
+          return NextResponse.json({ error: 'Vendor users need a stock location' }, { status: 400 })
+        }
+        const location = await prisma.stockLocation.findUnique({ where: { id: vendorLocationId } })
+        if (!location) {
+          return NextResponse.json({ error: 'Stock location not found' }, { status: 404 })
+        }
+      }
+
+      // They enroll again at their next sign-in if their role requires it
+      if (input.resetTwoFactor && existing.totpEnabledAt) {
+        await disableTwoFactor(userId)
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          name: input.name,
+          role,
+          active: input.active,
+          vendorLocationId,
+          ...(input.password ? { password: await hashPassword(input.password) } : {}),
+        },
+        select: userSummarySelect,
+      })
+
+      if (input.active === false || input.password) {
+        await revokeUserSessions(prisma, userId)
+      }
+
+      const changes = [
+        input.role && input.role !== existing.role && `role ${existing.role} → ${input.role}`,
+        input.active === false && existing.active && 'deactivated',
+        input.active === true && !existing.active && 'reactivated',
+        input.password && 'password reset',
+        input.resetTwoFactor && existing.totpEnabledAt && 'two-factor reset',
+      ].filter(Boolean)
+      if (changes.length > 0) {
+        console.log(`👤 User ${updated.email} ${changes.join(', ')} by ${user.email}`)
+      }
+
+      return NextResponse.json({ user: updated })
+    } catch (error) {
+      console.error('Error updating user:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { activeSessionWhere, revokeUserSessions, sessionSummarySelect } from '@/lib/sessions'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/users/[userId]/sessions — a user's active sessions (admin only)
+ * DELETE /api/users/[userId]/sessions — sign them out everywhere (admin only)
+ */
+export const GET = withAuth<{ userId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { userId } = await params
+
+      const sessions = await prisma.session.findMany({
+        where: activeSessionWhere(userId),
+        select: sessionSummarySelect,
+        orderBy: { lastUsedAt: 'desc' },
+      })
+
+      return NextResponse.json({ sessions })
+    } catch (error) {
+      console.error('Error fetching user sessions:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
+
+export const DELETE = withAuth<{ userId: string }>(
+  { roles: ['ADMIN'] },
+  async (request, user, { params }) => {
+    try {
+      const { userId } = await params
+
+      const account = await prisma.user.findUnique({ where: { id: userId } })
+      if (!account) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      const revoked = await revokeUserSessions(prisma, userId)
+      console.log(`🔒 ${account.email} signed out of ${revoked} session(s) by ${user.email}`)
+
+      return NextResponse.json({ revoked })
+    } catch (error) {
+      console.error('Error revoking user sessions:', error)
+      return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+    }
+  },
+)
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { userSummarySelect } from '@/lib/users'
+import { createUserSchema } from '@/lib/validation/users'
+import { parseBody } from '@/lib/validation/request'
+import { withAuth } from '@/lib/with-auth'
+
+/**
+ * GET /api/users — every user, active first, by name (admin only)
+ * POST /api/users — add a user with a temporary password (admin only)
+ *   { email, name, role, password, vendorLocationId? }
+ *
+ * VENDOR users need vendorLocationId, the stock location whose releases they
+ * see; it's ignored for every other role.
+ */
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const users = await prisma.user.findMany({
+      select: userSummarySelect,
+      orderBy: [{ active: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
+
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, user) => {
+  try {
+    const parsed = await parseBody(request, createUserSchema)
+    if (!parsed.success) return parsed.response
+    const input = parsed.data
+
+    const existing = await prisma.user.findUnique({ where: { email: input.email } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `A user with email ${input.email} already exists` },
+        { status: 400 }
+      )
+    }
+
+    const vendorLocationId = input.role === 'VENDOR' ? input.vendorLocationId : null
+    if (vendorLocationId) {
+      const location = await prisma.stockLocation.findUnique({ where: { id: vendorLocationId } })
+      if (!location) {
+        return NextResponse.json({ error: 'Stock location not found' }, { status: 404 })
+      }
+    }
+
+    const created = await prisma.user.create({
+      data: {
+        email: input.email,
+        name: input.name,
+        role: input.role,
+        password: await hashPassword(input.password),
+        vendorLocationId,
+      },
+      select: userSummarySelect,
+    })
+
+    console.log(`👤 User ${created.email} (${created.role}) added by ${user.email}`)
+
+    return NextResponse.json({ user: created })
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return NextResponse.json({ error: 'An error occurred' }, { status: 500 })
+  }
+})
@@ -1,22 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { validationErrorBody } from '@/lib/validation/errors'
+import { threezStatusSchema } from '@/lib/validation/integrations'
 
 /**
  * POST /api/webhooks/threez-status
  * Receives status update callbacks from the Three Z Job Portal
  * when a job's status changes (e.g., shipped with tracking info).
+ *
+ * Protected by THREEZ_WEBHOOK_SECRET, sent by the portal as X-Webhook-Secret
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { jobId, sourceJobId, status, trackingNumber, carrier, updatedAt } = body
+    const webhookSecret = process.env.THREEZ_WEBHOOK_SECRET
 
-    if (!sourceJobId) {
+    if (!webhookSecret || request.headers.get('x-webhook-secret') !== webhookSecret) {
       return NextResponse.json(
-        { success: false, error: 'sourceJobId is required' },
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = threezStatusSchema.safeParse(await request.json())
+
+    // The portal reads { success, error }; the field errors ride along
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, ...validationErrorBody(parsed.error) },
         { status: 400 }
       )
     }
+    const { jobId, sourceJobId, status, trackingNumber, carrier } = parsed.data
 
     console.log(`[threez-webhook] Status update: job=${jobId} sourceJobId=${sourceJobId} status=${status}`)
 
@@ -33,17 +47,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // If tracking info is provided and release doesn't already have tracking, update it
-    if (trackingNumber && !release.trackingNumber) {
+    // Only the tracking info is recorded. Shipping goes through mark-shipped,
+    // which moves the inventory and updates the shipments
+    if (release.status === 'CANCELLED') {
+      console.log(`[threez-webhook] Release ${release.releaseNumber} is cancelled, ignoring status=${status}`)
+    } else if (trackingNumber && !release.trackingNumber) {
       await prisma.release.update({
         where: { id: sourceJobId },
         data: {
           trackingNumber,
-          status: 'SHIPPED',
           ...(carrier ? { shipVia: carrier } : {}),
         },
       })
-      console.log(`[threez-webhook] Release ${release.releaseNumber} updated: trackingNumber=${trackingNumber} status=SHIPPED`)
+      console.log(`[threez-webhook] Release ${release.releaseNumber} updated: trackingNumber=${trackingNumber}`)
     } else {
       console.log(`[threez-webhook] Release ${release.releaseNumber}: status=${status} (no tracking update needed)`)
     }
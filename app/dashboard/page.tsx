@@ -16,14 +16,20 @@ interface Part {
   annualOrder: number
   currentPallets: number
   currentBoxes: number
+  reserved: { totalBoxes: number; pallets: number; boxes: number }
+  available: { totalBoxes: number; pallets: number; boxes: number }
   totalBoxes: number
   totalUnits: number
+  reservedUnits: number
+  availableUnits: number
   percentOfAnnual: number
   status: 'good' | 'low' | 'critical'
+  unitsPerDay: number
+  projectedStockoutDate: string | null
 }
 
 export default function DashboardPage() {
-  const { user, isAuthenticated, isLoading: authLoading, logout, token } = useAuth()
+  const { user, isAuthenticated, isLoading: authLoading, logout, token, can } = useAuth()
   const router = useRouter()
   const [parts, setParts] = useState<Part[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -115,12 +121,14 @@ export default function DashboardPage() {
               >
                 Dashboard
               </Link>
-              <Link
-                href="/release"
-                className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
-              >
-                Release Inventory
-              </Link>
+              {can('createReleases') && (
+                <Link
+                  href="/release"
+                  className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+                >
+                  Release Inventory
+                </Link>
+              )}
               <Link
                 href="/history"
                 className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
@@ -135,6 +143,12 @@ export default function DashboardPage() {
                   Admin
                 </Link>
               )}
+              <Link
+                href="/account"
+                className="px-4 py-2 text-brand-ink-soft hover:bg-brand-cream-deep rounded-lg font-medium"
+              >
+                Account
+              </Link>
             </nav>
             <button
               onClick={logout}
@@ -155,15 +169,17 @@ export default function DashboardPage() {
         )}
 
         {/* Quick Actions */}
-        <div className="mb-8">
-          <Link
-            href="/release"
-            className="inline-flex items-center px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark transition-colors shadow-sm"
-          >
-            <span className="text-xl mr-2">+</span>
-            Release Inventory
-          </Link>
-        </div>
+        {can('createReleases') && (
+          <div className="mb-8">
+            <Link
+              href="/release"
+              className="inline-flex items-center px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark transition-colors shadow-sm"
+            >
+              <span className="text-xl mr-2">+</span>
+              Release Inventory
+            </Link>
+          </div>
+        )}
 
         {/* Inventory Cards */}
         <div className="space-y-6">
@@ -204,15 +220,22 @@ export default function DashboardPage() {
                     </span>
                   </div>
 
-                  {/* Inventory Counts */}
-                  <div className="grid grid-cols-2 gap-4 mb-4">
+                  {/* Inventory Counts: on hand, reserved for unshipped releases, available */}
+                  <div className="grid grid-cols-3 gap-3 mb-4">
                     <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-brand-ink-mute mb-1">Pallets</p>
+                      <p className="text-sm text-brand-ink-mute mb-1">On Hand</p>
                       <p className="text-3xl font-bold text-brand-ink">{part.currentPallets}</p>
+                      <p className="text-xs text-brand-ink-mute">pallets + {part.currentBoxes} boxes</p>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <p className="text-sm text-brand-ink-mute mb-1">Reserved</p>
+                      <p className="text-3xl font-bold text-brand-ink">{part.reserved.pallets}</p>
+                      <p className="text-xs text-brand-ink-mute">pallets + {part.reserved.boxes} boxes</p>
                     </div>
                     <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm text-brand-ink-mute mb-1">Loose Boxes</p>
-                      <p className="text-3xl font-bold text-brand-ink">{part.currentBoxes}</p>
+                      <p className="text-sm text-brand-ink-mute mb-1">Available</p>
+                      <p className="text-3xl font-bold text-brand-ink">{part.available.pallets}</p>
+                      <p className="text-xs text-brand-ink-mute">pallets + {part.available.boxes} boxes</p>
                     </div>
                   </div>
 
@@ -230,12 +253,32 @@ export default function DashboardPage() {
                         {part.totalUnits.toLocaleString()}
                       </span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-brand-ink-mute">Reserved Units:</span>
+                      <span className="font-semibold text-brand-ink">
+                        {part.reservedUnits.toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-brand-ink-mute">Available Units:</span>
+                      <span className="font-semibold text-brand-ink">
+                        {part.availableUnits.toLocaleString()}
+                      </span>
+                    </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-brand-ink-mute">Annual Order:</span>
                       <span className="text-brand-ink-mute">
                         {part.annualOrder.toLocaleString()}
                       </span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-brand-ink-mute">Projected Stockout:</span>
+                      <span className="font-semibold text-brand-ink">
+                        {part.projectedStockoutDate
+                          ? new Date(part.projectedStockoutDate).toLocaleDateString()
+                          : 'No recent releases'}
+                      </span>
+                    </div>
                     <div className="mt-2 pt-2 border-t border-gray-100">
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-brand-ink-mute">Stock Level:</span>
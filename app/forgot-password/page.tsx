@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { forgotPasswordSchema } from '@/lib/validation/auth'
+import { formError } from '@/lib/validation/errors'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const invalid = formError(forgotPasswordSchema, { email })
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request a reset link')
+      }
+      setMessage(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request a reset link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8 bg-brand-cream">
+      <div className="w-full max-w-md">
+        <div className="bg-white border border-brand-rule rounded-md p-8 shadow-sm">
+          <div className="mb-8">
+            <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Forgot Password</div>
+            <h2 className="text-2xl font-semibold text-brand-ink">Reset your password</h2>
+            <p className="mt-2 text-sm text-brand-ink-mute">
+              Enter your email and we&apos;ll send you a link to choose a new password.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {message ? (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-800 rounded text-sm">
+              {message}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="email" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                  placeholder="you@company.com"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isLoading ? 'Sending…' : 'Send Reset Link'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            <Link href="/login" className="text-brand-rust hover:text-brand-rust-dark">
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
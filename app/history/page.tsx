@@ -4,7 +4,7 @@ import { Suspense, useEffect, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
-import { FileText, Tag, Package, X, Truck, Calendar, Receipt, Download, Loader2, Trash2, CheckCircle2, ExternalLink, Pencil, Split, Plus } from 'lucide-react'
+import { FileText, Tag, Package, X, Truck, Calendar, Receipt, Download, Loader2, Ban, CheckCircle2, ExternalLink, Pencil, Split, Plus } from 'lucide-react'
 
 interface ReleaseShipment {
   id: string
@@ -18,6 +18,60 @@ interface ReleaseShipment {
   shippedAt?: string | null
 }
 
+interface ReleaseRevision {
+  version: number
+  createdAt: string
+  user: { name: string }
+  changes: Array<{
+    field: string
+    label: string
+    previousValue: string | null
+    newValue: string | null
+  }>
+}
+
+interface ReleaseLine {
+  id: string
+  lineNumber: number
+  pallets: number
+  boxes: number
+  totalUnits: number
+  unitPrice: number
+  part: {
+    partNumber: string
+    description: string
+    unitsPerBox: number
+    boxesPerPallet: number
+  }
+  lotAllocations?: Array<{
+    id: string
+    boxes: number
+    production: {
+      lotNumber: string | null
+      manufactureDate: string
+    }
+  }>
+}
+
+interface PurchaseOrderBalance {
+  id: string
+  number: string
+  expiresAt: string | null
+  expired: boolean
+  authorizedUnits: number
+  releasedUnits: number
+  remainingUnits: number
+  remainingValue: number
+  lines: Array<{
+    id: string
+    authorizedUnits: number
+    releasedUnits: number
+    remainingUnits: number
+    unitPrice: number
+    part: { partNumber: string; description: string }
+  }>
+}
+
 interface Release {
   id: string
   releaseNumber: string
@@ -27,6 +81,7 @@ interface Release {
   status: string
   createdAt: string
   customerPONumber: string
+  purchaseOrderId?: string | null
   ticketNumber?: string | null
   batchNumber?: string | null
   shipVia?: string | null
@@ -45,6 +100,10 @@ interface Release {
   carrier?: string | null
   shippedAt?: string | null
   shippedByUserId?: string | null
+  cancelledAt?: string | null
+  cancellationReason?: string | null
+  revision?: number
+  approvalReasons?: string[]
   part: {
     partNumber: string
     description: string
@@ -64,6 +123,29 @@ interface Release {
     email: string
   }
   shipments?: ReleaseShipment[]
+  lines?: ReleaseLine[]
+}
+
+// Releases created before multi-line support have no stored lines; show them
+// as the single part they were released against.
+function linesOf(release: Release): ReleaseLine[] {
+  if (release.lines && release.lines.length > 0) return release.lines
+  return [
+    {
+      id: release.id,
+      lineNumber: 1,
+      pallets: release.pallets,
+      boxes: release.boxes,
+      totalUnits: release.totalUnits,
+      unitPrice: release.part.pricePerUnit,
+      part: release.part,
+    },
+  ]
+}
+
+// Cancelled releases and releases still awaiting approval can't be split or shipped
+function canShip(release: Release): boolean {
+  return release.status !== 'CANCELLED' && release.status !== 'PENDING_APPROVAL'
 }
 
 export default function HistoryPage() {
@@ -81,7 +163,7 @@ export default function HistoryPage() {
 }
 
 function HistoryPageInner() {
-  const { user, isAuthenticated, isLoading: authLoading, token } = useAuth()
+  const { user, isAuthenticated, isLoading: authLoading, token, can } = useAuth()
   const router = useRouter()
   const searchParams = useSearchParams()
   const [releases, setReleases] = useState<Release[]>([])
@@ -101,6 +183,8 @@ function HistoryPageInner() {
   const [markingShipmentId, setMarkingShipmentId] = useState<string | null>(null)
   const [unmarkingShipmentId, setUnmarkingShipmentId] = useState<string | null>(null)
   const [shipmentProInputs, setShipmentProInputs] = useState<Record<string, string>>({})
+  const [revisions, setRevisions] = useState<ReleaseRevision[]>([])
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderBalance[]>([])
 
   // Filters
   const [searchTerm, setSearchTerm] = useState('')
@@ -110,8 +194,8 @@ function HistoryPageInner() {
   // Download state
   const [downloadingDoc, setDownloadingDoc] = useState<string | null>(null)
 
-  // Delete state
-  const [isDeleting, setIsDeleting] = useState(false)
+  // Cancel state
+  const [isCancelling, setIsCancelling] = useState(false)
 
   // Mark Shipped state (Apr 2026 EPG new process — replaces customer packing-slip upload)
   const [isMarkingShipped, setIsMarkingShipped] = useState(false)
@@ -119,6 +203,9 @@ function HistoryPageInner() {
   const [proNumberInput, setProNumberInput] = useState('')
   const [carrierInput, setCarrierInput] = useState('XPO')
   const [shipDateInput, setShipDateInput] = useState('')
+  // Idempotency-Key for mark-shipped, so a retry can't email EPG twice; a new
+  // one is drawn after each successful ship
+  const [shipRequestKey, setShipRequestKey] = useState(() => crypto.randomUUID())
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -129,6 +216,7 @@ function HistoryPageInner() {
   useEffect(() => {
     if (isAuthenticated && token) {
       fetchReleases()
+      if (can('viewPrices')) fetchPurchaseOrders()
     }
   }, [isAuthenticated, token])
 
@@ -142,6 +230,7 @@ function HistoryPageInner() {
       setTrackingNumber(selectedRelease.trackingNumber || '')
       setShipDate(selectedRelease.shipDate ? selectedRelease.shipDate.split('T')[0] : '')
       fetchShipments(selectedRelease.id)
+      fetchRevisions(selectedRelease.id)
       setProNumberInput(selectedRelease.proNumber || '')
       setCarrierInput(selectedRelease.carrier || 'XPO')
       setShipDateInput(new Date().toISOString().split('T')[0])
@@ -184,6 +273,22 @@ function HistoryPageInner() {
     }
   }
 
+  // Blanket PO balances are informational; the page works without them
+  const fetchPurchaseOrders = async () => {
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      setPurchaseOrders(data.purchaseOrders || [])
+    } catch (err) {
+      console.error('Failed to fetch purchase orders:', err)
+    }
+  }
+
   const filterReleases = () => {
     let filtered = releases
 
@@ -191,13 +296,15 @@ function HistoryPageInner() {
       filtered = filtered.filter(
         (r) =>
           r.releaseNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          r.part.partNumber.includes(searchTerm) ||
+          linesOf(r).some((line) => line.part.partNumber.includes(searchTerm)) ||
           r.customerPONumber.includes(searchTerm)
       )
     }
 
     if (selectedPart) {
-      filtered = filtered.filter((r) => r.part.partNumber === selectedPart)
+      filtered = filtered.filter((r) =>
+        linesOf(r).some((line) => line.part.partNumber === selectedPart)
+      )
     }
 
     if (selectedLocation) {
@@ -226,6 +333,19 @@ function HistoryPageInner() {
     }
   }
 
+  const fetchRevisions = async (releaseId: string) => {
+    try {
+      const response = await fetch(`/api/releases/${releaseId}/revisions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      setRevisions(data.revisions || [])
+    } catch (err) {
+      console.error('Error fetching revisions:', err)
+    }
+  }
+
   const openSplitModal = () => {
     if (!selectedRelease) return
     const shippedPallets = shipments
@@ -234,7 +354,7 @@ function HistoryPageInner() {
     const remaining = selectedRelease.pallets - shippedPallets
     if (remaining <= 0) {
       const shippedShipment = shipments.find((s) => s.status === 'SHIPPED')
-      if (user?.role === 'ADMIN' && shippedShipment) {
+      if (can('shipReleases') && shippedShipment) {
         const reopen = confirm(
           `All ${selectedRelease.pallets} skid${selectedRelease.pallets === 1 ? '' : 's'} show as already shipped.\n\nReopen Shipment ${shippedShipment.shipmentNumber} first so you can split across trucks?`,
         )
@@ -243,7 +363,7 @@ function HistoryPageInner() {
         }
       } else {
         alert(
-          'All skids on this release have already shipped. An admin must use Mark Not Shipped on a shipment line first.',
+          'All skids on this release have already shipped. An admin or the warehouse must use Mark Not Shipped on a shipment line first.',
         )
       }
       return
@@ -378,6 +498,7 @@ function HistoryPageInner() {
           headers: {
             Authorization: `Bearer ${token}`,
             'Content-Type': 'application/json',
+            'Idempotency-Key': shipRequestKey,
           },
           body: JSON.stringify({ proNumber: pro, carrier: carrierInput || 'XPO' }),
         },
@@ -387,6 +508,7 @@ function HistoryPageInner() {
         throw new Error(data.error || 'Failed to mark shipment shipped')
       }
       const data = await response.json()
+      setShipRequestKey(crypto.randomUUID())
       setShipments(data.release?.shipments || [])
       setReleases(releases.map((r) => (r.id === data.release.id ? data.release : r)))
       setSelectedRelease(data.release)
@@ -501,33 +623,41 @@ function HistoryPageInner() {
     }
   }
 
-  const deleteRelease = async () => {
+  const cancelRelease = async () => {
     if (!selectedRelease) return
 
-    if (!confirm(`Are you sure you want to delete release ${selectedRelease.releaseNumber}?\n\nThis will restore ${selectedRelease.pallets} pallets to inventory.\n\nThis action cannot be undone.`)) {
+    const reason = prompt(
+      `Cancel release ${selectedRelease.releaseNumber}?\n\nThis will restore ${selectedRelease.pallets} pallets to inventory and email EPG and Three Z.\n\nReason for cancelling:`,
+    )
+    if (reason === null) return
+    if (!reason.trim()) {
+      alert('A cancellation reason is required.')
       return
     }
 
-    setIsDeleting(true)
+    setIsCancelling(true)
     try {
-      const response = await fetch(`/api/releases/${selectedRelease.id}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` },
+      const response = await fetch(`/api/releases/${selectedRelease.id}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ reason: reason.trim() }),
       })
 
+      const data = await response.json()
       if (!response.ok) {
-        const data = await response.json()
-        throw new Error(data.error || 'Failed to delete release')
+        throw new Error(data.error || 'Failed to cancel release')
       }
 
-      // Remove from list and close sidebar
-      setReleases(releases.filter(r => r.id !== selectedRelease.id))
-      setSelectedRelease(null)
-      alert('Release deleted successfully. Inventory has been restored.')
+      setReleases(releases.map((r) => (r.id === selectedRelease.id ? { ...r, ...data.release } : r)))
+      setSelectedRelease({ ...selectedRelease, ...data.release })
+      alert('Release cancelled. Inventory has been restored.')
     } catch (err) {
-      alert(err instanceof Error ? err.message : 'Failed to delete release')
+      alert(err instanceof Error ? err.message : 'Failed to cancel release')
     } finally {
-      setIsDeleting(false)
+      setIsCancelling(false)
     }
   }
 
@@ -548,6 +678,7 @@ function HistoryPageInner() {
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`,
+          'Idempotency-Key': shipRequestKey,
         },
         body: JSON.stringify({
           proNumber: proNumberInput.trim(),
@@ -562,6 +693,7 @@ function HistoryPageInner() {
       }
 
       const data = await response.json()
+      setShipRequestKey(crypto.randomUUID())
       setReleases(releases.map((r) => (r.id === data.release.id ? data.release : r)))
       setSelectedRelease(data.release)
       setShowMarkShippedForm(false)
@@ -600,7 +732,9 @@ function HistoryPageInner() {
     )
   }
 
-  const uniqueParts = Array.from(new Set(releases.map((r) => r.part.partNumber)))
+  const uniqueParts = Array.from(
+    new Set(releases.flatMap((r) => linesOf(r).map((line) => line.part.partNumber)))
+  )
   const uniqueLocations = Array.from(new Set(releases.map((r) => r.shippingLocation.name)))
 
   // Using dynamic boxesPerPallet from each part instead of hardcoded value
@@ -617,7 +751,7 @@ function HistoryPageInner() {
             </p>
           </div>
           <div className="flex items-center gap-4">
-            {user?.role === 'ADMIN' && (
+            {can('exportReleases') && (
               <button
                 onClick={downloadReleasesXlsx}
                 className="flex items-center gap-2 px-4 py-2 bg-emerald-700 text-white text-sm font-medium rounded-lg hover:bg-emerald-800"
@@ -702,6 +836,58 @@ function HistoryPageInner() {
             )}
           </div>
 
+          {/* Blanket PO balances — click a PO to filter to its releases */}
+          {purchaseOrders.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+              <h2 className="text-lg font-semibold text-brand-ink mb-4">Blanket PO Balances</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {purchaseOrders.map((po) => (
+                  <button
+                    key={po.id}
+                    onClick={() => setSearchTerm(po.number)}
+                    className={`text-left border rounded-lg p-4 hover:border-brand-rust ${
+                      searchTerm === po.number ? 'border-brand-rust' : 'border-brand-rule'
+                    } ${po.expired ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex justify-between items-baseline mb-2">
+                      <span className="font-semibold text-brand-ink">PO {po.number}</span>
+                      <span className="text-xs text-brand-ink-mute">
+                        {po.expired
+                          ? 'EXPIRED'
+                          : po.expiresAt
+                            ? `Expires ${new Date(po.expiresAt).toLocaleDateString()}`
+                            : 'No expiry'}
+                      </span>
+                    </div>
+                    {po.lines.map((line) => {
+                      const used = line.authorizedUnits > 0 ? line.releasedUnits / line.authorizedUnits : 0
+                      return (
+                        <div key={line.id} className="mb-2">
+                          <div className="flex justify-between text-xs text-brand-ink-soft">
+                            <span>#{line.part.partNumber}</span>
+                            <span>
+                              {line.remainingUnits.toLocaleString()} of {line.authorizedUnits.toLocaleString()} units
+                              left
+                            </span>
+                          </div>
+                          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-1">
+                            <div
+                              className={`h-full ${used >= 0.9 ? 'bg-red-500' : 'bg-brand-rust'}`}
+                              style={{ width: `${Math.min(100, Math.round(used * 100))}%` }}
+                            />
+                          </div>
+                        </div>
+                      )
+                    })}
+                    <div className="text-xs text-brand-ink-mute mt-2">
+                      ${po.remainingValue.toFixed(2)} remaining
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Releases List */}
           {isLoading ? (
             <div className="text-center py-12 text-brand-ink-mute">Loading releases...</div>
@@ -770,7 +956,11 @@ function HistoryPageInner() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-ink">
                           <div>#{release.part.partNumber}</div>
-                          <div className="text-xs text-brand-ink-mute">{release.part.description}</div>
+                          <div className="text-xs text-brand-ink-mute">
+                            {linesOf(release).length > 1
+                              ? `+ ${linesOf(release).length - 1} more part${linesOf(release).length === 2 ? '' : 's'}`
+                              : release.part.description}
+                          </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-ink-mute">
                           <div>{release.pallets} skid{release.pallets === 1 ? '' : 's'}</div>
@@ -804,7 +994,11 @@ function HistoryPageInner() {
                             className={`px-2 py-1 rounded-full text-xs font-medium ${
                               release.status === 'SHIPPED'
                                 ? 'bg-green-100 text-green-800'
-                                : release.status === 'PARTIALLY_SHIPPED'
+                                : release.status === 'CANCELLED'
+                                  ? 'bg-red-100 text-red-800'
+                                  : release.status === 'PENDING_APPROVAL'
+                                  ? 'bg-purple-100 text-purple-800'
+                                  : release.status === 'PARTIALLY_SHIPPED'
                                   ? 'bg-orange-100 text-orange-800'
                                   : release.status === 'READY_TO_SHIP'
                                     ? 'bg-blue-100 text-blue-800'
@@ -815,7 +1009,9 @@ function HistoryPageInner() {
                               ? 'OPEN'
                               : release.status === 'PARTIALLY_SHIPPED'
                                 ? 'PARTIAL'
-                                : release.status}
+                                : release.status === 'PENDING_APPROVAL'
+                                  ? 'AWAITING APPROVAL'
+                                  : release.status}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-brand-ink-mute">
@@ -890,7 +1086,11 @@ function HistoryPageInner() {
                   className={`px-3 py-1 rounded-full text-sm font-medium ${
                     selectedRelease.status === 'SHIPPED'
                       ? 'bg-green-100 text-green-800'
-                      : selectedRelease.status === 'PARTIALLY_SHIPPED'
+                      : selectedRelease.status === 'CANCELLED'
+                        ? 'bg-red-100 text-red-800'
+                        : selectedRelease.status === 'PENDING_APPROVAL'
+                        ? 'bg-purple-100 text-purple-800'
+                        : selectedRelease.status === 'PARTIALLY_SHIPPED'
                         ? 'bg-orange-100 text-orange-800'
                         : selectedRelease.status === 'READY_TO_SHIP'
                           ? 'bg-blue-100 text-blue-800'
@@ -901,18 +1101,64 @@ function HistoryPageInner() {
                     ? 'OPEN'
                     : selectedRelease.status === 'PARTIALLY_SHIPPED'
                       ? 'PARTIAL'
-                      : selectedRelease.status}
+                      : selectedRelease.status === 'PENDING_APPROVAL'
+                        ? 'AWAITING APPROVAL'
+                        : selectedRelease.status}
                 </span>
+                {selectedRelease.status === 'PENDING_APPROVAL' && (
+                  <div className="mt-3 p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-900">
+                    <p className="font-semibold">Awaiting admin approval</p>
+                    {(selectedRelease.approvalReasons ?? []).map((reason) => (
+                      <p key={reason} className="mt-1">{reason}</p>
+                    ))}
+                  </div>
+                )}
+                {selectedRelease.status === 'CANCELLED' && (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-900">
+                    <p className="font-semibold">
+                      Cancelled
+                      {selectedRelease.cancelledAt
+                        ? ` ${new Date(selectedRelease.cancelledAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+                        : ''}
+                    </p>
+                    {selectedRelease.cancellationReason && (
+                      <p className="mt-1">{selectedRelease.cancellationReason}</p>
+                    )}
+                  </div>
+                )}
               </div>
 
-              {/* Part Info */}
+              {/* Part Info — one block per release line */}
               <div className="mb-6 p-4 bg-gray-50 rounded-lg">
                 <h3 className="font-semibold text-brand-ink mb-2">Part Information</h3>
-                <p className="text-lg font-bold text-brand-rust">#{selectedRelease.part.partNumber}</p>
-                <p className="text-sm text-brand-ink-mute">{selectedRelease.part.description}</p>
-                <div className="mt-2 text-sm text-brand-ink-mute">
-                  {selectedRelease.part.unitsPerBox} units/box • {selectedRelease.part.boxesPerPallet} boxes/skid
-                </div>
+                {linesOf(selectedRelease).map((line, idx) => (
+                  <div
+                    key={line.id}
+                    className={idx > 0 ? 'mt-3 pt-3 border-t border-brand-rule' : ''}
+                  >
+                    <p className="text-lg font-bold text-brand-rust">#{line.part.partNumber}</p>
+                    <p className="text-sm text-brand-ink-mute">{line.part.description}</p>
+                    <div className="mt-2 text-sm text-brand-ink-mute">
+                      {line.part.unitsPerBox} units/box • {line.part.boxesPerPallet} boxes/skid
+                    </div>
+                    {linesOf(selectedRelease).length > 1 && (
+                      <div className="text-sm text-brand-ink">
+                        {line.pallets} skid{line.pallets === 1 ? '' : 's'}
+                        {line.boxes > 0 && ` + ${line.boxes} boxes`} • {line.totalUnits.toLocaleString()} units
+                      </div>
+                    )}
+                    {line.lotAllocations && line.lotAllocations.length > 0 && (
+                      <div className="mt-1 text-xs text-brand-ink-mute">
+                        {line.lotAllocations.map((a) => (
+                          <div key={a.id}>
+                            Lot {a.production.lotNumber || 'N/A'} • MFG{' '}
+                            {new Date(a.production.manufactureDate).toLocaleDateString()} • {a.boxes} boxes
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
               </div>
 
               {/* EPG original release + shipment sub-lines */}
@@ -934,13 +1180,15 @@ function HistoryPageInner() {
                   </div>
                 </div>
 
-                <button
-                  onClick={openSplitModal}
-                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border-2 border-brand-rust text-brand-rust font-medium rounded-lg hover:bg-brand-rust-soft mb-4"
-                >
-                  <Split className="w-4 h-4" />
-                  Split Shipment
-                </button>
+                {can('createReleases') && canShip(selectedRelease) && (
+                  <button
+                    onClick={openSplitModal}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border-2 border-brand-rust text-brand-rust font-medium rounded-lg hover:bg-brand-rust-soft mb-4"
+                  >
+                    <Split className="w-4 h-4" />
+                    Split Shipment
+                  </button>
+                )}
 
                 <div className="space-y-2">
                   <p className="text-xs font-semibold uppercase tracking-wider text-brand-ink-mute">
@@ -978,7 +1226,7 @@ function HistoryPageInner() {
                           </span>
                         </div>
 
-                        {user?.role === 'ADMIN' && shipment.status === 'PENDING' && (
+                        {can('shipReleases') && shipment.status === 'PENDING' && canShip(selectedRelease) && (
                           <div className="mt-3 space-y-2 border-t border-brand-rule pt-3">
                             <button
                               onClick={() => openJdPaperwork(selectedRelease.id, shipment.id)}
@@ -1019,7 +1267,7 @@ function HistoryPageInner() {
                                   : ''}
                               </p>
                             )}
-                            {user?.role === 'ADMIN' && (
+                            {can('shipReleases') && (
                               <button
                                 onClick={() => unmarkShipmentShipped(shipment)}
                                 disabled={unmarkingShipmentId === shipment.id}
@@ -1053,7 +1301,12 @@ function HistoryPageInner() {
               <div className="mb-6 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-brand-ink-mute">Customer PO#:</span>
-                  <span className="font-medium">{selectedRelease.customerPONumber}</span>
+                  <span className="font-medium">
+                    {selectedRelease.customerPONumber}
+                    {selectedRelease.purchaseOrderId && (
+                      <span className="ml-1 text-xs text-brand-ink-mute">(blanket PO)</span>
+                    )}
+                  </span>
                 </div>
                 {selectedRelease.ticketNumber && (
                   <div className="flex justify-between text-sm">
@@ -1082,47 +1335,49 @@ function HistoryPageInner() {
               </div>
 
               {/* Shipping Update Form */}
-              <div className="mb-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
-                <h3 className="font-semibold text-brand-ink mb-4 flex items-center gap-2">
-                  <Truck className="w-5 h-5" />
-                  Shipping Information
-                </h3>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-brand-ink-soft mb-1">
-                      Tracking Number
-                    </label>
-                    <input
-                      type="text"
-                      value={trackingNumber}
-                      onChange={(e) => setTrackingNumber(e.target.value)}
-                      placeholder="Enter tracking number"
-                      className="w-full px-3 py-2 border border-brand-rule rounded-lg"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-brand-ink-soft mb-1">
-                      Ship Date
-                    </label>
-                    <input
-                      type="date"
-                      value={shipDate}
-                      onChange={(e) => setShipDate(e.target.value)}
-                      className="w-full px-3 py-2 border border-brand-rule rounded-lg"
-                    />
+              {can('createReleases') && (
+                <div className="mb-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+                  <h3 className="font-semibold text-brand-ink mb-4 flex items-center gap-2">
+                    <Truck className="w-5 h-5" />
+                    Shipping Information
+                  </h3>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-brand-ink-soft mb-1">
+                        Tracking Number
+                      </label>
+                      <input
+                        type="text"
+                        value={trackingNumber}
+                        onChange={(e) => setTrackingNumber(e.target.value)}
+                        placeholder="Enter tracking number"
+                        className="w-full px-3 py-2 border border-brand-rule rounded-lg"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-brand-ink-soft mb-1">
+                        Ship Date
+                      </label>
+                      <input
+                        type="date"
+                        value={shipDate}
+                        onChange={(e) => setShipDate(e.target.value)}
+                        className="w-full px-3 py-2 border border-brand-rule rounded-lg"
+                      />
+                    </div>
+                    <button
+                      onClick={updateRelease}
+                      disabled={isUpdating}
+                      className="w-full px-4 py-2 bg-brand-rust text-white font-medium rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUpdating ? 'Updating...' : 'Update Shipping Info'}
+                    </button>
                   </div>
-                  <button
-                    onClick={updateRelease}
-                    disabled={isUpdating}
-                    className="w-full px-4 py-2 bg-brand-rust text-white font-medium rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {isUpdating ? 'Updating...' : 'Update Shipping Info'}
-                  </button>
                 </div>
-              </div>
+              )}
 
               {/* Mark Shipped (legacy whole-release — use per-shipment above when split) */}
-              {user?.role === 'ADMIN' && shipments.length <= 1 && (
+              {can('shipReleases') && shipments.length <= 1 && canShip(selectedRelease) && (
                 <div className="mb-6 p-4 bg-emerald-50 rounded-lg border border-emerald-200">
                   <h3 className="font-semibold text-brand-ink mb-2 flex items-center gap-2">
                     <CheckCircle2 className="w-5 h-5 text-emerald-700" />
@@ -1242,40 +1497,84 @@ function HistoryPageInner() {
                       <Tag className="w-5 h-5 text-green-600" />
                     )}
                     <span className="font-medium">
-                      Box Labels ({selectedRelease.pallets * selectedRelease.part.boxesPerPallet + selectedRelease.boxes} labels)
+                      Box Labels (
+                      {linesOf(selectedRelease).reduce(
+                        (sum, line) => sum + line.pallets * line.part.boxesPerPallet + line.boxes,
+                        0,
+                      )}{' '}
+                      labels)
                     </span>
                     <Download className="w-4 h-4 ml-auto text-gray-400" />
                   </button>
-                  <button
-                    onClick={() => downloadDocument(selectedRelease.id, 'invoice')}
-                    disabled={downloadingDoc === `${selectedRelease.id}-invoice`}
-                    className="flex items-center gap-2 p-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep w-full disabled:opacity-50"
-                  >
-                    {downloadingDoc === `${selectedRelease.id}-invoice` ? (
-                      <Loader2 className="w-5 h-5 text-purple-600 animate-spin" />
-                    ) : (
-                      <Receipt className="w-5 h-5 text-purple-600" />
-                    )}
-                    <span className="font-medium">Invoice to EPrint Group</span>
-                    <Download className="w-4 h-4 ml-auto text-gray-400" />
-                  </button>
+                  {can('viewPrices') && (
+                    <button
+                      onClick={() => downloadDocument(selectedRelease.id, 'invoice')}
+                      disabled={downloadingDoc === `${selectedRelease.id}-invoice`}
+                      className="flex items-center gap-2 p-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep w-full disabled:opacity-50"
+                    >
+                      {downloadingDoc === `${selectedRelease.id}-invoice` ? (
+                        <Loader2 className="w-5 h-5 text-purple-600 animate-spin" />
+                      ) : (
+                        <Receipt className="w-5 h-5 text-purple-600" />
+                      )}
+                      <span className="font-medium">Invoice to EPrint Group</span>
+                      <Download className="w-4 h-4 ml-auto text-gray-400" />
+                    </button>
+                  )}
                 </div>
               </div>
 
               {/* Invoice Total */}
-              {selectedRelease.part.pricePerUnit && (
+              {can('viewPrices') && (
                 <div className="p-4 bg-green-50 rounded-lg border border-green-200">
                   <h3 className="font-semibold text-brand-ink mb-2">Invoice Total</h3>
                   <p className="text-2xl font-bold text-green-700">
-                    ${(selectedRelease.totalUnits * selectedRelease.part.pricePerUnit).toLocaleString(undefined, {
-                      minimumFractionDigits: 2,
-                      maximumFractionDigits: 2,
-                    })}
-                  </p>
-                  <p className="text-sm text-brand-ink-mute mt-1">
-                    {selectedRelease.totalUnits.toLocaleString()} units × $
-                    {selectedRelease.part.pricePerUnit.toFixed(4)}/unit
+                    ${linesOf(selectedRelease)
+                      .reduce((sum, line) => sum + line.totalUnits * line.unitPrice, 0)
+                      .toLocaleString(undefined, {
+                        minimumFractionDigits: 2,
+                        maximumFractionDigits: 2,
+                      })}
                   </p>
+                  {linesOf(selectedRelease).map((line) => (
+                    <p key={line.id} className="text-sm text-brand-ink-mute mt-1">
+                      {linesOf(selectedRelease).length > 1 && `#${line.part.partNumber}: `}
+                      {line.totalUnits.toLocaleString()} units × $
+                      {line.unitPrice.toFixed(4)}/unit
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* Revision History — one entry per amendment, newest first */}
+              {revisions.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="font-semibold text-brand-ink mb-2 flex items-center gap-2">
+                    <Pencil className="w-4 h-4" />
+                    Revision History
+                  </h3>
+                  <div className="space-y-3">
+                    {revisions.map((rev) => (
+                      <div key={rev.version} className="p-3 bg-gray-50 rounded-lg text-sm">
+                        <div className="flex justify-between text-xs text-brand-ink-mute mb-1">
+                          <span className="font-semibold text-brand-ink">Revision {rev.version}</span>
+                          <span>
+                            {new Date(rev.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                            {' • '}
+                            {rev.user.name}
+                          </span>
+                        </div>
+                        {rev.changes.map((change) => (
+                          <div key={change.field} className="text-brand-ink-soft">
+                            <span className="text-brand-ink-mute">{change.label}:</span>{' '}
+                            <span className="line-through text-brand-ink-mute">{change.previousValue ?? '—'}</span>
+                            {' → '}
+                            <span className="font-medium text-brand-ink">{change.newValue ?? '—'}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
 
@@ -1289,21 +1588,22 @@ function HistoryPageInner() {
                 </div>
               )}
 
-              {/* Delete Button - Admin Only, Non-Shipped */}
+              {/* Cancel Button - Admin Only, Non-Shipped */}
               {user?.role === 'ADMIN' &&
                 selectedRelease.status !== 'SHIPPED' &&
-                selectedRelease.status !== 'PARTIALLY_SHIPPED' && (
+                selectedRelease.status !== 'PARTIALLY_SHIPPED' &&
+                canShip(selectedRelease) && (
                 <div className="mt-6 pt-4 border-t border-red-200">
                   <button
-                    onClick={deleteRelease}
-                    disabled={isDeleting}
+                    onClick={cancelRelease}
+                    disabled={isCancelling}
                     className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    <Trash2 className="w-4 h-4" />
-                    {isDeleting ? 'Deleting...' : 'Delete Release'}
+                    <Ban className="w-4 h-4" />
+                    {isCancelling ? 'Cancelling...' : 'Cancel Release'}
                   </button>
                   <p className="text-xs text-brand-ink-mute mt-2 text-center">
-                    This will restore inventory and cannot be undone
+                    This will restore inventory and notify EPG, Three Z and connected systems
                   </p>
                 </div>
               )}
@@ -1,7 +1,9 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAuth } from '@/contexts/AuthContext'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useAuth, type LoginChallenge } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 
 export default function LoginPage() {
@@ -9,14 +11,19 @@ export default function LoginPage() {
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const { login, isAuthenticated, isLoading: authLoading } = useAuth()
+  // Second step for two-factor accounts
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null)
+  const [code, setCode] = useState('')
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const { login, completeTwoFactor, isAuthenticated, isLoading: authLoading } = useAuth()
   const router = useRouter()
 
   useEffect(() => {
-    if (isAuthenticated && !authLoading) {
+    // Mid-way through two-factor, the steps below decide when to move on
+    if (isAuthenticated && !authLoading && !challenge) {
       router.push('/dashboard')
     }
-  }, [isAuthenticated, authLoading, router])
+  }, [isAuthenticated, authLoading, challenge, router])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -24,7 +31,12 @@ export default function LoginPage() {
     setIsLoading(true)
 
     try {
-      await login(email, password)
+      const pending = await login(email, password)
+      if (pending) {
+        setChallenge(pending)
+        setCode('')
+        return
+      }
       router.push('/dashboard')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed')
@@ -33,6 +45,34 @@ export default function LoginPage() {
     }
   }
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challenge) return
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const codes = await completeTwoFactor(challenge.challengeToken, code)
+      if (codes) {
+        // Just enrolled: show the backup codes once before moving on
+        setBackupCodes(codes)
+        return
+      }
+      router.push('/dashboard')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startOver = () => {
+    setChallenge(null)
+    setCode('')
+    setPassword('')
+    setError('')
+  }
+
   if (authLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-brand-cream">
@@ -65,56 +105,157 @@ export default function LoginPage() {
       <div className="flex-1 flex items-center justify-center p-8 bg-brand-cream">
         <div className="w-full max-w-md">
           <div className="bg-white border border-brand-rule rounded-md p-8 shadow-sm">
-            <div className="mb-8">
-              <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Sign In</div>
-              <h2 className="text-2xl font-semibold text-brand-ink">Welcome back</h2>
-            </div>
+            {backupCodes ? (
+              <>
+                <div className="mb-6">
+                  <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Two-Factor On</div>
+                  <h2 className="text-2xl font-semibold text-brand-ink">Save your backup codes</h2>
+                  <p className="mt-2 text-sm text-brand-ink-mute">
+                    Each code signs you in once if you lose your phone. Store them somewhere safe — they
+                    won&apos;t be shown again.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2 mb-6 p-4 bg-brand-cream-deep/50 border border-brand-rule rounded font-mono text-sm text-brand-ink">
+                  {backupCodes.map((backupCode) => (
+                    <div key={backupCode}>{backupCode}</div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => router.push('/dashboard')}
+                  className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft transition-colors"
+                >
+                  I&apos;ve saved them — Continue
+                </button>
+              </>
+            ) : challenge ? (
+              <>
+                <div className="mb-8">
+                  <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Two-Factor</div>
+                  <h2 className="text-2xl font-semibold text-brand-ink">
+                    {challenge.enrollment ? 'Set up your authenticator' : 'Enter your code'}
+                  </h2>
+                  <p className="mt-2 text-sm text-brand-ink-mute">
+                    {challenge.enrollment
+                      ? 'Your account requires two-factor authentication. Scan this with an authenticator app, then enter the 6-digit code it shows.'
+                      : 'Enter the 6-digit code from your authenticator app, or one of your backup codes.'}
+                  </p>
+                </div>
 
-            {error && (
-              <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
-                {error}
-              </div>
-            )}
+                {error && (
+                  <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+                    {error}
+                  </div>
+                )}
 
-            <form onSubmit={handleSubmit} className="space-y-5">
-              <div>
-                <label htmlFor="email" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
-                  Email
-                </label>
-                <input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
-                  placeholder="you@company.com"
-                />
-              </div>
+                {challenge.enrollment && (
+                  <div className="mb-6 text-center">
+                    <Image
+                      src={challenge.enrollment.qrCode}
+                      alt="Two-factor QR code"
+                      width={192}
+                      height={192}
+                      unoptimized
+                      className="mx-auto border border-brand-rule rounded"
+                    />
+                    <p className="mt-2 text-xs text-brand-ink-mute">
+                      Can&apos;t scan it? Enter this key: <span className="font-mono">{challenge.enrollment.secret}</span>
+                    </p>
+                  </div>
+                )}
 
-              <div>
-                <label htmlFor="password" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
-                  Password
-                </label>
-                <input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
-                  placeholder="••••••••"
-                />
-              </div>
+                <form onSubmit={handleVerify} className="space-y-5">
+                  <div>
+                    <label htmlFor="code" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
+                      Code
+                    </label>
+                    <input
+                      id="code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      required
+                      autoFocus
+                      className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink font-mono tracking-widest focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                      placeholder="123456"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isLoading ? 'Verifying…' : 'Verify'}
+                  </button>
+                </form>
 
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                {isLoading ? 'Signing in…' : 'Sign In'}
-              </button>
-            </form>
+                <div className="mt-6 text-center text-sm">
+                  <button onClick={startOver} className="text-brand-rust hover:text-brand-rust-dark">
+                    Back to sign in
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="mb-8">
+                  <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Sign In</div>
+                  <h2 className="text-2xl font-semibold text-brand-ink">Welcome back</h2>
+                </div>
+
+                {error && (
+                  <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-5">
+                  <div>
+                    <label htmlFor="email" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
+                      Email
+                    </label>
+                    <input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                      placeholder="you@company.com"
+                    />
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label htmlFor="password" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute">
+                        Password
+                      </label>
+                      <Link href="/forgot-password" className="text-xs text-brand-rust hover:text-brand-rust-dark">
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                      placeholder="••••••••"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isLoading ? 'Signing in…' : 'Sign In'}
+                  </button>
+                </form>
+              </>
+            )}
 
             <div className="mt-8 pt-6 border-t border-brand-rule">
               <p className="text-xs tracking-wider uppercase text-brand-ink-mute mb-3">Demo Credentials</p>
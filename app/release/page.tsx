@@ -5,6 +5,14 @@ import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { CheckCircle, FileText, Tag, Package } from 'lucide-react'
+import { formError } from '@/lib/validation/errors'
+import {
+  createReleaseSchema,
+  releaseDraftSchema,
+  releaseTemplateSchema,
+  updateReleaseSchema,
+  type ReleaseDraftData,
+} from '@/lib/validation/releases'
 
 interface Part {
   id: string
@@ -14,6 +22,17 @@ interface Part {
   boxesPerPallet: number
   currentPallets: number
   currentBoxes: number
+  available: { totalBoxes: number; pallets: number; boxes: number }
+  stockByLocation?: Array<{ stockLocationId: string; available: { pallets: number } }>
+}
+
+interface StockLocation {
+  id: string
+  code: string
+  name: string
+  city: string
+  state: string
+  isDefault: boolean
 }
 
 interface ShippingLocation {
@@ -25,6 +44,31 @@ interface ShippingLocation {
   zip: string
 }
 
+interface ReleaseLine {
+  id: string
+  lineNumber: number
+  pallets: number
+  boxes: number
+  totalUnits: number
+  part: Part
+}
+
+interface ReleaseTemplate {
+  id: string
+  name: string
+  lines: Array<{ partId: string; pallets: number }>
+  skidType: 'WOOD' | 'HEAT_TREATED' | null
+  freightTerms: string | null
+  notes: string | null
+  userId: string
+  user: { name: string }
+}
+
+interface ReleaseDraft {
+  data: ReleaseDraftData
+  updatedAt: string
+}
+
 interface Release {
   id: string
   releaseNumber: string
@@ -35,10 +79,13 @@ interface Release {
   totalUnits: number
   part: Part
   shippingLocation: ShippingLocation
+  lines?: ReleaseLine[]
+  status: string
+  approvalReasons: string[]
 }
 
 export default function ReleasePage() {
-  const { user, isAuthenticated, isLoading: authLoading, token } = useAuth()
+  const { user, isAuthenticated, isLoading: authLoading, token, can } = useAuth()
   const router = useRouter()
   const [step, setStep] = useState(1)
   const [parts, setParts] = useState<Part[]>([])
@@ -57,9 +104,11 @@ export default function ReleasePage() {
   }
 
   // Form data
-  const [selectedPartId, setSelectedPartId] = useState('')
+  // One entry per part on the release, in the order they were picked
+  const [lineItems, setLineItems] = useState<Array<{ partId: string; pallets: number }>>([])
   const [selectedLocationId, setSelectedLocationId] = useState('')
-  const [pallets, setPallets] = useState(5)
+  const [stockLocations, setStockLocations] = useState<StockLocation[]>([])
+  const [shipFromId, setShipFromId] = useState('')
   const [notes, setNotes] = useState('')
   const [customerPONumber, setCustomerPONumber] = useState('')
   const [batchNumber, setBatchNumber] = useState('')
@@ -67,6 +116,9 @@ export default function ReleasePage() {
   const [freightTerms, setFreightTerms] = useState('Prepaid')
   const [shipDate, setShipDate] = useState(nextBusinessDayISO())
   const [skidType, setSkidType] = useState<'' | 'WOOD' | 'HEAT_TREATED'>('')
+  // Sent as Idempotency-Key so a double-click or retry can't create a second
+  // release; a new one is drawn once this release is created
+  const [submissionKey, setSubmissionKey] = useState(() => crypto.randomUUID())
 
   // Calculate ETA delivery date (5 business days from ship date)
   const calculateETA = (shipDateStr: string): string => {
@@ -84,6 +136,12 @@ export default function ReleasePage() {
 
   const etaDeliveryDate = calculateETA(shipDate)
 
+  // Templates and the saved draft
+  const [templates, setTemplates] = useState<ReleaseTemplate[]>([])
+  const [savedDraft, setSavedDraft] = useState<ReleaseDraft | null>(null)
+  const [isSavingDraft, setIsSavingDraft] = useState(false)
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
+
   // Release result
   const [release, setRelease] = useState<Release | null>(null)
   const [editPallets, setEditPallets] = useState(5)
@@ -98,28 +156,46 @@ export default function ReleasePage() {
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
       router.push('/')
+    } else if (!authLoading && !can('createReleases')) {
+      // Warehouse, accounting, vendor and read-only users can't release
+      router.push('/dashboard')
     }
-  }, [isAuthenticated, authLoading, router])
+  }, [isAuthenticated, authLoading, router, can])
 
   useEffect(() => {
-    if (isAuthenticated && token) {
+    if (isAuthenticated && token && can('createReleases')) {
       fetchData()
     }
-  }, [isAuthenticated, token])
+  }, [isAuthenticated, token, can])
 
   const fetchData = async () => {
     try {
-      const [partsRes, locationsRes] = await Promise.all([
+      const [partsRes, locationsRes, stockLocationsRes, templatesRes, draftRes] = await Promise.all([
         fetch('/api/parts', {
           headers: { Authorization: `Bearer ${token}` },
         }),
         fetch('/api/shipping-locations', {
           headers: { Authorization: `Bearer ${token}` },
         }),
+        fetch('/api/stock-locations', {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        fetch('/api/release-templates', {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        fetch('/api/release-drafts', {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
       ])
 
       const partsData = await partsRes.json()
       const locationsData = await locationsRes.json()
+      const stockLocationsData = await stockLocationsRes.json()
+      const templatesData = await templatesRes.json()
+      const draftData = await draftRes.json()
+
+      setTemplates(templatesData.templates || [])
+      setSavedDraft(draftData.draft || null)
 
       setParts(partsData.parts)
       setLocations(locationsData.locations)
@@ -128,6 +204,12 @@ export default function ReleasePage() {
       if (locationsData.locations?.length > 0) {
         setSelectedLocationId(locationsData.locations[0].id)
       }
+      // Ship from the default stock location (JD Elk Grove) unless changed
+      setStockLocations(stockLocationsData.locations || [])
+      const defaultStock = stockLocationsData.locations?.find((l: StockLocation) => l.isDefault)
+      if (defaultStock) {
+        setShipFromId(defaultStock.id)
+      }
     } catch (err) {
       setError('Failed to load data')
     } finally {
@@ -136,6 +218,31 @@ export default function ReleasePage() {
   }
 
   const handleSubmit = async () => {
+    const payload = {
+      lines: lineItems.map((line) => ({
+        partId: line.partId,
+        pallets: line.pallets,
+        boxes: 0,
+      })),
+      shippingLocationId: selectedLocationId,
+      stockLocationId: shipFromId || undefined,
+      notes,
+      customerPONumber,
+      batchNumber,
+      shipVia,
+      freightTerms,
+      shipDate,
+      etaDeliveryDate,
+      skidType,
+    }
+
+    // Same rules the route applies, so obvious mistakes never leave the page
+    const invalid = formError(createReleaseSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
     setIsLoading(true)
     setError('')
 
@@ -145,21 +252,9 @@ export default function ReleasePage() {
         headers: {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
+          'Idempotency-Key': submissionKey,
         },
-        body: JSON.stringify({
-          partId: selectedPartId,
-          shippingLocationId: selectedLocationId,
-          pallets,
-          boxes: 0,
-          notes,
-          customerPONumber,
-          batchNumber,
-          shipVia,
-          freightTerms,
-          shipDate,
-          etaDeliveryDate,
-          skidType,
-        }),
+        body: JSON.stringify(payload),
       })
 
       if (!response.ok) {
@@ -171,6 +266,17 @@ export default function ReleasePage() {
       setRelease(data.release)
       setEditPallets(data.release.pallets)
       setStep(3)
+      setSubmissionKey(crypto.randomUUID())
+
+      // The draft has become a release
+      if (savedDraft || draftSavedAt) {
+        fetch('/api/release-drafts', {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }).catch((err) => console.error('Error clearing draft:', err))
+        setSavedDraft(null)
+        setDraftSavedAt(null)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create release')
     } finally {
@@ -178,9 +284,165 @@ export default function ReleasePage() {
     }
   }
 
+  // Parts that no longer exist are dropped from templates and drafts
+  const knownLines = (lines: Array<{ partId: string; pallets: number }>) =>
+    lines.filter((line) => parts.some((p) => p.id === line.partId))
+
+  const applyTemplate = (template: ReleaseTemplate) => {
+    setLineItems(knownLines(template.lines))
+    setSkidType(template.skidType ?? '')
+    if (template.freightTerms) setFreightTerms(template.freightTerms)
+    setNotes(template.notes ?? '')
+    setStep(2)
+  }
+
+  const resumeDraft = (draft: ReleaseDraft) => {
+    const d = draft.data
+    setLineItems(knownLines(d.lines))
+    if (d.stockLocationId) setShipFromId(d.stockLocationId)
+    setCustomerPONumber(d.customerPONumber ?? '')
+    setBatchNumber(d.batchNumber ?? '')
+    if (d.shipVia) setShipVia(d.shipVia)
+    if (d.freightTerms) setFreightTerms(d.freightTerms)
+    // A ship date that has passed falls back to the next business day
+    if (d.shipDate && d.shipDate >= new Date().toISOString().split('T')[0]) setShipDate(d.shipDate)
+    setSkidType(d.skidType ?? '')
+    setNotes(d.notes ?? '')
+    setStep(d.step === 2 && d.lines.length > 0 ? 2 : 1)
+    setSavedDraft(null)
+  }
+
+  const discardDraft = async () => {
+    if (!confirm('Discard your saved draft?')) return
+    try {
+      await fetch('/api/release-drafts', {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      setSavedDraft(null)
+    } catch (err) {
+      console.error('Error discarding draft:', err)
+    }
+  }
+
+  const saveDraft = async () => {
+    const payload = {
+      step,
+      lines: lineItems,
+      stockLocationId: shipFromId,
+      customerPONumber,
+      batchNumber,
+      shipVia,
+      freightTerms,
+      shipDate,
+      skidType,
+      notes,
+    }
+    const invalid = formError(releaseDraftSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsSavingDraft(true)
+    setError('')
+    try {
+      const response = await fetch('/api/release-drafts', {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save draft')
+      }
+
+      const data = await response.json()
+      setDraftSavedAt(data.draft.updatedAt)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save draft')
+    } finally {
+      setIsSavingDraft(false)
+    }
+  }
+
+  const saveAsTemplate = async () => {
+    const name = prompt('Template name (e.g. "Weekly 5 skids — HT"):')
+    if (!name?.trim()) return
+
+    const payload = {
+      name,
+      lines: lineItems,
+      skidType: skidType || null,
+      freightTerms,
+      notes,
+    }
+    const invalid = formError(releaseTemplateSchema, payload)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setError('')
+    try {
+      const response = await fetch('/api/release-templates', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save template')
+      }
+
+      const data = await response.json()
+      setTemplates(
+        [...templates, data.template].sort((a, b) => a.name.localeCompare(b.name))
+      )
+      alert(`Template "${data.template.name}" saved`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    }
+  }
+
+  const deleteTemplate = async (template: ReleaseTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return
+
+    setError('')
+    try {
+      const response = await fetch(`/api/release-templates/${template.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete template')
+      }
+
+      setTemplates(templates.filter((t) => t.id !== template.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
+
   const updateSkids = async () => {
     if (!release) return
 
+    const invalid = formError(updateReleaseSchema, { pallets: editPallets })
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
     setIsUpdatingSkids(true)
     setError('')
 
@@ -263,7 +525,28 @@ export default function ReleasePage() {
     )
   }
 
-  const selectedPart = parts.find((p) => p.id === selectedPartId)
+  const togglePart = (partId: string) => {
+    setLineItems((current) =>
+      current.some((line) => line.partId === partId)
+        ? current.filter((line) => line.partId !== partId)
+        : [...current, { partId, pallets: 5 }],
+    )
+  }
+
+  const setLinePallets = (partId: string, linePallets: number) => {
+    setLineItems((current) =>
+      current.map((line) => (line.partId === partId ? { ...line, pallets: linePallets } : line)),
+    )
+  }
+
+  const selectedLines = lineItems
+    .map((line) => ({ ...line, part: parts.find((p) => p.id === line.partId) }))
+    .filter((line): line is { partId: string; pallets: number; part: Part } => !!line.part)
+  const releaseLines = release?.lines?.length
+    ? release.lines
+    : release
+      ? [{ id: release.id, lineNumber: 1, pallets: release.pallets, boxes: release.boxes, totalUnits: release.totalUnits, part: release.part }]
+      : []
   const selectedLocation = locations.find((l) => l.id === selectedLocationId)
 
   return (
@@ -331,7 +614,70 @@ export default function ReleasePage() {
           {/* Step 1: Select Part */}
           {step === 1 && (
             <div>
-              <h2 className="text-2xl font-bold text-brand-ink mb-6">Select Part Number</h2>
+              <h2 className="text-2xl font-bold text-brand-ink mb-2">Select Part Number(s)</h2>
+              <p className="text-sm text-brand-ink-mute mb-6">
+                Pick every part going out on this PO — they ship together on one release.
+              </p>
+
+              {savedDraft && (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex justify-between items-center gap-4">
+                  <p className="text-sm text-yellow-900">
+                    You have an unfinished release saved{' '}
+                    {new Date(savedDraft.updatedAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                    {savedDraft.data.customerPONumber && ` (PO ${savedDraft.data.customerPONumber})`}.
+                  </p>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => resumeDraft(savedDraft)}
+                      className="px-4 py-2 bg-brand-rust text-white text-sm font-medium rounded-lg hover:bg-brand-rust-dark"
+                    >
+                      Resume
+                    </button>
+                    <button
+                      onClick={discardDraft}
+                      className="px-4 py-2 text-brand-ink-soft text-sm border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {templates.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-sm font-medium text-brand-ink-soft mb-2">Start from a template</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {templates.map((template) => (
+                      <div
+                        key={template.id}
+                        className="flex items-center border border-brand-rule rounded-lg overflow-hidden"
+                      >
+                        <button
+                          onClick={() => applyTemplate(template)}
+                          title={`Saved by ${template.user.name}`}
+                          className="px-3 py-2 text-sm font-medium text-brand-ink hover:bg-brand-rust-soft"
+                        >
+                          {template.name}
+                        </button>
+                        {(user.role === 'ADMIN' || template.userId === user.id) && (
+                          <button
+                            onClick={() => deleteTemplate(template)}
+                            aria-label={`Delete template ${template.name}`}
+                            className="px-2 py-2 text-sm text-brand-ink-mute hover:text-red-600 border-l border-brand-rule"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               {isLoading ? (
                 <div className="text-center py-8 text-brand-ink-mute">Loading parts...</div>
               ) : (
@@ -339,9 +685,9 @@ export default function ReleasePage() {
                   {parts.map((part) => (
                     <div
                       key={part.id}
-                      onClick={() => setSelectedPartId(part.id)}
+                      onClick={() => togglePart(part.id)}
                       className={`p-4 border-2 rounded-lg cursor-pointer transition-all ${
-                        selectedPartId === part.id
+                        lineItems.some((line) => line.partId === part.id)
                           ? 'border-brand-rust bg-brand-rust-soft'
                           : 'border-brand-rule hover:border-brand-rust'
                       }`}
@@ -358,7 +704,7 @@ export default function ReleasePage() {
                         </div>
                         <div className="text-right">
                           <p className="text-sm text-brand-ink-mute">Available:</p>
-                          <p className="text-xl font-bold text-brand-ink">{part.currentPallets}</p>
+                          <p className="text-xl font-bold text-brand-ink">{part.available.pallets}</p>
                           <p className="text-sm text-brand-ink-mute">pallets</p>
                         </div>
                       </div>
@@ -369,7 +715,7 @@ export default function ReleasePage() {
               <div className="mt-6 flex justify-end">
                 <button
                   onClick={() => setStep(2)}
-                  disabled={!selectedPartId}
+                  disabled={lineItems.length === 0}
                   className="px-6 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Next →
@@ -379,38 +725,38 @@ export default function ReleasePage() {
           )}
 
           {/* Step 2: Confirm Details */}
-          {step === 2 && selectedPart && (
+          {step === 2 && selectedLines.length > 0 && (
             <div>
               <h2 className="text-2xl font-bold text-brand-ink mb-6">Confirm Release Details</h2>
 
-              <div className="bg-gray-50 p-4 rounded-lg mb-6">
-                <h3 className="font-semibold text-brand-ink mb-2">Selected Part:</h3>
-                <p className="text-brand-ink-soft">
-                  Part #{selectedPart.partNumber} - {selectedPart.description}
-                </p>
-              </div>
+              {selectedLines.map((line) => (
+                <div key={line.partId} className="bg-gray-50 p-4 rounded-lg mb-4">
+                  <h3 className="font-semibold text-brand-ink mb-2">
+                    Part #{line.part.partNumber} - {line.part.description}
+                  </h3>
+                  <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                    Number of Pallets
+                  </label>
+                  <input
+                    type="number"
+                    value={line.pallets}
+                    onChange={(e) => setLinePallets(line.partId, parseInt(e.target.value) || 5)}
+                    min={1}
+                    max={line.part.available.pallets}
+                    className="w-full px-4 py-2 border border-brand-rule rounded-lg bg-white"
+                  />
+                  <p className="text-sm text-brand-ink-mute mt-1">
+                    = {line.pallets * line.part.boxesPerPallet} boxes = {' '}
+                    {(line.pallets * line.part.boxesPerPallet * line.part.unitsPerBox).toLocaleString()}{' '}
+                    units
+                  </p>
+                </div>
+              ))}
 
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-brand-ink-soft mb-2">
-                  Number of Pallets
-                </label>
-                <input
-                  type="number"
-                  value={pallets}
-                  onChange={(e) => setPallets(parseInt(e.target.value) || 5)}
-                  min={1}
-                  max={selectedPart.currentPallets}
-                  className="w-full px-4 py-2 border border-brand-rule rounded-lg"
-                />
-                <p className="text-sm text-brand-ink-mute mt-1">
-                  = {pallets * selectedPart.boxesPerPallet} boxes = {' '}
-                  {(pallets * selectedPart.boxesPerPallet * selectedPart.unitsPerBox).toLocaleString()}{' '}
-                  units
-                </p>
-                <p className="text-sm font-medium text-brand-ink-soft mt-2">
-                  Total Cartons: {pallets * selectedPart.boxesPerPallet}
-                </p>
-              </div>
+              <p className="text-sm font-medium text-brand-ink-soft mb-6">
+                Total Cartons:{' '}
+                {selectedLines.reduce((sum, line) => sum + line.pallets * line.part.boxesPerPallet, 0)}
+              </p>
 
               <div className="mb-6">
                 <label className="block text-sm font-medium text-brand-ink-soft mb-2">
@@ -530,6 +876,35 @@ export default function ReleasePage() {
                 </div>
               </div>
 
+              {stockLocations.length > 1 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-brand-ink-soft mb-2">
+                    Ship From
+                  </label>
+                  <select
+                    value={shipFromId}
+                    onChange={(e) => setShipFromId(e.target.value)}
+                    className="w-full px-4 py-2 border border-brand-rule rounded-lg"
+                  >
+                    {stockLocations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name} — {location.city}, {location.state}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedLines.map((line) => {
+                    const atLocation = line.part.stockByLocation?.find(
+                      (s) => s.stockLocationId === shipFromId
+                    )
+                    return (
+                      <p key={line.partId} className="text-sm text-brand-ink-mute mt-1">
+                        Part #{line.part.partNumber}: {atLocation?.available.pallets ?? 0} pallets available here
+                      </p>
+                    )
+                  })}
+                </div>
+              )}
+
               <div className="mb-6">
                 <label className="block text-sm font-medium text-brand-ink-soft mb-2">
                   Skid Type <span className="text-red-500">*</span>
@@ -577,6 +952,27 @@ export default function ReleasePage() {
                 />
               </div>
 
+              <div className="mb-6 flex flex-wrap items-center gap-3">
+                <button
+                  onClick={saveDraft}
+                  disabled={isSavingDraft}
+                  className="px-4 py-2 text-sm text-brand-ink-soft border border-brand-rule rounded-lg hover:bg-brand-cream-deep disabled:opacity-50"
+                >
+                  {isSavingDraft ? 'Saving...' : 'Save Draft'}
+                </button>
+                <button
+                  onClick={saveAsTemplate}
+                  className="px-4 py-2 text-sm text-brand-ink-soft border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                >
+                  Save as Template
+                </button>
+                {draftSavedAt && (
+                  <span className="text-xs text-brand-ink-mute">
+                    Draft saved {new Date(draftSavedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                )}
+              </div>
+
               <div className="flex justify-between">
                 <button
                   onClick={() => setStep(1)}
@@ -602,49 +998,71 @@ export default function ReleasePage() {
                 <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <CheckCircle className="w-10 h-10 text-green-600" />
                 </div>
-                <h2 className="text-2xl font-bold text-brand-ink mb-2">Release Created!</h2>
+                <h2 className="text-2xl font-bold text-brand-ink mb-2">
+                  {release.status === 'PENDING_APPROVAL' ? 'Release Submitted for Approval' : 'Release Created!'}
+                </h2>
                 <p className="text-brand-ink-mute">Release #{release.releaseNumber}</p>
               </div>
 
+              {release.status === 'PENDING_APPROVAL' && (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-left text-sm text-yellow-900">
+                  <p className="font-semibold mb-1">
+                    A JD admin needs to approve this release before paperwork is produced and EPG and Three Z are notified:
+                  </p>
+                  <ul className="list-disc list-inside">
+                    {release.approvalReasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="bg-gray-50 p-6 rounded-lg mb-6 text-left">
                 <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-brand-ink-mute">Part:</span>
-                    <span className="font-semibold">
-                      #{release.part.partNumber} - {release.part.description}
-                    </span>
-                  </div>
-                  <div className="pt-2 border-t border-gray-200">
-                    <p className="text-xs text-brand-ink-mute mb-2">
-                      Shipping across multiple days? Set today&apos;s skid count here, then create
-                      another release tomorrow for the balance.
-                    </p>
-                    <label className="block text-sm font-medium text-brand-ink-soft mb-1">
-                      Skids to Release
-                    </label>
-                    <input
-                      type="number"
-                      min={1}
-                      step={1}
-                      value={editPallets}
-                      onChange={(e) =>
-                        setEditPallets(Math.max(1, parseInt(e.target.value, 10) || 1))
-                      }
-                      className="w-full px-3 py-2 border border-brand-rule rounded-lg"
-                    />
-                    <p className="text-xs text-brand-ink-mute mt-1">
-                      = {editPallets * release.part.boxesPerPallet} boxes •{' '}
-                      {(editPallets * release.part.boxesPerPallet * release.part.unitsPerBox).toLocaleString()}{' '}
-                      units
-                    </p>
-                    <button
-                      onClick={updateSkids}
-                      disabled={isUpdatingSkids || editPallets === release.pallets}
-                      className="w-full mt-2 px-4 py-2 bg-brand-rust text-white font-medium rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {isUpdatingSkids ? 'Updating...' : 'Update Skids'}
-                    </button>
-                  </div>
+                  {releaseLines.map((line) => (
+                    <div key={line.id} className="flex justify-between">
+                      <span className="text-brand-ink-mute">
+                        {releaseLines.length > 1 ? `Line ${line.lineNumber}:` : 'Part:'}
+                      </span>
+                      <span className="font-semibold">
+                        #{line.part.partNumber} - {line.part.description}
+                        {releaseLines.length > 1 && ` (${line.pallets} skids)`}
+                      </span>
+                    </div>
+                  ))}
+                  {releaseLines.length === 1 && (
+                    <div className="pt-2 border-t border-gray-200">
+                      <p className="text-xs text-brand-ink-mute mb-2">
+                        Shipping across multiple days? Set today&apos;s skid count here, then create
+                        another release tomorrow for the balance.
+                      </p>
+                      <label className="block text-sm font-medium text-brand-ink-soft mb-1">
+                        Skids to Release
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={editPallets}
+                        onChange={(e) =>
+                          setEditPallets(Math.max(1, parseInt(e.target.value, 10) || 1))
+                        }
+                        className="w-full px-3 py-2 border border-brand-rule rounded-lg"
+                      />
+                      <p className="text-xs text-brand-ink-mute mt-1">
+                        = {editPallets * release.part.boxesPerPallet} boxes •{' '}
+                        {(editPallets * release.part.boxesPerPallet * release.part.unitsPerBox).toLocaleString()}{' '}
+                        units
+                      </p>
+                      <button
+                        onClick={updateSkids}
+                        disabled={isUpdatingSkids || editPallets === release.pallets}
+                        className="w-full mt-2 px-4 py-2 bg-brand-rust text-white font-medium rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isUpdatingSkids ? 'Updating...' : 'Update Skids'}
+                      </button>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-brand-ink-mute">Current Total Units:</span>
                     <span className="font-semibold">{release.totalUnits.toLocaleString()}</span>
@@ -657,88 +1075,97 @@ export default function ReleasePage() {
               </div>
 
               {/* Document Generation Section */}
-              <div className="mb-6 p-6 bg-brand-rust-soft rounded-lg">
-                <h3 className="text-lg font-semibold text-brand-ink mb-4">Generate Documents</h3>
-
-                {docError && (
-                  <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
-                    {docError}
-                  </div>
-                )}
-
-                {/* Document Generation Buttons */}
-                {!packingSlipUrl && !boxLabelsUrl && (
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
-                    <button
-                      onClick={() => generateDocuments('packing-slip')}
-                      disabled={isGeneratingDocs}
-                      className="flex items-center justify-center gap-2 px-4 py-3 bg-white border-2 border-brand-rust text-brand-rust font-semibold rounded-lg hover:bg-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      <FileText className="w-5 h-5" />
-                      Packing Slip
-                    </button>
-                    <button
-                      onClick={() => generateDocuments('box-labels')}
-                      disabled={isGeneratingDocs}
-                      className="flex items-center justify-center gap-2 px-4 py-3 bg-white border-2 border-brand-rust text-brand-rust font-semibold rounded-lg hover:bg-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      <Tag className="w-5 h-5" />
-                      Box Labels
-                    </button>
-                    <button
-                      onClick={() => generateDocuments('all')}
-                      disabled={isGeneratingDocs}
-                      className="flex items-center justify-center gap-2 px-4 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      <Package className="w-5 h-5" />
-                      All Documents
-                    </button>
-                  </div>
-                )}
+              {release.status !== 'PENDING_APPROVAL' && (
+                <div className="mb-6 p-6 bg-brand-rust-soft rounded-lg">
+                  <h3 className="text-lg font-semibold text-brand-ink mb-4">Generate Documents</h3>
 
-                {isGeneratingDocs && (
-                  <div className="py-4 text-brand-rust">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-rust mx-auto mb-2"></div>
-                    <p className="text-sm">Generating documents...</p>
-                  </div>
-                )}
+                  {docError && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                      {docError}
+                    </div>
+                  )}
 
-                {/* Download Links */}
-                {(packingSlipUrl || boxLabelsUrl) && (
-                  <div className="space-y-3">
-                    {packingSlipUrl && (
-                      <a
-                        href={packingSlipUrl}
-                        download
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center justify-between px-4 py-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                  {/* Document Generation Buttons */}
+                  {!packingSlipUrl && !boxLabelsUrl && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                      <button
+                        onClick={() => generateDocuments('packing-slip')}
+                        disabled={isGeneratingDocs}
+                        className="flex items-center justify-center gap-2 px-4 py-3 bg-white border-2 border-brand-rust text-brand-rust font-semibold rounded-lg hover:bg-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        <span className="flex items-center text-brand-ink">
-                          <FileText className="w-6 h-6 text-brand-rust mr-3" />
-                          <span className="font-medium">Packing Slip</span>
-                        </span>
-                        <span className="text-brand-rust text-sm">Download PDF →</span>
-                      </a>
-                    )}
-                    {boxLabelsUrl && (
-                      <a
-                        href={boxLabelsUrl}
-                        download
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center justify-between px-4 py-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                        <FileText className="w-5 h-5" />
+                        Packing Slip
+                      </button>
+                      <button
+                        onClick={() => generateDocuments('box-labels')}
+                        disabled={isGeneratingDocs}
+                        className="flex items-center justify-center gap-2 px-4 py-3 bg-white border-2 border-brand-rust text-brand-rust font-semibold rounded-lg hover:bg-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        <span className="flex items-center text-brand-ink">
-                          <Tag className="w-6 h-6 text-brand-rust mr-3" />
-                          <span className="font-medium">Box Labels ({release.pallets * release.part.boxesPerPallet} labels)</span>
-                        </span>
-                        <span className="text-brand-rust text-sm">Download PDF →</span>
-                      </a>
-                    )}
-                  </div>
-                )}
-              </div>
+                        <Tag className="w-5 h-5" />
+                        Box Labels
+                      </button>
+                      <button
+                        onClick={() => generateDocuments('all')}
+                        disabled={isGeneratingDocs}
+                        className="flex items-center justify-center gap-2 px-4 py-3 bg-brand-rust text-white font-semibold rounded-lg hover:bg-brand-rust-dark disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Package className="w-5 h-5" />
+                        All Documents
+                      </button>
+                    </div>
+                  )}
+
+                  {isGeneratingDocs && (
+                    <div className="py-4 text-brand-rust">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-rust mx-auto mb-2"></div>
+                      <p className="text-sm">Generating documents...</p>
+                    </div>
+                  )}
+
+                  {/* Download Links */}
+                  {(packingSlipUrl || boxLabelsUrl) && (
+                    <div className="space-y-3">
+                      {packingSlipUrl && (
+                        <a
+                          href={packingSlipUrl}
+                          download
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-between px-4 py-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                        >
+                          <span className="flex items-center text-brand-ink">
+                            <FileText className="w-6 h-6 text-brand-rust mr-3" />
+                            <span className="font-medium">Packing Slip</span>
+                          </span>
+                          <span className="text-brand-rust text-sm">Download PDF →</span>
+                        </a>
+                      )}
+                      {boxLabelsUrl && (
+                        <a
+                          href={boxLabelsUrl}
+                          download
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-between px-4 py-3 bg-white border border-brand-rule rounded-lg hover:bg-brand-cream-deep"
+                        >
+                          <span className="flex items-center text-brand-ink">
+                            <Tag className="w-6 h-6 text-brand-rust mr-3" />
+                            <span className="font-medium">
+                              Box Labels (
+                              {releaseLines.reduce(
+                                (sum, line) => sum + line.pallets * line.part.boxesPerPallet + line.boxes,
+                                0,
+                              )}{' '}
+                              labels)
+                            </span>
+                          </span>
+                          <span className="text-brand-rust text-sm">Download PDF →</span>
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div className="space-y-3">
                 <Link
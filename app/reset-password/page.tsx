@@ -0,0 +1,146 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { resetPasswordSchema } from '@/lib/validation/auth'
+import { formError } from '@/lib/validation/errors'
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-brand-cream">
+          <div className="text-sm tracking-widest uppercase text-brand-ink-mute">Loading…</div>
+        </div>
+      }
+    >
+      <ResetPasswordPageInner />
+    </Suspense>
+  )
+}
+
+function ResetPasswordPageInner() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const invalid = formError(resetPasswordSchema, { token, password })
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset password')
+      }
+      setMessage(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8 bg-brand-cream">
+      <div className="w-full max-w-md">
+        <div className="bg-white border border-brand-rule rounded-md p-8 shadow-sm">
+          <div className="mb-8">
+            <div className="text-xs tracking-[0.2em] uppercase text-brand-ink-mute mb-2">Reset Password</div>
+            <h2 className="text-2xl font-semibold text-brand-ink">Choose a new password</h2>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {message ? (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-800 rounded text-sm">
+              {message}
+            </div>
+          ) : !token ? (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+              This reset link is incomplete. Please use the link from your email, or request a new one.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="password" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-xs tracking-wider uppercase font-medium text-brand-ink-mute mb-2">
+                  Confirm Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 bg-white border border-brand-rule rounded text-brand-ink focus:ring-2 focus:ring-brand-rust focus:border-transparent outline-none"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-brand-rust text-white py-2.5 px-4 rounded font-medium hover:bg-brand-rust-dark focus:ring-2 focus:ring-brand-rust-soft disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isLoading ? 'Saving…' : 'Set New Password'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center text-sm space-x-4">
+            <Link href="/login" className="text-brand-rust hover:text-brand-rust-dark">
+              Back to sign in
+            </Link>
+            {!message && (
+              <Link href="/forgot-password" className="text-brand-ink-mute hover:text-brand-ink">
+                Request a new link
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,113 +1,177 @@
 'use client'
 
-import React, { createContext, useContext, useState, useEffect } from 'react'
+import React, { createContext, useCallback, useContext, useRef, useState, useEffect } from 'react'
+import type { Role } from '@prisma/client'
+import { can, type Permission } from '@/lib/permissions'
+import type { TwoFactorEnrollment } from '@/lib/two-factor'
 
 interface User {
   id: string
   email: string
   name: string
-  role: 'CUSTOMER' | 'ADMIN'
+  role: Role
+}
+
+/** A password accepted for a two-factor account; finish with completeTwoFactor. */
+export interface LoginChallenge {
+  challengeToken: string
+  // Set when the user's role requires two-factor and they haven't enrolled:
+  // scan this, then the first code enrolls them
+  enrollment?: TwoFactorEnrollment
 }
 
 interface AuthContextType {
   user: User | null
   token: string | null
-  login: (email: string, password: string) => Promise<void>
+  // Signs in, or returns the challenge when a second step is needed
+  login: (email: string, password: string) => Promise<LoginChallenge | null>
+  // Returns the new backup codes when this step finished enrollment
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<string[] | null>
   logout: () => void
   isLoading: boolean
   isAuthenticated: boolean
   isAdmin: boolean
   isCustomer: boolean
+  // Same matrix the API enforces — for hiding what the user can't use
+  can: (permission: Permission) => boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_SECONDS = 60
+
+interface SessionResponse {
+  user: User
+  token: string
+  expiresIn: number
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  // The access token lives only in memory; the refresh token is an httpOnly
+  // cookie the page never sees (lib/sessions.ts)
   const [token, setToken] = useState<string | null>(null)
+  const [expiresIn, setExpiresIn] = useState<number | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [isMounted, setIsMounted] = useState(false)
 
-  // Wait for client-side mount before accessing localStorage (SSR safety)
-  useEffect(() => {
-    setIsMounted(true)
+  const applySession = useCallback((data: SessionResponse) => {
+    setUser(data.user)
+    setToken(data.token)
+    setExpiresIn(data.expiresIn)
+  }, [])
+
+  const clearSession = useCallback(() => {
+    setUser(null)
+    setToken(null)
+    setExpiresIn(null)
   }, [])
 
-  // Load token from localStorage on mount
+  // The refresh in flight, if any. Callers share it rather than racing each
+  // other to rotate the same refresh token (StrictMode mounts effects twice)
+  const refreshing = useRef<Promise<void> | null>(null)
+
+  const refreshSession = useCallback(() => {
+    refreshing.current ??= (async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', { method: 'POST' })
+        if (response.ok) {
+          applySession(await response.json())
+        } else {
+          // Signed out, revoked or expired
+          clearSession()
+        }
+      } catch (error) {
+        console.error('Session refresh error:', error)
+        clearSession()
+      } finally {
+        refreshing.current = null
+        setIsLoading(false)
+      }
+    })()
+    return refreshing.current
+  }, [applySession, clearSession])
+
+  // Pick up an existing session from the refresh cookie on mount
+  useEffect(() => {
+    // Tokens from before sessions lived in localStorage; they no longer work
+    localStorage.removeItem('token')
+    refreshSession()
+  }, [refreshSession])
+
+  // Renew the access token shortly before it expires
   useEffect(() => {
-    if (!isMounted) return // Skip during SSR
+    if (!token || !expiresIn) return
+    const timer = setTimeout(refreshSession, Math.max(expiresIn - REFRESH_MARGIN_SECONDS, 1) * 1000)
+    return () => clearTimeout(timer)
+  }, [token, expiresIn, refreshSession])
+
+  const login = async (email: string, password: string): Promise<LoginChallenge | null> => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    })
 
-    const storedToken = localStorage.getItem('token')
-    if (storedToken) {
-      verifyToken(storedToken)
-    } else {
-      setIsLoading(false)
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Login failed')
     }
-  }, [isMounted])
-
-  const verifyToken = async (tokenToVerify: string) => {
-    try {
-      const response = await fetch('/api/auth/me', {
-        headers: {
-          Authorization: `Bearer ${tokenToVerify}`,
-        },
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setUser(data.user)
-        setToken(tokenToVerify)
-      } else {
-        // Token is invalid
-        localStorage.removeItem('token')
-        setToken(null)
-        setUser(null)
-      }
-    } catch (error) {
-      console.error('Token verification error:', error)
-      localStorage.removeItem('token')
-      setToken(null)
-      setUser(null)
-    } finally {
-      setIsLoading(false)
+
+    const data = await response.json()
+    if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+      return { challengeToken: data.challengeToken, enrollment: data.enrollment }
     }
+    applySession(data)
+    return null
   }
 
-  const login = async (email: string, password: string) => {
+  const completeTwoFactor = async (challengeToken: string, code: string): Promise<string[] | null> => {
     const response = await fetch('/api/auth/login', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify({ challengeToken, code }),
     })
 
     if (!response.ok) {
       const error = await response.json()
-      throw new Error(error.error || 'Login failed')
+      throw new Error(error.error || 'Verification failed')
     }
 
     const data = await response.json()
-    setUser(data.user)
-    setToken(data.token)
-    localStorage.setItem('token', data.token)
+    applySession(data)
+    return data.backupCodes ?? null
   }
 
   const logout = () => {
-    setUser(null)
-    setToken(null)
-    localStorage.removeItem('token')
+    clearSession()
+    // Revoke the session server-side too, so the refresh cookie is dead
+    fetch('/api/auth/logout', { method: 'POST' }).catch((error) => {
+      console.error('Logout error:', error)
+    })
   }
 
+  // Stable per user, so pages can list it in effect dependencies
+  const hasPermission = useCallback(
+    (permission: Permission) => !!user && can(user.role, permission),
+    [user],
+  )
+
   const value: AuthContextType = {
     user,
     token,
     login,
+    completeTwoFactor,
     logout,
     isLoading,
     isAuthenticated: !!user,
     isAdmin: user?.role === 'ADMIN',
     isCustomer: user?.role === 'CUSTOMER',
+    can: hasPermission,
   }
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts. Refuses to start a production server
+ * without JWT_SECRET rather than sign sessions with the public dev key.
+ */
+export function register() {
+  if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+    console.error('❌ JWT_SECRET is not set. Refusing to start in production without it.')
+    throw new Error('JWT_SECRET must be set in production')
+  }
+}
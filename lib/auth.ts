@@ -1,13 +1,32 @@
 import * as bcrypt from 'bcryptjs'
 import * as jwt from 'jsonwebtoken'
+import type { Role, User } from '@prisma/client'
 import { prisma } from './db'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key'
+/** Access tokens are short-lived; the session's refresh cookie renews them (lib/sessions.ts). */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+
+// Production never falls back to the well-known dev key; instrumentation.ts
+// also stops the server from starting without one
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production')
+  }
+  return 'dev-secret-key'
+}
 
 export interface JWTPayload {
   userId: string
+  sessionId: string
   email: string
-  role: 'CUSTOMER' | 'ADMIN'
+  role: Role
+}
+
+/** The signed-in user as the routes see it, with the session they signed in with. */
+export type AuthUser = Pick<User, 'id' | 'email' | 'name' | 'role' | 'vendorLocationId'> & {
+  sessionId: string
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -22,30 +41,55 @@ export async function comparePassword(
 }
 
 export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' })
+  return jwt.sign(payload, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS })
+}
+
+/**
+ * Proof that a user got past the password step of a two-factor sign-in. It
+ * can't be used as an access token: it has no session.
+ */
+export function generateChallengeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: 'two-factor' }, jwtSecret(), { expiresIn: '5m' })
+}
+
+/** The user a two-factor challenge was issued to, or null if it's invalid or expired. */
+export function verifyChallengeToken(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as { userId?: string; purpose?: string }
+    return payload.purpose === 'two-factor' && payload.userId ? payload.userId : null
+  } catch {
+    return null
+  }
 }
 
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload
+    return jwt.verify(token, jwtSecret()) as JWTPayload
   } catch {
     return null
   }
 }
 
-export async function getUserFromToken(token: string) {
+export async function getUserFromToken(token: string): Promise<AuthUser | null> {
   const payload = verifyToken(token)
-  if (!payload) return null
+  // Tokens issued before sessions existed carry no sessionId
+  if (!payload?.sessionId) return null
 
-  const user = await prisma.user.findUnique({
-    where: { id: payload.userId },
+  // Tokens from a deactivated user or a revoked session stop working immediately
+  const user = await prisma.user.findFirst({
+    where: {
+      id: payload.userId,
+      active: true,
+      sessions: { some: { id: payload.sessionId, revokedAt: null, expiresAt: { gt: new Date() } } },
+    },
     select: {
       id: true,
       email: true,
       name: true,
       role: true,
+      vendorLocationId: true,
     },
   })
 
-  return user
+  return user && { ...user, sessionId: payload.sessionId }
 }
@@ -13,13 +13,12 @@
  *    job (jobs.external_ref) and has no idea what IRA's cuid is, so the routes
  *    accept either identifier.
  *
- * Nothing here weakens the human path — a request with no service key still has
- * to present an ADMIN user token exactly as before.
+ * Routes opt into the service path with withAuth({ allowServiceKey: true })
+ * (lib/with-auth.ts). Nothing here weakens the human path — a request with no
+ * service key still has to present a user token with the route's roles.
  */
 
-import { NextResponse, type NextRequest } from 'next/server'
-import { getUserFromToken } from '@/lib/auth'
-import { prisma } from '@/lib/db'
+import type { NextRequest } from 'next/server'
 
 /** Set IRA_SERVICE_KEY on both IRA and press-planner to enable the service path. */
 function serviceKeyConfigured(): string | null {
@@ -48,41 +47,6 @@ export function isServiceRequest(request: NextRequest): boolean {
   return mismatch === 0
 }
 
-/**
- * Authorize a document request. Returns null when allowed, or the response to
- * return when not.
- *
- * `requireAdmin` defaults to true because the dock paperwork routes (load flags,
- * JD paperwork/BOL) are admin-only. The customer-facing download route passes
- * false — customers are meant to fetch their own packing slip and labels, and
- * quietly tightening that would lock them out.
- */
-export async function authorizeDocumentRequest(
-  request: NextRequest,
-  { requireAdmin = true }: { requireAdmin?: boolean } = {},
-): Promise<NextResponse | null> {
-  if (isServiceRequest(request)) return null
-
-  const authHeader = request.headers.get('authorization')
-  const tokenFromHeader = authHeader?.startsWith('Bearer ')
-    ? authHeader.substring(7)
-    : null
-  const token = tokenFromHeader || request.nextUrl.searchParams.get('token')
-
-  if (!token) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-  }
-
-  const user = await getUserFromToken(token)
-  if (!user) {
-    return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-  }
-  if (requireAdmin && user.role !== 'ADMIN') {
-    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-  }
-  return null
-}
-
 /**
  * Match the :releaseId path segment against IRA's cuid OR a release number like
  * "REL-20260709-0046" — press-planner only knows the number.
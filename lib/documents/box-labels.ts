@@ -14,8 +14,11 @@ interface BoxLabelData {
 /**
  * Generate 4x6 inch box labels in LANDSCAPE orientation (6" wide x 4" tall)
  * Standard thermal label format for shipping labels
+ *
+ * Multi-line releases pass one BoxLabelData per part; each part's labels are
+ * printed in order in the same PDF.
  */
-export function generateBoxLabels(data: BoxLabelData): jsPDF {
+export function generateBoxLabels(data: BoxLabelData | BoxLabelData[]): jsPDF {
   // Create 4x6 label in landscape orientation (6" wide x 4" tall)
   const doc = new jsPDF({
     orientation: 'landscape',
@@ -24,12 +27,16 @@ export function generateBoxLabels(data: BoxLabelData): jsPDF {
   })
 
   // Generate one label per box
-  for (let boxNum = 1; boxNum <= data.totalBoxes; boxNum++) {
-    if (boxNum > 1) {
-      doc.addPage([4, 6], 'landscape')
+  let isFirstLabel = true
+  for (const labelSet of Array.isArray(data) ? data : [data]) {
+    for (let boxNum = 1; boxNum <= labelSet.totalBoxes; boxNum++) {
+      if (!isFirstLabel) {
+        doc.addPage([4, 6], 'landscape')
+      }
+      isFirstLabel = false
+
+      generateSingleBoxLabel(doc, labelSet, boxNum)
     }
-
-    generateSingleBoxLabel(doc, data, boxNum)
   }
 
   return doc
@@ -160,7 +167,7 @@ function generateSingleBoxLabel(
 /**
  * Generate box labels PDF and return as Buffer (for email attachments)
  */
-export function generateBoxLabelsBuffer(data: BoxLabelData): Buffer {
+export function generateBoxLabelsBuffer(data: BoxLabelData | BoxLabelData[]): Buffer {
   const doc = generateBoxLabels(data)
   return Buffer.from(doc.output('arraybuffer'))
 }
@@ -170,7 +177,7 @@ export function generateBoxLabelsBuffer(data: BoxLabelData): Buffer {
  */
 export async function saveBoxLabels(
   releaseId: string,
-  data: BoxLabelData
+  data: BoxLabelData | BoxLabelData[]
 ): Promise<string> {
   const doc = generateBoxLabels(data)
   const pdfBuffer = Buffer.from(doc.output('arraybuffer'))
@@ -212,3 +219,5 @@ export function getBoxLabelsFilePath(releaseId: string): string {
   const path = require('path')
   return path.join(process.cwd(), 'public', 'documents', 'releases', releaseId, 'box-labels.pdf')
 }
+
+export type { BoxLabelData }
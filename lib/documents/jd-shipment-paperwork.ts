@@ -21,10 +21,24 @@ interface LineItem {
   shipped: number
   prevShip?: number
   backOrdered?: number
+  // Per-line load figures for multi-part releases; single-line paperwork
+  // falls back to the shipment totals.
+  pallets?: number
+  cartons?: number
+  weight?: number
 }
 
 type SkidTypeValue = 'WOOD' | 'HEAT_TREATED'
 
+interface PaperworkAddress {
+  name: string
+  address: string
+  city: string
+  state: string
+  zip: string
+  phone?: string
+}
+
 function formatSkidType(value: SkidTypeValue): string {
   return value === 'HEAT_TREATED' ? 'HEAT-TREATED' : 'WOOD'
 }
@@ -56,6 +70,10 @@ interface JdShipmentPaperworkData {
   }>
   shipmentLabel?: string
   originalPallets?: number
+  // Defaults: ship from JD Elk Grove to EPG Knoxville. Releases picked from
+  // another stock location, and stock transfers, override these.
+  shipFrom?: PaperworkAddress
+  shipTo?: PaperworkAddress
 }
 
 const JD_BLUE: [number, number, number] = [26, 30, 46] // #1a1e2e per JD brand
@@ -184,8 +202,8 @@ function drawPackingSlipPage(doc: jsPDF, data: JdShipmentPaperworkData): void {
 
   // Ship-to / Ship-from columns
   const colWidth = (pageWidth - 2 * margin) / 2
-  const fromY = drawAddressBlock(doc, margin, y, 'SHIP FROM:', JD_SHIP_FROM)
-  const toY = drawAddressBlock(doc, margin + colWidth, y, 'SHIP TO:', EPG_SHIP_TO)
+  const fromY = drawAddressBlock(doc, margin, y, 'SHIP FROM:', data.shipFrom ?? JD_SHIP_FROM)
+  const toY = drawAddressBlock(doc, margin + colWidth, y, 'SHIP TO:', data.shipTo ?? EPG_SHIP_TO)
   y = Math.max(fromY, toY) + 24
 
   // Carrier banner
@@ -366,6 +384,8 @@ function drawBolPage(doc: jsPDF, data: JdShipmentPaperworkData): void {
   const pageHeight = doc.internal.pageSize.getHeight()
   const margin = 36
   const innerW = pageWidth - 2 * margin
+  const shipFrom: PaperworkAddress = data.shipFrom ?? JD_SHIP_FROM
+  const shipTo: PaperworkAddress = data.shipTo ?? EPG_SHIP_TO
 
   // ─── Title ──────────────────────────────────────────────────
   let y = margin
@@ -408,23 +428,25 @@ function drawBolPage(doc: jsPDF, data: JdShipmentPaperworkData): void {
   drawCellBox(doc, margin, y + 14, halfW, addrH - 14)
   doc.setFont('helvetica', 'bold')
   doc.setFontSize(11)
-  doc.text(JD_SHIP_FROM.name, margin + 6, y + 28)
+  doc.text(shipFrom.name, margin + 6, y + 28)
   doc.setFont('helvetica', 'normal')
   doc.setFontSize(10)
-  doc.text(JD_SHIP_FROM.address, margin + 6, y + 42)
-  doc.text(`${JD_SHIP_FROM.city}, ${JD_SHIP_FROM.state} ${JD_SHIP_FROM.zip}`, margin + 6, y + 55)
+  doc.text(shipFrom.address, margin + 6, y + 42)
+  doc.text(`${shipFrom.city}, ${shipFrom.state} ${shipFrom.zip}`, margin + 6, y + 55)
   doc.setFontSize(9)
-  doc.text(`Phone: ${JD_SHIP_FROM.phone}`, margin + 6, y + 68)
+  if (shipFrom.phone) {
+    doc.text(`Phone: ${shipFrom.phone}`, margin + 6, y + 68)
+  }
   // SHIP TO band + box
   drawHeaderBand(doc, margin + halfW, y, halfW, 'SHIP TO')
   drawCellBox(doc, margin + halfW, y + 14, halfW, addrH - 14)
   doc.setFont('helvetica', 'bold')
   doc.setFontSize(11)
-  doc.text(EPG_SHIP_TO.name, margin + halfW + 6, y + 28)
+  doc.text(shipTo.name, margin + halfW + 6, y + 28)
   doc.setFont('helvetica', 'normal')
   doc.setFontSize(10)
-  doc.text(EPG_SHIP_TO.address, margin + halfW + 6, y + 42)
-  doc.text(`${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state} ${EPG_SHIP_TO.zip}`, margin + halfW + 6, y + 55)
+  doc.text(shipTo.address, margin + halfW + 6, y + 42)
+  doc.text(`${shipTo.city}, ${shipTo.state} ${shipTo.zip}`, margin + halfW + 6, y + 55)
   doc.setFontSize(9)
   doc.text('Receiving Hours: ____________________', margin + halfW + 6, y + 68)
   y += addrH
@@ -542,15 +564,18 @@ function drawBolPage(doc: jsPDF, data: JdShipmentPaperworkData): void {
         nmfc: '',
         class: data.shippingClass,
       }))
-    : data.lineItems.map((it) => ({
-        units: `${data.pallets} ${skidNoun}${data.pallets === 1 ? '' : 's'}`,
-        pkgs: `${data.cartons} Ctns`,
-        weight: String(data.weight),
-        hm: '',
-        desc: `PN ${it.partNumber} — ${it.description}\nPrinted manuals, shrink-wrapped, boxed · ${it.unitsPerBox} pcs/ctn · ${it.shipped.toLocaleString()} pcs total`,
-        nmfc: '',
-        class: data.shippingClass,
-      }))
+    : data.lineItems.map((it) => {
+        const pallets = it.pallets ?? data.pallets
+        return {
+          units: `${pallets} ${skidNoun}${pallets === 1 ? '' : 's'}`,
+          pkgs: `${it.cartons ?? data.cartons} Ctns`,
+          weight: String(it.weight ?? data.weight),
+          hm: '',
+          desc: `PN ${it.partNumber} — ${it.description}\nPrinted manuals, shrink-wrapped, boxed · ${it.unitsPerBox} pcs/ctn · ${it.shipped.toLocaleString()} pcs total`,
+          nmfc: '',
+          class: data.shippingClass,
+        }
+      })
 
   // Render rows + a few empty rows so the table has visual depth like the Estes form
   const rowH = 38
@@ -17,6 +17,7 @@ interface LoadFlagSkid {
   cartons?: number
   unitsPerBox?: number
   weight: number
+  lots?: string        // Lot(s) on this skid with manufacture dates
 }
 
 type SkidTypeValue = 'WOOD' | 'HEAT_TREATED'
@@ -169,7 +170,11 @@ function drawSkidPage(doc: jsPDF, data: LoadFlagsData, skid: LoadFlagSkid): void
     ...(cartons !== undefined ? [{ label: 'CARTONS', value: `${cartons} ctns` } as Row] : []),
     { label: 'WEIGHT', value: `${skid.weight} lbs`, emphasize: true },
     { label: 'SKID TYPE', value: skidTypeLabel, emphasize: true },
-    ...(data.batchNumber ? [{ label: 'BATCH #', value: data.batchNumber } as Row] : []),
+    ...(skid.lots
+      ? [{ label: 'LOT # / MFG', value: skid.lots } as Row]
+      : data.batchNumber
+        ? [{ label: 'BATCH #', value: data.batchNumber } as Row]
+        : []),
     { label: 'PO #', value: data.customerPONumber },
     { label: 'CARRIER', value: data.carrier },
   ]
@@ -1,25 +1,32 @@
-import type { Part, Release, ShippingLocation } from '@prisma/client'
+import type { Part, Release, ShippingLocation, StockLocation } from '@prisma/client'
 import {
   EPG_DEFAULT_CARRIER,
   EPG_DEFAULT_FREIGHT_TERMS,
   EPG_DEFAULT_LBS_PER_PALLET,
-  JD_SHIP_FROM,
+  EPG_SHIP_TO,
 } from '@/lib/epg'
+import { shipFromAddress } from '@/lib/inventory/locations'
+import {
+  lineTotalBoxes,
+  releaseLinesOf,
+  releaseLinesTotal,
+  type ReleaseLineWithPart,
+} from '@/lib/releases/lines'
+import type { BoxLabelData } from '@/lib/documents/box-labels'
 
 export type ReleaseWithPartAndLocation = Release & {
   part: Part
   shippingLocation: ShippingLocation
+  stockLocation?: StockLocation | null
+  lines?: ReleaseLineWithPart[]
 }
 
 export function releaseCartons(release: ReleaseWithPartAndLocation): number {
-  return (
-    release.cartons ??
-    release.pallets * release.part.boxesPerPallet + release.boxes
-  )
+  return release.cartons ?? releaseTotalBoxes(release)
 }
 
 export function releaseTotalBoxes(release: ReleaseWithPartAndLocation): number {
-  return release.pallets * release.part.boxesPerPallet + release.boxes
+  return releaseLinesOf(release).reduce((sum, line) => sum + lineTotalBoxes(line), 0)
 }
 
 export function releaseWeightLbs(release: ReleaseWithPartAndLocation): number {
@@ -54,25 +61,16 @@ export function buildPackingSlipData(release: ReleaseWithPartAndLocation) {
       zip: release.shippingLocation.zip,
       instructions: shippingInstructions,
     },
-    shipFrom: {
-      name: JD_SHIP_FROM.name,
-      address: JD_SHIP_FROM.address,
-      city: JD_SHIP_FROM.city,
-      state: JD_SHIP_FROM.state,
-      zip: JD_SHIP_FROM.zip,
-      country: JD_SHIP_FROM.country,
-    },
-    lineItems: [
-      {
-        partNumber: release.part.partNumber,
-        description: release.part.description,
-        unitsPerBox: release.part.unitsPerBox,
-        ordered: release.totalUnits,
-        prevShip: 0,
-        shipped: release.totalUnits,
-        backOrdered: 0,
-      },
-    ],
+    shipFrom: shipFromAddress(release.stockLocation),
+    lineItems: releaseLinesOf(release).map((line) => ({
+      partNumber: line.part.partNumber,
+      description: line.part.description,
+      unitsPerBox: line.part.unitsPerBox,
+      ordered: line.totalUnits,
+      prevShip: 0,
+      shipped: line.totalUnits,
+      backOrdered: 0,
+    })),
     shipVia: release.shipVia || EPG_DEFAULT_CARRIER,
     freightTerms: release.freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
     paymentTerms: release.paymentTerms || '2% 30, Net 60',
@@ -82,13 +80,67 @@ export function buildPackingSlipData(release: ReleaseWithPartAndLocation) {
   }
 }
 
-export function buildBoxLabelData(release: ReleaseWithPartAndLocation) {
+/**
+ * One label set per lot allocated to each release line, printed back to back
+ * in line order, each carrying its lot number and manufacture date. Boxes not
+ * covered by a lot (stock from before lot tracking) fall back to the release's
+ * batch number.
+ */
+export function buildBoxLabelData(release: ReleaseWithPartAndLocation): BoxLabelData[] {
+  return releaseLinesOf(release).flatMap((line) => {
+    const label = {
+      partNumber: line.part.partNumber,
+      description: line.part.description,
+      unitsPerBox: line.part.unitsPerBox,
+    }
+    const allocations = line.lotAllocations ?? []
+    const sets: BoxLabelData[] = allocations.map((a) => ({
+      ...label,
+      batchNumber: a.production.lotNumber || release.batchNumber || 'N/A',
+      manufactureDate: a.production.manufactureDate,
+      totalBoxes: a.boxes,
+    }))
+
+    const unallocated = lineTotalBoxes(line) - allocations.reduce((sum, a) => sum + a.boxes, 0)
+    if (unallocated > 0) {
+      sets.push({
+        ...label,
+        batchNumber: release.batchNumber || 'N/A',
+        manufactureDate: release.manufactureDate ?? undefined,
+        totalBoxes: unallocated,
+      })
+    }
+    return sets
+  })
+}
+
+export function buildOrderAcknowledgementData(release: ReleaseWithPartAndLocation) {
+  const lines = releaseLinesOf(release)
+  const orderTotal = releaseLinesTotal(lines)
+
   return {
-    partNumber: release.part.partNumber,
-    description: release.part.description,
-    unitsPerBox: release.part.unitsPerBox,
-    batchNumber: release.batchNumber || 'N/A',
-    manufactureDate: release.shipDate || release.createdAt,
-    totalBoxes: releaseTotalBoxes(release),
+    orderNumber: release.releaseNumber,
+    date: release.createdAt,
+    customerPONumber: release.customerPONumber,
+    shipDate: release.shipDate || release.createdAt,
+    etaDeliveryDate: release.etaDeliveryDate,
+    shipTo: {
+      name: EPG_SHIP_TO.name,
+      address: EPG_SHIP_TO.address,
+      city: EPG_SHIP_TO.city,
+      state: EPG_SHIP_TO.state,
+      zip: EPG_SHIP_TO.zip,
+    },
+    shipFrom: shipFromAddress(release.stockLocation),
+    lineItems: lines.map((line) => ({
+      partNumber: line.part.partNumber,
+      description: line.part.description,
+      quantity: line.totalUnits,
+      unitPrice: line.unitPrice,
+      total: line.totalUnits * line.unitPrice,
+    })),
+    subtotal: orderTotal,
+    total: orderTotal,
+    paymentTerms: release.paymentTerms || '2% 30, Net 60',
   }
-}
\ No newline at end of file
+}
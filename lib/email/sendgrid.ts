@@ -1,6 +1,7 @@
 import sgMail from '@sendgrid/mail'
 import * as fs from 'fs'
 import { EPG_SHIP_TO, EPG_DEFAULT_CARRIER } from '../epg'
+import type { ReleaseFieldChange } from '../releases/revisions'
 
 // Initialize SendGrid
 const apiKey = process.env.SENDGRID_API_KEY || ''
@@ -39,6 +40,8 @@ function formatSkidTypeLabel(value?: 'WOOD' | 'HEAT_TREATED'): string {
   return '—'
 }
 
+const THREE_Z_EMAIL_TO = ['jkoester@threez.com', 'dmeinhart@threez.com']
+
 const EPG_SHIP_TO_LINE = `${EPG_SHIP_TO.name}, ${EPG_SHIP_TO.address}, ${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state} ${EPG_SHIP_TO.zip}`
 
 function formatShipDate(shipDate?: string | null): string {
@@ -270,7 +273,7 @@ export async function sendThreeZReleaseNotification(
 ): Promise<void> {
   const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
   const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
-  const threeZTo = ['jkoester@threez.com', 'dmeinhart@threez.com']
+  const threeZTo = THREE_Z_EMAIL_TO
 
   const sgAttachment = {
     content: boxLabelsAttachment.content || '',
@@ -534,6 +537,368 @@ JD Graphic, Co Inc — Shipment Confirmation
   }
 }
 
+/**
+ * Send release cancellation email when an admin cancels a release.
+ *
+ * Goes to EPG (Alecia, cc Kirk) and Three Z so nobody books a truck or pulls
+ * skids for it, with the JD team cc'd.
+ */
+export async function sendReleaseCancellationEmail(emailData: {
+  releaseNumber: string
+  releaseId?: string
+  customerPONumber: string
+  partNumber: string
+  partDescription: string
+  totalUnits: number
+  pallets: number
+  boxes: number
+  shipDate?: string | null
+  reason: string
+  cancelledBy: string
+}): Promise<void> {
+  const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
+  const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
+
+  const epgPrimary = (process.env.EPG_SHIP_TO_EMAIL || 'abates@eprintgroup.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const epgCc = (process.env.EPG_CC_EMAIL || 'kicuss@eprintgroup.com,mwelker@eprintgroup.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const internalCc = (process.env.EMAIL_TO || 'nick@jdgraphic.com,brenda@jdgraphic.com,devin@jdgraphic.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const cc = [...epgCc, ...THREE_Z_EMAIL_TO, ...internalCc]
+
+  const { portalUrl } = buildDeepLinks(emailData.releaseId)
+  const shipDateStr = formatShipDate(emailData.shipDate)
+
+  const htmlBody = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background-color:#f4f4f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#f4f4f4;"><tr><td align="center" style="padding:20px 0;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+
+<tr><td style="background:linear-gradient(135deg,#b91c1c 0%,#991b1b 100%);padding:20px 24px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%"><tr>
+<td style="vertical-align:middle;"><div style="color:#fff;font-size:12px;font-weight:600;letter-spacing:1px;text-transform:uppercase;">✖ Release Cancelled</div></td>
+<td align="right" style="vertical-align:middle;"><div style="color:#fff;font-size:16px;font-weight:700;">${emailData.releaseNumber}</div></td>
+</tr></table></td></tr>
+
+<tr><td style="padding:24px;background-color:#fef2f2;border-bottom:3px solid #b91c1c;text-align:center;">
+<div style="font-size:16px;color:#7f1d1d;font-weight:700;line-height:1.5;">Do not ship this release. Any truck booked for ${shipDateStr} should be cancelled.</div>
+<div style="font-size:13px;color:#991b1b;margin-top:8px;">Reason: ${emailData.reason}</div>
+</td></tr>
+
+<tr><td style="padding:24px;background-color:#ffffff;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#fafafa;border-left:4px solid #b91c1c;border-radius:4px;"><tr><td style="padding:16px 20px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%">
+<tr>
+<td width="50%" style="padding:0 8px 12px 0;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Release Number</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.releaseNumber}</div></td>
+<td width="50%" style="padding:0 0 12px 8px;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Customer PO #</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.customerPONumber}</div></td>
+</tr>
+<tr><td colspan="2" style="padding:8px 0;"><div style="height:1px;background-color:#e5e7eb;"></div></td></tr>
+<tr>
+<td width="50%" style="padding:12px 8px 12px 0;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Part Number</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.partNumber}</div></td>
+<td width="50%" style="padding:12px 0 12px 8px;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Description</div><div style="font-size:13px;color:#374151;">${emailData.partDescription}</div></td>
+</tr>
+<tr><td colspan="2" style="padding:8px 0;"><div style="height:1px;background-color:#e5e7eb;"></div></td></tr>
+<tr>
+<td width="50%" style="padding:12px 8px 0 0;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Quantity</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.pallets} pallets, ${emailData.boxes} boxes (${emailData.totalUnits.toLocaleString()} units)</div></td>
+<td width="50%" style="padding:12px 0 0 8px;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Cancelled By</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.cancelledBy}</div></td>
+</tr>
+</table>
+</td></tr></table>
+</td></tr>
+
+<tr><td style="padding:0 24px 24px 24px;text-align:center;">
+<a href="${portalUrl}" style="display:inline-block;background-color:#1a1e2e;color:#fff;padding:12px 24px;border-radius:6px;font-size:13px;font-weight:700;text-decoration:none;">View Release in Portal →</a>
+</td></tr>
+
+<tr><td style="padding:16px 24px;background-color:#f9fafb;border-top:1px solid #e5e7eb;text-align:center;">
+<div style="color:#6b7280;font-size:11px;line-height:1.5;">JD Graphic, Co Inc &mdash; Release Cancellation</div>
+</td></tr>
+
+</table></td></tr></table></body></html>`
+
+  const textBody = `
+RELEASE CANCELLED — ${emailData.releaseNumber}
+
+Do not ship this release. Any truck booked for ${shipDateStr} should be cancelled.
+Reason: ${emailData.reason}
+
+Release: ${emailData.releaseNumber}
+Customer PO #: ${emailData.customerPONumber}
+Part: ${emailData.partNumber} — ${emailData.partDescription}
+Quantity: ${emailData.pallets} pallets, ${emailData.boxes} boxes (${emailData.totalUnits.toLocaleString()} units)
+Cancelled By: ${emailData.cancelledBy}
+
+View Release: ${portalUrl}
+
+---
+JD Graphic, Co Inc — Release Cancellation
+  `
+
+  const msg = {
+    to: epgPrimary,
+    cc,
+    from: { email: emailFrom, name: emailFromName },
+    subject: `CANCELLED — ${emailData.releaseNumber} — PO ${emailData.customerPONumber}`,
+    text: textBody,
+    html: htmlBody,
+  }
+
+  try {
+    if (!apiKey) {
+      console.log('⚠️ SendGrid not configured. Cancellation would have been sent to:', epgPrimary.join(', '))
+      console.log('📧 Subject:', msg.subject)
+      return
+    }
+    await sgMail.send(msg)
+    console.log(`✅ Cancellation sent to: ${epgPrimary.join(', ')} (cc ${cc.join(', ')})`)
+  } catch (error) {
+    console.error('❌ Error sending cancellation email:', error)
+    throw error
+  }
+}
+
+/**
+ * Send "release amended" email when a release is edited after submission.
+ *
+ * Same recipients as a cancellation — EPG and Three Z planned against the
+ * original numbers — and lists each changed field, old → new.
+ */
+export async function sendReleaseAmendedEmail(emailData: {
+  releaseNumber: string
+  releaseId?: string
+  customerPONumber: string
+  partNumber: string
+  partDescription: string
+  version: number
+  amendedBy: string
+  changes: ReleaseFieldChange[]
+}): Promise<void> {
+  const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
+  const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
+
+  const epgPrimary = (process.env.EPG_SHIP_TO_EMAIL || 'abates@eprintgroup.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const epgCc = (process.env.EPG_CC_EMAIL || 'kicuss@eprintgroup.com,mwelker@eprintgroup.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const internalCc = (process.env.EMAIL_TO || 'nick@jdgraphic.com,brenda@jdgraphic.com,devin@jdgraphic.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  const cc = [...epgCc, ...THREE_Z_EMAIL_TO, ...internalCc]
+
+  const { paperworkUrl, portalUrl } = buildDeepLinks(emailData.releaseId)
+
+  const changeRowsHtml = emailData.changes
+    .map(
+      (c) => `<tr>
+<td style="padding:8px 8px 8px 0;border-bottom:1px solid #e5e7eb;font-size:13px;color:#6b7280;font-weight:600;">${c.label}</td>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;font-size:13px;color:#9ca3af;text-decoration:line-through;">${c.previousValue ?? '—'}</td>
+<td style="padding:8px 0 8px 8px;border-bottom:1px solid #e5e7eb;font-size:14px;color:#111827;font-weight:700;">${c.newValue ?? '—'}</td>
+</tr>`,
+    )
+    .join('\n')
+  const changeLinesText = emailData.changes
+    .map((c) => `  ${c.label}: ${c.previousValue ?? '—'} → ${c.newValue ?? '—'}`)
+    .join('\n')
+
+  const htmlBody = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background-color:#f4f4f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#f4f4f4;"><tr><td align="center" style="padding:20px 0;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+
+<tr><td style="background:linear-gradient(135deg,#b45309 0%,#92400e 100%);padding:20px 24px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%"><tr>
+<td style="vertical-align:middle;"><div style="color:#fff;font-size:12px;font-weight:600;letter-spacing:1px;text-transform:uppercase;">✎ Release Amended &mdash; Revision ${emailData.version}</div></td>
+<td align="right" style="vertical-align:middle;"><div style="color:#fff;font-size:16px;font-weight:700;">${emailData.releaseNumber}</div></td>
+</tr></table></td></tr>
+
+<tr><td style="padding:24px;background-color:#fffbeb;border-bottom:3px solid #b45309;text-align:center;">
+<div style="font-size:16px;color:#78350f;font-weight:700;line-height:1.5;">This release has changed. Please plan against the updated details below.</div>
+<div style="font-size:13px;color:#92400e;margin-top:8px;">Amended by ${emailData.amendedBy}</div>
+</td></tr>
+
+<tr><td style="padding:24px;background-color:#ffffff;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="margin-bottom:16px;">
+<tr>
+<td width="50%" style="padding:0 8px 12px 0;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Customer PO #</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.customerPONumber}</div></td>
+<td width="50%" style="padding:0 0 12px 8px;vertical-align:top;"><div style="font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:4px;">Part Number</div><div style="font-size:14px;color:#111827;font-weight:600;">${emailData.partNumber}</div><div style="font-size:12px;color:#374151;">${emailData.partDescription}</div></td>
+</tr>
+</table>
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#fafafa;border-left:4px solid #b45309;border-radius:4px;"><tr><td style="padding:16px 20px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%">
+<tr>
+<td style="padding:0 8px 8px 0;font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Field</td>
+<td style="padding:0 8px 8px 8px;font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Was</td>
+<td style="padding:0 0 8px 8px;font-size:11px;color:#6b7280;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Now</td>
+</tr>
+${changeRowsHtml}
+</table>
+</td></tr></table>
+</td></tr>
+
+<tr><td style="padding:0 24px 24px 24px;text-align:center;">
+<a href="${paperworkUrl}" style="display:inline-block;background-color:#b45309;color:#fff;padding:12px 24px;border-radius:6px;font-size:13px;font-weight:700;text-decoration:none;margin:0 4px;">Updated Paperwork →</a>
+<a href="${portalUrl}" style="display:inline-block;background-color:#1a1e2e;color:#fff;padding:12px 24px;border-radius:6px;font-size:13px;font-weight:700;text-decoration:none;margin:0 4px;">View Release in Portal →</a>
+</td></tr>
+
+<tr><td style="padding:16px 24px;background-color:#f9fafb;border-top:1px solid #e5e7eb;text-align:center;">
+<div style="color:#6b7280;font-size:11px;line-height:1.5;">JD Graphic, Co Inc &mdash; Release Amendment</div>
+</td></tr>
+
+</table></td></tr></table></body></html>`
+
+  const textBody = `
+RELEASE AMENDED — ${emailData.releaseNumber} (revision ${emailData.version})
+
+This release has changed. Please plan against the updated details below.
+Amended by: ${emailData.amendedBy}
+
+Customer PO #: ${emailData.customerPONumber}
+Part: ${emailData.partNumber} — ${emailData.partDescription}
+
+Changes:
+${changeLinesText}
+
+Updated Paperwork: ${paperworkUrl}
+View Release: ${portalUrl}
+
+---
+JD Graphic, Co Inc — Release Amendment
+  `
+
+  const msg = {
+    to: epgPrimary,
+    cc,
+    from: { email: emailFrom, name: emailFromName },
+    subject: `AMENDED — ${emailData.releaseNumber} — PO ${emailData.customerPONumber}`,
+    text: textBody,
+    html: htmlBody,
+  }
+
+  try {
+    if (!apiKey) {
+      console.log('⚠️ SendGrid not configured. Amendment would have been sent to:', epgPrimary.join(', '))
+      console.log('📧 Subject:', msg.subject)
+      return
+    }
+    await sgMail.send(msg)
+    console.log(`✅ Amendment sent to: ${epgPrimary.join(', ')} (cc ${cc.join(', ')})`)
+  } catch (error) {
+    console.error('❌ Error sending amendment email:', error)
+    throw error
+  }
+}
+
+/**
+ * Send internal "approval required" email when an approval rule holds a
+ * release at PENDING_APPROVAL. JD only — EPG and Three Z hear nothing until an
+ * admin approves it.
+ */
+export async function sendApprovalRequiredEmail(emailData: {
+  releaseNumber: string
+  releaseId?: string
+  customerPONumber: string
+  partNumber: string
+  partDescription: string
+  totalUnits: number
+  pallets: number
+  shipDate?: string | null
+  requestedBy: string
+  reasons: string[]
+}): Promise<void> {
+  const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
+  const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
+  const emailTo = (process.env.EMAIL_TO || 'nick@jdgraphic.com,brenda@jdgraphic.com,devin@jdgraphic.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+  const approvalsUrl = `${APP_URL}/admin?tab=approvals`
+  const shipDateStr = formatShipDate(emailData.shipDate)
+
+  const htmlBody = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background-color:#f4f4f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#f4f4f4;"><tr><td align="center" style="padding:20px 0;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+
+<tr><td style="background:linear-gradient(135deg,#b45309 0%,#92400e 100%);padding:20px 24px;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%"><tr>
+<td style="vertical-align:middle;"><div style="color:#fff;font-size:12px;font-weight:600;letter-spacing:1px;text-transform:uppercase;">⏸ Approval Required</div></td>
+<td align="right" style="vertical-align:middle;"><div style="color:#fff;font-size:16px;font-weight:700;">${emailData.releaseNumber}</div></td>
+</tr></table></td></tr>
+
+<tr><td style="padding:24px;background-color:#fffbeb;border-bottom:3px solid #b45309;">
+<div style="font-size:14px;color:#78350f;font-weight:700;margin-bottom:8px;">${emailData.requestedBy} submitted a release that needs an admin to approve it:</div>
+${emailData.reasons.map((r) => `<div style="font-size:13px;color:#92400e;">&bull; ${r}</div>`).join('\n')}
+</td></tr>
+
+<tr><td style="padding:24px;background-color:#ffffff;font-size:14px;color:#111827;line-height:1.7;">
+<div><strong>Customer PO #:</strong> ${emailData.customerPONumber}</div>
+<div><strong>Part:</strong> ${emailData.partNumber} &mdash; ${emailData.partDescription}</div>
+<div><strong>Quantity:</strong> ${emailData.pallets} pallets (${emailData.totalUnits.toLocaleString()} units)</div>
+<div><strong>Ship Date:</strong> ${shipDateStr}</div>
+</td></tr>
+
+<tr><td style="padding:0 24px 24px 24px;text-align:center;">
+<a href="${approvalsUrl}" style="display:inline-block;background-color:#1a1e2e;color:#fff;padding:12px 24px;border-radius:6px;font-size:13px;font-weight:700;text-decoration:none;">Review in Admin →</a>
+</td></tr>
+
+<tr><td style="padding:16px 24px;background-color:#f9fafb;border-top:1px solid #e5e7eb;text-align:center;">
+<div style="color:#6b7280;font-size:11px;line-height:1.5;">JD Graphic, Co Inc &mdash; Release Approval. EPG and Three Z have not been notified.</div>
+</td></tr>
+
+</table></td></tr></table></body></html>`
+
+  const textBody = `
+APPROVAL REQUIRED — ${emailData.releaseNumber}
+
+${emailData.requestedBy} submitted a release that needs an admin to approve it:
+${emailData.reasons.map((r) => `  - ${r}`).join('\n')}
+
+Customer PO #: ${emailData.customerPONumber}
+Part: ${emailData.partNumber} — ${emailData.partDescription}
+Quantity: ${emailData.pallets} pallets (${emailData.totalUnits.toLocaleString()} units)
+Ship Date: ${shipDateStr}
+
+Review: ${approvalsUrl}
+
+---
+JD Graphic, Co Inc — Release Approval. EPG and Three Z have not been notified.
+  `
+
+  const msg = {
+    to: emailTo,
+    from: { email: emailFrom, name: emailFromName },
+    subject: `Approval required — ${emailData.releaseNumber} — PO ${emailData.customerPONumber}`,
+    text: textBody,
+    html: htmlBody,
+  }
+
+  try {
+    if (!apiKey) {
+      console.log('⚠️ SendGrid not configured. Approval request would have been sent to:', emailTo.join(', '))
+      console.log('📧 Subject:', msg.subject)
+      return
+    }
+    await sgMail.send(msg)
+    console.log(`✅ Approval request sent to: ${emailTo.join(', ')}`)
+  } catch (error) {
+    console.error('❌ Error sending approval request email:', error)
+    throw error
+  }
+}
+
 /**
  * Send internal invoice reminder on ship date (Email 3).
  * Triggered: Cron on ship date (replaces old invoice email to ap@eprintgroup.com).
@@ -617,3 +982,185 @@ JD Graphic, Co Inc - Internal Invoice Reminder
     throw error
   }
 }
+
+export interface LowStockAlert {
+  partNumber: string
+  partDescription: string
+  status: 'LOW' | 'CRITICAL'
+  availableUnits: number
+  availablePallets: number
+  reorderPointUnits: number
+  criticalPointUnits: number
+  unitsPerDay: number
+  projectedStockoutDate: Date | null
+}
+
+/**
+ * Daily low-stock alert to JD listing every part that dropped below its
+ * reorder (LOW) or critical point since the last alert.
+ * Triggered: /api/cron/low-stock-alerts. Recipients: LOW_STOCK_EMAIL_TO, else EMAIL_TO.
+ */
+export async function sendLowStockAlertEmail(alerts: LowStockAlert[]): Promise<void> {
+  const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
+  const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
+  const emailTo = (process.env.LOW_STOCK_EMAIL_TO || process.env.EMAIL_TO || 'nick@jdgraphic.com')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+  const formatStockout = (date: Date | null) =>
+    date
+      ? date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      : 'No recent releases'
+
+  const anyCritical = alerts.some((a) => a.status === 'CRITICAL')
+
+  const rows = alerts
+    .map(
+      (a) => `<tr>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;"><strong>${a.partNumber}</strong><br><span style="color:#6b7280;font-size:12px;">${a.partDescription}</span></td>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;color:${a.status === 'CRITICAL' ? '#dc2626' : '#d97706'};font-weight:700;">${a.status}</td>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;">${a.availableUnits.toLocaleString()} units<br><span style="color:#6b7280;font-size:12px;">${a.availablePallets} pallets</span></td>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;">${a.reorderPointUnits.toLocaleString()} / ${a.criticalPointUnits.toLocaleString()}</td>
+<td style="padding:8px;border-bottom:1px solid #e5e7eb;">${formatStockout(a.projectedStockoutDate)}<br><span style="color:#6b7280;font-size:12px;">${a.unitsPerDay.toLocaleString()} units/day</span></td>
+</tr>`,
+    )
+    .join('')
+
+  const htmlBody = `<!DOCTYPE html><html><head><meta charset="utf-8"></head>
+<body style="margin:0;padding:0;background-color:#f4f4f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#f4f4f4;"><tr><td align="center" style="padding:20px 0;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:linear-gradient(135deg,#d97706 0%,#b45309 100%);padding:20px 24px;">
+<div style="color:#fff;font-size:12px;font-weight:600;letter-spacing:1px;text-transform:uppercase;">Low Stock Alert</div>
+</td></tr>
+<tr><td style="padding:24px;background-color:#fffbeb;border-bottom:2px solid #d97706;text-align:center;">
+<div style="font-size:16px;color:#92400e;font-weight:700;line-height:1.5;">${alerts.length} part${alerts.length === 1 ? '' : 's'} dropped below ${anyCritical ? 'critical' : 'reorder'} point. Schedule production.</div>
+</td></tr>
+<tr><td style="padding:24px;background-color:#ffffff;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="font-size:13px;color:#111827;">
+<tr style="text-align:left;color:#6b7280;font-size:11px;text-transform:uppercase;">
+<th style="padding:8px;">Part</th><th style="padding:8px;">Status</th><th style="padding:8px;">Available</th><th style="padding:8px;">Reorder / Critical</th><th style="padding:8px;">Projected Stockout</th>
+</tr>
+${rows}
+</table>
+</td></tr>
+<tr><td style="padding:16px 24px;background-color:#f9fafb;border-top:1px solid #e5e7eb;text-align:center;">
+<div style="color:#6b7280;font-size:11px;">JD Graphic, Co Inc &mdash; Internal Low Stock Alert &mdash; <a href="${APP_URL}/admin" style="color:#6b7280;">Admin</a></div>
+</td></tr>
+</table></td></tr></table></body></html>`
+
+  const textBody = `
+LOW STOCK ALERT
+
+${alerts
+  .map(
+    (a) => `${a.partNumber} — ${a.partDescription}
+  Status: ${a.status}
+  Available: ${a.availableUnits.toLocaleString()} units (${a.availablePallets} pallets)
+  Reorder / critical point: ${a.reorderPointUnits.toLocaleString()} / ${a.criticalPointUnits.toLocaleString()} units
+  Projected stockout: ${formatStockout(a.projectedStockoutDate)} (${a.unitsPerDay.toLocaleString()} units/day)`,
+  )
+  .join('\n\n')}
+
+---
+JD Graphic, Co Inc - Internal Low Stock Alert
+  `
+
+  const msg = {
+    to: emailTo,
+    from: { email: emailFrom, name: emailFromName },
+    subject: `${anyCritical ? 'CRITICAL' : 'Low'} Stock - ${alerts.map((a) => a.partNumber).join(', ')}`,
+    text: textBody,
+    html: htmlBody,
+  }
+
+  try {
+    if (!apiKey) {
+      console.log('⚠️ SendGrid not configured. Low stock alert would have been sent to:', emailTo.join(', '))
+      return
+    }
+    await sgMail.send(msg)
+    console.log(`✅ Low stock alert sent to: ${emailTo.join(', ')}`)
+  } catch (error) {
+    console.error('Error sending low stock alert email:', error)
+    throw error
+  }
+}
+
+/**
+ * Send a user their "forgot password" link.
+ * Triggered: POST /api/auth/forgot-password. The link works once, for
+ * `expiresInMinutes`.
+ */
+export async function sendPasswordResetEmail(emailData: {
+  email: string
+  name: string
+  token: string
+  expiresInMinutes: number
+}): Promise<void> {
+  const emailFrom = process.env.EMAIL_FROM || 'noreply@jdgraphic.com'
+  const emailFromName = process.env.EMAIL_FROM_NAME || 'JD Graphic'
+
+  const resetUrl = `${APP_URL}/reset-password?token=${encodeURIComponent(emailData.token)}`
+
+  const htmlBody = `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background-color:#f4f4f4;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color:#f4f4f4;"><tr><td align="center" style="padding:20px 0;">
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+
+<tr><td style="background-color:#1a1e2e;padding:20px 24px;">
+<div style="color:#fff;font-size:12px;font-weight:600;letter-spacing:1px;text-transform:uppercase;">Password Reset</div>
+</td></tr>
+
+<tr><td style="padding:24px;background-color:#ffffff;font-size:14px;color:#111827;line-height:1.7;">
+<div>Hi ${emailData.name},</div>
+<div style="margin-top:12px;">Someone asked to reset the password for your Inventory Release account (${emailData.email}). Use the button below to choose a new one.</div>
+<div style="margin-top:12px;color:#6b7280;font-size:13px;">The link works once and expires in ${emailData.expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email &mdash; your password hasn't changed.</div>
+</td></tr>
+
+<tr><td style="padding:0 24px 24px 24px;text-align:center;">
+<a href="${resetUrl}" style="display:inline-block;background-color:#1a1e2e;color:#fff;padding:12px 24px;border-radius:6px;font-size:13px;font-weight:700;text-decoration:none;">Choose a New Password →</a>
+</td></tr>
+
+<tr><td style="padding:16px 24px;background-color:#f9fafb;border-top:1px solid #e5e7eb;text-align:center;">
+<div style="color:#6b7280;font-size:11px;line-height:1.5;">JD Graphic, Co Inc &mdash; Inventory Release</div>
+</td></tr>
+
+</table></td></tr></table></body></html>`
+
+  const textBody = `
+PASSWORD RESET
+
+Hi ${emailData.name},
+
+Someone asked to reset the password for your Inventory Release account (${emailData.email}). Open this link to choose a new one:
+
+${resetUrl}
+
+The link works once and expires in ${emailData.expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email — your password hasn't changed.
+
+---
+JD Graphic, Co Inc — Inventory Release
+  `
+
+  const msg = {
+    to: emailData.email,
+    from: { email: emailFrom, name: emailFromName },
+    subject: 'Reset your Inventory Release password',
+    text: textBody,
+    html: htmlBody,
+  }
+
+  try {
+    if (!apiKey) {
+      console.log('⚠️ SendGrid not configured. Password reset link would have been sent to:', emailData.email)
+      return
+    }
+    await sgMail.send(msg)
+    console.log(`✅ Password reset link sent to: ${emailData.email}`)
+  } catch (error) {
+    console.error('❌ Error sending password reset email:', error)
+    throw error
+  }
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { NextResponse, type NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+
+/**
+ * Idempotency-Key support for routes with side effects that must not repeat
+ * (creating a release, marking it shipped — each sends emails and queues
+ * integration jobs).
+ *
+ * A request carrying the header claims the key for its user and endpoint
+ * before the handler runs. The first successful response is stored and
+ * replayed, unchanged, to any duplicate within the window; a duplicate that
+ * arrives while the first is still running gets a 409. Failed responses
+ * release the key, so the client can fix the input and retry with it.
+ *
+ * Requests without the header behave exactly as before.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000
+const MAX_KEY_LENGTH = 255
+
+function idempotencyError(error: string, status: number): NextResponse {
+  return NextResponse.json({ error }, { status })
+}
+
+function replay(record: { statusCode: number | null; response: Prisma.JsonValue }): NextResponse {
+  return NextResponse.json(record.response, {
+    status: record.statusCode!,
+    headers: { 'Idempotent-Replayed': 'true' },
+  })
+}
+
+/**
+ * Run `handler` at most once per Idempotency-Key. Call after the user is
+ * authenticated and `await` the result inside the route's try, so errors
+ * thrown by the handler still reach its catch.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  userId: string,
+  handler: () => Promise<NextResponse>,
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim()
+  if (!key) {
+    return handler()
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return idempotencyError(`${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`, 400)
+  }
+
+  const endpoint = `${request.method} ${request.nextUrl.pathname}`
+  const requestHash = createHash('sha256').update(await request.clone().text()).digest('hex')
+  const now = new Date()
+
+  // Expired keys are dropped as they're next used
+  await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lt: now } } })
+
+  let claimId: string
+  try {
+    const claim = await prisma.idempotencyKey.create({
+      data: {
+        key,
+        endpoint,
+        userId,
+        requestHash,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_MS),
+      },
+    })
+    claimId = claim.id
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_endpoint_key: { userId, endpoint, key } },
+    })
+    // Released by a failed first attempt between our insert and this read
+    if (!existing) {
+      return idempotencyError('This request is already being retried. Please try again.', 409)
+    }
+    if (existing.requestHash !== requestHash) {
+      return idempotencyError(`${IDEMPOTENCY_HEADER} was already used for a different request`, 422)
+    }
+    if (existing.statusCode === null) {
+      return idempotencyError('The original request is still being processed', 409)
+    }
+
+    console.log(`🔁 Replaying ${endpoint} for ${IDEMPOTENCY_HEADER} ${key}`)
+    return replay(existing)
+  }
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } })
+    throw error
+  }
+
+  if (response.ok) {
+    await prisma.idempotencyKey.update({
+      where: { id: claimId },
+      data: { statusCode: response.status, response: await response.clone().json() },
+    })
+  } else {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } })
+  }
+
+  return response
+}
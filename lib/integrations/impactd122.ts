@@ -82,3 +82,53 @@ export async function createImpactJob(payload: ImpactJobPayload): Promise<Impact
     }
   }
 }
+
+/**
+ * Cancel a job in impactd122 via the webhook endpoint when its release is cancelled
+ */
+export async function cancelImpactJob(payload: {
+  jobId: string
+  externalJobId: string
+  jobNo: string
+  reason: string
+}): Promise<ImpactJobResult> {
+  if (!IMPACTD122_API_URL) {
+    console.log('[impactd122] API URL not configured, skipping')
+    return { success: false, error: 'Not configured' }
+  }
+
+  if (!IMPACTD122_WEBHOOK_SECRET) {
+    console.log('[impactd122] Webhook secret not configured, skipping')
+    return { success: false, error: 'Webhook secret not configured' }
+  }
+
+  try {
+    const response = await fetch(`${IMPACTD122_API_URL}/api/webhooks/jobs/${payload.jobId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': IMPACTD122_WEBHOOK_SECRET,
+      },
+      body: JSON.stringify({
+        externalJobId: payload.externalJobId,
+        jobNo: payload.jobNo,
+        status: 'CANCELLED',
+        cancellationReason: payload.reason,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`HTTP ${response.status}: ${errorText}`)
+    }
+
+    console.log(`[impactd122] Job cancelled via webhook: ${payload.jobId} (${payload.jobNo})`)
+    return { success: true, jobId: payload.jobId }
+  } catch (error) {
+    console.error('[impactd122] Error cancelling job via webhook:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
@@ -232,3 +232,59 @@ export async function createPressPlannerJob(
     return { success: true, jobNumber: createdJobNumber, jobId, statusFlipped: false }
   }
 }
+
+/**
+ * Cancel the press-planner job for a cancelled release. Uses the stored job
+ * UUID; falls back to looking it up by job number, then release number, for
+ * releases whose lookup-after-create didn't find it.
+ */
+export async function cancelPressPlannerJob(p: {
+  releaseNumber: string
+  jobId?: string | null
+  jobNumber?: string | null
+  reason: string
+}): Promise<PressPlannerResult> {
+  if (!PRESS_PLANNER_URL) {
+    console.log('[press-planner] URL not configured, skipping')
+    return { success: false, error: 'Not configured' }
+  }
+
+  let jobId = p.jobId ?? undefined
+  let jobNumber = p.jobNumber ?? undefined
+  if (!jobId) {
+    const rows = await fetchRecentJobs()
+    const row =
+      (jobNumber ? findByJobNumber(rows, jobNumber) : null) ||
+      findByReleaseNumber(rows, p.releaseNumber)
+    if (!row) {
+      console.warn(`[press-planner] No job found for ${p.releaseNumber}, nothing to cancel`)
+      return { success: false, error: 'Job not found' }
+    }
+    jobId = row.id
+    jobNumber = row.jobNumber
+  }
+
+  try {
+    const res = await fetch(`${PRESS_PLANNER_URL}/api/jobs/${jobId}`, {
+      method: 'PUT',
+      headers: authHeaders(),
+      body: JSON.stringify({
+        status: 'cancelled',
+        productionNotes: `CANCELLED | ${p.releaseNumber} | ${p.reason}`,
+      }),
+      signal: AbortSignal.timeout(15000),
+    })
+    if (!res.ok) {
+      const text = await res.text()
+      throw new Error(`HTTP ${res.status}: ${text.slice(0, 300)}`)
+    }
+    console.log(`[press-planner] Job cancelled: ${jobNumber ?? jobId} — ${p.releaseNumber}`)
+    return { success: true, jobId, jobNumber }
+  } catch (err) {
+    console.error('[press-planner] Error cancelling job:', err)
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // Three Z Job Portal Integration
-// Creates jobs in the Three Z Job Portal when releases are created
+// Creates jobs in the Three Z Job Portal when releases are created, and cancels
+// them when releases are cancelled
 
 const THREEZ_PORTAL_URL = process.env.THREEZ_PORTAL_URL
 
@@ -61,3 +62,37 @@ export async function createThreezPortalJob(payload: ThreezJobPayload): Promise<
     }
   }
 }
+
+/**
+ * Cancel a Three Z Job Portal job when its release is cancelled
+ */
+export async function cancelThreezPortalJob(jobId: string, reason: string): Promise<ThreezJobResult> {
+  if (!THREEZ_PORTAL_URL) {
+    console.log('[threez-portal] URL not configured, skipping')
+    return { success: false, error: 'Not configured' }
+  }
+
+  try {
+    const response = await fetch(`${THREEZ_PORTAL_URL}/api/jobs/${jobId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ status: 'cancelled', cancellationReason: reason }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`HTTP ${response.status}: ${errorText}`)
+    }
+
+    console.log(`[threez-portal] Job cancelled: ${jobId}`)
+    return { success: true, jobId }
+  } catch (error) {
+    console.error('[threez-portal] Error cancelling job:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import type { AdjustmentReason } from '@prisma/client'
+
+/** Reason codes an admin must pick when posting a cycle count, with labels. */
+export const ADJUSTMENT_REASONS: Record<AdjustmentReason, string> = {
+  CYCLE_COUNT: 'Routine cycle count',
+  DAMAGED: 'Damaged / scrapped',
+  LOST: 'Lost / missing',
+  FOUND: 'Found stock',
+  DATA_ENTRY_ERROR: 'Data entry error',
+  OTHER: 'Other (explain in notes)',
+}
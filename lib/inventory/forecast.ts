@@ -0,0 +1,181 @@
+import type { Part } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+/**
+ * Demand forecasting from release history.
+ *
+ * Usage is bucketed by calendar month on each release's ship date (creation
+ * date when unset, so backfilled historical releases land in the month they
+ * actually shipped). From that:
+ *   - seasonality: each calendar month's average usage relative to the overall
+ *     monthly average (1.0 = a typical month). Needs a full year of history;
+ *     with less every month is 1.0.
+ *   - baseline: average deseasonalised usage over the trailing 12 complete
+ *     months.
+ *   - projection: baseline × seasonality, spread over each day of the next
+ *     FORECAST_DAYS.
+ */
+
+export const FORECAST_DAYS = 90
+const BASELINE_MONTHS = 12
+
+export interface MonthlyUsage {
+  month: string        // YYYY-MM
+  units: number
+}
+
+export interface PartForecast {
+  partId: string
+  partNumber: string
+  description: string
+  monthlyUsage: MonthlyUsage[]
+  seasonality: number[]          // 12 indices, January first
+  baselineMonthlyUnits: number
+  projectedMonths: MonthlyUsage[] // Projected units per calendar month in the window
+  projectedUnits: number          // Next FORECAST_DAYS
+  projectedPallets: number
+  onHandUnits: number
+  availableUnits: number          // On hand less stock reserved for unshipped releases
+  projectedOnHandUnits: number    // Available less the projection (negative = shortfall)
+  runsOutInWindow: boolean
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+}
+
+/** Every month from `first` through the month before `now`, oldest first. */
+function completeMonths(first: Date, now: Date): string[] {
+  const months: string[] = []
+  let year = first.getUTCFullYear()
+  let month = first.getUTCMonth()
+  const endKey = monthKey(now)
+  for (;;) {
+    const key = `${year}-${String(month + 1).padStart(2, '0')}`
+    if (key >= endKey) break
+    months.push(key)
+    month++
+    if (month === 12) {
+      month = 0
+      year++
+    }
+  }
+  return months
+}
+
+function seasonalIndices(usage: MonthlyUsage[]): number[] {
+  if (usage.length < 12) return Array(12).fill(1)
+
+  const overall = usage.reduce((sum, m) => sum + m.units, 0) / usage.length
+  if (overall === 0) return Array(12).fill(1)
+
+  const byMonth: number[][] = Array.from({ length: 12 }, () => [])
+  for (const m of usage) {
+    byMonth[Number(m.month.slice(5)) - 1].push(m.units)
+  }
+  return byMonth.map((values) =>
+    values.length === 0
+      ? 1
+      : Math.round((values.reduce((a, b) => a + b, 0) / values.length / overall) * 100) / 100
+  )
+}
+
+/** Forecast one part from its dated release usage. */
+export function buildPartForecast(
+  part: Pick<Part, 'id' | 'partNumber' | 'description' | 'onHandBoxes' | 'reservedBoxes' | 'unitsPerBox' | 'boxesPerPallet'>,
+  usage: Array<{ date: Date; units: number }>,
+  now: Date = new Date()
+): PartForecast {
+  const totals = new Map<string, number>()
+  for (const u of usage) {
+    const key = monthKey(u.date)
+    totals.set(key, (totals.get(key) ?? 0) + u.units)
+  }
+
+  const first = usage.reduce<Date | null>((min, u) => (!min || u.date < min ? u.date : min), null)
+  const monthlyUsage = first
+    ? completeMonths(first, now).map((month) => ({ month, units: totals.get(month) ?? 0 }))
+    : []
+
+  const seasonality = seasonalIndices(monthlyUsage)
+
+  const trailing = monthlyUsage.slice(-BASELINE_MONTHS)
+  const baselineMonthlyUnits =
+    trailing.length === 0
+      ? 0
+      : trailing.reduce((sum, m) => {
+          const index = seasonality[Number(m.month.slice(5)) - 1] || 1
+          return sum + m.units / index
+        }, 0) / trailing.length
+
+  // Walk the window day by day so partial months are weighted correctly
+  const projected = new Map<string, number>()
+  for (let day = 1; day <= FORECAST_DAYS; day++) {
+    const d = new Date(now.getTime() + day * 24 * 60 * 60 * 1000)
+    const y = d.getUTCFullYear()
+    const m = d.getUTCMonth()
+    const daily = (baselineMonthlyUnits * seasonality[m]) / daysInMonth(y, m)
+    const key = monthKey(d)
+    projected.set(key, (projected.get(key) ?? 0) + daily)
+  }
+  const projectedMonths = [...projected].map(([month, units]) => ({ month, units: Math.round(units) }))
+  const projectedUnits = projectedMonths.reduce((sum, m) => sum + m.units, 0)
+
+  const onHandUnits = part.onHandBoxes * part.unitsPerBox
+  const availableUnits = (part.onHandBoxes - part.reservedBoxes) * part.unitsPerBox
+  const unitsPerPallet = part.boxesPerPallet * part.unitsPerBox
+
+  return {
+    partId: part.id,
+    partNumber: part.partNumber,
+    description: part.description,
+    monthlyUsage,
+    seasonality,
+    baselineMonthlyUnits: Math.round(baselineMonthlyUnits),
+    projectedMonths,
+    projectedUnits,
+    projectedPallets: unitsPerPallet > 0 ? Math.ceil(projectedUnits / unitsPerPallet) : 0,
+    onHandUnits,
+    availableUnits,
+    projectedOnHandUnits: availableUnits - projectedUnits,
+    runsOutInWindow: projectedUnits > availableUnits,
+  }
+}
+
+/** Forecasts for every part (or one), from all release history except cancellations. */
+export async function forecastParts(partId?: string, now: Date = new Date()): Promise<PartForecast[]> {
+  const [parts, releases] = await Promise.all([
+    prisma.part.findMany({
+      where: partId ? { id: partId } : undefined,
+      orderBy: { partNumber: 'asc' },
+    }),
+    prisma.release.findMany({
+      where: { status: { not: 'CANCELLED' } },
+      select: {
+        partId: true,
+        totalUnits: true,
+        shipDate: true,
+        createdAt: true,
+        lines: { select: { partId: true, totalUnits: true } },
+      },
+    }),
+  ])
+
+  const usageByPart = new Map<string, Array<{ date: Date; units: number }>>()
+  for (const release of releases) {
+    const date = release.shipDate ?? release.createdAt
+    // Releases from before ReleaseLine existed count as their one part
+    const lines = release.lines.length > 0 ? release.lines : [release]
+    for (const line of lines) {
+      const usage = usageByPart.get(line.partId) ?? []
+      usage.push({ date, units: line.totalUnits })
+      usageByPart.set(line.partId, usage)
+    }
+  }
+
+  return parts.map((part) => buildPartForecast(part, usageByPart.get(part.id) ?? [], now))
+}
@@ -0,0 +1,86 @@
+import type { InventoryTransactionType, Part, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+export interface InventoryTransactionInput {
+  partId: string
+  type: InventoryTransactionType
+  boxes: number
+  userId?: string | null
+  releaseId?: string | null
+  productionId?: string | null
+  inventoryCountId?: string | null
+  stockTransferId?: string | null
+  stockLocationId?: string | null
+  reference?: string | null
+  notes?: string | null
+}
+
+/**
+ * Record a change to a part's on-hand stock. Called by applyInventoryChange
+ * (lib/inventory/stock.ts) in the same transaction that updates the part.
+ */
+export async function recordInventoryTransaction(
+  tx: Prisma.TransactionClient,
+  input: InventoryTransactionInput
+) {
+  if (input.boxes === 0) return null
+
+  return tx.inventoryTransaction.create({
+    data: {
+      partId: input.partId,
+      type: input.type,
+      boxes: input.boxes,
+      userId: input.userId ?? null,
+      releaseId: input.releaseId ?? null,
+      productionId: input.productionId ?? null,
+      inventoryCountId: input.inventoryCountId ?? null,
+      stockTransferId: input.stockTransferId ?? null,
+      stockLocationId: input.stockLocationId ?? null,
+      reference: input.reference ?? null,
+      notes: input.notes ?? null,
+    },
+  })
+}
+
+/** On-hand boxes according to the ledger. */
+export async function ledgerOnHandBoxes(partId: string): Promise<number> {
+  const result = await prisma.inventoryTransaction.aggregate({
+    where: { partId },
+    _sum: { boxes: true },
+  })
+  return result._sum.boxes ?? 0
+}
+
+export interface InventoryReconciliation {
+  partId: string
+  partNumber: string
+  storedBoxes: number
+  ledgerBoxes: number
+  locationBoxes: number   // Sum of per-location PartStock
+  drift: number           // storedBoxes - ledgerBoxes
+  locationDrift: number   // storedBoxes - locationBoxes
+  hasDrift: boolean
+}
+
+export async function reconcilePartInventory(part: Part): Promise<InventoryReconciliation> {
+  const storedBoxes = part.onHandBoxes
+  const ledgerBoxes = await ledgerOnHandBoxes(part.id)
+  const locationStock = await prisma.partStock.aggregate({
+    where: { partId: part.id },
+    _sum: { onHandBoxes: true },
+  })
+  const locationBoxes = locationStock._sum.onHandBoxes ?? 0
+  const drift = storedBoxes - ledgerBoxes
+  const locationDrift = storedBoxes - locationBoxes
+
+  return {
+    partId: part.id,
+    partNumber: part.partNumber,
+    storedBoxes,
+    ledgerBoxes,
+    locationBoxes,
+    drift,
+    locationDrift,
+    hasDrift: drift !== 0 || locationDrift !== 0,
+  }
+}
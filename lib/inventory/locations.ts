@@ -0,0 +1,65 @@
+import type { Prisma, StockLocation } from '@prisma/client'
+import { JD_SHIP_FROM } from '@/lib/epg'
+
+/** The location releases ship from and production lands in unless told otherwise. */
+export async function defaultStockLocation(
+  tx: Prisma.TransactionClient
+): Promise<StockLocation> {
+  const location =
+    (await tx.stockLocation.findFirst({ where: { isDefault: true } })) ??
+    (await tx.stockLocation.findFirst({ orderBy: { createdAt: 'asc' } }))
+
+  if (!location) {
+    throw new Error('NO_STOCK_LOCATION')
+  }
+  return location
+}
+
+export async function resolveStockLocationId(
+  tx: Prisma.TransactionClient,
+  stockLocationId?: string | null
+): Promise<string> {
+  if (stockLocationId) return stockLocationId
+  return (await defaultStockLocation(tx)).id
+}
+
+/** Boxes of a part held at one location. */
+export async function locationOnHandBoxes(
+  tx: Prisma.TransactionClient,
+  partId: string,
+  stockLocationId: string
+): Promise<number> {
+  const stock = await tx.partStock.findUnique({
+    where: { partId_stockLocationId: { partId, stockLocationId } },
+  })
+  return stock?.onHandBoxes ?? 0
+}
+
+/**
+ * Ship-from block for paperwork. Releases created before stock locations
+ * existed have none and keep shipping from JD Elk Grove.
+ */
+export function shipFromAddress(location: StockLocation | null | undefined) {
+  if (!location) {
+    return {
+      name: JD_SHIP_FROM.name,
+      address: JD_SHIP_FROM.address,
+      city: JD_SHIP_FROM.city,
+      state: JD_SHIP_FROM.state,
+      zip: JD_SHIP_FROM.zip,
+      country: JD_SHIP_FROM.country,
+      phone: JD_SHIP_FROM.phone,
+    }
+  }
+  return {
+    name: location.name,
+    address: location.address,
+    city: location.city,
+    state: location.state,
+    zip: location.zip,
+    country: location.country,
+    phone: location.phone ?? undefined,
+  }
+}
+
+export type ShipFromAddress = ReturnType<typeof shipFromAddress>
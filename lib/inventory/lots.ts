@@ -0,0 +1,233 @@
+import type { Prisma, Production, ReleaseLotAllocation } from '@prisma/client'
+import { resolveStockLocationId } from '@/lib/inventory/locations'
+
+export type LotAllocationWithLot = ReleaseLotAllocation & { production: Production }
+
+/** Prisma include for a release line's lot allocations, oldest lot first. */
+export const lotAllocationsInclude = {
+  include: { production: true },
+  orderBy: { production: { manufactureDate: 'asc' } },
+} as const
+
+/**
+ * Lots live where their boxes are: each lot's unreleased boxes are held in
+ * LotStock rows, one per location, which sum to Production.remainingBoxes.
+ * Production lands in one location and stock transfers move lot boxes along
+ * with the stock, so a release only draws on lots at its ship-from location.
+ */
+
+/** Take `boxes` off a lot at one location (and its total), or throw if it has less. */
+async function takeFromLot(
+  tx: Prisma.TransactionClient,
+  productionId: string,
+  stockLocationId: string,
+  boxes: number
+): Promise<void> {
+  // Conditional so two releases drawing on the same lot can't overdraw it
+  const { count } = await tx.lotStock.updateMany({
+    where: { productionId, stockLocationId, remainingBoxes: { gte: boxes } },
+    data: { remainingBoxes: { decrement: boxes } },
+  })
+  if (count === 0) {
+    throw new Error('INSUFFICIENT_INVENTORY')
+  }
+  await tx.production.update({
+    where: { id: productionId },
+    data: { remainingBoxes: { decrement: boxes } },
+  })
+}
+
+/** Put `boxes` back on a lot at one location (and its total). */
+async function giveToLot(
+  tx: Prisma.TransactionClient,
+  productionId: string,
+  stockLocationId: string,
+  boxes: number
+): Promise<void> {
+  await tx.lotStock.upsert({
+    where: { productionId_stockLocationId: { productionId, stockLocationId } },
+    update: { remainingBoxes: { increment: boxes } },
+    create: { productionId, stockLocationId, remainingBoxes: boxes },
+  })
+  await tx.production.update({
+    where: { id: productionId },
+    data: { remainingBoxes: { increment: boxes } },
+  })
+}
+
+/** A part's lots with boxes at one location, oldest first. */
+async function lotsAt(
+  tx: Prisma.TransactionClient,
+  partId: string,
+  stockLocationId: string,
+  productionIds?: string[]
+) {
+  return tx.lotStock.findMany({
+    where: {
+      stockLocationId,
+      remainingBoxes: { gt: 0 },
+      production: { partId, ...(productionIds ? { id: { in: productionIds } } : {}) },
+    },
+    include: { production: true },
+    orderBy: [{ production: { manufactureDate: 'asc' } }, { production: { createdAt: 'asc' } }],
+  })
+}
+
+/** Record a newly produced lot's boxes at the location it was put away. */
+export async function receiveLot(
+  tx: Prisma.TransactionClient,
+  productionId: string,
+  stockLocationId: string,
+  boxes: number
+): Promise<void> {
+  if (boxes <= 0) return
+  await tx.lotStock.create({ data: { productionId, stockLocationId, remainingBoxes: boxes } })
+}
+
+/**
+ * Draw `boxes` for a release line from a part's lots at the release's
+ * ship-from location (the default location when none is given).
+ *
+ * By default lots are consumed FIFO by manufacture date. Passing `lotIds`
+ * (Production ids) overrides that: only those lots are used, in the order
+ * given, and Error('LOT_UNAVAILABLE') is thrown if they cannot cover the line
+ * from that location.
+ *
+ * Stock that predates lot tracking has no lot, so a FIFO draw that runs out
+ * of lots leaves the remainder unallocated rather than failing.
+ */
+export async function allocateLots(
+  tx: Prisma.TransactionClient,
+  input: {
+    releaseLineId: string
+    partId: string
+    boxes: number
+    stockLocationId?: string | null
+    lotIds?: string[]
+  }
+): Promise<LotAllocationWithLot[]> {
+  let needed = input.boxes
+  if (needed <= 0) return []
+
+  const locationId = await resolveStockLocationId(tx, input.stockLocationId)
+  const override = input.lotIds && input.lotIds.length > 0
+  const candidates = override
+    ? (await lotsAt(tx, input.partId, locationId, input.lotIds)).sort(
+        (a, b) => input.lotIds!.indexOf(a.productionId) - input.lotIds!.indexOf(b.productionId)
+      )
+    : await lotsAt(tx, input.partId, locationId)
+
+  const allocations: LotAllocationWithLot[] = []
+  for (const lot of candidates) {
+    if (needed === 0) break
+    const take = Math.min(lot.remainingBoxes, needed)
+    await takeFromLot(tx, lot.productionId, locationId, take)
+
+    const allocation = await tx.releaseLotAllocation.create({
+      data: { releaseLineId: input.releaseLineId, productionId: lot.productionId, boxes: take },
+      include: { production: true },
+    })
+    allocations.push(allocation)
+    needed -= take
+  }
+
+  if (override && needed > 0) {
+    throw new Error('LOT_UNAVAILABLE')
+  }
+
+  return allocations
+}
+
+/**
+ * Give a release line's boxes back to their lots at the release's ship-from
+ * location, newest lot first (the reverse of FIFO). Omit `boxes` to return the
+ * whole line.
+ */
+export async function returnLotAllocations(
+  tx: Prisma.TransactionClient,
+  releaseLineId: string,
+  boxes?: number
+): Promise<void> {
+  const allocations = await tx.releaseLotAllocation.findMany({
+    where: { releaseLineId },
+    include: { production: true, releaseLine: { include: { release: true } } },
+    orderBy: { production: { manufactureDate: 'desc' } },
+  })
+  if (allocations.length === 0) return
+
+  const locationId = await resolveStockLocationId(
+    tx,
+    allocations[0].releaseLine.release.stockLocationId
+  )
+
+  let remaining = boxes ?? Infinity
+  for (const allocation of allocations) {
+    if (remaining <= 0) break
+    const give = Math.min(allocation.boxes, remaining)
+
+    await giveToLot(tx, allocation.productionId, locationId, give)
+
+    if (give === allocation.boxes) {
+      await tx.releaseLotAllocation.delete({ where: { id: allocation.id } })
+    } else {
+      await tx.releaseLotAllocation.update({
+        where: { id: allocation.id },
+        data: { boxes: { decrement: give } },
+      })
+    }
+    remaining -= give
+  }
+}
+
+/**
+ * Remove boxes from a part's lots at one location FIFO without a release
+ * (e.g. a cycle count that found less stock than expected). Unlotted
+ * shortfall is ignored.
+ */
+export async function consumeLots(
+  tx: Prisma.TransactionClient,
+  partId: string,
+  stockLocationId: string,
+  boxes: number
+): Promise<void> {
+  let needed = boxes
+  if (needed <= 0) return
+
+  for (const lot of await lotsAt(tx, partId, stockLocationId)) {
+    if (needed === 0) break
+    const take = Math.min(lot.remainingBoxes, needed)
+    await takeFromLot(tx, lot.productionId, stockLocationId, take)
+    needed -= take
+  }
+}
+
+/**
+ * Move a part's lot boxes from one location to another with a stock transfer,
+ * oldest lots first. Unlotted stock moves without lots, as in consumeLots.
+ */
+export async function transferLots(
+  tx: Prisma.TransactionClient,
+  transfer: { partId: string; fromLocationId: string; toLocationId: string; boxes: number }
+): Promise<void> {
+  let needed = transfer.boxes
+  if (needed <= 0) return
+
+  for (const lot of await lotsAt(tx, transfer.partId, transfer.fromLocationId)) {
+    if (needed === 0) break
+    const move = Math.min(lot.remainingBoxes, needed)
+    await takeFromLot(tx, lot.productionId, transfer.fromLocationId, move)
+    await giveToLot(tx, lot.productionId, transfer.toLocationId, move)
+    needed -= move
+  }
+}
+
+export function formatManufactureDate(date: Date): string {
+  return `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}/${date.getFullYear()}`
+}
+
+/** "LOT-A (MFG 10/01/2026), LOT-B (MFG 10/05/2026)" */
+export function lotSummary(allocations: LotAllocationWithLot[]): string {
+  return allocations
+    .map((a) => `${a.production.lotNumber ?? 'N/A'} (MFG ${formatManufactureDate(a.production.manufactureDate)})`)
+    .join(', ')
+}
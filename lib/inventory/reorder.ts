@@ -0,0 +1,95 @@
+import type { Part, StockStatus } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+/**
+ * Reorder points. A part is LOW once its available units (on hand less what is
+ * reserved for unshipped releases) drop below its reorder point and CRITICAL
+ * below its critical point. Parts without their own points
+ * use a share of the annual order (30% / 15%).
+ */
+
+export const DEFAULT_REORDER_PERCENT = 30
+export const DEFAULT_CRITICAL_PERCENT = 15
+
+/** Trailing window release velocity is measured over. Override with STOCK_VELOCITY_DAYS. */
+export const VELOCITY_WINDOW_DAYS = Number(process.env.STOCK_VELOCITY_DAYS) || 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ReorderPart = Pick<
+  Part,
+  'annualOrder' | 'onHandBoxes' | 'reservedBoxes' | 'unitsPerBox' | 'reorderPointUnits' | 'criticalPointUnits'
+>
+
+export function reorderThresholds(part: ReorderPart) {
+  return {
+    reorderPointUnits:
+      part.reorderPointUnits ?? Math.round((part.annualOrder * DEFAULT_REORDER_PERCENT) / 100),
+    criticalPointUnits:
+      part.criticalPointUnits ?? Math.round((part.annualOrder * DEFAULT_CRITICAL_PERCENT) / 100),
+  }
+}
+
+function availableUnits(part: ReorderPart): number {
+  return (part.onHandBoxes - part.reservedBoxes) * part.unitsPerBox
+}
+
+export function stockStatus(part: ReorderPart): StockStatus {
+  const units = availableUnits(part)
+  const { reorderPointUnits, criticalPointUnits } = reorderThresholds(part)
+  if (units < criticalPointUnits) return 'CRITICAL'
+  if (units < reorderPointUnits) return 'LOW'
+  return 'GOOD'
+}
+
+const STATUS_RANK: Record<StockStatus, number> = { GOOD: 0, LOW: 1, CRITICAL: 2 }
+
+/** True when `status` is worse than `than` (GOOD < LOW < CRITICAL). */
+export function isWorseStatus(status: StockStatus, than: StockStatus): boolean {
+  return STATUS_RANK[status] > STATUS_RANK[than]
+}
+
+/**
+ * Units released per day for each part over the trailing window, from the
+ * release lines created in it (cancelled releases excluded). Parts with no
+ * releases are absent (velocity 0).
+ */
+export async function releaseVelocities(
+  days: number = VELOCITY_WINDOW_DAYS,
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const since = new Date(now.getTime() - days * DAY_MS)
+
+  const totals = await prisma.releaseLine.groupBy({
+    by: ['partId'],
+    where: { release: { createdAt: { gte: since }, status: { not: 'CANCELLED' } } },
+    _sum: { totalUnits: true },
+  })
+
+  return new Map(totals.map((t) => [t.partId, (t._sum.totalUnits ?? 0) / days]))
+}
+
+/** Date stock runs out at the given daily velocity; null when nothing is moving. */
+export function projectedStockoutDate(
+  onHandUnits: number,
+  unitsPerDay: number,
+  from: Date = new Date()
+): Date | null {
+  if (unitsPerDay <= 0) return null
+  return new Date(from.getTime() + (onHandUnits / unitsPerDay) * DAY_MS)
+}
+
+/** Status, thresholds, velocity and projected stockout for one part. */
+export function partStockHealth(
+  part: ReorderPart & Pick<Part, 'id'>,
+  velocities: Map<string, number>,
+  now: Date = new Date()
+) {
+  const unitsPerDay = velocities.get(part.id) ?? 0
+  return {
+    thresholds: reorderThresholds(part),
+    status: stockStatus(part),
+    unitsPerDay: Math.round(unitsPerDay),
+    projectedStockoutDate: projectedStockoutDate(availableUnits(part), unitsPerDay, now),
+  }
+}
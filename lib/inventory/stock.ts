@@ -0,0 +1,226 @@
+import type { Part, Prisma } from '@prisma/client'
+import { recordInventoryTransaction, type InventoryTransactionInput } from '@/lib/inventory/ledger'
+import { resolveStockLocationId } from '@/lib/inventory/locations'
+
+/**
+ * On-hand inventory lives in Part.onHandBoxes as a single box count. Pallets
+ * and loose boxes are always derived from it with the part's current
+ * boxesPerPallet, so changing boxesPerPallet re-packs stock instead of
+ * corrupting it, and there is no pallet borrowing to get wrong.
+ *
+ * Releases reserve stock (reservedBoxes) rather than removing it; it leaves
+ * on-hand when its shipment is marked shipped. Available = on hand − reserved.
+ */
+
+export interface PartStock {
+  totalBoxes: number
+  pallets: number    // Full pallets
+  boxes: number      // Loose boxes beyond full pallets
+}
+
+export function splitBoxes(totalBoxes: number, boxesPerPallet: number): PartStock {
+  if (boxesPerPallet <= 0) {
+    return { totalBoxes, pallets: 0, boxes: totalBoxes }
+  }
+  return {
+    totalBoxes,
+    pallets: Math.floor(totalBoxes / boxesPerPallet),
+    boxes: totalBoxes % boxesPerPallet,
+  }
+}
+
+export function partStock(part: Pick<Part, 'onHandBoxes' | 'boxesPerPallet'>): PartStock {
+  return splitBoxes(part.onHandBoxes, part.boxesPerPallet)
+}
+
+/** On-hand less what is reserved for unshipped releases. */
+export function availableBoxes(stock: Pick<Part, 'onHandBoxes' | 'reservedBoxes'>): number {
+  return stock.onHandBoxes - stock.reservedBoxes
+}
+
+/**
+ * Part with derived currentPallets/currentBoxes (on hand), plus reserved and
+ * available splits — the shape the pages read.
+ */
+export function withStock<T extends Pick<Part, 'onHandBoxes' | 'reservedBoxes' | 'boxesPerPallet'>>(part: T) {
+  const stock = partStock(part)
+  return {
+    ...part,
+    currentPallets: stock.pallets,
+    currentBoxes: stock.boxes,
+    reserved: splitBoxes(part.reservedBoxes, part.boxesPerPallet),
+    available: splitBoxes(availableBoxes(part), part.boxesPerPallet),
+  }
+}
+
+/**
+ * Apply a change to a part's on-hand boxes at one stock location (the default
+ * location when none is given) and write it to the ledger. Every inventory
+ * mutation goes through here, inside the caller's transaction.
+ *
+ * Removals are conditional on enough stock being on hand at that location at
+ * write time, so a concurrent change can never drive it negative; in that case
+ * this throws Error('INSUFFICIENT_INVENTORY') and the caller's transaction
+ * rolls back.
+ */
+export async function applyInventoryChange(
+  tx: Prisma.TransactionClient,
+  change: InventoryTransactionInput
+): Promise<void> {
+  if (change.boxes === 0) return
+
+  const stockLocationId = await resolveStockLocationId(tx, change.stockLocationId)
+
+  if (change.boxes < 0) {
+    const { count } = await tx.partStock.updateMany({
+      where: {
+        partId: change.partId,
+        stockLocationId,
+        onHandBoxes: { gte: -change.boxes },
+      },
+      data: { onHandBoxes: { increment: change.boxes } },
+    })
+    if (count === 0) {
+      throw new Error('INSUFFICIENT_INVENTORY')
+    }
+  } else {
+    await tx.partStock.upsert({
+      where: { partId_stockLocationId: { partId: change.partId, stockLocationId } },
+      create: { partId: change.partId, stockLocationId, onHandBoxes: change.boxes },
+      update: { onHandBoxes: { increment: change.boxes } },
+    })
+  }
+
+  // Part.onHandBoxes is the total across locations
+  const { count } = await tx.part.updateMany({
+    where: {
+      id: change.partId,
+      ...(change.boxes < 0 ? { onHandBoxes: { gte: -change.boxes } } : {}),
+    },
+    data: {
+      onHandBoxes: { increment: change.boxes },
+    },
+  })
+
+  if (count === 0) {
+    throw new Error('INSUFFICIENT_INVENTORY')
+  }
+
+  await recordInventoryTransaction(tx, { ...change, stockLocationId })
+}
+
+/**
+ * Reserve (positive boxes) or release a reservation (negative) at one stock
+ * location for releases that have not shipped. On-hand and the ledger are
+ * untouched. Reserving more than is available throws
+ * Error('INSUFFICIENT_INVENTORY'); releasing never takes reserved below zero.
+ */
+export async function changeReservation(
+  tx: Prisma.TransactionClient,
+  change: { partId: string; stockLocationId?: string | null; boxes: number }
+): Promise<void> {
+  if (change.boxes === 0) return
+
+  const stockLocationId = await resolveStockLocationId(tx, change.stockLocationId)
+  const where = { partId_stockLocationId: { partId: change.partId, stockLocationId } }
+
+  if (change.boxes > 0) {
+    // Increment first, then check: the row lock makes concurrent reservations
+    // see each other, and a failed check rolls the caller's transaction back
+    const { count } = await tx.partStock.updateMany({
+      where: { partId: change.partId, stockLocationId },
+      data: { reservedBoxes: { increment: change.boxes } },
+    })
+    const stock = await tx.partStock.findUnique({ where })
+    if (count === 0 || !stock || stock.reservedBoxes > stock.onHandBoxes) {
+      throw new Error('INSUFFICIENT_INVENTORY')
+    }
+    await tx.part.update({
+      where: { id: change.partId },
+      data: { reservedBoxes: { increment: change.boxes } },
+    })
+    return
+  }
+
+  const [stock, part] = await Promise.all([
+    tx.partStock.findUnique({ where }),
+    tx.part.findUnique({ where: { id: change.partId } }),
+  ])
+  const atLocation = Math.min(stock?.reservedBoxes ?? 0, -change.boxes)
+  if (atLocation > 0) {
+    await tx.partStock.update({ where, data: { reservedBoxes: { decrement: atLocation } } })
+  }
+  const total = Math.min(part?.reservedBoxes ?? 0, -change.boxes)
+  if (total > 0) {
+    await tx.part.update({
+      where: { id: change.partId },
+      data: { reservedBoxes: { decrement: total } },
+    })
+  }
+}
+
+/** Reserved boxes leaving the floor: drop the reservation and take them off on-hand. */
+export async function shipReservedInventory(
+  tx: Prisma.TransactionClient,
+  shipment: Omit<InventoryTransactionInput, 'type'>
+): Promise<void> {
+  if (shipment.boxes <= 0) return
+  await changeReservation(tx, { ...shipment, boxes: -shipment.boxes })
+  await applyInventoryChange(tx, { ...shipment, type: 'SHIPMENT', boxes: -shipment.boxes })
+}
+
+/** Undo shipReservedInventory: boxes back on hand and reserved again. */
+export async function unshipReservedInventory(
+  tx: Prisma.TransactionClient,
+  shipment: Omit<InventoryTransactionInput, 'type'>
+): Promise<void> {
+  if (shipment.boxes <= 0) return
+  await applyInventoryChange(tx, { ...shipment, type: 'SHIPMENT_REVERSAL', boxes: shipment.boxes })
+  await changeReservation(tx, shipment)
+}
+
+/**
+ * Move boxes between two locations: a TRANSFER out of one and into the other.
+ * The part's total on-hand is unchanged. Stock reserved at the from location
+ * can't be moved.
+ */
+export async function transferInventory(
+  tx: Prisma.TransactionClient,
+  transfer: {
+    partId: string
+    fromLocationId: string
+    toLocationId: string
+    boxes: number
+    userId: string
+    stockTransferId: string
+    reference: string
+    notes?: string | null
+  }
+): Promise<void> {
+  const shared = {
+    partId: transfer.partId,
+    type: 'TRANSFER' as const,
+    userId: transfer.userId,
+    stockTransferId: transfer.stockTransferId,
+    reference: transfer.reference,
+    notes: transfer.notes,
+  }
+  await applyInventoryChange(tx, {
+    ...shared,
+    boxes: -transfer.boxes,
+    stockLocationId: transfer.fromLocationId,
+  })
+  const from = await tx.partStock.findUnique({
+    where: {
+      partId_stockLocationId: { partId: transfer.partId, stockLocationId: transfer.fromLocationId },
+    },
+  })
+  if (from && from.onHandBoxes < from.reservedBoxes) {
+    throw new Error('INSUFFICIENT_INVENTORY')
+  }
+  await applyInventoryChange(tx, {
+    ...shared,
+    boxes: transfer.boxes,
+    stockLocationId: transfer.toLocationId,
+  })
+}
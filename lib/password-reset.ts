@@ -0,0 +1,69 @@
+import { createHash, randomBytes } from 'crypto'
+import { hashPassword } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { revokeUserSessions } from '@/lib/sessions'
+
+/**
+ * Self-service password reset ("Forgot password?" on the login page).
+ *
+ * The emailed link carries a random token; only its sha256 is stored, so a
+ * leaked database can't be turned into working links. A token works once and
+ * for PASSWORD_RESET_TTL_MINUTES, and asking for a new link voids the old one.
+ * Resetting signs the user out everywhere.
+ */
+
+export const PASSWORD_RESET_TTL_MINUTES = 60
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/** Issue a reset token for `userId`, replacing any still-unused one. Returns the raw token for the email. */
+export async function issuePasswordResetToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('hex')
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId,
+        tokenHash: hashResetToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      },
+    }),
+  ])
+
+  return token
+}
+
+/**
+ * Set a new password with a reset token. Returns the user's email, or null
+ * when the token is unknown, used, expired, or its user was deactivated.
+ */
+export async function resetPasswordWithToken(token: string, password: string): Promise<string | null> {
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashResetToken(token) },
+    include: { user: { select: { id: true, email: true, active: true } } },
+  })
+  if (!record || record.usedAt || record.expiresAt < new Date() || !record.user.active) {
+    return null
+  }
+
+  const hashedPassword = await hashPassword(password)
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the token; a second request racing this one finds it used
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    if (claimed.count === 0) return null
+
+    await tx.user.update({
+      where: { id: record.user.id },
+      data: { password: hashedPassword },
+    })
+    await revokeUserSessions(tx, record.user.id)
+    return record.user.email
+  })
+}
@@ -0,0 +1,40 @@
+import type { Role } from '@prisma/client'
+
+/**
+ * What each role may do.
+ *
+ * Enforced server-side by withAuth({ permission }) (lib/with-auth.ts) and the
+ * release access helpers (lib/releases/access.ts); AuthContext's can() reads
+ * the same table so pages only offer what the server will allow.
+ *
+ * Anything not listed here — parts, production, counts, transfers, POs,
+ * approvals, schedules — is the admin page and stays ADMIN-only.
+ */
+export const PERMISSIONS = {
+  // Release form, drafts and templates; editing and splitting own releases
+  createReleases: ['ADMIN', 'CUSTOMER'],
+  // Every release. VENDOR sees only releases shipping from its location
+  viewAllReleases: ['ADMIN', 'CUSTOMER', 'WAREHOUSE', 'ACCOUNTING', 'VIEWER'],
+  // Mark shipped / not shipped, load flags, JD paperwork and BOLs
+  shipReleases: ['ADMIN', 'WAREHOUSE'],
+  // Part and line prices, invoices, blanket PO balances
+  viewPrices: ['ADMIN', 'CUSTOMER', 'ACCOUNTING'],
+  // The releases .xlsx export
+  exportReleases: ['ADMIN', 'ACCOUNTING'],
+} as const satisfies Record<string, readonly Role[]>
+
+export type Permission = keyof typeof PERMISSIONS
+
+/** Every role, with the label the admin Users tab shows for it. */
+export const ROLE_LABELS: Record<Role, string> = {
+  ADMIN: 'Admin (JD Graphic)',
+  CUSTOMER: 'Customer (ePrint Group)',
+  WAREHOUSE: 'Warehouse',
+  ACCOUNTING: 'Accounting',
+  VENDOR: 'Vendor',
+  VIEWER: 'Read-only',
+}
+
+export function can(role: Role, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly Role[]).includes(role)
+}
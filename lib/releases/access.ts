@@ -0,0 +1,45 @@
+import type { Part, Prisma } from '@prisma/client'
+import type { AuthUser } from '@/lib/auth'
+import { can } from '@/lib/permissions'
+
+/**
+ * Which releases a user may see, and how much of them.
+ *
+ * VENDOR users see only releases shipping from their own stock location
+ * (User.vendorLocationId); every other role sees every release. Roles without
+ * viewPrices get releases and parts with their prices taken out.
+ */
+
+type PriceFields = 'pricePerUnit' | 'costBasisPerUnit'
+
+type PricedRelease = {
+  part: Pick<Part, PriceFields>
+  lines: Array<{ unitPrice: number; part: Pick<Part, PriceFields> }>
+}
+
+/**
+ * Where clause for the releases `user` may see — spread it into a release
+ * lookup so a release they can't see is simply not found. A null user is a
+ * service caller, which sees everything.
+ */
+export function releaseAccessWhere(user: AuthUser | null): Prisma.ReleaseWhereInput {
+  if (!user || can(user.role, 'viewAllReleases')) return {}
+  // A vendor not yet linked to a location sees nothing
+  return { stockLocationId: user.vendorLocationId ?? { in: [] } }
+}
+
+/** A part without its sell price and cost basis. */
+export function withoutPartPrices<T extends Record<PriceFields, unknown>>(part: T): Omit<T, PriceFields> {
+  const { pricePerUnit, costBasisPerUnit, ...rest } = part
+  return rest
+}
+
+/** A release as `user` may see it: without part or line prices unless they have viewPrices. */
+export function releaseForUser<T extends PricedRelease>(user: AuthUser, release: T) {
+  if (can(user.role, 'viewPrices')) return release
+  return {
+    ...release,
+    part: withoutPartPrices(release.part),
+    lines: release.lines.map(({ unitPrice, ...line }) => ({ ...line, part: withoutPartPrices(line.part) })),
+  }
+}
@@ -0,0 +1,85 @@
+import type { ApprovalRuleType, Part, PrismaClient } from '@prisma/client'
+
+/**
+ * Release approval gate.
+ *
+ * A release from a non-admin that trips any enabled ApprovalRule is created at
+ * PENDING_APPROVAL: its stock is reserved, but no documents, emails or
+ * integration jobs go out until an admin approves it. Rejecting cancels it.
+ */
+
+export const APPROVAL_RULE_TYPES: Record<
+  ApprovalRuleType,
+  { label: string; unit: string; defaultThreshold: number }
+> = {
+  MAX_PALLETS: { label: 'More than N pallets', unit: 'pallets', defaultThreshold: 10 },
+  PERCENT_OF_ANNUAL: { label: "More than X% of a part's annual order", unit: '%', defaultThreshold: 25 },
+  SHIP_WITHIN_HOURS: { label: 'Ship date within N hours', unit: 'hours', defaultThreshold: 24 },
+}
+
+export interface ApprovalRuleSetting {
+  type: ApprovalRuleType
+  threshold: number
+  enabled: boolean
+}
+
+/** Every rule type, stored settings first; unset types are disabled at their default. */
+export async function approvalRules(
+  db: Pick<PrismaClient, 'approvalRule'>,
+): Promise<ApprovalRuleSetting[]> {
+  const stored = await db.approvalRule.findMany()
+  const byType = new Map(stored.map((r) => [r.type, r]))
+  return (Object.keys(APPROVAL_RULE_TYPES) as ApprovalRuleType[]).map((type) => {
+    const rule = byType.get(type)
+    return {
+      type,
+      threshold: rule?.threshold ?? APPROVAL_RULE_TYPES[type].defaultThreshold,
+      enabled: rule?.enabled ?? false,
+    }
+  })
+}
+
+/** Why a release needs approval, one reason per rule it trips (empty = none). */
+export function approvalReasons(
+  rules: ApprovalRuleSetting[],
+  release: {
+    pallets: number
+    shipDate: Date
+    lines: Array<{ totalUnits: number; part: Pick<Part, 'partNumber' | 'annualOrder'> }>
+  },
+  now: Date = new Date(),
+): string[] {
+  const reasons: string[] = []
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue
+
+    switch (rule.type) {
+      case 'MAX_PALLETS':
+        if (release.pallets > rule.threshold) {
+          reasons.push(`${release.pallets} pallets is more than ${rule.threshold}`)
+        }
+        break
+      case 'PERCENT_OF_ANNUAL':
+        for (const line of release.lines) {
+          if (line.part.annualOrder <= 0) continue
+          const percent = (line.totalUnits / line.part.annualOrder) * 100
+          if (percent > rule.threshold) {
+            reasons.push(
+              `Part ${line.part.partNumber}: ${Math.round(percent)}% of annual order is more than ${rule.threshold}%`,
+            )
+          }
+        }
+        break
+      case 'SHIP_WITHIN_HOURS': {
+        const hours = (release.shipDate.getTime() - now.getTime()) / (60 * 60 * 1000)
+        if (hours < rule.threshold) {
+          reasons.push(`Ship date is within ${rule.threshold} hours`)
+        }
+        break
+      }
+    }
+  }
+
+  return reasons
+}
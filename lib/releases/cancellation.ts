@@ -0,0 +1,63 @@
+import { sendReleaseCancellationEmail } from '@/lib/email/sendgrid'
+import { cancelImpactJob, isImpactd122Configured } from '@/lib/integrations/impactd122'
+import { cancelPressPlannerJob, isPressPlannerConfigured } from '@/lib/integrations/press-planner'
+import { cancelThreezPortalJob, isThreezPortalConfigured } from '@/lib/integrations/threez-portal'
+import { releaseLinesOf, releasePartSummary, type ReleaseWithLines } from './lines'
+
+/**
+ * Tell everyone a dispatched release went to that it's off: EPG and Three Z
+ * get a cancellation email, and each integration the release was pushed to
+ * (impactd122, press-planner, Three Z portal) gets a cancellation for its
+ * stored job ID. Non-blocking: the release is already cancelled if any fail.
+ */
+export async function notifyReleaseCancelled(
+  release: ReleaseWithLines,
+  { reason, cancelledBy }: { reason: string; cancelledBy: string },
+): Promise<void> {
+  try {
+    await sendReleaseCancellationEmail({
+      releaseNumber: release.releaseNumber,
+      releaseId: release.id,
+      customerPONumber: release.customerPONumber,
+      ...releasePartSummary(releaseLinesOf(release)),
+      totalUnits: release.totalUnits,
+      pallets: release.pallets,
+      boxes: release.boxes,
+      shipDate: release.shipDate?.toISOString() ?? null,
+      reason,
+      cancelledBy,
+    })
+  } catch (emailError) {
+    console.error('❌ Cancellation email failed:', emailError)
+  }
+
+  if (release.impactJobId && isImpactd122Configured()) {
+    const result = await cancelImpactJob({
+      jobId: release.impactJobId,
+      externalJobId: release.id,
+      jobNo: release.releaseNumber,
+      reason,
+    })
+    if (!result.success) {
+      console.warn('⚠️ Failed to cancel Impact job:', result.error)
+    }
+  }
+
+  if (release.threezPortalJobId && isThreezPortalConfigured()) {
+    cancelThreezPortalJob(release.threezPortalJobId, reason).catch((err) =>
+      console.error('[threez-portal] Cancel failed for release:', release.releaseNumber, err)
+    )
+  }
+
+  // Releases pushed before job IDs were stored are found by release number
+  if (isPressPlannerConfigured()) {
+    cancelPressPlannerJob({
+      releaseNumber: release.releaseNumber,
+      jobId: release.pressPlannerJobId,
+      jobNumber: release.pressPlannerJobNumber,
+      reason,
+    }).catch((err) =>
+      console.error('[press-planner] Cancel failed for release:', release.releaseNumber, err)
+    )
+  }
+}
@@ -0,0 +1,304 @@
+import type { Part, User } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { sendApprovalRequiredEmail } from '@/lib/email/sendgrid'
+import { EPG_DEFAULT_CARRIER, EPG_DEFAULT_FREIGHT_TERMS, EPG_SHIP_TO } from '@/lib/epg'
+import { defaultStockLocation } from '@/lib/inventory/locations'
+import { allocateLots } from '@/lib/inventory/lots'
+import { availableBoxes, changeReservation } from '@/lib/inventory/stock'
+import { nextSequenceNumber } from '@/lib/sequences'
+import { releaseShipmentTotals } from '@/lib/shipments/helpers'
+import type { CreateReleaseInput, ReleaseLineInput } from '@/lib/validation/releases'
+import { approvalReasons, approvalRules } from './approval'
+import { dispatchRelease, dispatchReleaseInclude, type DispatchableRelease } from './dispatch'
+import { drawPurchaseOrder, purchaseOrderDrawError, purchaseOrderLinesInclude } from './purchase-orders'
+import {
+  lineTotalBoxes,
+  lineTotalUnits,
+  releaseLinesInclude,
+  releaseLinesOf,
+  releasePartSummary,
+} from './lines'
+
+/** The schedule occurrence a release is being created for, if any. */
+export interface ReleaseScheduleOccurrence {
+  scheduleId: string
+  scheduledFor: string
+}
+
+export type CreateReleaseResult =
+  | { release: DispatchableRelease }
+  | { error: string; status: number }
+
+// Sentinel errors thrown inside the create transaction
+function releaseCreateError(error: unknown): { error: string; status: number } | null {
+  if (!(error instanceof Error)) return null
+  switch (error.message) {
+    case 'NO_STOCK_LOCATION':
+      return { error: 'No stock location is set up to ship from', status: 400 }
+    case 'LOT_UNAVAILABLE':
+      return { error: 'The selected lots do not have enough boxes at the ship-from location', status: 400 }
+    // Stock was checked before the transaction, so running short inside it
+    // means inventory changed underneath this request
+    case 'INSUFFICIENT_INVENTORY':
+      return {
+        error: 'Inventory changed while this release was being created. Please review stock and try again.',
+        status: 409,
+      }
+    case 'PO_BALANCE_EXCEEDED':
+      return {
+        error: 'The PO balance changed while this release was being created. Please review it and try again.',
+        status: 409,
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Create a release: validate it, reserve its stock and lots, then either hold
+ * it for approval or dispatch it (documents, emails, integration jobs).
+ *
+ * The one path every release is created through — POST /api/releases and the
+ * release-schedules cron. The body has already passed createReleaseSchema;
+ * returns the release, or an error and HTTP status when the stock, ship-to or
+ * PO won't allow it.
+ */
+export async function createRelease(
+  user: Pick<User, 'id' | 'name' | 'role'>,
+  body: CreateReleaseInput,
+  occurrence?: ReleaseScheduleOccurrence,
+): Promise<CreateReleaseResult> {
+  const {
+    lines: lineInput,
+    shippingLocationId,
+    notes,
+    customerPONumber,
+    batchNumber,
+    shipVia,
+    freightTerms,
+    paymentTerms,
+    shipDate,
+    etaDeliveryDate,
+    cartons,
+    weight,
+    shippingClass,
+    skidType,
+    stockLocationId,
+  } = body
+
+  // Apr 2026 EPG new process — every release must ship to EPG Knoxville.
+  // Belt-and-suspenders against any client bypassing the locked-down form.
+  const requestedLocation = await prisma.shippingLocation.findUnique({
+    where: { id: shippingLocationId },
+  })
+  if (!requestedLocation || requestedLocation.name !== EPG_SHIP_TO.name) {
+    return { error: 'Releases must ship to the locked EPG location.', status: 400 }
+  }
+
+  // Warehouse the release ships from (default location unless picked)
+  const shipFromLocation = stockLocationId
+    ? await prisma.stockLocation.findUnique({ where: { id: stockLocationId } })
+    : await defaultStockLocation(prisma)
+  if (!shipFromLocation) {
+    return { error: 'Stock location not found', status: 404 }
+  }
+
+  // Get part details for every line, with what the ship-from location holds
+  const parts = await prisma.part.findMany({
+    where: { id: { in: lineInput.map((l) => l.partId) } },
+    include: { stock: { where: { stockLocationId: shipFromLocation.id } } },
+  })
+  const partsById = new Map(parts.map((p) => [p.id, p]))
+
+  const lines: Array<ReleaseLineInput & { part: Part; totalUnits: number }> = []
+  for (const input of lineInput) {
+    const part = partsById.get(input.partId)
+    if (!part) {
+      return { error: 'Part not found', status: 404 }
+    }
+
+    // Check there's enough unreserved inventory at the location
+    const locationBoxes = part.stock[0] ? availableBoxes(part.stock[0]) : 0
+    if (locationBoxes < lineTotalBoxes({ ...input, part })) {
+      return {
+        error: `Insufficient inventory for part ${part.partNumber} at ${shipFromLocation.name}`,
+        status: 400,
+      }
+    }
+
+    lines.push({ ...input, part, totalUnits: lineTotalUnits({ ...input, part }) })
+  }
+
+  // A PO# that's a blanket PO on file must cover every line; releases bill
+  // at the PO price
+  const purchaseOrder = await prisma.purchaseOrder.findUnique({
+    where: { number: customerPONumber },
+    include: { lines: purchaseOrderLinesInclude },
+  })
+  if (purchaseOrder) {
+    const poError = purchaseOrderDrawError(purchaseOrder, lines)
+    if (poError) {
+      return { error: poError, status: 400 }
+    }
+  }
+  const unitPriceOf = (part: Part) =>
+    purchaseOrder?.lines.find((l) => l.partId === part.id)?.unitPrice ?? part.pricePerUnit
+
+  // Release-level figures are the sum of the lines; line 1 is the primary part.
+  const primaryPart = lines[0].part
+  const requestedPallets = lines.reduce((sum, l) => sum + l.pallets, 0)
+  const requestedBoxes = lines.reduce((sum, l) => sum + l.boxes, 0)
+  const totalBoxesReleased = lines.reduce((sum, l) => sum + lineTotalBoxes(l), 0)
+  const totalUnits = lines.reduce((sum, l) => sum + l.totalUnits, 0)
+
+  // Releases from non-admins that trip an approval rule wait for an admin
+  const releaseShipDate = shipDate ? new Date(shipDate) : new Date()
+  const heldFor =
+    user.role === 'ADMIN'
+      ? []
+      : approvalReasons(await approvalRules(prisma), {
+          pallets: requestedPallets,
+          shipDate: releaseShipDate,
+          lines,
+        })
+
+  // Auto-generate batch number if not provided
+  const generatedBatchNumber = batchNumber || `${primaryPart.partNumber.slice(-4)}`
+
+  // Create release, its default shipment and the stock reservation as one
+  // unit: a failure anywhere rolls all three back.
+  let release: DispatchableRelease
+  try {
+    release = await prisma.$transaction(async (tx) => {
+      // Release number (REL-YYYYMMDD-XXXX) and ticket number (TKT-XXXXX) come
+      // from their own counters so concurrent releases never collide.
+      const releaseNumber = await nextSequenceNumber(tx, 'release')
+      const ticketNumber = await nextSequenceNumber(tx, 'ticket')
+
+      const created = await tx.release.create({
+        data: {
+          releaseNumber,
+          partId: primaryPart.id,
+          shippingLocationId,
+          stockLocationId: shipFromLocation.id,
+          pallets: requestedPallets,
+          boxes: requestedBoxes,
+          totalUnits,
+          userId: user.id,
+          customerPONumber,
+          purchaseOrderId: purchaseOrder?.id,
+          ticketNumber,
+          batchNumber: generatedBatchNumber,
+          shipVia: shipVia || EPG_DEFAULT_CARRIER,
+          freightTerms: freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
+          paymentTerms: paymentTerms || '2% 30, Net 60',
+          shipDate: releaseShipDate,
+          etaDeliveryDate: etaDeliveryDate ? new Date(etaDeliveryDate) : null,
+          cartons: cartons || totalBoxesReleased,
+          weight: weight || 0,
+          shippingClass: shippingClass || '55',
+          skidType,
+          notes,
+          status: heldFor.length > 0 ? 'PENDING_APPROVAL' : 'COMPLETED',
+          approvalReasons: heldFor,
+          scheduleId: occurrence?.scheduleId,
+          scheduledFor: occurrence?.scheduledFor,
+          lines: {
+            create: lines.map((line, i) => ({
+              lineNumber: i + 1,
+              partId: line.part.id,
+              pallets: line.pallets,
+              boxes: line.boxes,
+              totalUnits: line.totalUnits,
+              unitPrice: unitPriceOf(line.part),
+            })),
+          },
+        },
+        include: {
+          part: true,
+          shippingLocation: true,
+          user: true,
+          lines: releaseLinesInclude,
+        },
+      })
+
+      // One default shipment line matching the full EPG release (splittable later)
+      const initialShipmentTotals = releaseShipmentTotals(created)
+      await tx.releaseShipment.create({
+        data: {
+          releaseId: created.id,
+          shipmentNumber: 1,
+          pallets: requestedPallets,
+          boxes: requestedBoxes,
+          totalUnits: initialShipmentTotals.totalUnits,
+          cartons: initialShipmentTotals.cartons,
+          weight: initialShipmentTotals.weight,
+          status: 'PENDING',
+          carrier: created.shipVia || EPG_DEFAULT_CARRIER,
+          shipDate: created.shipDate,
+        },
+      })
+
+      // Reserve each line's boxes at the ship-from location; they stay on
+      // hand until the shipment is marked shipped. The reservation is checked
+      // against on-hand under the row lock, so a release that landed since the
+      // check above fails this one instead of over-committing stock.
+      // Each line then draws from the part's lots (FIFO unless lotIds given)
+      for (const [i, line] of lines.entries()) {
+        await changeReservation(tx, {
+          partId: line.part.id,
+          boxes: lineTotalBoxes(line),
+          stockLocationId: shipFromLocation.id,
+        })
+
+        await allocateLots(tx, {
+          releaseLineId: created.lines[i].id,
+          partId: line.part.id,
+          boxes: lineTotalBoxes(line),
+          stockLocationId: shipFromLocation.id,
+          lotIds: line.lotIds,
+        })
+
+        if (purchaseOrder) {
+          await drawPurchaseOrder(tx, {
+            purchaseOrderId: purchaseOrder.id,
+            partId: line.part.id,
+            units: line.totalUnits,
+          })
+        }
+      }
+
+      return tx.release.findUniqueOrThrow({
+        where: { id: created.id },
+        include: dispatchReleaseInclude,
+      })
+    })
+  } catch (error) {
+    const known = releaseCreateError(error)
+    if (known) return known
+    throw error
+  }
+
+  if (release.status === 'PENDING_APPROVAL') {
+    console.log(`⏸ Release ${release.releaseNumber} held for approval: ${release.approvalReasons.join('; ')}`)
+    try {
+      await sendApprovalRequiredEmail({
+        releaseNumber: release.releaseNumber,
+        releaseId: release.id,
+        customerPONumber: release.customerPONumber,
+        ...releasePartSummary(releaseLinesOf(release)),
+        totalUnits: release.totalUnits,
+        pallets: release.pallets,
+        shipDate: release.shipDate?.toISOString() ?? null,
+        requestedBy: user.name,
+        reasons: release.approvalReasons,
+      })
+    } catch (emailError) {
+      console.error('❌ Approval request email failed:', emailError)
+    }
+  } else {
+    await dispatchRelease(release)
+  }
+
+  return { release }
+}
@@ -0,0 +1,372 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { savePackingSlip, generatePackingSlipBuffer } from '@/lib/documents/packing-slip'
+import { saveBoxLabels, generateBoxLabelsBuffer } from '@/lib/documents/box-labels'
+import { generateOrderAcknowledgementBuffer } from '@/lib/documents/order-acknowledgement'
+import { generateJdShipmentPaperworkBuffer } from '@/lib/documents/jd-shipment-paperwork'
+import {
+  buildBoxLabelData,
+  buildOrderAcknowledgementData,
+  buildPackingSlipData,
+  weightForPalletCount,
+} from '@/lib/documents/release-document-data'
+import { sendReleaseNotification, sendThreeZReleaseNotification } from '@/lib/email/sendgrid'
+import { EPG_DEFAULT_CARRIER, EPG_DEFAULT_FREIGHT_TERMS, EPG_SHIP_TO } from '@/lib/epg'
+import { createImpactJob, isImpactd122Configured } from '@/lib/integrations/impactd122'
+import { createPressPlannerJob, isPressPlannerConfigured } from '@/lib/integrations/press-planner'
+import { createThreezPortalJob, isThreezPortalConfigured } from '@/lib/integrations/threez-portal'
+import { shipFromAddress } from '@/lib/inventory/locations'
+import {
+  lineTotalBoxes,
+  releaseLinesInclude,
+  releaseLinesOf,
+  releasePartSummary,
+} from './lines'
+
+export const dispatchReleaseInclude = {
+  part: true,
+  shippingLocation: true,
+  stockLocation: true,
+  user: true,
+  lines: releaseLinesInclude,
+} as const
+
+export type DispatchableRelease = Prisma.ReleaseGetPayload<{ include: typeof dispatchReleaseInclude }>
+
+/**
+ * Send a release out: generate and store its documents, email EPG and Three Z,
+ * and create its jobs in impactd122, the Three Z portal and jd-press-planner.
+ *
+ * Runs once per release — on creation, or on approval for a release the
+ * approval gate held — and stamps dispatchedAt. Every step is non-blocking; a
+ * failure is logged and the rest still run.
+ */
+export async function dispatchRelease(release: DispatchableRelease): Promise<void> {
+  await prisma.release.update({
+    where: { id: release.id },
+    data: { dispatchedAt: new Date() },
+  })
+
+  // === AUTO-GENERATE ALL DOCUMENTS ===
+  // Build data objects first (no I/O)
+  // Apr 2026 EPG new process: JD ships from JD Elk Grove to EPG Knoxville on
+  // its own paperwork via FedEx Freight. The legacy EPG-branded packing slip is
+  // still generated for archival/audit, but the email now attaches the JD
+  // packing slip + BOL combo (lib/documents/jd-shipment-paperwork.ts) instead.
+  const releaseLines = releaseLinesOf(release)
+  const totalBoxesReleased = releaseLines.reduce((sum, line) => sum + lineTotalBoxes(line), 0)
+  const { partNumber, partDescription } = releasePartSummary(releaseLines)
+  const packingSlipData = buildPackingSlipData(release)
+  const boxLabelData = buildBoxLabelData(release)
+  const orderAckData = buildOrderAcknowledgementData(release)
+  const orderTotal = orderAckData.total
+
+  // 1. Try to save documents to storage (optional - non-blocking)
+  let packingSlipUrl: string | null = null
+  let boxLabelsUrl: string | null = null
+
+  try {
+    packingSlipUrl = await savePackingSlip(release.id, packingSlipData)
+    boxLabelsUrl = await saveBoxLabels(release.id, boxLabelData)
+
+    // Update release with document URLs
+    await prisma.release.update({
+      where: { id: release.id },
+      data: {
+        packingSlipUrl,
+        boxLabelsUrl,
+        documentsGenerated: new Date().toISOString(),
+      },
+    })
+    console.log('✅ Documents saved to storage for release:', release.releaseNumber)
+  } catch (saveError) {
+    console.warn('⚠️ Document storage failed (email will still be sent):', saveError)
+    // Continue - email is more important than file storage
+  }
+
+  // 2. Generate PDF buffers (needed for both email and ImpactD122 webhook)
+  const packingSlipBuffer = generatePackingSlipBuffer(packingSlipData)
+  const boxLabelsBuffer = generateBoxLabelsBuffer(boxLabelData)
+  const orderAckBuffer = generateOrderAcknowledgementBuffer(orderAckData)
+
+  // Apr 2026 EPG new process: also generate JD-branded shipment paperwork
+  // (packing slip + BOL combo). This is what JD physically attaches to the
+  // skids when shipping to EPG Knoxville.
+  let jdPaperworkBuffer: Buffer | null = null
+  try {
+    jdPaperworkBuffer = generateJdShipmentPaperworkBuffer({
+      releaseNumber: release.releaseNumber,
+      ticketNumber: release.ticketNumber || 'N/A',
+      customerPONumber: release.customerPONumber,
+      date: release.createdAt,
+      shipDate: release.shipDate ?? null,
+      carrier: release.shipVia || EPG_DEFAULT_CARRIER,
+      freightTerms: release.freightTerms || EPG_DEFAULT_FREIGHT_TERMS,
+      pallets: release.pallets,
+      cartons: release.cartons || totalBoxesReleased,
+      weight: release.weight ?? 0,
+      shippingClass: release.shippingClass || '55',
+      skidType: release.skidType,
+      notes: release.notes,
+      shipFrom: shipFromAddress(release.stockLocation),
+      lineItems: releaseLines.map((line) => ({
+        partNumber: line.part.partNumber,
+        description: line.part.description,
+        unitsPerBox: line.part.unitsPerBox,
+        ordered: line.totalUnits,
+        shipped: line.totalUnits,
+        ...(releaseLines.length > 1
+          ? {
+              pallets: line.pallets,
+              cartons: lineTotalBoxes(line),
+              weight: weightForPalletCount(line.pallets),
+            }
+          : {}),
+      })),
+    })
+  } catch (e) {
+    console.error('⚠️ Failed to generate JD shipment paperwork (continuing):', e)
+  }
+
+  // 3. Send Email Notification with PDF buffers (no filesystem dependency)
+  // JD paperwork (packing slip + BOL) is the primary attachment under the new
+  // process; AOS box labels still ride along so JD applies them per Kirk.
+  try {
+    const releaseAttachments = [
+      ...(jdPaperworkBuffer
+        ? [
+            {
+              filename: `JD-${release.releaseNumber}-paperwork.pdf`,
+              content: jdPaperworkBuffer.toString('base64'),
+            },
+          ]
+        : []),
+      {
+        filename: 'box-labels.pdf',
+        content: boxLabelsBuffer.toString('base64'),
+      },
+    ]
+    await sendReleaseNotification(
+      {
+        releaseNumber: release.releaseNumber,
+        releaseId: release.id,
+        partNumber,
+        partDescription,
+        pallets: release.pallets,
+        boxes: release.boxes,
+        totalUnits: release.totalUnits,
+        customerPONumber: release.customerPONumber,
+        shippingLocation: `${EPG_SHIP_TO.name}, ${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state}`,
+        invoiceTotal: `$${orderTotal.toFixed(2)}`,
+        notes: release.notes || undefined,
+        shipDate: release.shipDate?.toISOString() ?? null,
+        skidType: release.skidType,
+      },
+      releaseAttachments,
+    )
+
+    console.log('✅ Email sent for release:', release.releaseNumber)
+  } catch (emailError) {
+    console.error('❌ Email sending failed:', emailError)
+    // Don't fail the request - release was created successfully
+  }
+
+  // Email 1B: Three Z release notification (box labels attached so they can
+  // apply if Three Z is the one shipping). No more "DO NOT book truck" gate.
+  try {
+    await sendThreeZReleaseNotification(
+      {
+        releaseNumber: release.releaseNumber,
+        releaseId: release.id,
+        partNumber,
+        partDescription,
+        pallets: release.pallets,
+        boxes: release.boxes,
+        totalUnits: release.totalUnits,
+        customerPONumber: release.customerPONumber,
+        shippingLocation: `${EPG_SHIP_TO.name}, ${EPG_SHIP_TO.city}, ${EPG_SHIP_TO.state}`,
+        invoiceTotal: `$${orderTotal.toFixed(2)}`,
+        notes: release.notes || undefined,
+        shipDate: release.shipDate?.toISOString() ?? null,
+        skidType: release.skidType,
+      },
+      {
+        filename: 'box-labels.pdf',
+        content: boxLabelsBuffer.toString('base64'),
+      }
+    )
+    console.log('✅ Three Z release email sent for:', release.releaseNumber)
+  } catch (threeZError) {
+    console.error('❌ Three Z release email failed:', threeZError)
+    // Don't fail the request
+  }
+
+  // 4. Create job in impactd122 via webhook
+  if (isImpactd122Configured()) {
+    try {
+      const impactResult = await createImpactJob({
+        // Required webhook fields
+        externalJobId: release.id,
+        jobNo: release.releaseNumber,
+        companyName: 'EPrint Group',
+
+        // Optional fields
+        title: `EPG Release - ${partNumber}`,
+        customerPONumber: release.customerPONumber,
+        quantity: release.totalUnits,
+        status: 'PO_RECEIVED',
+        createdAt: new Date().toISOString(),
+        specs: {
+          source: 'inventory-release-app',
+          releaseId: release.id,
+          partNumber,
+          partDescription,
+          lines: releaseLines.map((line) => ({
+            partNumber: line.part.partNumber,
+            partDescription: line.part.description,
+            pallets: line.pallets,
+            boxes: line.boxes,
+            totalUnits: line.totalUnits,
+            lots: (line.lotAllocations ?? []).map((a) => ({
+              lotNumber: a.production.lotNumber,
+              manufactureDate: a.production.manufactureDate.toISOString(),
+              boxes: a.boxes,
+            })),
+          })),
+          pallets: release.pallets,
+          boxes: release.boxes,
+          totalUnits: release.totalUnits,
+          shippingLocation: release.shippingLocation.name,
+          shippingAddress: {
+            address: release.shippingLocation.address,
+            city: release.shippingLocation.city,
+            state: release.shippingLocation.state,
+            zip: release.shippingLocation.zip,
+          },
+          ticketNumber: release.ticketNumber,
+          batchNumber: release.batchNumber,
+          manufactureDate: release.manufactureDate?.toISOString(),
+          shipVia: release.shipVia,
+          freightTerms: release.freightTerms,
+          sellPrice: orderTotal,
+
+          // Cost basis and vendor info for PO creation
+          // Vendor is whoever holds the ship-from stock (ThreeZ unless the
+          // location says otherwise)
+          costBasisPerUnit: release.part.costBasisPerUnit || 0.24,
+          buyCost: releaseLines.reduce(
+            (sum, line) => sum + line.totalUnits * (line.part.costBasisPerUnit || 0.24),
+            0,
+          ),
+          vendorName: release.stockLocation?.vendorName || release.part.vendorName || 'ThreeZ',
+          paperSource: 'VENDOR',
+
+          // PDFs for ThreeZ email (base64 encoded)
+          packingSlipPdf: packingSlipBuffer.toString('base64'),
+          boxLabelsPdf: boxLabelsBuffer.toString('base64'),
+        },
+      })
+
+      if (impactResult.success && impactResult.jobId) {
+        await prisma.release.update({
+          where: { id: release.id },
+          data: { impactJobId: impactResult.jobId },
+        })
+        console.log('✅ Impact job created:', impactResult.jobId)
+      } else {
+        console.warn('⚠️ Failed to create Impact job:', impactResult.error)
+      }
+    } catch (impactError) {
+      console.error('⚠️ Error creating Impact job:', impactError)
+      // Don't fail the release if impactd122 fails
+    }
+  }
+
+  // 5. Create job in Three Z Job Portal
+  if (isThreezPortalConfigured()) {
+    const releaseDetails = [
+      `Release #: ${release.releaseNumber}`,
+      ...releaseLines.map(
+        (line) =>
+          `Part: ${line.part.partNumber} — ${line.part.description} (${line.totalUnits.toLocaleString()} units)`,
+      ),
+      `Customer PO#: ${release.customerPONumber}`,
+      `Quantity: ${release.totalUnits.toLocaleString()} units (${release.pallets} pallets, ${release.boxes} boxes)`,
+      `Ship To: ${release.shippingLocation.name}`,
+      `Ship Via: ${release.shipVia || EPG_DEFAULT_CARRIER}`,
+      release.shipDate ? `Ship Date: ${new Date(release.shipDate).toLocaleDateString('en-US')}` : null,
+      release.notes ? `Notes: ${release.notes}` : null,
+      '',
+      'Source: Inventory Release App',
+    ].filter(Boolean).join('\n')
+
+    createThreezPortalJob({
+      title: `EPG Release — ${partNumber} — ${release.totalUnits.toLocaleString()} units`,
+      customerName: 'EPrint Group',
+      emailBody: releaseDetails,
+      releaseNumber: release.releaseNumber,
+      quantity: release.totalUnits,
+      sourceJobId: release.id,
+      callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/threez-status`,
+      shipDate: release.shipDate ? new Date(release.shipDate).toISOString() : undefined,
+      carrier: release.shipVia || undefined,
+      source: 'eprint-release',
+      poNumber: release.customerPONumber || undefined,
+    })
+      .then(async (result) => {
+        // Kept so a cancellation can be pushed to the same job
+        if (result.success && result.jobId) {
+          await prisma.release.update({
+            where: { id: release.id },
+            data: { threezPortalJobId: result.jobId },
+          })
+        }
+      })
+      .catch((err) =>
+        console.error('[threez-portal] Failed for release:', release.releaseNumber, err)
+      )
+  }
+
+  // Ship date string for integrations (YYYY-MM-DD)
+  const shipDateStr = release.shipDate
+    ? new Date(release.shipDate).toISOString().split('T')[0]
+    : new Date().toISOString().split('T')[0]
+
+  // 6. Create job in jd-press-planner (single source of truth — fans out to
+  //    jd-invoicing Sheets via press-planner's Flow 1 fan-out; proofflow is
+  //    skipped because skipProofing=true. Status is flipped to 'complete'
+  //    after creation so this doesn't pollute the production schedule.
+  if (isPressPlannerConfigured()) {
+    createPressPlannerJob({
+      releaseNumber: release.releaseNumber,
+      customerPONumber: release.customerPONumber,
+      partNumber,
+      partDescription,
+      totalUnits: release.totalUnits,
+      pallets: release.pallets,
+      shipDateStr,
+      ticketNumber: release.ticketNumber,
+      batchNumber: release.batchNumber,
+      shippingLocationName: release.shippingLocation.name,
+      shippingLocationCity: release.shippingLocation.city,
+      shippingLocationState: release.shippingLocation.state,
+      shippingLocationAddress: release.shippingLocation.address,
+      shippingLocationZip: release.shippingLocation.zip,
+      shipVia: release.shipVia || EPG_DEFAULT_CARRIER,
+    })
+      .then(async (result) => {
+        if (result.success && (result.jobId || result.jobNumber)) {
+          await prisma.release.update({
+            where: { id: release.id },
+            data: {
+              pressPlannerJobId: result.jobId ?? null,
+              pressPlannerJobNumber: result.jobNumber ?? null,
+            },
+          })
+        }
+      })
+      .catch((err) =>
+        console.error('[press-planner] Failed for release:', release.releaseNumber, err)
+      )
+  }
+}
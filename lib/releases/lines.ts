@@ -0,0 +1,84 @@
+import type { Part, Release, ReleaseLine } from '@prisma/client'
+import { lotAllocationsInclude, type LotAllocationWithLot } from '@/lib/inventory/lots'
+
+export type ReleaseLineWithPart = ReleaseLine & {
+  part: Part
+  lotAllocations?: LotAllocationWithLot[]
+}
+
+export type ReleaseWithLines = Release & {
+  part: Part
+  lines?: ReleaseLineWithPart[]
+}
+
+/** Prisma include for a release's lines in line order, with their lots. */
+export const releaseLinesInclude = {
+  include: { part: true, lotAllocations: lotAllocationsInclude },
+  orderBy: { lineNumber: 'asc' },
+} as const
+
+/**
+ * Lines for a release, in line order.
+ *
+ * Releases created before ReleaseLine existed have no stored lines; they are
+ * presented as one line built from the release's own part/pallets/boxes so
+ * every consumer can iterate lines unconditionally.
+ */
+export function releaseLinesOf(release: ReleaseWithLines): ReleaseLineWithPart[] {
+  if (release.lines && release.lines.length > 0) {
+    return [...release.lines].sort((a, b) => a.lineNumber - b.lineNumber)
+  }
+
+  return [
+    {
+      id: `${release.id}-line-1`,
+      releaseId: release.id,
+      lineNumber: 1,
+      partId: release.partId,
+      part: release.part,
+      pallets: release.pallets,
+      boxes: release.boxes,
+      totalUnits: release.totalUnits,
+      unitPrice: release.part.pricePerUnit,
+      createdAt: release.createdAt,
+    },
+  ]
+}
+
+/**
+ * Boxes a line reserves and ships. Uses the part's current boxesPerPallet,
+ * which PUT /api/parts refuses to change while an open release uses the part.
+ */
+export function lineTotalBoxes(line: { pallets: number; boxes: number; part: Part }): number {
+  return line.pallets * line.part.boxesPerPallet + line.boxes
+}
+
+export function lineTotalUnits(line: { pallets: number; boxes: number; part: Part }): number {
+  return lineTotalBoxes(line) * line.part.unitsPerBox
+}
+
+export function releaseLinesTotal(lines: ReleaseLineWithPart[]): number {
+  return lines.reduce((sum, line) => sum + line.totalUnits * line.unitPrice, 0)
+}
+
+/**
+ * Part number / description strings for single-value consumers (emails,
+ * integration payloads). One line reads exactly as it did before lines existed.
+ */
+export function releasePartSummary(lines: ReleaseLineWithPart[]): {
+  partNumber: string
+  partDescription: string
+} {
+  if (lines.length === 1) {
+    return {
+      partNumber: lines[0].part.partNumber,
+      partDescription: lines[0].part.description,
+    }
+  }
+  return {
+    partNumber: lines.map((l) => l.part.partNumber).join(', '),
+    partDescription: lines
+      .map((l) => `${l.part.partNumber}: ${l.part.description}`)
+      .join('; '),
+  }
+}
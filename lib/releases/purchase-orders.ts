@@ -0,0 +1,117 @@
+import type { Part, Prisma, PurchaseOrder, PurchaseOrderLine } from '@prisma/client'
+
+/**
+ * Blanket purchase orders.
+ *
+ * EPG issues a PO authorizing a quantity of each part at a price. A release
+ * whose customer PO# matches a PurchaseOrder's number is linked to it and each
+ * line draws its units from that part's PurchaseOrderLine.releasedUnits;
+ * cancelling or rejecting the release gives them back. Releases with a PO#
+ * that isn't on file are unaffected.
+ *
+ * releasedUnits is a running counter, like Part.reservedBoxes, so concurrent
+ * releases are checked against the balance under the row lock.
+ */
+
+export type PurchaseOrderWithLines = PurchaseOrder & {
+  lines: Array<PurchaseOrderLine & { part: Pick<Part, 'partNumber' | 'description'> }>
+}
+
+/** Prisma include for a PO's lines with their parts, by part number. */
+export const purchaseOrderLinesInclude = {
+  include: { part: { select: { partNumber: true, description: true } } },
+  orderBy: { part: { partNumber: 'asc' } },
+} as const
+
+/** Units of a PO line not yet drawn by a release. */
+export function remainingUnits(line: Pick<PurchaseOrderLine, 'authorizedUnits' | 'releasedUnits'>): number {
+  return line.authorizedUnits - line.releasedUnits
+}
+
+export function isPurchaseOrderExpired(po: Pick<PurchaseOrder, 'expiresAt'>, now: Date = new Date()): boolean {
+  return po.expiresAt !== null && po.expiresAt < now
+}
+
+/** A PO with its per-part and overall balances — the shape the pages read. */
+export function withBalances(po: PurchaseOrderWithLines, now: Date = new Date()) {
+  const lines = po.lines.map((line) => ({
+    ...line,
+    remainingUnits: remainingUnits(line),
+    remainingValue: Math.round(remainingUnits(line) * line.unitPrice * 100) / 100,
+  }))
+  return {
+    ...po,
+    lines,
+    expired: isPurchaseOrderExpired(po, now),
+    authorizedUnits: lines.reduce((sum, l) => sum + l.authorizedUnits, 0),
+    releasedUnits: lines.reduce((sum, l) => sum + l.releasedUnits, 0),
+    remainingUnits: lines.reduce((sum, l) => sum + l.remainingUnits, 0),
+    remainingValue: Math.round(lines.reduce((sum, l) => sum + l.remainingValue, 0) * 100) / 100,
+  }
+}
+
+/**
+ * Why release lines can't be drawn from a PO (null when they can): the PO has
+ * expired, a part isn't on it, or a part's remaining balance is too small.
+ */
+export function purchaseOrderDrawError(
+  po: PurchaseOrderWithLines,
+  lines: Array<{ totalUnits: number; part: Pick<Part, 'id' | 'partNumber'> }>,
+  now: Date = new Date(),
+): string | null {
+  if (isPurchaseOrderExpired(po, now)) {
+    return `PO ${po.number} expired on ${po.expiresAt!.toLocaleDateString('en-US')}`
+  }
+
+  for (const line of lines) {
+    const poLine = po.lines.find((l) => l.partId === line.part.id)
+    if (!poLine) {
+      return `Part ${line.part.partNumber} is not on PO ${po.number}`
+    }
+    const drawn = lines
+      .filter((l) => l.part.id === line.part.id)
+      .reduce((sum, l) => sum + l.totalUnits, 0)
+    if (drawn > remainingUnits(poLine)) {
+      return `PO ${po.number} has ${remainingUnits(poLine).toLocaleString()} units of part ${line.part.partNumber} left; this release needs ${drawn.toLocaleString()}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Draw units of a part from a PO inside the caller's transaction (negative
+ * units give them back). Drawing past the authorized quantity throws
+ * Error('PO_BALANCE_EXCEEDED') and the caller's transaction rolls back.
+ */
+export async function drawPurchaseOrder(
+  tx: Prisma.TransactionClient,
+  draw: { purchaseOrderId: string; partId: string; units: number },
+): Promise<void> {
+  if (draw.units === 0) return
+
+  const line = await tx.purchaseOrderLine.update({
+    where: { purchaseOrderId_partId: { purchaseOrderId: draw.purchaseOrderId, partId: draw.partId } },
+    data: { releasedUnits: { increment: draw.units } },
+  })
+
+  if (draw.units > 0 && line.releasedUnits > line.authorizedUnits) {
+    throw new Error('PO_BALANCE_EXCEEDED')
+  }
+}
+
+/** Give back everything a release's lines drew from its PO (cancel / reject). */
+export async function returnPurchaseOrderDraws(
+  tx: Prisma.TransactionClient,
+  release: { purchaseOrderId: string | null },
+  lines: Array<{ partId: string; totalUnits: number }>,
+): Promise<void> {
+  if (!release.purchaseOrderId) return
+  for (const line of lines) {
+    await drawPurchaseOrder(tx, {
+      purchaseOrderId: release.purchaseOrderId,
+      partId: line.partId,
+      units: -line.totalUnits,
+    })
+  }
+}
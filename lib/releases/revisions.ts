@@ -0,0 +1,87 @@
+import type { Prisma, Release } from '@prisma/client'
+
+/**
+ * Release amendments. Each PATCH that changes anything bumps Release.revision
+ * and stores one ReleaseRevision row per changed field, so the history drawer
+ * can show who changed what from what, and the amendment email can list it.
+ */
+
+/** Fields an amendment can change, in display order. */
+const AMENDABLE_FIELDS = {
+  pallets: 'Skids',
+  totalUnits: 'Total units',
+  shipDate: 'Ship date',
+  trackingNumber: 'Tracking #',
+  status: 'Status',
+} as const
+
+type AmendableField = keyof typeof AMENDABLE_FIELDS
+type AmendableRelease = Pick<Release, AmendableField>
+
+export interface ReleaseFieldChange {
+  field: string
+  label: string
+  previousValue: string | null
+  newValue: string | null
+}
+
+function storedValue(release: AmendableRelease, field: AmendableField): string | null {
+  const value = release[field]
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  return String(value)
+}
+
+export function revisionFieldLabel(field: string): string {
+  return AMENDABLE_FIELDS[field as AmendableField] ?? field
+}
+
+/** Fields that differ between two versions of a release. */
+export function diffReleaseFields(
+  before: AmendableRelease,
+  after: AmendableRelease,
+): ReleaseFieldChange[] {
+  const changes: ReleaseFieldChange[] = []
+  for (const field of Object.keys(AMENDABLE_FIELDS) as AmendableField[]) {
+    const previousValue = storedValue(before, field)
+    const newValue = storedValue(after, field)
+    if (previousValue !== newValue) {
+      changes.push({ field, label: AMENDABLE_FIELDS[field], previousValue, newValue })
+    }
+  }
+  return changes
+}
+
+/**
+ * Record an amendment: bump the release's revision and store its changes
+ * under the new version. The increment takes the row lock, so concurrent
+ * amendments get distinct versions. Returns the version, or null when nothing
+ * changed.
+ */
+export async function recordReleaseRevision(
+  tx: Prisma.TransactionClient,
+  releaseId: string,
+  userId: string,
+  changes: ReleaseFieldChange[],
+): Promise<number | null> {
+  if (changes.length === 0) return null
+
+  const { revision } = await tx.release.update({
+    where: { id: releaseId },
+    data: { revision: { increment: 1 } },
+    select: { revision: true },
+  })
+
+  await tx.releaseRevision.createMany({
+    data: changes.map((change) => ({
+      releaseId,
+      version: revision,
+      field: change.field,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      userId,
+    })),
+  })
+
+  return revision
+}
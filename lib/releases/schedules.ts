@@ -0,0 +1,140 @@
+import type { ReleaseSchedule } from '@prisma/client'
+import type { CreateReleaseInput } from '@/lib/validation/releases'
+
+/**
+ * Recurring releases.
+ *
+ * A schedule occurs every intervalWeeks weeks on its startDate's weekday, from
+ * startDate through endDate. On each occurrence the release-schedules cron
+ * creates the release through createRelease, shipping the next business day —
+ * the same default the release form uses. Skipped occurrences are left alone.
+ * An occurrence the cron missed (it didn't run, or creating the release
+ * failed) is created by a later run up to CATCH_UP_DAYS afterwards, shipping
+ * the next business day after it's created; older ones are dropped.
+ *
+ * Dates are calendar days (YYYY-MM-DD), compared in UTC.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const CATCH_UP_DAYS = 7
+
+/** What the schedule routes return alongside each schedule. */
+export const releaseScheduleInclude = {
+  part: { select: { partNumber: true, description: true } },
+  stockLocation: { select: { name: true } },
+  user: { select: { name: true } },
+  releases: {
+    select: { id: true, releaseNumber: true, scheduledFor: true, status: true },
+    orderBy: { scheduledFor: 'desc' },
+    take: 3,
+  },
+} as const
+
+export interface ScheduleOccurrence {
+  date: string
+  shipDate: string
+  skipped: boolean
+}
+
+function toDate(day: string): Date {
+  return new Date(`${day}T00:00:00Z`)
+}
+
+/** Calendar day (YYYY-MM-DD, UTC) of a date; defaults to today. */
+export function calendarDay(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0]
+}
+
+export function addDays(day: string, days: number): string {
+  return calendarDay(new Date(toDate(day).getTime() + days * DAY_MS))
+}
+
+function addBusinessDays(day: string, days: number): string {
+  let date = day
+  while (days > 0) {
+    date = addDays(date, 1)
+    const weekday = toDate(date).getUTCDay()
+    if (weekday !== 0 && weekday !== 6) days--
+  }
+  return date
+}
+
+/** Whether a schedule falls on the given day (skipped or not). */
+export function isScheduledOn(
+  schedule: Pick<ReleaseSchedule, 'intervalWeeks' | 'startDate' | 'endDate'>,
+  day: string,
+): boolean {
+  if (day < schedule.startDate) return false
+  if (schedule.endDate && day > schedule.endDate) return false
+  const days = Math.round((toDate(day).getTime() - toDate(schedule.startDate).getTime()) / DAY_MS)
+  return days % (schedule.intervalWeeks * 7) === 0
+}
+
+/**
+ * Occurrences the cron should have created by `today`: those in the last
+ * CATCH_UP_DAYS days and today, not skipped, and not from before the schedule
+ * was set up. Oldest first.
+ */
+export function dueOccurrences(
+  schedule: Pick<ReleaseSchedule, 'intervalWeeks' | 'startDate' | 'endDate' | 'skippedDates' | 'createdAt'>,
+  today: string = calendarDay(),
+): string[] {
+  const createdOn = calendarDay(schedule.createdAt)
+  const days: string[] = []
+  for (let back = CATCH_UP_DAYS; back >= 0; back--) {
+    const day = addDays(today, -back)
+    if (day >= createdOn && isScheduledOn(schedule, day) && !schedule.skippedDates.includes(day)) {
+      days.push(day)
+    }
+  }
+  return days
+}
+
+/** The next `count` occurrences on or after `from`, flagging skipped ones. */
+export function upcomingOccurrences(
+  schedule: Pick<ReleaseSchedule, 'intervalWeeks' | 'startDate' | 'endDate' | 'skippedDates'>,
+  from: string = calendarDay(),
+  count: number = 6,
+): ScheduleOccurrence[] {
+  const period = schedule.intervalWeeks * 7
+  let date = schedule.startDate
+  if (from > date) {
+    const days = Math.round((toDate(from).getTime() - toDate(date).getTime()) / DAY_MS)
+    date = addDays(date, Math.ceil(days / period) * period)
+  }
+
+  const occurrences: ScheduleOccurrence[] = []
+  while (occurrences.length < count && (!schedule.endDate || date <= schedule.endDate)) {
+    occurrences.push({
+      date,
+      shipDate: addBusinessDays(date, 1),
+      skipped: schedule.skippedDates.includes(date),
+    })
+    date = addDays(date, period)
+  }
+  return occurrences
+}
+
+/**
+ * The POST /api/releases body for one occurrence, created on `createdOn`
+ * (later than the occurrence when catching up): ships to the locked EPG
+ * location the next business day, arriving five business days after that.
+ */
+export function scheduledReleaseInput(
+  schedule: ReleaseSchedule,
+  createdOn: string,
+  shippingLocationId: string,
+): CreateReleaseInput {
+  const shipDate = addBusinessDays(createdOn, 1)
+  return {
+    lines: [{ partId: schedule.partId, pallets: schedule.pallets, boxes: 0 }],
+    shippingLocationId,
+    stockLocationId: schedule.stockLocationId,
+    customerPONumber: schedule.customerPONumber,
+    skidType: schedule.skidType,
+    shipDate,
+    etaDeliveryDate: addBusinessDays(shipDate, 5),
+    notes: schedule.notes,
+  }
+}
@@ -0,0 +1,57 @@
+import type { Prisma } from '@prisma/client'
+
+export type SequenceName = 'release' | 'ticket' | 'invoice' | 'lot' | 'transfer'
+
+/**
+ * Number formats per sequence. Tokens:
+ *   {YYYY} {MM} {DD} {YYYYMMDD} — date the number is issued (UTC)
+ *   {SEQ:n}                     — counter value zero-padded to n digits
+ * Override with RELEASE_NUMBER_FORMAT / TICKET_NUMBER_FORMAT / INVOICE_NUMBER_FORMAT /
+ * LOT_NUMBER_FORMAT / TRANSFER_NUMBER_FORMAT.
+ */
+export const SEQUENCE_FORMATS: Record<SequenceName, string> = {
+  release: process.env.RELEASE_NUMBER_FORMAT || 'REL-{YYYYMMDD}-{SEQ:4}',
+  ticket: process.env.TICKET_NUMBER_FORMAT || 'TKT-{SEQ:5}',
+  invoice: process.env.INVOICE_NUMBER_FORMAT || 'INV-{SEQ:5}',
+  lot: process.env.LOT_NUMBER_FORMAT || 'LOT-{YYYYMMDD}-{SEQ:4}',
+  transfer: process.env.TRANSFER_NUMBER_FORMAT || 'TRF-{SEQ:5}',
+}
+
+export function formatSequenceNumber(format: string, value: number, date: Date = new Date()): string {
+  const yyyy = String(date.getUTCFullYear())
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0')
+  const dd = String(date.getUTCDate()).padStart(2, '0')
+
+  return format
+    .replace(/\{YYYYMMDD\}/g, `${yyyy}${mm}${dd}`)
+    .replace(/\{YYYY\}/g, yyyy)
+    .replace(/\{MM\}/g, mm)
+    .replace(/\{DD\}/g, dd)
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_, width) => String(value).padStart(Number(width || 0), '0'))
+}
+
+/**
+ * Increment a counter and return its new value. Call with the transaction
+ * client that creates the numbered record: the row lock serialises concurrent
+ * callers, and a rollback hands the number back.
+ */
+export async function nextSequenceValue(
+  tx: Prisma.TransactionClient,
+  name: SequenceName
+): Promise<number> {
+  const sequence = await tx.sequence.upsert({
+    where: { name },
+    create: { name, value: 1 },
+    update: { value: { increment: 1 } },
+  })
+  return sequence.value
+}
+
+export async function nextSequenceNumber(
+  tx: Prisma.TransactionClient,
+  name: SequenceName,
+  date: Date = new Date()
+): Promise<string> {
+  const value = await nextSequenceValue(tx, name)
+  return formatSequenceNumber(SEQUENCE_FORMATS[name], value, date)
+}
@@ -0,0 +1,188 @@
+import { createHash, randomBytes } from 'crypto'
+import type { Prisma, User } from '@prisma/client'
+import type { NextRequest, NextResponse } from 'next/server'
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+/**
+ * Sign-in sessions.
+ *
+ * Signing in creates a Session and sets its refresh token in an httpOnly
+ * cookie scoped to /api/auth, out of reach of page scripts. The page keeps
+ * only the short-lived access token in memory and calls POST
+ * /api/auth/refresh for a new one, which also rotates the refresh token.
+ * Revoking a session (sign out, an admin, a password change) stops both its
+ * refresh token and any access token it already handed out.
+ */
+
+export const REFRESH_COOKIE = 'ira_refresh'
+
+const SESSION_TTL_DAYS = 30
+
+// How long a just-rotated refresh token keeps working
+const ROTATION_GRACE_SECONDS = 30
+
+/** What a session list shows — never the token hash. */
+export const sessionSummarySelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const
+
+/** Sessions that can still refresh. */
+export function activeSessionWhere(userId: string): Prisma.SessionWhereInput {
+  return { userId, revokedAt: null, expiresAt: { gt: new Date() } }
+}
+
+export interface IssuedSession {
+  accessToken: string
+  refreshToken: string
+  expiresAt: Date
+}
+
+export interface RefreshedSession extends Omit<IssuedSession, 'refreshToken'> {
+  user: Pick<User, 'id' | 'email' | 'name' | 'role'>
+  // Null when another request already rotated the token moments ago
+  refreshToken: string | null
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function newRefreshToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('hex')
+  return { token, hash: hashRefreshToken(token) }
+}
+
+function accessTokenFor(user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string): string {
+  return generateToken({ userId: user.id, sessionId, email: user.email, role: user.role })
+}
+
+/** Start a session for a user who just signed in. */
+export async function createSession(
+  user: Pick<User, 'id' | 'email' | 'role'>,
+  request: NextRequest,
+): Promise<IssuedSession> {
+  const refresh = newRefreshToken()
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: refresh.hash,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  })
+
+  return {
+    accessToken: accessTokenFor(user, session.id),
+    refreshToken: refresh.token,
+    expiresAt: session.expiresAt,
+  }
+}
+
+/**
+ * Swap a refresh token for a new access token and a new refresh token.
+ * Returns null when the token is unknown or long since rotated, or the session
+ * is revoked, expired, or belongs to a deactivated user.
+ *
+ * A token rotated in the last ROTATION_GRACE_SECONDS still gets an access
+ * token, but no new refresh token (refreshToken is null): that is a second
+ * tab or a double mount that lost the race, and the browser already holds the
+ * winner's cookie, which must be left alone.
+ */
+export async function refreshSession(refreshToken: string): Promise<RefreshedSession | null> {
+  const hash = hashRefreshToken(refreshToken)
+  const session = await prisma.session.findFirst({
+    where: { OR: [{ refreshTokenHash: hash }, { previousRefreshTokenHash: hash }] },
+    include: { user: { select: { id: true, email: true, name: true, role: true, active: true } } },
+  })
+  if (!session || session.revokedAt || session.expiresAt < new Date() || !session.user.active) {
+    return null
+  }
+
+  const { active, ...user } = session.user
+  const withoutRotating: RefreshedSession = {
+    user,
+    accessToken: accessTokenFor(user, session.id),
+    refreshToken: null,
+    expiresAt: session.expiresAt,
+  }
+
+  if (session.refreshTokenHash !== hash) {
+    const graceEnds = new Date(session.lastUsedAt.getTime() + ROTATION_GRACE_SECONDS * 1000)
+    return graceEnds > new Date() ? withoutRotating : null
+  }
+
+  // Rotate only if nobody else has in the meantime, so only one request
+  // walks away with the new token
+  const refresh = newRefreshToken()
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hash },
+    data: { refreshTokenHash: refresh.hash, previousRefreshTokenHash: hash, lastUsedAt: new Date() },
+  })
+  if (rotated.count === 0) {
+    // Lost the race to a concurrent refresh, which has just rotated it
+    const current = await prisma.session.findUnique({ where: { id: session.id } })
+    if (!current || current.revokedAt || current.previousRefreshTokenHash !== hash) return null
+    return withoutRotating
+  }
+
+  return { ...withoutRotating, refreshToken: refresh.token }
+}
+
+/** Revoke the session a refresh token belongs to (sign out). */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { refreshTokenHash: hashRefreshToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/** Sign a user out everywhere. Returns how many sessions were revoked. */
+export async function revokeUserSessions(
+  client: Prisma.TransactionClient,
+  userId: string,
+): Promise<number> {
+  const { count } = await client.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
+
+/** The body every sign-in and refresh returns alongside the cookie. */
+export function sessionResponseBody(
+  user: Pick<User, 'id' | 'email' | 'name' | 'role'>,
+  accessToken: string,
+) {
+  return {
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+    token: accessToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  }
+}
+
+export function setRefreshCookie(response: NextResponse, session: IssuedSession): void {
+  response.cookies.set(REFRESH_COOKIE, session.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    expires: session.expiresAt,
+  })
+}
+
+export function clearRefreshCookie(response: NextResponse): void {
+  response.cookies.set(REFRESH_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge: 0,
+  })
+}
@@ -1,8 +1,16 @@
 import type { Part, Release, ReleaseShipment } from '@prisma/client'
 import { prisma } from '@/lib/db'
 import { EPG_DEFAULT_LBS_PER_PALLET } from '@/lib/epg'
-
-export type ReleaseWithPart = Release & { part: Part }
+import {
+  lineTotalBoxes,
+  releaseLinesOf,
+  type ReleaseLineWithPart,
+} from '@/lib/releases/lines'
+
+export type ReleaseWithPart = Release & {
+  part: Part
+  lines?: ReleaseLineWithPart[]
+}
 
 export function shipmentTotals(
   pallets: number,
@@ -17,6 +25,18 @@ export function shipmentTotals(
   }
 }
 
+/** Shipment totals covering every line of a release (the default single load). */
+export function releaseShipmentTotals(
+  release: ReleaseWithPart,
+): { totalUnits: number; cartons: number; weight: number } {
+  const lines = releaseLinesOf(release)
+  return {
+    totalUnits: lines.reduce((sum, line) => sum + line.totalUnits, 0),
+    cartons: lines.reduce((sum, line) => sum + lineTotalBoxes(line), 0),
+    weight: Math.max(1, release.pallets) * EPG_DEFAULT_LBS_PER_PALLET,
+  }
+}
+
 export function priorShippedUnits(
   shipments: ReleaseShipment[],
   beforeShipmentNumber: number,
@@ -45,7 +65,7 @@ export async function ensureDefaultShipment(release: ReleaseWithPart): Promise<R
     return existing
   }
 
-  const totals = shipmentTotals(release.pallets, release.boxes, release.part)
+  const totals = releaseShipmentTotals(release)
   const created = await prisma.releaseShipment.create({
     data: {
       releaseId: release.id,
@@ -62,6 +82,10 @@ export async function ensureDefaultShipment(release: ReleaseWithPart): Promise<R
   return [created]
 }
 
+/**
+ * Set a release's status from its shipments once a shipment change has
+ * committed. A release cancelled or put on hold in the meantime is left alone.
+ */
 export async function syncReleaseStatusFromShipments(releaseId: string): Promise<void> {
   const shipments = await prisma.releaseShipment.findMany({
     where: { releaseId },
@@ -86,8 +110,8 @@ export async function syncReleaseStatusFromShipments(releaseId: string): Promise
     (a, b) => (b.shippedAt?.getTime() ?? 0) - (a.shippedAt?.getTime() ?? 0),
   )[0]
 
-  await prisma.release.update({
-    where: { id: releaseId },
+  await prisma.release.updateMany({
+    where: { id: releaseId, status: { notIn: ['CANCELLED', 'PENDING_APPROVAL'] } },
     data: {
       status,
       ...(allShipped && latestShipped
@@ -0,0 +1,78 @@
+import type { Prisma, ReleaseShipment } from '@prisma/client'
+import { shipReservedInventory, unshipReservedInventory } from '@/lib/inventory/stock'
+import { lineTotalBoxes, releaseLinesOf } from '@/lib/releases/lines'
+import { shipmentTotals, type ReleaseWithPart } from '@/lib/shipments/helpers'
+
+type ReleaseForShipping = ReleaseWithPart & { stockLocationId: string | null }
+
+/**
+ * Boxes of each part the given shipments take off the floor.
+ *
+ * A multi-part release goes out as one load carrying every line. A single-part
+ * release's shipments are sized by their skids, except that when these are the
+ * last shipments out they take everything the shipped ones didn't, so the
+ * release's boxes always add up even after its skid count is edited.
+ */
+export function shipmentPartBoxes(
+  release: ReleaseWithPart,
+  shipping: ReleaseShipment[],
+  allShipments: ReleaseShipment[],
+): Array<{ partId: string; boxes: number }> {
+  const lines = releaseLinesOf(release)
+  if (lines.length > 1) {
+    return lines.map((line) => ({ partId: line.partId, boxes: lineTotalBoxes(line) }))
+  }
+
+  const [line] = lines
+  const cartons = (s: ReleaseShipment) => shipmentTotals(s.pallets, s.boxes, line.part).cartons
+  const shippingIds = new Set(shipping.map((s) => s.id))
+  const others = allShipments.filter((s) => !shippingIds.has(s.id))
+
+  const boxes = others.every((s) => s.status === 'SHIPPED')
+    ? lineTotalBoxes(line) - others.reduce((sum, s) => sum + cartons(s), 0)
+    : shipping.reduce((sum, s) => sum + cartons(s), 0)
+
+  return [{ partId: line.partId, boxes: Math.max(0, boxes) }]
+}
+
+/** Move a release's reserved stock off on-hand as its shipments are marked shipped. */
+export async function shipShipmentInventory(
+  tx: Prisma.TransactionClient,
+  release: ReleaseForShipping,
+  shipping: ReleaseShipment[],
+  allShipments: ReleaseShipment[],
+  userId: string,
+): Promise<void> {
+  for (const { partId, boxes } of shipmentPartBoxes(release, shipping, allShipments)) {
+    await shipReservedInventory(tx, {
+      partId,
+      boxes,
+      userId,
+      releaseId: release.id,
+      stockLocationId: release.stockLocationId,
+      reference: release.releaseNumber,
+      notes: `Shipment ${shipping.map((s) => s.shipmentNumber).join(', ')}`,
+    })
+  }
+}
+
+/** Reverse shipShipmentInventory when a shipment goes back to PENDING. */
+export async function unshipShipmentInventory(
+  tx: Prisma.TransactionClient,
+  release: ReleaseForShipping,
+  reverting: ReleaseShipment[],
+  allShipments: ReleaseShipment[],
+  userId: string,
+): Promise<void> {
+  for (const { partId, boxes } of shipmentPartBoxes(release, reverting, allShipments)) {
+    await unshipReservedInventory(tx, {
+      partId,
+      boxes,
+      userId,
+      releaseId: release.id,
+      stockLocationId: release.stockLocationId,
+      reference: release.releaseNumber,
+      notes: `Shipment ${reverting.map((s) => s.shipmentNumber).join(', ')} reverted`,
+    })
+  }
+}
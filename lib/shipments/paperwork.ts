@@ -1,15 +1,60 @@
-import type { Part, Release, ReleaseShipment, ShippingLocation } from '@prisma/client'
+import type { Part, Release, ReleaseShipment, ShippingLocation, StockLocation } from '@prisma/client'
 import {
   EPG_DEFAULT_CARRIER,
   EPG_DEFAULT_CARRIER_ACCOUNT,
   EPG_DEFAULT_FREIGHT_TERMS,
 } from '@/lib/epg'
 import type { LoadFlagSkid } from '@/lib/documents/load-flags'
+import { weightForPalletCount } from '@/lib/documents/release-document-data'
+import { shipFromAddress, type ShipFromAddress } from '@/lib/inventory/locations'
+import { lotSummary, type LotAllocationWithLot } from '@/lib/inventory/lots'
+import {
+  lineTotalBoxes,
+  releaseLinesOf,
+  type ReleaseLineWithPart,
+} from '@/lib/releases/lines'
 import { priorShippedPallets, priorShippedUnits } from '@/lib/shipments/helpers'
 
+/** Lots whose boxes fall in [start, end) when a line's lots are laid out in order. */
+function lotsForBoxRange(
+  allocations: LotAllocationWithLot[],
+  start: number,
+  end: number,
+): LotAllocationWithLot[] {
+  const result: LotAllocationWithLot[] = []
+  let offset = 0
+  for (const allocation of allocations) {
+    const lotStart = offset
+    offset += allocation.boxes
+    if (lotStart < end && offset > start) result.push(allocation)
+  }
+  return result
+}
+
 export type ReleaseForPaperwork = Release & {
   part: Part
   shippingLocation: ShippingLocation
+  stockLocation?: StockLocation | null
+  lines?: ReleaseLineWithPart[]
+}
+
+/**
+ * Multi-part releases ship as one load (split-shipment is single-part only),
+ * so each line goes out whole on the shipment.
+ */
+function multiLineItems(lines: ReleaseLineWithPart[]) {
+  return lines.map((line) => ({
+    partNumber: line.part.partNumber,
+    description: line.part.description,
+    unitsPerBox: line.part.unitsPerBox,
+    ordered: line.totalUnits,
+    shipped: line.totalUnits,
+    prevShip: 0,
+    backOrdered: 0,
+    pallets: line.pallets,
+    cartons: lineTotalBoxes(line),
+    weight: weightForPalletCount(line.pallets),
+  }))
 }
 
 export function buildShipmentPaperworkContext(
@@ -23,6 +68,7 @@ export function buildShipmentPaperworkContext(
   const remainingUnits = release.totalUnits - prevUnits - shipment.totalUnits
   const remainingPallets = release.pallets - prevPallets - shipment.pallets
 
+  const lines = releaseLinesOf(release)
   const cartons =
     shipment.cartons ??
     shipment.pallets * release.part.boxesPerPallet + shipment.boxes
@@ -44,19 +90,23 @@ export function buildShipmentPaperworkContext(
     shippingClass: release.shippingClass || '55',
     skidType: release.skidType,
     notes: release.notes,
+    shipFrom: shipFromAddress(release.stockLocation),
     shipmentLabel: `Shipment ${shipment.shipmentNumber} of ${totalShipments} — ${shipment.pallets} of ${release.pallets} skids`,
     originalPallets: release.pallets,
-    lineItems: [
-      {
-        partNumber: release.part.partNumber,
-        description: release.part.description,
-        unitsPerBox: release.part.unitsPerBox,
-        ordered: release.totalUnits,
-        shipped: shipment.totalUnits,
-        prevShip: prevUnits,
-        backOrdered: Math.max(0, remainingUnits),
-      },
-    ],
+    lineItems:
+      lines.length > 1
+        ? multiLineItems(lines)
+        : [
+            {
+              partNumber: lines[0].part.partNumber,
+              description: lines[0].part.description,
+              unitsPerBox: lines[0].part.unitsPerBox,
+              ordered: release.totalUnits,
+              shipped: shipment.totalUnits,
+              prevShip: prevUnits,
+              backOrdered: Math.max(0, remainingUnits),
+            },
+          ],
     remainingPallets,
     remainingUnits,
   }
@@ -75,34 +125,75 @@ export function buildLoadFlagsForShipment(
   shippingClass: string
   skidType: Release['skidType']
   batchNumber?: string
+  shipFrom: ShipFromAddress
 } {
   const ctx = buildShipmentPaperworkContext(release, shipment, allShipments)
-  const palletCount = Math.max(1, shipment.pallets)
-  const totalUnits = shipment.totalUnits
-  const totalCartons = ctx.cartons
+  const lines = releaseLinesOf(release)
   const totalWeight = ctx.weight
 
-  const baseUnits = Math.floor(totalUnits / palletCount)
-  const baseCartons = Math.floor(totalCartons / palletCount)
+  // One group of skids per part. Single-part releases keep splitting the
+  // shipment's own totals (which may be a partial split of the release).
+  // Skids are filled from the line's lots oldest first; a split shipment can't
+  // say which lots it carries, so each of its skids lists all of them.
+  const groups =
+    lines.length > 1
+      ? lines.map((line) => ({
+          part: line.part,
+          skidCount: Math.max(1, line.pallets),
+          units: line.totalUnits,
+          cartons: lineTotalBoxes(line),
+          lots: line.lotAllocations ?? [],
+          lotsByBoxRange: true,
+        }))
+      : [
+          {
+            part: lines[0].part,
+            skidCount: Math.max(1, shipment.pallets),
+            units: shipment.totalUnits,
+            cartons: ctx.cartons,
+            lots: lines[0].lotAllocations ?? [],
+            lotsByBoxRange: allShipments.length <= 1,
+          },
+        ]
+  const palletCount = groups.reduce((sum, g) => sum + g.skidCount, 0)
   const baseWeight = Math.round((totalWeight / palletCount) * 100) / 100
 
-  const skids: LoadFlagSkid[] = Array.from({ length: palletCount }, (_, i) => {
-    const skidNumber = i + 1
-    const isLast = skidNumber === palletCount
-    return {
-      skidNumber,
-      partNumber: release.part.partNumber,
-      description: release.part.description,
-      unitsPerBox: release.part.unitsPerBox,
-      units: isLast ? totalUnits - baseUnits * (palletCount - 1) : baseUnits,
-      cartons: isLast
-        ? totalCartons - baseCartons * (palletCount - 1)
-        : baseCartons,
-      weight: isLast
-        ? Math.round((totalWeight - baseWeight * (palletCount - 1)) * 100) / 100
-        : baseWeight,
+  const skids: LoadFlagSkid[] = []
+  let weightAssigned = 0
+  for (const group of groups) {
+    const baseUnits = Math.floor(group.units / group.skidCount)
+    const baseCartons = Math.floor(group.cartons / group.skidCount)
+    let firstCarton = 0
+
+    for (let i = 0; i < group.skidCount; i++) {
+      const skidNumber = skids.length + 1
+      const isLastInGroup = i === group.skidCount - 1
+      const isLastOverall = skidNumber === palletCount
+      const weight = isLastOverall
+        ? Math.round((totalWeight - weightAssigned) * 100) / 100
+        : baseWeight
+      weightAssigned += weight
+      const cartons = isLastInGroup
+        ? group.cartons - baseCartons * (group.skidCount - 1)
+        : baseCartons
+      const skidLots = group.lotsByBoxRange
+        ? lotsForBoxRange(group.lots, firstCarton, firstCarton + cartons)
+        : group.lots
+      firstCarton += cartons
+      skids.push({
+        skidNumber,
+        partNumber: group.part.partNumber,
+        description: group.part.description,
+        unitsPerBox: group.part.unitsPerBox,
+        units: isLastInGroup
+          ? group.units - baseUnits * (group.skidCount - 1)
+          : baseUnits,
+        cartons,
+        weight,
+        ...(skidLots.length > 0 ? { lots: lotSummary(skidLots) } : {}),
+      })
     }
-  })
+  }
 
   return {
     totalSkids: palletCount,
@@ -113,5 +204,6 @@ export function buildLoadFlagsForShipment(
     shippingClass: ctx.shippingClass,
     skidType: release.skidType,
     batchNumber: release.batchNumber ?? undefined,
+    shipFrom: ctx.shipFrom,
   }
 }
\ No newline at end of file
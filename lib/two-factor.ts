@@ -0,0 +1,243 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { Role, User } from '@prisma/client'
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/db'
+
+/**
+ * TOTP two-factor sign-in (RFC 6238: 6 digits, 30-second steps, SHA-1 — what
+ * every authenticator app expects).
+ *
+ * Optional for everyone; roles listed in TWO_FACTOR_REQUIRED_ROLES (e.g.
+ * "ADMIN") must enroll, and are walked through it at their next sign-in.
+ * Enrolling hands out single-use backup codes for a lost phone; only their
+ * sha256 is kept. Five wrong codes in a row lock the second step for 15
+ * minutes, and an accepted code can't be replayed.
+ */
+
+const ISSUER = 'JD Graphic Inventory Release'
+const STEP_SECONDS = 30
+const DIGITS = 6
+// Accept the previous and next code too, for clock drift
+const DRIFT_STEPS = 1
+const BACKUP_CODE_COUNT = 10
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MINUTES = 15
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/** Roles that may not sign in without two-factor. */
+export function twoFactorRequired(role: Role): boolean {
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map((s) => s.trim())
+    .includes(role)
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) continue
+    value = ((value << 5) | index) & 0xffff
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8)
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0)
+  message.writeUInt32BE(counter >>> 0, 4)
+  const hmac = createHmac('sha1', secret).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+/** The time step `code` is valid for, or null if it matches none near now. */
+function matchingStep(secret: string, code: string): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null
+  const key = base32Decode(secret)
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS)
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) {
+      return step
+    }
+  }
+  return null
+}
+
+// Codes are typed with spaces and dashes, backup codes in either case
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+function hashBackupCode(code: string): string {
+  return createHash('sha256').update(normalizeCode(code)).digest('hex')
+}
+
+function newBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+export interface TwoFactorEnrollment {
+  secret: string      // For typing into the app when the QR code can't be scanned
+  otpauthUrl: string
+  qrCode: string      // PNG data URL of otpauthUrl
+}
+
+/**
+ * Start (or restart) enrollment: store a new secret, not yet enabled, and
+ * return it with the QR code to scan. Callers check two-factor isn't on yet.
+ */
+export async function startTwoFactorEnrollment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrollment> {
+  const secret = base32Encode(randomBytes(20))
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null },
+  })
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`)
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) }
+}
+
+/**
+ * Finish enrollment with a code from the newly set-up app. Returns the backup
+ * codes to show the user once, or null when the code doesn't match.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user?.totpSecret || user.totpEnabledAt) return null
+
+  const step = matchingStep(user.totpSecret, normalizeCode(code))
+  if (step === null) return null
+
+  const backupCodes = newBackupCodes()
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      totpBackupCodes: backupCodes.map(hashBackupCode),
+      totpFailedAttempts: 0,
+      totpLockedUntil: null,
+    },
+  })
+  return backupCodes
+}
+
+export type SecondFactorResult =
+  | { ok: true; method: 'totp' | 'backup' }
+  | { ok: false; error: string; status: number }
+
+/**
+ * Check a code from the user's authenticator app, or one of their backup
+ * codes (which is then used up). Counts failures toward the lockout.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorResult> {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return { ok: false, error: 'Two-factor authentication is not enabled', status: 400 }
+  }
+  if (user.totpLockedUntil && user.totpLockedUntil > new Date()) {
+    return { ok: false, error: 'Too many incorrect codes. Please try again later.', status: 429 }
+  }
+
+  const normalized = normalizeCode(code)
+  const step = matchingStep(user.totpSecret, normalized)
+  if (step !== null) {
+    // Only a step newer than the last accepted one, so a seen code can't be reused
+    const accepted = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step, totpFailedAttempts: 0, totpLockedUntil: null },
+    })
+    if (accepted.count > 0) return { ok: true, method: 'totp' }
+  }
+
+  const backupHash = hashBackupCode(normalized)
+  if (user.totpBackupCodes.includes(backupHash)) {
+    const used = await prisma.user.updateMany({
+      where: { id: userId, totpBackupCodes: { has: backupHash } },
+      data: {
+        totpBackupCodes: user.totpBackupCodes.filter((h) => h !== backupHash),
+        totpFailedAttempts: 0,
+        totpLockedUntil: null,
+      },
+    })
+    if (used.count > 0) return { ok: true, method: 'backup' }
+  }
+
+  const { totpFailedAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { totpFailedAttempts: { increment: 1 } },
+  })
+  if (totpFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpFailedAttempts: 0,
+        totpLockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000),
+      },
+    })
+    return {
+      ok: false,
+      error: `Too many incorrect codes. Please try again in ${LOCKOUT_MINUTES} minutes.`,
+      status: 429,
+    }
+  }
+  return { ok: false, error: 'Incorrect code', status: 401 }
+}
+
+/** Replace a user's backup codes; the old ones stop working. */
+export async function regenerateBackupCodes(userId: string): Promise<string[]> {
+  const backupCodes = newBackupCodes()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpBackupCodes: backupCodes.map(hashBackupCode) },
+  })
+  return backupCodes
+}
+
+/** Turn two-factor off and forget the secret and backup codes. */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpBackupCodes: [],
+      totpFailedAttempts: 0,
+      totpLockedUntil: null,
+    },
+  })
+}
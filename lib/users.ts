@@ -0,0 +1,12 @@
+/** What the admin Users tab sees of each user — never the password hash. */
+export const userSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  active: true,
+  vendorLocationId: true,
+  vendorLocation: { select: { name: true } },
+  totpEnabledAt: true,
+  createdAt: true,
+} as const
@@ -0,0 +1,18 @@
+import { z } from 'zod'
+import type { ApprovalRuleType } from '@prisma/client'
+import { APPROVAL_RULE_TYPES } from '@/lib/releases/approval'
+import { amount } from './common'
+
+/** PUT /api/approval-rules */
+export const approvalRulesSchema = z.object({
+  rules: z.array(
+    z.object({
+      type: z.enum(Object.keys(APPROVAL_RULE_TYPES) as [ApprovalRuleType, ...ApprovalRuleType[]], {
+        error: 'Unknown approval rule type',
+      }),
+      threshold: amount('Threshold'),
+      enabled: z.boolean().default(false),
+    }),
+    { error: 'rules must be an array' },
+  ),
+})
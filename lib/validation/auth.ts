@@ -0,0 +1,36 @@
+import { z } from 'zod'
+import { newPassword, requiredText } from './common'
+
+/** Any POST /api/auth/login body; one with a challengeToken is the second step. */
+export const loginStepSchema = z.looseObject({ challengeToken: z.unknown() })
+
+/** POST /api/auth/login — first step */
+export const loginSchema = z.object({
+  email: requiredText('Email'),
+  password: z.string({ error: 'Password is required' }).min(1, 'Password is required'),
+})
+
+/**
+ * POST /api/auth/login — second step for two-factor accounts. `code` is from
+ * the authenticator app, or a backup code.
+ */
+export const loginTwoFactorSchema = z.object({
+  challengeToken: requiredText('Sign-in challenge'),
+  code: requiredText('Code'),
+})
+
+/** A code from the authenticator app (or a backup code) confirming a two-factor change. */
+export const twoFactorCodeSchema = z.object({
+  code: requiredText('Code'),
+})
+
+/** POST /api/auth/forgot-password */
+export const forgotPasswordSchema = z.object({
+  email: requiredText('Email'),
+})
+
+/** POST /api/auth/reset-password — `token` is the one from the emailed link. */
+export const resetPasswordSchema = z.object({
+  token: requiredText('Reset token'),
+  password: newPassword(),
+})
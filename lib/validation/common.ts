@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+/**
+ * Field building blocks for the request schemas. Every message names its
+ * field, so a 400's error string reads on its own.
+ */
+
+/** Non-empty string, trimmed. */
+export function requiredText(label: string) {
+  return z.string({ error: `${label} is required` }).trim().min(1, `${label} is required`)
+}
+
+/** Trimmed string where blank means null; may be omitted. */
+export function optionalText() {
+  return z
+    .string()
+    .trim()
+    .transform((value) => value || null)
+    .nullish()
+}
+
+/** A password being set: at least 8 characters. */
+export function newPassword() {
+  return z.string({ error: 'Password is required' }).min(8, 'Password must be at least 8 characters')
+}
+
+/** Query-string value where blank means omitted. */
+export function queryParam() {
+  return z
+    .string()
+    .optional()
+    .transform((value) => value || undefined)
+}
+
+/** Whole number, at least `min` (0 unless given). */
+export function wholeNumber(label: string, { min = 0 }: { min?: number } = {}) {
+  return z
+    .number({ error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`)
+}
+
+/** Finite number of zero or more (prices, weights, thresholds). */
+export function amount(label: string) {
+  return z
+    .number({ error: `${label} must be a number` })
+    .min(0, `${label} must be zero or more`)
+}
+
+/** Calendar day, YYYY-MM-DD. */
+export function calendarDay(label: string) {
+  return z.iso.date(`${label} must be a date (YYYY-MM-DD)`)
+}
+
+/** Any string Date can parse (ISO date or date-time). */
+export function dateInput(label: string) {
+  return z
+    .string({ error: `${label} must be a date` })
+    .refine((value) => !Number.isNaN(Date.parse(value)), `${label} must be a valid date`)
+}
+
+/** A date field a form may send blank: '' and null both mean none. */
+export function optionalDate<T extends z.ZodType<string>>(schema: T) {
+  return z.preprocess((value) => (value === '' ? null : value), schema.nullish())
+}
+
+/** Refinement for a list whose entries must name distinct parts. */
+export function distinctParts(lines: Array<{ partId: string }>): boolean {
+  return new Set(lines.map((l) => l.partId)).size === lines.length
+}
@@ -0,0 +1,30 @@
+import type { z } from 'zod'
+
+/** Body of every 400 a request schema rejects, from any route. */
+export interface ValidationErrorBody {
+  error: string                          // Every problem, one sentence each
+  fieldErrors: Record<string, string[]>  // By field path, e.g. "lines.0.pallets"
+}
+
+export function validationErrorBody(error: z.ZodError): ValidationErrorBody {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    if (issue.path.length === 0) continue
+    const path = issue.path.join('.')
+    fieldErrors[path] = [...(fieldErrors[path] ?? []), issue.message]
+  }
+
+  return {
+    error: Array.from(new Set(error.issues.map((i) => i.message))).join('; '),
+    fieldErrors,
+  }
+}
+
+/**
+ * Check a form's payload against the schema its route validates with, before
+ * sending it. Returns the error message to show, or null when it's valid.
+ */
+export function formError(schema: z.ZodType, value: unknown): string | null {
+  const result = schema.safeParse(value)
+  return result.success ? null : validationErrorBody(result.error).error
+}
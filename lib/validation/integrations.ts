@@ -0,0 +1,17 @@
+import { z } from 'zod'
+import { requiredText } from './common'
+
+/** POST /api/cron/send-invoices — resend one release's invoice */
+export const sendInvoiceSchema = z.object({
+  releaseId: requiredText('releaseId'),
+})
+
+/** POST /api/webhooks/threez-status — Three Z Job Portal status callback */
+export const threezStatusSchema = z.object({
+  jobId: z.string().nullish(),
+  sourceJobId: requiredText('sourceJobId'),
+  status: z.string().nullish(),
+  trackingNumber: z.string().nullish(),
+  carrier: z.string().nullish(),
+  updatedAt: z.string().nullish(),
+})
@@ -0,0 +1,104 @@
+import { z } from 'zod'
+import type { AdjustmentReason } from '@prisma/client'
+import { ADJUSTMENT_REASONS } from '@/lib/inventory/adjustments'
+import {
+  amount,
+  dateInput,
+  optionalDate,
+  optionalText,
+  queryParam,
+  requiredText,
+  wholeNumber,
+} from './common'
+
+/** Parts, production, cycle counts, stock locations and transfers. */
+
+/** PUT /api/parts — only the fields given change; null reorder points go back to the default. */
+export const updatePartSchema = z.object({
+  partId: requiredText('Part ID'),
+  boxesPerPallet: wholeNumber('Boxes per pallet', { min: 1 }).optional(),
+  unitsPerBox: wholeNumber('Units per box', { min: 1 }).optional(),
+  pricePerUnit: amount('Price per unit').optional(),
+  description: requiredText('Description').optional(),
+  reorderPointUnits: wholeNumber('Reorder point').nullable().optional(),
+  criticalPointUnits: wholeNumber('Critical point').nullable().optional(),
+})
+
+/** POST /api/production */
+export const productionSchema = z
+  .object({
+    partId: requiredText('Part ID'),
+    pallets: wholeNumber('Pallets'),
+    boxes: wholeNumber('Loose boxes').default(0),
+    notes: optionalText(),
+    lotNumber: optionalText(),
+    manufactureDate: optionalDate(dateInput('Manufacture date')),
+    stockLocationId: optionalText(),
+  })
+  .refine((run) => run.pallets > 0 || run.boxes > 0, {
+    error: 'A production run must add at least one pallet or box',
+    path: ['pallets'],
+  })
+
+/** POST /api/adjustments — a cycle count */
+export const cycleCountSchema = z
+  .object({
+    partId: requiredText('Part ID'),
+    countedPallets: wholeNumber('Counted pallets'),
+    countedBoxes: wholeNumber('Counted boxes').default(0),
+    reasonCode: z.enum(Object.keys(ADJUSTMENT_REASONS) as [AdjustmentReason, ...AdjustmentReason[]], {
+      error: 'A valid reason code is required',
+    }),
+    notes: optionalText(),
+    stockLocationId: optionalText(),
+  })
+  .refine((count) => count.reasonCode !== 'OTHER' || count.notes, {
+    error: 'Notes are required when the reason is Other',
+    path: ['notes'],
+  })
+
+/** POST /api/stock-locations */
+export const stockLocationSchema = z.object({
+  code: requiredText('Code'),
+  name: requiredText('Name'),
+  address: requiredText('Address'),
+  city: requiredText('City'),
+  state: requiredText('State'),
+  zip: requiredText('ZIP'),
+  country: optionalText(),
+  phone: optionalText(),
+  vendorName: optionalText(),
+  isDefault: z.boolean({ error: 'isDefault must be true or false' }).default(false),
+})
+
+/** POST /api/stock-transfers */
+export const stockTransferSchema = z
+  .object({
+    partId: requiredText('Part'),
+    fromLocationId: requiredText('From location'),
+    toLocationId: requiredText('To location'),
+    pallets: wholeNumber('Pallets'),
+    boxes: wholeNumber('Boxes').default(0),
+    carrier: optionalText(),
+    shipDate: optionalDate(dateInput('Ship date')),
+    notes: optionalText(),
+  })
+  .refine((transfer) => transfer.fromLocationId !== transfer.toLocationId, {
+    error: 'From and to locations must be different',
+    path: ['toLocationId'],
+  })
+  .refine((transfer) => transfer.pallets > 0 || transfer.boxes > 0, {
+    error: 'Transfer must move at least one box',
+    path: ['pallets'],
+  })
+
+/** GET /api/admin/inventory-ledger — one part by ID or number, or all parts */
+export const inventoryLedgerQuerySchema = z.object({
+  partId: queryParam(),
+  partNumber: queryParam(),
+})
+
+/** GET /api/forecast — one part, or all parts */
+export const forecastQuerySchema = z.object({
+  partId: queryParam(),
+})
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { amount, dateInput, distinctParts, optionalDate, optionalText, requiredText, wholeNumber } from './common'
+
+const purchaseOrderLineSchema = z.object({
+  partId: requiredText('Part'),
+  authorizedUnits: wholeNumber('Authorized quantity', { min: 1 }),
+  unitPrice: amount('Unit price'),
+})
+
+/** POST /api/purchase-orders and PUT /api/purchase-orders/[purchaseOrderId] */
+export const purchaseOrderSchema = z.object({
+  number: requiredText('PO number'),
+  // A bare date expires at the end of that day
+  expiresAt: optionalDate(dateInput('Expiry')).transform((value) =>
+    !value
+      ? null
+      : /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T23:59:59.999Z`)
+        : new Date(value),
+  ),
+  notes: optionalText(),
+  lines: z
+    .array(purchaseOrderLineSchema, { error: 'A PO needs at least one part' })
+    .min(1, 'A PO needs at least one part')
+    .refine(distinctParts, 'Each part can appear on a PO only once'),
+})
+
+export type PurchaseOrderInput = z.output<typeof purchaseOrderSchema>
@@ -0,0 +1,208 @@
+import { z } from 'zod'
+import {
+  amount,
+  calendarDay,
+  dateInput,
+  distinctParts,
+  optionalDate,
+  optionalText,
+  queryParam,
+  requiredText,
+  wholeNumber,
+} from './common'
+
+/**
+ * Release request bodies: creating and amending releases, shipping and
+ * splitting them, and the release form's templates, drafts and schedules.
+ */
+
+export const skidTypeSchema = z.enum(['WOOD', 'HEAT_TREATED'], {
+  error: 'Skid type is required (WOOD or HEAT_TREATED)',
+})
+
+/** One part on a release; pallets default to 5 and loose boxes to 0. */
+export const releaseLineSchema = z
+  .object({
+    partId: requiredText('Part ID'),
+    pallets: wholeNumber('Pallets').default(5),
+    boxes: wholeNumber('Boxes').default(0),
+    // Lots to draw from, in order; omitted = FIFO
+    lotIds: z
+      .array(z.string(), { error: 'Lot IDs must be a list of lot identifiers' })
+      .transform((ids) => (ids.length ? ids : undefined))
+      .optional(),
+  })
+  .refine((line) => line.pallets > 0 || line.boxes > 0, {
+    error: 'Each line must release at least one pallet or box',
+    path: ['pallets'],
+  })
+
+export const releaseLinesSchema = z
+  .array(releaseLineSchema, { error: 'At least one part is required' })
+  .min(1, 'At least one part is required')
+  .refine(distinctParts, 'Each part may only appear once on a release')
+
+/**
+ * POST /api/releases — also what a release schedule submits. Bodies from
+ * before multi-part releases ({ partId, pallets, boxes, lotIds }) are read as
+ * a single line.
+ */
+export const createReleaseSchema = z.preprocess(
+  (body) => {
+    if (body && typeof body === 'object' && !('lines' in body) && 'partId' in body) {
+      const { partId, pallets, boxes, lotIds, ...rest } = body as Record<string, unknown>
+      return { ...rest, lines: [{ partId, pallets, boxes, lotIds }] }
+    }
+    return body
+  },
+  z.object({
+    lines: releaseLinesSchema,
+    shippingLocationId: requiredText('Shipping location ID'),
+    customerPONumber: requiredText('Customer PO#'),
+    skidType: skidTypeSchema,
+    stockLocationId: optionalText(),
+    notes: optionalText(),
+    batchNumber: optionalText(),
+    shipVia: optionalText(),
+    freightTerms: optionalText(),
+    paymentTerms: optionalText(),
+    shipDate: optionalDate(dateInput('Ship date')),
+    etaDeliveryDate: optionalDate(dateInput('ETA delivery date')),
+    cartons: wholeNumber('Cartons').optional(),
+    weight: amount('Weight').optional(),
+    shippingClass: optionalText(),
+  }),
+)
+
+export type CreateReleaseInput = z.output<typeof createReleaseSchema>
+export type ReleaseLineInput = z.output<typeof releaseLineSchema>
+
+/** PATCH /api/releases/[releaseId] — every field optional; null ship date clears it. */
+export const updateReleaseSchema = z.object({
+  trackingNumber: z.string({ error: 'Tracking number must be text' }).trim().nullish(),
+  shipDate: optionalDate(dateInput('Ship date')),
+  pallets: wholeNumber('Skid count', { min: 1 }).optional(),
+})
+
+/** POST .../mark-shipped, for a whole release or one shipment. */
+export const markShippedSchema = z.object({
+  proNumber: requiredText('PRO number'),
+  carrier: optionalText(),
+  shipDate: optionalDate(dateInput('Ship date')),
+})
+
+/** POST /api/releases/[releaseId]/split-shipment — skids per shipment, in order. */
+export const splitShipmentSchema = z.object({
+  palletSplits: z
+    .array(wholeNumber('Each shipment', { min: 1 }), { error: 'palletSplits array is required' })
+    .min(1, 'At least one shipment is required'),
+})
+
+/** POST /api/releases/[releaseId]/documents */
+export const generateDocumentsSchema = z.object({
+  documentType: z.enum(['packing-slip', 'box-labels', 'all'], {
+    error: 'Document type must be packing-slip, box-labels or all',
+  }),
+})
+
+/** POST .../cancel and .../reject */
+export const cancelReleaseSchema = z.object({
+  reason: requiredText('A cancellation reason'),
+})
+
+export const rejectReleaseSchema = z.object({
+  reason: requiredText('A rejection reason'),
+})
+
+/** ?shipmentId= on the paperwork routes — one shipment, or the whole release. */
+export const shipmentQuerySchema = z.object({
+  shipmentId: queryParam(),
+})
+
+// Template lines are parts and pallets only
+const templateLineSchema = z.object({
+  partId: requiredText('Part ID'),
+  pallets: wholeNumber('Pallets', { min: 1 }),
+})
+
+/**
+ * POST /api/release-templates and PUT /api/release-templates/[templateId].
+ * Templates are named, shared presets that prefill the release form.
+ */
+export const releaseTemplateSchema = z.object({
+  name: requiredText('Template name'),
+  lines: z
+    .array(templateLineSchema, { error: 'At least one part is required' })
+    .min(1, 'At least one part is required')
+    .refine(distinctParts, 'Each part may only appear once on a release'),
+  skidType: skidTypeSchema.nullish().transform((value) => value ?? null),
+  freightTerms: optionalText(),
+  notes: optionalText(),
+})
+
+export type ReleaseTemplateInput = z.output<typeof releaseTemplateSchema>
+export type ReleaseTemplateLine = z.output<typeof templateLineSchema>
+
+/**
+ * PUT /api/release-drafts — one user's release form as they left it, so it can
+ * be resumed later. Drafts are unfinished by definition, so nothing is
+ * required beyond the shape.
+ */
+export const releaseDraftSchema = z.object({
+  step: z.union([z.literal(1), z.literal(2)]).catch(1),
+  lines: z
+    .array(
+      z.object({ partId: z.string(), pallets: z.number().int() }),
+      { error: 'Each draft line needs a part ID and whole-number pallets' },
+    )
+    .default([]),
+  stockLocationId: z.string().optional(),
+  customerPONumber: z.string().optional(),
+  batchNumber: z.string().optional(),
+  shipVia: z.string().optional(),
+  freightTerms: z.string().optional(),
+  shipDate: z.string().optional(),
+  skidType: z.enum(['WOOD', 'HEAT_TREATED', '']).optional(),
+  notes: z.string().optional(),
+})
+
+export type ReleaseDraftData = z.output<typeof releaseDraftSchema>
+
+/** POST /api/release-schedules; PATCH /api/release-schedules/[scheduleId] */
+export const releaseScheduleSchema = z
+  .object({
+    name: requiredText('Schedule name'),
+    partId: requiredText('Part'),
+    pallets: wholeNumber('Pallets', { min: 1 }),
+    customerPONumber: requiredText('Customer PO#'),
+    skidType: skidTypeSchema,
+    stockLocationId: optionalText(),
+    notes: optionalText(),
+    intervalWeeks: wholeNumber('Repeat interval', { min: 1 })
+      .max(52, 'Repeat interval must be at most 52 weeks')
+      .default(1),
+    startDate: calendarDay('Start date'),
+    endDate: optionalDate(calendarDay('End date')),
+  })
+  .refine((schedule) => !schedule.endDate || schedule.endDate >= schedule.startDate, {
+    error: 'End date must be on or after the start date',
+    path: ['endDate'],
+  })
+
+export type ReleaseScheduleInput = z.output<typeof releaseScheduleSchema>
+
+/**
+ * PATCH /api/release-schedules/[scheduleId]: { active } pauses or resumes;
+ * any other fields are the full settings, checked with releaseScheduleSchema.
+ */
+export const updateReleaseScheduleSchema = z
+  .object({
+    active: z.boolean({ error: 'active must be true or false' }).optional(),
+  })
+  .catchall(z.unknown())
+
+/** POST /api/release-schedules/[scheduleId]/skip */
+export const skipOccurrenceSchema = z.object({
+  date: calendarDay('Date'),
+  skipped: z.boolean({ error: 'skipped must be true or false' }).default(true),
+})
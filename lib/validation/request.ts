@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { z } from 'zod'
+import { validationErrorBody } from './errors'
+
+/**
+ * Server side of the request schemas: validate a route's body or query and,
+ * when it doesn't pass, hand back the 400 to return.
+ *
+ *   const parsed = await parseBody(request, productionSchema)
+ *   if (!parsed.success) return parsed.response
+ */
+
+export type ParsedRequest<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse }
+
+export function parseInput<S extends z.ZodType>(schema: S, value: unknown): ParsedRequest<z.output<S>> {
+  const result = schema.safeParse(value)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    response: NextResponse.json(validationErrorBody(result.error), { status: 400 }),
+  }
+}
+
+/** Validate a JSON body; an empty body is validated as {}. */
+export async function parseBody<S extends z.ZodType>(
+  request: NextRequest,
+  schema: S,
+): Promise<ParsedRequest<z.output<S>>> {
+  const text = await request.text()
+  let body: unknown = {}
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      return {
+        success: false,
+        response: NextResponse.json(
+          { error: 'Request body must be valid JSON', fieldErrors: {} },
+          { status: 400 },
+        ),
+      }
+    }
+  }
+  return parseInput(schema, body)
+}
+
+/** Validate the query string (every value arrives as a string). */
+export function parseQuery<S extends z.ZodType>(request: NextRequest, schema: S): ParsedRequest<z.output<S>> {
+  return parseInput(schema, Object.fromEntries(request.nextUrl.searchParams))
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+import type { Role } from '@prisma/client'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { newPassword, optionalText, requiredText } from './common'
+
+const roleSchema = z.enum(Object.keys(ROLE_LABELS) as [Role, ...Role[]], {
+  error: 'Unknown role',
+})
+
+/** POST /api/users */
+export const createUserSchema = z
+  .object({
+    email: requiredText('Email').pipe(z.email('Email must be a valid email address')),
+    name: requiredText('Name'),
+    role: roleSchema,
+    password: newPassword(),
+    vendorLocationId: optionalText(),
+  })
+  .refine((user) => user.role !== 'VENDOR' || user.vendorLocationId, {
+    error: 'Vendor users need a stock location',
+    path: ['vendorLocationId'],
+  })
+
+export type CreateUserInput = z.infer<typeof createUserSchema>
+
+/**
+ * PATCH /api/users/[userId] — `password` force-resets it; `resetTwoFactor`
+ * turns off two-factor for a user who lost their phone and backup codes.
+ */
+export const updateUserSchema = z.object({
+  name: requiredText('Name').optional(),
+  role: roleSchema.optional(),
+  active: z.boolean({ error: 'active must be true or false' }).optional(),
+  vendorLocationId: optionalText(),
+  password: newPassword().optional(),
+  resetTwoFactor: z.boolean({ error: 'resetTwoFactor must be true or false' }).optional(),
+})
@@ -0,0 +1,95 @@
+import type { Role } from '@prisma/client'
+import { NextResponse, type NextRequest } from 'next/server'
+import { getUserFromToken, type AuthUser } from '@/lib/auth'
+import { isServiceRequest } from '@/lib/document-access'
+import { can, type Permission } from '@/lib/permissions'
+
+/**
+ * The one authentication check every user-facing route goes through.
+ *
+ *   export const GET = withAuth<{ releaseId: string }>(
+ *     { roles: ['ADMIN'] },
+ *     async (request, user, { params }) => { ... },
+ *   )
+ *
+ * The user comes from the Bearer token (or, with allowQueryToken, ?token= —
+ * for links opened in a new tab, which can't send headers). Missing token →
+ * 401 Unauthorized; bad token → 401 Invalid token; a role not in `roles`, or
+ * without `permission` in the matrix (lib/permissions.ts) → 403. Omit both to
+ * let any signed-in user through.
+ *
+ * With allowServiceKey, press-planner's server-to-server key is accepted in
+ * place of a user (see lib/document-access.ts) and the handler gets null.
+ */
+
+export interface AuthOptions {
+  roles?: Role[]
+  permission?: Permission
+  allowServiceKey?: boolean
+  allowQueryToken?: boolean
+}
+
+type RouteContext<P> = { params: Promise<P> }
+
+type RouteHandler<P> = (request: NextRequest, context: RouteContext<P>) => Promise<Response>
+
+type UserHandler<P> = (request: NextRequest, user: AuthUser, context: RouteContext<P>) => Promise<Response>
+
+type UserOrServiceHandler<P> = (
+  request: NextRequest,
+  user: AuthUser | null,
+  context: RouteContext<P>,
+) => Promise<Response>
+
+function forbidden(roles?: Role[]): NextResponse {
+  const error =
+    roles?.length === 1 && roles[0] === 'ADMIN'
+      ? 'Admin access required'
+      : 'You do not have access to this'
+  return NextResponse.json({ error }, { status: 403 })
+}
+
+export function withAuth<P = Record<string, never>>(
+  options: AuthOptions & { allowServiceKey: true },
+  handler: UserOrServiceHandler<P>,
+): RouteHandler<P>
+export function withAuth<P = Record<string, never>>(
+  options: AuthOptions,
+  handler: UserHandler<P>,
+): RouteHandler<P>
+export function withAuth<P>(
+  options: AuthOptions,
+  handler: UserHandler<P> | UserOrServiceHandler<P>,
+): RouteHandler<P> {
+  const { roles, permission, allowServiceKey = false, allowQueryToken = false } = options
+
+  return async (request, context) => {
+    // Only the allowServiceKey overload gets here, whose handler takes null
+    if (allowServiceKey && isServiceRequest(request)) {
+      return (handler as UserOrServiceHandler<P>)(request, null, context)
+    }
+
+    const authHeader = request.headers.get('authorization')
+    const token =
+      (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null) ||
+      (allowQueryToken ? request.nextUrl.searchParams.get('token') : null)
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await getUserFromToken(token)
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
+    }
+
+    if (roles && !roles.includes(user.role)) {
+      return forbidden(roles)
+    }
+    if (permission && !can(user.role, permission)) {
+      return forbidden()
+    }
+
+    return handler(request, user, context)
+  }
+}
@@ -166,8 +166,7 @@ async function main() {
   await prisma.part.update({
     where: { partNumber: '100307705' },
     data: {
-      currentPallets: 36,
-      currentBoxes: 10,
+      onHandBoxes: 36 * 51 + 10,
     },
   })
   const total7705 = (36 * 51 + 10) * 130
@@ -176,8 +175,7 @@ async function main() {
   await prisma.part.update({
     where: { partNumber: '100309797' },
     data: {
-      currentPallets: 35,
-      currentBoxes: 0,
+      onHandBoxes: 35 * 51,
     },
   })
   const total9797 = (35 * 51 + 0) * 130
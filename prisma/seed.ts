@@ -53,8 +53,7 @@ async function main() {
       costBasisPerUnit: 0.2417,   // Buy cost from ThreeZ
       vendorName: 'ThreeZ',       // Vendor supplies paper
       annualOrder: 100000,
-      currentPallets: 50, // Starting inventory
-      currentBoxes: 10,
+      onHandBoxes: 50 * 51 + 10, // Starting inventory: 50 pallets, 10 boxes
     },
   })
 
@@ -76,13 +75,39 @@ async function main() {
       costBasisPerUnit: 0.1956,   // Buy cost from ThreeZ
       vendorName: 'ThreeZ',       // Vendor supplies paper
       annualOrder: 200000,
-      currentPallets: 75, // Starting inventory
-      currentBoxes: 5,
+      onHandBoxes: 75 * 51 + 5, // Starting inventory: 75 pallets, 5 boxes
     },
   })
 
   console.log('✅ Parts created:', part1.partNumber, part2.partNumber)
 
+  // Stock is held at JD Elk Grove by default; other locations (e.g. Three Z)
+  // are added from the admin page
+  const jdElkGrove = await prisma.stockLocation.upsert({
+    where: { code: 'JD_ELK_GROVE' },
+    update: {},
+    create: {
+      code: 'JD_ELK_GROVE',
+      name: 'JD Graphic, Co Inc',
+      address: '1101 Arthur Ave',
+      city: 'Elk Grove Village',
+      state: 'IL',
+      zip: '60007',
+      phone: '847-364-4000',
+      isDefault: true,
+    },
+  })
+
+  for (const part of [part1, part2]) {
+    await prisma.partStock.upsert({
+      where: { partId_stockLocationId: { partId: part.id, stockLocationId: jdElkGrove.id } },
+      update: {},
+      create: { partId: part.id, stockLocationId: jdElkGrove.id, onHandBoxes: part.onHandBoxes },
+    })
+  }
+
+  console.log('✅ Stock location created:', jdElkGrove.code)
+
   // Create shipping locations (AO Smith facilities)
   const locations = [
     {
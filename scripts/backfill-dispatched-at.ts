@@ -0,0 +1,38 @@
+/**
+ * One-off: set dispatchedAt on releases sent out before it existed, so
+ * approving one that an amendment holds again doesn't send it a second time.
+ * Every release went out on creation or approval except those still held and
+ * those rejected while held.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/backfill-dispatched-at.ts
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const releases = await prisma.release.findMany({
+    where: {
+      dispatchedAt: null,
+      status: { not: 'PENDING_APPROVAL' },
+      OR: [{ cancellationReason: null }, { NOT: { cancellationReason: { startsWith: 'Rejected: ' } } }],
+    },
+    select: { id: true, releaseNumber: true, createdAt: true, approvedAt: true },
+  })
+
+  for (const release of releases) {
+    await prisma.release.update({
+      where: { id: release.id },
+      data: { dispatchedAt: release.approvedAt ?? release.createdAt },
+    })
+    console.log(`✓ ${release.releaseNumber}`)
+  }
+
+  console.log(`Done. Backfilled ${releases.length} release(s).`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
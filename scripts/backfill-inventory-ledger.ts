@@ -0,0 +1,40 @@
+/**
+ * One-off: give every part with no ledger rows an opening ADJUSTMENT equal to
+ * its current stored inventory, so the ledger and the counters start in step.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/backfill-inventory-ledger.ts
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const parts = await prisma.part.findMany({
+    include: { _count: { select: { inventoryTransactions: true } } },
+  })
+
+  let created = 0
+  for (const part of parts) {
+    if (part._count.inventoryTransactions > 0) continue
+    const boxes = part.onHandBoxes
+    await prisma.inventoryTransaction.create({
+      data: {
+        partId: part.id,
+        type: 'ADJUSTMENT',
+        boxes,
+        reference: 'Opening balance',
+        notes: 'On-hand boxes at ledger start',
+      },
+    })
+    created++
+    console.log(`✓ ${part.partNumber} → opening balance ${boxes} boxes`)
+  }
+
+  console.log(`Done. Created ${created} opening balance(s) for ${parts.length} parts.`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,41 @@
+/**
+ * One-off: give every lot with boxes left a LotStock row at the location it
+ * was put away (the default location when it has none). Transfers made before
+ * lots tracked location didn't move them, so check lots for parts that have
+ * been transferred.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/backfill-lot-stock.ts
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const defaultLocation =
+    (await prisma.stockLocation.findFirst({ where: { isDefault: true } })) ??
+    (await prisma.stockLocation.findFirst({ orderBy: { createdAt: 'asc' } }))
+  if (!defaultLocation) {
+    throw new Error('No stock location is set up')
+  }
+
+  const lots = await prisma.production.findMany({
+    where: { remainingBoxes: { gt: 0 }, stock: { none: {} } },
+    select: { id: true, lotNumber: true, remainingBoxes: true, stockLocationId: true },
+  })
+
+  for (const lot of lots) {
+    const stockLocationId = lot.stockLocationId ?? defaultLocation.id
+    await prisma.lotStock.create({
+      data: { productionId: lot.id, stockLocationId, remainingBoxes: lot.remainingBoxes },
+    })
+    console.log(`✓ ${lot.lotNumber ?? lot.id}: ${lot.remainingBoxes} boxes`)
+  }
+
+  console.log(`Done. Backfilled ${lots.length} lot(s).`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,40 @@
+/**
+ * One-off: create line 1 for releases created before ReleaseLine existed.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/backfill-release-lines.ts
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const releases = await prisma.release.findMany({
+    include: { part: true, lines: true },
+  })
+
+  let created = 0
+  for (const release of releases) {
+    if (release.lines.length > 0) continue
+    await prisma.releaseLine.create({
+      data: {
+        releaseId: release.id,
+        lineNumber: 1,
+        partId: release.partId,
+        pallets: release.pallets,
+        boxes: release.boxes,
+        totalUnits: release.totalUnits,
+        unitPrice: release.part.pricePerUnit,
+      },
+    })
+    created++
+    console.log(`✓ ${release.releaseNumber} → line 1 (${release.part.partNumber}, ${release.pallets} skids)`)
+  }
+
+  console.log(`Done. Created ${created} line(s) for ${releases.length} releases.`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,40 @@
+/**
+ * One-off: fold Part.currentPallets/currentBoxes into Part.onHandBoxes.
+ * Run BEFORE `prisma db push` drops the old columns:
+ *   DATABASE_URL=<prod> npx tsx scripts/migrate-on-hand-boxes.ts
+ *   DATABASE_URL=<prod> npx prisma db push --accept-data-loss
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  await prisma.$executeRawUnsafe(
+    `ALTER TABLE "Part" ADD COLUMN IF NOT EXISTS "onHandBoxes" INTEGER NOT NULL DEFAULT 0`,
+  )
+
+  const parts = await prisma.$queryRawUnsafe<
+    Array<{ partNumber: string; currentPallets: number; currentBoxes: number; boxesPerPallet: number }>
+  >(`SELECT "partNumber", "currentPallets", "currentBoxes", "boxesPerPallet" FROM "Part"`)
+
+  for (const part of parts) {
+    const onHandBoxes = part.currentPallets * part.boxesPerPallet + part.currentBoxes
+    await prisma.$executeRawUnsafe(
+      `UPDATE "Part" SET "onHandBoxes" = $1 WHERE "partNumber" = $2`,
+      onHandBoxes,
+      part.partNumber,
+    )
+    console.log(
+      `✓ ${part.partNumber}: ${part.currentPallets} pallets + ${part.currentBoxes} boxes → ${onHandBoxes} boxes`,
+    )
+  }
+
+  console.log(`Done. Migrated ${parts.length} part(s).`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,81 @@
+/**
+ * One-off: releases used to take stock off on-hand when they were created; they
+ * now only reserve it until their shipments are marked shipped. For every
+ * release that hasn't fully shipped, put its unshipped boxes back on hand at
+ * its stock location (ledger ADJUSTMENT) and reserve them. Run once, right
+ * after the schema push that adds reservedBoxes.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/migrate-reservations.ts [--dry-run]
+ */
+import { PrismaClient } from '@prisma/client'
+import { applyInventoryChange, changeReservation } from '../lib/inventory/stock'
+import { lineTotalBoxes, releaseLinesInclude, releaseLinesOf } from '../lib/releases/lines'
+import { shipmentPartBoxes } from '../lib/shipments/inventory'
+
+const prisma = new PrismaClient()
+const dryRun = process.argv.includes('--dry-run')
+
+async function main() {
+  const alreadyReserved = await prisma.part.count({ where: { reservedBoxes: { gt: 0 } } })
+  if (alreadyReserved > 0) {
+    throw new Error(`${alreadyReserved} parts already have reserved stock — already migrated?`)
+  }
+
+  const releases = await prisma.release.findMany({
+    where: { status: { not: 'SHIPPED' } },
+    include: { part: true, lines: releaseLinesInclude, shipments: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  let migrated = 0
+  for (const release of releases) {
+    const shipped = release.shipments.filter((s) => s.status === 'SHIPPED')
+    const shippedBoxes = new Map(
+      shipped.length > 0
+        ? shipmentPartBoxes(release, shipped, release.shipments).map((p) => [p.partId, p.boxes])
+        : [],
+    )
+
+    const pending = releaseLinesOf(release)
+      .map((line) => ({
+        partId: line.partId,
+        partNumber: line.part.partNumber,
+        boxes: lineTotalBoxes(line) - (shippedBoxes.get(line.partId) ?? 0),
+      }))
+      .filter((p) => p.boxes > 0)
+    if (pending.length === 0) continue
+
+    for (const p of pending) {
+      console.log(`${dryRun ? '[dry run] ' : ''}✓ ${release.releaseNumber} ${p.partNumber}: ${p.boxes} boxes reserved`)
+    }
+    if (dryRun) continue
+
+    await prisma.$transaction(async (tx) => {
+      for (const p of pending) {
+        await applyInventoryChange(tx, {
+          partId: p.partId,
+          type: 'ADJUSTMENT',
+          boxes: p.boxes,
+          releaseId: release.id,
+          stockLocationId: release.stockLocationId,
+          reference: release.releaseNumber,
+          notes: 'Unshipped release moved to reserved stock',
+        })
+        await changeReservation(tx, {
+          partId: p.partId,
+          boxes: p.boxes,
+          stockLocationId: release.stockLocationId,
+        })
+      }
+    })
+    migrated++
+  }
+
+  console.log(`Done. ${dryRun ? 'Would reserve' : 'Reserved'} stock for ${migrated} of ${releases.length} unshipped releases.`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
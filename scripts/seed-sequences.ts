@@ -0,0 +1,45 @@
+/**
+ * One-off: start the release/ticket counters after the highest number already
+ * issued, so the Sequence table picks up where release.count() left off.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/seed-sequences.ts
+ */
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+function trailingNumber(value: string | null): number {
+  const match = value?.match(/(\d+)$/)
+  return match ? parseInt(match[1], 10) : 0
+}
+
+async function main() {
+  const releases = await prisma.release.findMany({
+    select: { releaseNumber: true, ticketNumber: true },
+  })
+
+  const seeds = {
+    release: Math.max(releases.length, ...releases.map((r) => trailingNumber(r.releaseNumber))),
+    ticket: Math.max(releases.length, ...releases.map((r) => trailingNumber(r.ticketNumber))),
+  }
+
+  for (const [name, value] of Object.entries(seeds)) {
+    const existing = await prisma.sequence.findUnique({ where: { name } })
+    if (existing && existing.value >= value) {
+      console.log(`- ${name}: already at ${existing.value}, leaving as is`)
+      continue
+    }
+    await prisma.sequence.upsert({
+      where: { name },
+      create: { name, value },
+      update: { value },
+    })
+    console.log(`✓ ${name} → ${value}`)
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,61 @@
+/**
+ * One-off: create the JD Elk Grove stock location (the default) and move each
+ * part's existing on-hand boxes into it, so per-location stock starts in step
+ * with Part.onHandBoxes. Pass --location=<code> to put existing stock at
+ * another location that already exists instead.
+ * Usage: DATABASE_URL=<prod> npx tsx scripts/seed-stock-locations.ts [--location=THREEZ]
+ */
+import { PrismaClient } from '@prisma/client'
+import { JD_SHIP_FROM } from '../lib/epg'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const jdElkGrove = await prisma.stockLocation.upsert({
+    where: { code: 'JD_ELK_GROVE' },
+    update: {},
+    create: {
+      code: 'JD_ELK_GROVE',
+      name: JD_SHIP_FROM.name,
+      address: JD_SHIP_FROM.address,
+      city: JD_SHIP_FROM.city,
+      state: JD_SHIP_FROM.state,
+      zip: JD_SHIP_FROM.zip,
+      country: JD_SHIP_FROM.country,
+      phone: JD_SHIP_FROM.phone,
+      isDefault: (await prisma.stockLocation.count({ where: { isDefault: true } })) === 0,
+    },
+  })
+  console.log(`✓ ${jdElkGrove.code} (${jdElkGrove.isDefault ? 'default' : 'not default'})`)
+
+  const code = process.argv.find((a) => a.startsWith('--location='))?.split('=')[1]
+  const target = code
+    ? await prisma.stockLocation.findUnique({ where: { code } })
+    : jdElkGrove
+  if (!target) {
+    throw new Error(`Stock location ${code} not found`)
+  }
+
+  const parts = await prisma.part.findMany({
+    include: { _count: { select: { stock: true } } },
+  })
+
+  let moved = 0
+  for (const part of parts) {
+    if (part._count.stock > 0) continue
+    await prisma.partStock.create({
+      data: { partId: part.id, stockLocationId: target.id, onHandBoxes: part.onHandBoxes },
+    })
+    moved++
+    console.log(`✓ ${part.partNumber} → ${part.onHandBoxes} boxes at ${target.code}`)
+  }
+
+  console.log(`Done. Placed stock for ${moved} of ${parts.length} parts at ${target.code}.`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())